@@ -1,20 +1,46 @@
-import { useState, useCallback, useMemo, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import type { Feature } from "geojson";
 import { useLayers } from "@/hooks/use-layers";
 import { useAreas } from "@/hooks/use-areas";
 import { useMapStyle } from "@/hooks/use-map-style";
 import { useResizableSidebar } from "@/hooks/use-resizable-sidebar";
+import { useFileDrop } from "@/hooks/use-file-drop";
+import { routeDroppedFiles } from "@/lib/file-drop";
+import type { LayerReplacement, LayerReplacementAssignments } from "@/lib/layer-replacement";
+import { diffLayers } from "@/lib/layer-diff";
+import { findRecordedKeyFields } from "@/lib/feature-id-migration";
+import { createPropertyFilterMatcher } from "@/lib/property-filter-utils";
+import { createAreaDissolveCache, dissolveAreas, type DissolvedArea } from "@/lib/area-dissolve";
+import { getMaxAreaDepth } from "@/lib/area-join";
+import {
+  computeAreaStatistics,
+  createAreaStatisticsCache,
+  getNumericFieldNames,
+} from "@/lib/area-statistics";
+import type { LoadResult } from "@/types/layer";
+import type { DbfEncoding } from "@/lib/dbf-encoding";
 import { MapView } from "@/components/map/map-view";
 import { GeoJSONLayer } from "@/components/map/geojson-layer";
 import { FeatureInfoPanel } from "@/components/map/feature-info-panel";
+import { LayerDiffLayer } from "@/components/map/layer-diff-layer";
+import { AreaOutlineLayer } from "@/components/map/area-outline-layer";
 import { LayerPanel } from "@/components/app/layer-panel";
 import { AreaPanel } from "@/components/app/area-panel";
+import { ComparisonPanel, type LayerComparison } from "@/components/app/comparison-panel";
 import { PrefectureSelector } from "@/components/app/prefecture-selector";
+import { DropOverlay } from "@/components/app/drop-overlay";
 import { FeatureSelector } from "@/components/area/feature-selector";
+import { ProjectReconciliation } from "@/components/area/project-reconciliation";
+import { AreaOutlineToggle } from "@/components/area/area-outline-toggle";
 import { GlobalLayerFilter } from "@/components/layer/global-layer-filter";
+import { LoadResultList } from "@/components/layer/load-result-list";
+import { LayerReplacementDiff } from "@/components/layer/layer-replacement-diff";
 import { Button } from "@/components/ui/button";
 
-type TabType = "layers" | "areas";
+type TabType = "layers" | "areas" | "compare";
+
+/** エリアの境界を計算し直すまでの待ち時間 (ms) */
+const AREA_OUTLINE_DELAY = 300;
 
 interface SelectedFeatureState {
   layerId: string;
@@ -26,16 +52,33 @@ export function App() {
   const {
     layers,
     isLoading: isLayersLoading,
-    error: layersError,
+    loadResults,
+    loadProgress,
+    pendingGeoPackages,
+    pendingCsvFiles,
     globalFilter,
+    isLayerCacheEnabled,
+    layerCache,
     addLayerFromFiles,
+    loadGeoPackageTables,
+    cancelGeoPackageSelection,
+    rereadCsvFile,
+    loadCsvFile,
+    cancelCsvSelection,
     removeLayer,
     toggleLayer,
     setLayerColor,
     setLayerFilter,
+    setLayerKeyField,
+    setLayerEncoding,
+    replaceLayerData,
     setGlobalFilter,
+    downloadShapefile,
     reorderLayers,
+    cancelLoading,
+    clearLoadResults,
     clearAll: clearAllLayers,
+    setLayerCacheEnabled,
   } = useLayers();
 
   const {
@@ -50,6 +93,9 @@ export function App() {
     newProject,
     openProjectFromFile,
     downloadProject,
+    downloadKml,
+    downloadAreaJoin,
+    downloadDissolvedAreas,
     closeProject,
     addArea,
     removeArea,
@@ -58,6 +104,11 @@ export function App() {
     addFeatureToArea,
     removeFeatureFromArea,
     addFeaturesToArea,
+    migrateFeatureIds,
+    remapFeatureLayer,
+    removeFeatureIds,
+    remapFeatureIds,
+    applyLayerReplacement,
     getAreaById,
   } = useAreas();
 
@@ -67,10 +118,105 @@ export function App() {
   const [activeTab, setActiveTab] = useState<TabType>("layers");
   const [selectedFeatureState, setSelectedFeatureState] =
     useState<SelectedFeatureState | null>(null);
+  // ドロップしたファイルごとの結果 (地図上に表示)
+  const [dropResults, setDropResults] = useState<LoadResult[]>([]);
+  // キー列の変更に合わせてフィーチャーIDを書き換えた結果
+  const [featureIdNotice, setFeatureIdNotice] = useState<string | null>(null);
+  // プロジェクトとレイヤーの照合結果を表示するか (プロジェクトを開いたときに表示)
+  const [isReconciliationExpanded, setIsReconciliationExpanded] = useState(false);
+  // データを置き換えるレイヤーと、置き換えた結果
+  const [replacingLayerId, setReplacingLayerId] = useState<string | null>(null);
+  const [layerReplacement, setLayerReplacement] = useState<{
+    replacement: LayerReplacement;
+    assignments: LayerReplacementAssignments | null;
+  } | null>(null);
+  // 比較する 2 つのレイヤーと、一覧で選択中の変更
+  const [comparison, setComparison] = useState<LayerComparison>({
+    oldLayerId: null,
+    newLayerId: null,
+  });
+  const [focusedChangeIndex, setFocusedChangeIndex] = useState<number | null>(null);
+  // エリアの境界線を地図に表示するか (表示している間だけ境界を計算する)
+  const [isAreaOutlineVisible, setIsAreaOutlineVisible] = useState(false);
+  // 境界線を表示しないエリアの階層
+  const [hiddenOutlineLevels, setHiddenOutlineLevels] = useState<number[]>([]);
+  // 計算したエリアの境界 (境界線を表示していない場合は null)
+  const [dissolvedAreas, setDissolvedAreas] = useState<DissolvedArea[] | null>(null);
+  // エリアの統計で集計する数値の列
+  const [statisticsFields, setStatisticsFields] = useState<string[]>([]);
 
   // File input refs
   const shapefileInputRef = useRef<HTMLInputElement>(null);
   const projectInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  // エリアの結合結果 (変更のないエリアは再計算しない)
+  const dissolveCacheRef = useRef(createAreaDissolveCache());
+  // エリアの統計 (割り当てが変わっていないエリアは集計し直さない)
+  const statisticsCacheRef = useRef(createAreaStatisticsCache());
+
+  // レイヤーのキー列とプロジェクトのフィーチャーIDの形式を揃える
+  // プロジェクトに記録したキー列は、キー列のないレイヤーに設定し直す (インデックス形式には戻さない)
+  useEffect(() => {
+    if (project) {
+      const recordedKeyFields = findRecordedKeyFields(project, layers);
+      for (const { layerId, keyField } of recordedKeyFields) {
+        setLayerKeyField(layerId, keyField);
+      }
+      if (recordedKeyFields.length > 0) return;
+    }
+    const notice = migrateFeatureIds(layers);
+    if (notice) setFeatureIdNotice(notice);
+  }, [project, migrateFeatureIds, setLayerKeyField, layers]);
+
+  // 比較結果 (比較タブを開いていて、異なる 2 つのレイヤーを選んでいる場合のみ計算)
+  // 表示の切り替えなどデータ以外の変更では計算し直さない
+  const oldComparisonLayer = layers.find((l) => l.id === comparison.oldLayerId);
+  const newComparisonLayer = layers.find((l) => l.id === comparison.newLayerId);
+  const oldComparisonGeoJson = oldComparisonLayer?.geojson;
+  const newComparisonGeoJson = newComparisonLayer?.geojson;
+  const comparisonDiff = useMemo(() => {
+    if (activeTab !== "compare" || !oldComparisonGeoJson || !newComparisonGeoJson) return null;
+    if (oldComparisonGeoJson === newComparisonGeoJson) return null;
+    return diffLayers(
+      { geojson: oldComparisonGeoJson },
+      { geojson: newComparisonGeoJson },
+      comparison.keyField
+    );
+  }, [activeTab, oldComparisonGeoJson, newComparisonGeoJson, comparison.keyField]);
+  const layerDiff = useMemo(() => {
+    if (!comparisonDiff || !oldComparisonLayer || !newComparisonLayer) return null;
+    return { oldLayer: oldComparisonLayer, newLayer: newComparisonLayer, diff: comparisonDiff };
+  }, [comparisonDiff, oldComparisonLayer, newComparisonLayer]);
+
+  // エリアの境界 (エリアタブで境界線を表示している場合のみ、割り当ての変更が落ち着いてから計算)
+  const areas = project?.areas;
+  const isAreaOutlineEnabled = activeTab === "areas" && isAreaOutlineVisible;
+  useEffect(() => {
+    if (!isAreaOutlineEnabled || !areas) {
+      setDissolvedAreas(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setDissolvedAreas(dissolveAreas(areas, layers, dissolveCacheRef.current));
+    }, AREA_OUTLINE_DELAY);
+    return () => clearTimeout(timer);
+  }, [isAreaOutlineEnabled, areas, layers]);
+  const maxAreaLevel = useMemo(() => (areas ? getMaxAreaDepth(areas) : 0), [areas]);
+
+  // エリアの統計 (エリアタブを開いている場合のみ計算、割り当ての変更に合わせて更新)
+  const numericFieldNames = useMemo(
+    () => (activeTab === "areas" ? getNumericFieldNames(layers) : []),
+    [activeTab, layers]
+  );
+  const areaStatistics = useMemo(() => {
+    if (activeTab !== "areas" || !areas) return null;
+    return computeAreaStatistics(areas, layers, statisticsFields, statisticsCacheRef.current);
+  }, [activeTab, areas, layers, statisticsFields]);
+
+  const handleComparisonChange = useCallback((next: LayerComparison) => {
+    setComparison(next);
+    setFocusedChangeIndex(null);
+  }, []);
 
   // 選択中エリアに属するフィーチャーIDのSet
   const selectedAreaFeatureIds = useMemo(() => {
@@ -84,12 +230,8 @@ export function App() {
   const getFilteredFeatures = useCallback(
     (layer: (typeof layers)[number]) => {
       if (!layer.filter?.enabled) return layer.geojson.features;
-      const { key, values } = layer.filter;
-      return layer.geojson.features.filter((f) => {
-        const value = f.properties?.[key];
-        if (value === null || value === undefined) return false;
-        return values.includes(String(value));
-      });
+      const matches = createPropertyFilterMatcher(layer.filter);
+      return layer.geojson.features.filter((f) => matches(f.properties));
     },
     []
   );
@@ -111,19 +253,116 @@ export function App() {
   const handleProjectFileChange = useCallback(
     async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (file) {
-        await openProjectFromFile(file);
+      if (file && (await openProjectFromFile(file))) {
+        setIsReconciliationExpanded(true);
       }
       e.target.value = "";
     },
     [openProjectFromFile]
   );
 
+  // 文字コードを変えて読み直し、キー列の値が変わったフィーチャーIDを書き換える
+  const handleSetLayerEncoding = useCallback(
+    async (id: string, encoding: DbfEncoding) => {
+      const mapping = await setLayerEncoding(id, encoding);
+      if (mapping) remapFeatureIds(mapping);
+    },
+    [setLayerEncoding, remapFeatureIds]
+  );
+
+  // プロジェクトがキーの値で参照しているレイヤーのキー列は外せない
+  const handleSetLayerKeyField = useCallback(
+    (id: string, keyField: string | undefined) => {
+      const recorded = project?.featureKeyFields?.[id];
+      if (!keyField && recorded) {
+        return `プロジェクトがキー列 ${recorded} でフィーチャーを参照しているため、キー列を外せません`;
+      }
+      return setLayerKeyField(id, keyField);
+    },
+    [project, setLayerKeyField]
+  );
+
+  // 置き換え用のファイルを読み込み、エリアの割り当てを新しいデータに移す
+  const handleReplaceFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files ? Array.from(e.target.files) : [];
+      e.target.value = "";
+      if (!replacingLayerId || files.length === 0) return;
+
+      const replacement = await replaceLayerData(replacingLayerId, files);
+      setReplacingLayerId(null);
+      if (replacement) {
+        setLayerReplacement({ replacement, assignments: applyLayerReplacement(replacement) });
+      }
+    },
+    [replacingLayerId, replaceLayerData, applyLayerReplacement]
+  );
+
+  // ドロップされたファイルをレイヤーとプロジェクトに振り分けて読み込む
+  const handleDropFiles = useCallback(
+    async (files: File[]) => {
+      if (isLayersLoading) {
+        setDropResults(
+          files.map((file) => ({
+            fileName: file.name,
+            status: "warning",
+            message: "読み込み中のため無視しました",
+          }))
+        );
+        return;
+      }
+      setDropResults([]);
+
+      const { layerFiles, projectFiles } = await routeDroppedFiles(files);
+      const results: LoadResult[] = [];
+
+      // プロジェクトは 1 つだけ開く
+      const [projectFile, ...extraProjects] = projectFiles;
+      if (projectFile) {
+        const opened = await openProjectFromFile(projectFile);
+        results.push(
+          opened
+            ? { fileName: projectFile.name, status: "success", message: "プロジェクトを開きました" }
+            : { fileName: projectFile.name, status: "error", message: "プロジェクトを開けません" }
+        );
+        if (opened) {
+          setIsReconciliationExpanded(true);
+        }
+        if (opened && layerFiles.length === 0) {
+          setActiveTab("areas");
+        }
+      }
+      results.push(
+        ...extraProjects.map((file) => ({
+          fileName: file.name,
+          status: "warning" as const,
+          message: "プロジェクトは 1 つずつ開いてください (開きません)",
+        }))
+      );
+
+      if (layerFiles.length > 0) {
+        results.push(...(await addLayerFromFiles(layerFiles)));
+        // ドロップしたファイルの結果は地図上にまとめて表示する (レイヤーパネルには重ねて表示しない)
+        clearLoadResults();
+      }
+      setDropResults(results);
+    },
+    [isLayersLoading, openProjectFromFile, addLayerFromFiles, clearLoadResults]
+  );
+
+  const { isDragging, dropHandlers } = useFileDrop(handleDropFiles);
+
   // Trigger file inputs
   const handleAddLayer = useCallback(() => {
     shapefileInputRef.current?.click();
   }, []);
 
+  const handleReplaceLayerData = useCallback((id: string) => {
+    setReplacingLayerId(id);
+    setLayerReplacement(null);
+    replaceInputRef.current?.click();
+  }, []);
+
   const handleOpenProject = useCallback(() => {
     projectInputRef.current?.click();
   }, []);
@@ -190,15 +429,17 @@ export function App() {
     setSelectedFeatureState(null);
   };
 
-  const error = layersError || areasError;
+  const error = areasError;
 
   return (
-    <div className="flex h-screen">
+    <div className="flex h-screen" {...dropHandlers}>
+      {isDragging && <DropOverlay />}
+
       {/* Hidden file inputs */}
       <input
         ref={shapefileInputRef}
         type="file"
-        accept=".shp,.dbf,.shx"
+        accept=".shp,.dbf,.shx,.prj,.cpg,.zip,.geojson,.json,.topojson,.ndjson,.geojsonl,.kml,.kmz,.gpkg,.csv,.tsv"
         multiple
         onChange={handleShapefileChange}
         className="hidden"
@@ -210,6 +451,14 @@ export function App() {
         onChange={handleProjectFileChange}
         className="hidden"
       />
+      <input
+        ref={replaceInputRef}
+        type="file"
+        accept=".shp,.dbf,.shx,.prj,.cpg,.zip,.geojson,.json,.topojson,.ndjson,.geojsonl,.kml,.kmz"
+        multiple
+        onChange={handleReplaceFileChange}
+        className="hidden"
+      />
 
       {/* Sidebar */}
       <aside
@@ -260,6 +509,14 @@ export function App() {
           >
             エリア
           </Button>
+          <Button
+            variant={activeTab === "compare" ? "default" : "ghost"}
+            size="sm"
+            className="flex-1"
+            onClick={() => setActiveTab("compare")}
+          >
+            比較
+          </Button>
         </div>
 
         {/* Layer panel */}
@@ -267,22 +524,50 @@ export function App() {
           <>
             <LayerPanel
               layers={layers}
+              globalFilter={globalFilter}
               isLoading={isLayersLoading}
+              loadResults={loadResults}
+              loadProgress={loadProgress}
+              pendingGeoPackages={pendingGeoPackages}
+              pendingCsvFiles={pendingCsvFiles}
+              isLayerCacheEnabled={isLayerCacheEnabled}
+              layerCache={layerCache}
               onAddLayer={handleAddLayer}
+              onCancelLoading={cancelLoading}
+              onLoadGeoPackageTables={loadGeoPackageTables}
+              onCancelGeoPackageSelection={cancelGeoPackageSelection}
+              onRereadCsvFile={rereadCsvFile}
+              onLoadCsvFile={loadCsvFile}
+              onCancelCsvSelection={cancelCsvSelection}
+              onDismissLoadResults={clearLoadResults}
               onRemoveLayer={removeLayer}
               onToggleLayer={toggleLayer}
               onSetLayerColor={setLayerColor}
               onSetLayerFilter={setLayerFilter}
+              onSetLayerKeyField={handleSetLayerKeyField}
+              onSetLayerEncoding={handleSetLayerEncoding}
+              onReplaceLayerData={handleReplaceLayerData}
+              onDownloadShapefile={downloadShapefile}
               onMoveUp={handleMoveUp}
               onMoveDown={handleMoveDown}
               onClearAll={handleClearAll}
+              onSetLayerCacheEnabled={setLayerCacheEnabled}
             />
 
+            {layerReplacement && (
+              <LayerReplacementDiff
+                replacement={layerReplacement.replacement}
+                assignments={layerReplacement.assignments}
+                onDismiss={() => setLayerReplacement(null)}
+              />
+            )}
+
             <GlobalLayerFilter
               layers={layers}
               globalFilter={globalFilter}
               onSetGlobalFilter={setGlobalFilter}
               getFilteredFeatures={getFilteredFeatures}
+              onDownloadShapefile={downloadShapefile}
             />
           </>
         )}
@@ -297,9 +582,17 @@ export function App() {
               areaTree={areaTree}
               selectedAreaId={selectedAreaId}
               isLoading={isAreasLoading}
+              layers={layers}
               onNewProject={newProject}
               onOpenProject={handleOpenProject}
               onDownloadProject={() => downloadProject(layers)}
+              onDownloadKml={() => downloadKml(layers)}
+              onDownloadAreaJoin={downloadAreaJoin}
+              onDownloadDissolvedAreas={downloadDissolvedAreas}
+              statistics={areaStatistics}
+              numericFieldNames={numericFieldNames}
+              statisticsFields={statisticsFields}
+              onStatisticsFieldsChange={setStatisticsFields}
               onCloseProject={closeProject}
               onAddArea={addArea}
               onRemoveArea={removeArea}
@@ -307,6 +600,42 @@ export function App() {
               onSelectArea={selectArea}
             />
 
+            {project && (
+              <AreaOutlineToggle
+                maxLevel={maxAreaLevel}
+                isVisible={isAreaOutlineVisible}
+                onVisibleChange={setIsAreaOutlineVisible}
+                hiddenLevels={hiddenOutlineLevels}
+                onHiddenLevelsChange={setHiddenOutlineLevels}
+              />
+            )}
+
+            {project && (
+              <ProjectReconciliation
+                project={project}
+                layers={layers}
+                expanded={isReconciliationExpanded}
+                onExpandedChange={setIsReconciliationExpanded}
+                onLoadFiles={handleAddLayer}
+                onRemapLayer={remapFeatureLayer}
+                onRemoveFeatureIds={removeFeatureIds}
+              />
+            )}
+
+            {featureIdNotice && (
+              <div className="flex items-start gap-2 text-xs text-muted-foreground px-2">
+                <p className="flex-1">{featureIdNotice}</p>
+                <button
+                  type="button"
+                  onClick={() => setFeatureIdNotice(null)}
+                  className="hover:text-foreground"
+                  aria-label="閉じる"
+                >
+                  ×
+                </button>
+              </div>
+            )}
+
             <FeatureSelector
               layers={layers}
               selectedAreaId={selectedAreaId}
@@ -319,6 +648,18 @@ export function App() {
           </>
         )}
 
+        {/* Comparison panel */}
+        {activeTab === "compare" && (
+          <ComparisonPanel
+            layers={layers}
+            comparison={comparison}
+            diff={layerDiff?.diff ?? null}
+            focusedIndex={focusedChangeIndex}
+            onComparisonChange={handleComparisonChange}
+            onFocusChange={setFocusedChangeIndex}
+          />
+        )}
+
         {error && (
           <p className="text-xs text-destructive px-2">エラー: {error}</p>
         )}
@@ -335,9 +676,10 @@ export function App() {
             .reverse()
             .map((layer, _index, visibleLayers) => (
               <GeoJSONLayer
-                key={`${layer.id}-${layer.color}`}
+                key={`${layer.id}-${layer.color}-${layer.keyField ?? ""}`}
                 layerId={layer.id}
                 data={layer.geojson}
+                keyField={layer.keyField}
                 color={layer.color}
                 onFeatureClick={handleFeatureClick(layer.id)}
                 selectedFeatureIndex={
@@ -356,8 +698,27 @@ export function App() {
                 globalFilter={globalFilter}
               />
             ))}
+          {dissolvedAreas && (
+            <AreaOutlineLayer dissolved={dissolvedAreas} hiddenLevels={hiddenOutlineLevels} />
+          )}
+          {layerDiff && (
+            <LayerDiffLayer
+              diff={layerDiff.diff}
+              oldLayer={layerDiff.oldLayer}
+              newLayer={layerDiff.newLayer}
+              focusedIndex={focusedChangeIndex}
+              onChangeClick={setFocusedChangeIndex}
+            />
+          )}
         </MapView>
 
+        {/* Drop results */}
+        {dropResults.length > 0 && (
+          <div className="absolute bottom-4 left-4 z-[1000] w-80 bg-background rounded-md shadow-lg">
+            <LoadResultList results={dropResults} onDismiss={() => setDropResults([])} />
+          </div>
+        )}
+
         {/* Selection mode indicator */}
         {activeTab === "areas" && selectedAreaId && (
           <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-primary text-primary-foreground px-4 py-2 rounded-lg shadow-lg text-sm">
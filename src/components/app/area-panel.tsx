@@ -8,7 +8,15 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import type { Layer } from "@/types/layer";
+import type { AreaJoinFormat, AreaJoinOptions } from "@/lib/area-join";
+import type { DissolvedArea, DissolvedAreaFormat } from "@/lib/area-dissolve";
+import type { AreaStatistics } from "@/lib/area-statistics";
+import type { ExportEncoding } from "@/lib/text-encoder";
 import { AreaTreeView } from "@/components/area/area-tree-view";
+import { AreaJoinExport } from "@/components/area/area-join-export";
+import { AreaDissolveReport } from "@/components/area/area-dissolve-report";
+import { AreaStatisticsTable } from "@/components/area/area-statistics-table";
 
 interface AreaPanelProps {
   project: AreaProject | null;
@@ -17,9 +25,29 @@ interface AreaPanelProps {
   areaTree: AreaWithChildren[];
   selectedAreaId: string | null;
   isLoading: boolean;
+  layers: Layer[];
   onNewProject: (name: string) => void;
   onOpenProject: () => void;
   onDownloadProject: () => void;
+  onDownloadKml: () => void;
+  onDownloadAreaJoin: (
+    layer: Layer,
+    options: AreaJoinOptions,
+    format: AreaJoinFormat,
+    encoding: ExportEncoding
+  ) => number | null;
+  onDownloadDissolvedAreas: (
+    dissolved: DissolvedArea[],
+    format: DissolvedAreaFormat,
+    encoding: ExportEncoding
+  ) => void;
+  /** エリアの統計 (エリアID -> 統計) */
+  statistics: Map<string, AreaStatistics> | null;
+  /** 集計できる数値の列 */
+  numericFieldNames: string[];
+  /** 集計する数値の列 */
+  statisticsFields: string[];
+  onStatisticsFieldsChange: (fields: string[]) => void;
   onCloseProject: () => void;
   onAddArea: (name: string, parentId?: string | null) => void;
   onRemoveArea: (id: string) => void;
@@ -34,9 +62,17 @@ export function AreaPanel({
   areaTree,
   selectedAreaId,
   isLoading,
+  layers,
   onNewProject,
   onOpenProject,
   onDownloadProject,
+  onDownloadKml,
+  onDownloadAreaJoin,
+  onDownloadDissolvedAreas,
+  statistics,
+  numericFieldNames,
+  statisticsFields,
+  onStatisticsFieldsChange,
   onCloseProject,
   onAddArea,
   onRemoveArea,
@@ -48,6 +84,8 @@ export function AreaPanel({
   const [addAsChildOf, setAddAsChildOf] = useState<string | null>(null);
   const [showNewProject, setShowNewProject] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
+  // 開いているツール (属性への結合・ディゾルブ・統計)
+  const [openTool, setOpenTool] = useState<"join" | "dissolve" | "statistics" | null>(null);
 
   const handleAddArea = () => {
     if (newAreaName.trim()) {
@@ -167,15 +205,79 @@ export function AreaPanel({
 
         {project && (
           <>
-            {/* Close button */}
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={onCloseProject}
-              className="w-full text-muted-foreground"
-            >
-              プロジェクトを閉じる
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onDownloadKml}
+                disabled={isLoading}
+                className="flex-1"
+                title="エリアを KML (Google Earth 形式) で出力"
+              >
+                KML 出力
+              </Button>
+              {/* Close button */}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onCloseProject}
+                className="flex-1 text-muted-foreground"
+              >
+                プロジェクトを閉じる
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={openTool === "join" ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setOpenTool(openTool === "join" ? null : "join")}
+                disabled={isLoading}
+                className="flex-1"
+                title="エリアの割り当てをレイヤーの属性列に結合して出力"
+              >
+                属性に結合
+              </Button>
+              <Button
+                variant={openTool === "dissolve" ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setOpenTool(openTool === "dissolve" ? null : "dissolve")}
+                disabled={isLoading}
+                className="flex-1"
+                title="エリアごとにフィーチャーを結合した境界を作成して出力"
+              >
+                ディゾルブ
+              </Button>
+              <Button
+                variant={openTool === "statistics" ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setOpenTool(openTool === "statistics" ? null : "statistics")}
+                disabled={isLoading}
+                className="flex-1"
+                title="エリアごとの面積・フィーチャー数・数値の列の集計を表示"
+              >
+                統計
+              </Button>
+            </div>
+
+            {openTool === "join" && (
+              <AreaJoinExport layers={layers} areas={project.areas} onExport={onDownloadAreaJoin} />
+            )}
+            {openTool === "dissolve" && (
+              <AreaDissolveReport
+                areas={project.areas}
+                layers={layers}
+                onExport={onDownloadDissolvedAreas}
+              />
+            )}
+            {openTool === "statistics" && statistics && (
+              <AreaStatisticsTable
+                areas={project.areas}
+                statistics={statistics}
+                numericFields={numericFieldNames}
+                fields={statisticsFields}
+                onFieldsChange={onStatisticsFieldsChange}
+              />
+            )}
 
             {/* Area tree */}
             <div className="border rounded-md p-1">
@@ -186,6 +288,8 @@ export function AreaPanel({
                 onAddChild={handleAddChild}
                 onRemoveArea={onRemoveArea}
                 onUpdateArea={onUpdateArea}
+                statistics={statistics ?? undefined}
+                statisticsFields={statisticsFields}
               />
             </div>
 
@@ -0,0 +1,244 @@
+import { useMemo, useState } from "react";
+import type { Feature } from "geojson";
+import { generateFeatureName, type Layer } from "@/types/layer";
+import { getAvailablePropertyKeys } from "@/lib/property-filter-utils";
+import { getChangedFeature, type FeatureChangeType, type LayerDiff } from "@/lib/layer-diff";
+import { DIFF_COLORS } from "@/lib/color-palette";
+
+/**
+ * 比較する 2 つのレイヤーと対応付けに使うキー列
+ */
+export interface LayerComparison {
+  oldLayerId: string | null;
+  newLayerId: string | null;
+  /** 未指定の場合はジオメトリで対応付ける */
+  keyField?: string;
+}
+
+interface ComparisonPanelProps {
+  layers: Layer[];
+  comparison: LayerComparison;
+  /** 比較結果 (レイヤーを選んでいない場合は null) */
+  diff: LayerDiff | null;
+  focusedIndex: number | null;
+  onComparisonChange: (comparison: LayerComparison) => void;
+  onFocusChange: (index: number) => void;
+}
+
+// 一覧に表示する件数
+const MAX_LISTED_CHANGES = 200;
+
+const CHANGE_LABELS: Record<FeatureChangeType, string> = {
+  added: "追加",
+  removed: "削除",
+  geometry: "形状変更",
+  attributes: "属性変更",
+};
+
+function featureLabel(feature: Feature, index: number): string {
+  return (
+    generateFeatureName(feature.properties as Record<string, unknown> | null) || `#${index + 1}`
+  );
+}
+
+function formatValue(value: string | null): string {
+  return value === null ? "(なし)" : value === "" ? "(空)" : value;
+}
+
+/**
+ * 同じデータの 2 つのバージョン (レイヤー) の比較
+ * 追加・削除・ジオメトリの変更・属性の変更を一覧にし、選ぶと地図をその位置へ移動する
+ */
+export function ComparisonPanel({
+  layers,
+  comparison,
+  diff,
+  focusedIndex,
+  onComparisonChange,
+  onFocusChange,
+}: ComparisonPanelProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const oldLayer = layers.find((l) => l.id === comparison.oldLayerId) ?? null;
+  const newLayer = layers.find((l) => l.id === comparison.newLayerId) ?? null;
+
+  // 両方のレイヤーにある属性だけをキー列の候補にする
+  const commonKeys = useMemo(() => {
+    if (!oldLayer || !newLayer) return [];
+    const newKeys = new Set(getAvailablePropertyKeys(newLayer.geojson.features));
+    return getAvailablePropertyKeys(oldLayer.geojson.features).filter((key) => newKeys.has(key));
+  }, [oldLayer, newLayer]);
+
+  const counts = useMemo(() => {
+    const counts: Record<FeatureChangeType, number> = {
+      added: 0,
+      removed: 0,
+      geometry: 0,
+      attributes: 0,
+    };
+    for (const change of diff?.changes ?? []) counts[change.type]++;
+    return counts;
+  }, [diff]);
+
+  const layerSelect = (
+    id: string,
+    label: string,
+    value: string | null,
+    key: "oldLayerId" | "newLayerId"
+  ) => (
+    <div className="flex items-center gap-1">
+      <label htmlFor={id} className="w-12 flex-shrink-0">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value ?? ""}
+        onChange={(e) => {
+          const layerId = e.target.value || null;
+          const keyField = layers.find((l) => l.id === layerId)?.keyField;
+          onComparisonChange({
+            ...comparison,
+            [key]: layerId,
+            keyField: comparison.keyField ?? keyField,
+          });
+        }}
+        className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+      >
+        <option value="">(選択)</option>
+        {layers.map((layer) => (
+          <option key={layer.id} value={layer.id}>
+            {layer.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  if (layers.length < 2) {
+    return (
+      <p className="text-xs text-muted-foreground px-2">
+        比較するには同じデータの 2 つのバージョンをレイヤーとして読み込んでください
+      </p>
+    );
+  }
+
+  return (
+    <div className="border rounded-md p-2 space-y-2 text-xs">
+      <div className="font-medium">レイヤーの比較</div>
+      <div className="space-y-1">
+        {layerSelect("comparison-old-layer", "旧", comparison.oldLayerId, "oldLayerId")}
+        {layerSelect("comparison-new-layer", "新", comparison.newLayerId, "newLayerId")}
+        <div className="flex items-center gap-1">
+          <label htmlFor="comparison-key-field" className="w-12 flex-shrink-0">
+            キー列
+          </label>
+          <select
+            id="comparison-key-field"
+            value={comparison.keyField ?? ""}
+            onChange={(e) =>
+              onComparisonChange({ ...comparison, keyField: e.target.value || undefined })
+            }
+            disabled={!oldLayer || !newLayer}
+            className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+          >
+            <option value="">(ジオメトリで対応付け)</option>
+            {commonKeys.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {diff && oldLayer && newLayer && (
+        <>
+          <div className="flex flex-wrap gap-x-3 gap-y-0.5">
+            {(Object.keys(CHANGE_LABELS) as FeatureChangeType[]).map((type) => (
+              <span key={type} className="flex items-center gap-1">
+                <span
+                  className="inline-block w-2.5 h-2.5 rounded-sm"
+                  style={{ backgroundColor: DIFF_COLORS[type] }}
+                />
+                {CHANGE_LABELS[type]} {counts[type].toLocaleString()}
+              </span>
+            ))}
+          </div>
+          <p className="text-muted-foreground">
+            {diff.method === "key"
+              ? `キー列 ${comparison.keyField} で対応付け`
+              : "ジオメトリで対応付け"}
+            : 変更なし {diff.unchangedCount.toLocaleString()} 件
+            {diff.unmatchedCount > 0 &&
+              `、対応付けできない ${diff.unmatchedCount.toLocaleString()} 件`}
+          </p>
+
+          {diff.changes.length > 0 && (
+            <ul className="max-h-80 overflow-auto border rounded divide-y">
+              {diff.changes.slice(0, MAX_LISTED_CHANGES).map((change, index) => {
+                const featureIndex = change.newIndex ?? change.oldIndex ?? 0;
+                const feature = getChangedFeature(change, oldLayer, newLayer);
+                const isExpanded = expandedIndex === index;
+                return (
+                  <li
+                    key={`${change.type}-${change.oldIndex}-${change.newIndex}`}
+                    className={index === focusedIndex ? "bg-accent" : undefined}
+                  >
+                    <div className="flex items-center gap-1 px-1 py-0.5">
+                      <button
+                        type="button"
+                        onClick={() => onFocusChange(index)}
+                        className="flex-1 min-w-0 flex items-center gap-1 text-left hover:underline"
+                        title="地図で表示"
+                      >
+                        <span
+                          className="inline-block w-2.5 h-2.5 rounded-sm flex-shrink-0"
+                          style={{ backgroundColor: DIFF_COLORS[change.type] }}
+                        />
+                        <span className="flex-shrink-0 text-muted-foreground">
+                          {CHANGE_LABELS[change.type]}
+                        </span>
+                        <span className="truncate">{featureLabel(feature, featureIndex)}</span>
+                      </button>
+                      {change.fieldChanges.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setExpandedIndex(isExpanded ? null : index)}
+                          className="flex-shrink-0 text-muted-foreground hover:text-foreground"
+                          aria-expanded={isExpanded}
+                        >
+                          {change.fieldChanges.length} 列 {isExpanded ? "▲" : "▼"}
+                        </button>
+                      )}
+                    </div>
+                    {isExpanded && (
+                      <table className="w-full mb-1">
+                        <tbody>
+                          {change.fieldChanges.map(({ field, oldValue, newValue }) => (
+                            <tr key={field} className="border-t">
+                              <td className="px-1 font-medium whitespace-nowrap">{field}</td>
+                              <td className="px-1 text-destructive line-through break-all">
+                                {formatValue(oldValue)}
+                              </td>
+                              <td className="px-1 text-green-600 break-all">
+                                {formatValue(newValue)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+              {diff.changes.length > MAX_LISTED_CHANGES && (
+                <li className="px-1 py-0.5 text-muted-foreground">
+                  他 {(diff.changes.length - MAX_LISTED_CHANGES).toLocaleString()} 件
+                </li>
+              )}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * ファイルをドラッグ中に画面全体に表示するオーバーレイ
+ * pointer-events を無効にして、ドロップ先の判定を下の要素に任せる
+ */
+export function DropOverlay() {
+  return (
+    <div className="fixed inset-0 z-[2000] pointer-events-none flex items-center justify-center bg-primary/10 border-4 border-dashed border-primary">
+      <div className="bg-background rounded-lg shadow-lg px-6 py-4 text-center space-y-1">
+        <p className="font-medium">ドロップして読み込む</p>
+        <p className="text-xs text-muted-foreground">
+          Shapefile・GeoJSON・KML・GeoPackage・CSV はレイヤーに、エリアプロジェクト (.json)
+          はプロジェクトとして開きます
+        </p>
+      </div>
+    </div>
+  );
+}
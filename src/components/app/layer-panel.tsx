@@ -1,6 +1,22 @@
 import { useState } from "react";
-import type { Layer, PropertyFilter } from "@/types/layer";
+import type {
+  CsvSelection,
+  GeoPackageSelection,
+  Layer,
+  LoadProgress,
+  LoadResult,
+  PropertyFilter,
+} from "@/types/layer";
 import { LAYER_COLORS } from "@/types/layer";
+import { DBF_ENCODINGS, type DbfEncoding, type EncodingSource } from "@/lib/dbf-encoding";
+import type { CsvGeometryMapping, CsvReadOptions } from "@/lib/csv-parser";
+import type { LayerCacheSummary } from "@/lib/layer-cache";
+import {
+  describePropertyFilterCondition,
+  getDisplayedFeatures,
+} from "@/lib/property-filter-utils";
+import type { ShapefileExport } from "@/lib/shapefile-writer";
+import type { ExportEncoding } from "@/lib/text-encoder";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,33 +26,92 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { LayerFilter } from "@/components/layer/layer-filter";
+import { GeoPackageTablePicker } from "@/components/layer/geopackage-table-picker";
+import { CsvImportDialog } from "@/components/layer/csv-import-dialog";
+import { LoadProgressBar } from "@/components/layer/load-progress-bar";
+import { LoadResultList } from "@/components/layer/load-result-list";
+import { LayerCacheStatus } from "@/components/layer/layer-cache-status";
+import { LayerKeyFieldSelect } from "@/components/layer/layer-key-field-select";
+import { LayerValidationReport } from "@/components/layer/layer-validation-report";
+import { ShapefileExportForm } from "@/components/layer/shapefile-export-form";
+
+// 文字コードの判定根拠の表示名
+const ENCODING_SOURCE_LABELS: Record<EncodingSource, string> = {
+  cpg: ".cpg",
+  ldid: "DBFヘッダー",
+  heuristic: "自動判定",
+  manual: "手動",
+};
 
 interface LayerPanelProps {
   layers: Layer[];
+  globalFilter: PropertyFilter | undefined;
   isLoading: boolean;
+  loadResults: LoadResult[];
+  loadProgress: LoadProgress | null;
+  pendingGeoPackages: GeoPackageSelection[];
+  pendingCsvFiles: CsvSelection[];
+  isLayerCacheEnabled: boolean;
+  layerCache: LayerCacheSummary | null;
   onAddLayer: () => void;
+  onCancelLoading: () => void;
+  onLoadGeoPackageTables: (file: File, tableNames: string[]) => void;
+  onCancelGeoPackageSelection: (file: File) => void;
+  onRereadCsvFile: (file: File, options: CsvReadOptions) => void;
+  onLoadCsvFile: (file: File, mapping: CsvGeometryMapping) => void;
+  onCancelCsvSelection: (file: File) => void;
+  onDismissLoadResults: () => void;
   onRemoveLayer: (id: string) => void;
   onToggleLayer: (id: string) => void;
   onSetLayerColor: (id: string, color: string) => void;
   onSetLayerFilter: (id: string, filter: PropertyFilter | undefined) => void;
+  onSetLayerKeyField: (id: string, keyField: string | undefined) => string | null;
+  onSetLayerEncoding: (id: string, encoding: DbfEncoding) => void;
+  onReplaceLayerData: (id: string) => void;
+  onDownloadShapefile: (
+    layerIds: string[],
+    encoding: ExportEncoding,
+    fileName: string
+  ) => ShapefileExport | null;
   onMoveUp: (index: number) => void;
   onMoveDown: (index: number) => void;
   onClearAll: () => void;
+  onSetLayerCacheEnabled: (enabled: boolean) => void;
 }
 
 export function LayerPanel({
   layers,
+  globalFilter,
   isLoading,
+  loadResults,
+  loadProgress,
+  pendingGeoPackages,
+  pendingCsvFiles,
+  isLayerCacheEnabled,
+  layerCache,
   onAddLayer,
+  onCancelLoading,
+  onLoadGeoPackageTables,
+  onCancelGeoPackageSelection,
+  onRereadCsvFile,
+  onLoadCsvFile,
+  onCancelCsvSelection,
+  onDismissLoadResults,
   onRemoveLayer,
   onToggleLayer,
   onSetLayerColor,
   onSetLayerFilter,
+  onSetLayerKeyField,
+  onSetLayerEncoding,
+  onReplaceLayerData,
+  onDownloadShapefile,
   onMoveUp,
   onMoveDown,
   onClearAll,
+  onSetLayerCacheEnabled,
 }: LayerPanelProps) {
   const [filterOpenLayerId, setFilterOpenLayerId] = useState<string | null>(null);
+  const [exportOpenLayerId, setExportOpenLayerId] = useState<string | null>(null);
 
   return (
     <Card>
@@ -55,6 +130,39 @@ export function LayerPanel({
           {isLoading ? "読み込み中..." : "レイヤーを追加"}
         </Button>
 
+        {loadProgress && (
+          <LoadProgressBar loadProgress={loadProgress} onCancel={onCancelLoading} />
+        )}
+
+        {pendingGeoPackages.length > 0 && !isLoading && (
+          <GeoPackageTablePicker
+            // ファイルごとに選択状態を初期化する
+            key={pendingGeoPackages[0].file.name}
+            selection={pendingGeoPackages[0]}
+            onLoad={onLoadGeoPackageTables}
+            onCancel={onCancelGeoPackageSelection}
+          />
+        )}
+
+        {pendingCsvFiles.length > 0 && !isLoading && (
+          <CsvImportDialog
+            // 読み直した場合も推定した列を初期値にする
+            key={`${pendingCsvFiles[0].file.name}:${pendingCsvFiles[0].table.encoding}:${pendingCsvFiles[0].table.delimiter}`}
+            selection={pendingCsvFiles[0]}
+            onReread={onRereadCsvFile}
+            onLoad={onLoadCsvFile}
+            onCancel={onCancelCsvSelection}
+          />
+        )}
+
+        <LoadResultList results={loadResults} onDismiss={onDismissLoadResults} />
+
+        <LayerCacheStatus
+          isEnabled={isLayerCacheEnabled}
+          summary={layerCache}
+          onSetEnabled={onSetLayerCacheEnabled}
+        />
+
         {layers.length > 0 && (
           <Button
             onClick={onClearAll}
@@ -148,6 +256,29 @@ export function LayerPanel({
                   </button>
                 </div>
 
+                {/* Replace data button */}
+                <button
+                  type="button"
+                  onClick={() => onReplaceLayerData(layer.id)}
+                  disabled={isLoading}
+                  className="text-xs px-1 disabled:opacity-30"
+                  title="データを置き換え"
+                >
+                  ⇄
+                </button>
+
+                {/* Export button */}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setExportOpenLayerId(exportOpenLayerId === layer.id ? null : layer.id)
+                  }
+                  className="text-xs px-1"
+                  title="Shapefile で保存"
+                >
+                  ⤓
+                </button>
+
                 {/* Remove button */}
                 <button
                   type="button"
@@ -163,9 +294,7 @@ export function LayerPanel({
               {layer.filter?.enabled && (
                 <div className="ml-6 text-xs text-muted-foreground flex items-center gap-1">
                   <span className="truncate">
-                    フィルター: {layer.filter.key} = {layer.filter.values.length === 1
-                      ? `"${layer.filter.values[0]}"`
-                      : `(${layer.filter.values.length}件)`}
+                    フィルター: {layer.filter.key} = {describePropertyFilterCondition(layer.filter)}
                   </span>
                   <button
                     type="button"
@@ -177,6 +306,52 @@ export function LayerPanel({
                 </div>
               )}
 
+              {/* Encoding selector */}
+              {layer.encoding && layer.source?.dbfFile && (
+                <div className="ml-6 text-xs text-muted-foreground flex items-center gap-1">
+                  <label htmlFor={`encoding-${layer.id}`}>文字コード:</label>
+                  <select
+                    id={`encoding-${layer.id}`}
+                    value={layer.encoding.encoding}
+                    onChange={(e) =>
+                      onSetLayerEncoding(layer.id, e.target.value as DbfEncoding)
+                    }
+                    disabled={isLoading}
+                    className="border rounded px-1 py-0.5 bg-background"
+                  >
+                    {DBF_ENCODINGS.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <span>({ENCODING_SOURCE_LABELS[layer.encoding.source]})</span>
+                </div>
+              )}
+
+              {/* Key field selector */}
+              <LayerKeyFieldSelect
+                layer={layer}
+                disabled={isLoading}
+                onSetKeyField={(keyField) => onSetLayerKeyField(layer.id, keyField)}
+              />
+
+              {/* Validation report */}
+              <LayerValidationReport layer={layer} />
+
+              {/* Export panel (フィルター適用後の表示中のフィーチャーを保存) */}
+              {exportOpenLayerId === layer.id && (
+                <div className="ml-6">
+                  <ShapefileExportForm
+                    featureCount={getDisplayedFeatures(layer, globalFilter).length}
+                    defaultEncoding={layer.encoding?.encoding === "utf-8" ? "utf-8" : "shift_jis"}
+                    onExport={(encoding) =>
+                      onDownloadShapefile([layer.id], encoding, layer.name)
+                    }
+                  />
+                </div>
+              )}
+
               {/* Filter panel */}
               {filterOpenLayerId === layer.id && (
                 <LayerFilter
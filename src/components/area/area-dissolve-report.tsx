@@ -0,0 +1,164 @@
+import { useState } from "react";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import {
+  dissolveAreas,
+  type DissolvedArea,
+  type DissolvedAreaFormat,
+  type DissolveIssue,
+} from "@/lib/area-dissolve";
+import { AREA_JOIN_FORMATS } from "@/lib/area-join";
+import { EXPORT_ENCODINGS, type ExportEncoding } from "@/lib/text-encoder";
+import { Button } from "@/components/ui/button";
+
+interface AreaDissolveReportProps {
+  areas: Area[];
+  layers: Layer[];
+  onExport: (
+    dissolved: DissolvedArea[],
+    format: DissolvedAreaFormat,
+    encoding: ExportEncoding
+  ) => void;
+}
+
+// 穴の例として表示する件数
+const MAX_LISTED_ISSUES = 3;
+
+const ISSUE_LABELS: Record<DissolveIssue["type"], string> = {
+  sliver: "隙間",
+  hole: "穴",
+};
+
+const FORMATS = AREA_JOIN_FORMATS.filter(
+  (format): format is { value: DissolvedAreaFormat; label: string } => format.value !== "csv"
+);
+
+function formatIssueArea(area: number): string {
+  return area >= 1e6
+    ? `${(area / 1e6).toLocaleString(undefined, { maximumFractionDigits: 2 })} km²`
+    : `${area.toLocaleString(undefined, { maximumFractionDigits: 1 })} m²`;
+}
+
+/**
+ * エリアのディゾルブの実行と結果の表示・出力
+ * 結合で生じた隙間 (境界のずれ) と穴をエリアごとに表示する
+ */
+export function AreaDissolveReport({ areas, layers, onExport }: AreaDissolveReportProps) {
+  // 実行したときのエリアとレイヤー (変更されたら再実行を促す)
+  const [result, setResult] = useState<{
+    dissolved: DissolvedArea[];
+    areas: Area[];
+    layers: Layer[];
+  } | null>(null);
+  const [format, setFormat] = useState<DissolvedAreaFormat>("geojson");
+  const [encoding, setEncoding] = useState<ExportEncoding>("shift_jis");
+
+  const isStale = result !== null && (result.areas !== areas || result.layers !== layers);
+  const issueCount = result?.dissolved.reduce((sum, d) => sum + d.issues.length, 0) ?? 0;
+
+  const renderArea = (dissolved: DissolvedArea) => {
+    const { area, partCount, totalFeatureCount, skippedCount, issues, error } = dissolved;
+    return (
+      <li key={area.id} className="border-t pt-1 space-y-0.5">
+        <div className="flex items-center gap-1">
+          <span
+            className="w-2 h-2 rounded-sm flex-shrink-0"
+            style={{ backgroundColor: area.color }}
+          />
+          <span className="flex-1 truncate font-medium">{area.name}</span>
+          <span className="text-muted-foreground flex-shrink-0">
+            {totalFeatureCount.toLocaleString()} 件
+            {partCount > 1 && ` · ${partCount} 個に分かれています`}
+          </span>
+        </div>
+        {error && <div className="ml-3 text-destructive">結合に失敗しました: {error}</div>}
+        {skippedCount > 0 && (
+          <div className="ml-3 text-muted-foreground">
+            {skippedCount.toLocaleString()} 件はポリゴンがないため結合していません
+          </div>
+        )}
+        {issues.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+          <div
+            key={`${issue.type}-${issue.bounds.join(",")}`}
+            className={issue.type === "sliver" ? "ml-3 text-amber-600" : "ml-3"}
+          >
+            ⚠ {ISSUE_LABELS[issue.type]} {formatIssueArea(issue.area)} (
+            {issue.position[1].toFixed(5)}, {issue.position[0].toFixed(5)})
+          </div>
+        ))}
+        {issues.length > MAX_LISTED_ISSUES && (
+          <div className="ml-3 text-muted-foreground">
+            ほか {(issues.length - MAX_LISTED_ISSUES).toLocaleString()} 件
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="border rounded-md p-2 space-y-2 text-xs">
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        disabled={areas.length === 0}
+        onClick={() => setResult({ dissolved: dissolveAreas(areas, layers), areas, layers })}
+      >
+        {result ? "ディゾルブを再実行" : "ディゾルブを実行"}
+      </Button>
+
+      {result && (
+        <>
+          {isStale && (
+            <p className="text-amber-600">
+              エリアまたはレイヤーが変更されています。再実行してください
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            {issueCount > 0
+              ? `結合で ${issueCount.toLocaleString()} 件の隙間・穴が生じました`
+              : "結合で生じた隙間・穴はありません"}
+          </p>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">{result.dissolved.map(renderArea)}</ul>
+
+          <div className="flex items-center gap-2">
+            {FORMATS.map(({ value, label }) => (
+              <label key={value} className="flex items-center gap-1">
+                <input
+                  type="radio"
+                  name="area-dissolve-format"
+                  checked={format === value}
+                  onChange={() => setFormat(value)}
+                />
+                {label}
+              </label>
+            ))}
+            {format === "shapefile" && (
+              <select
+                aria-label="DBF の文字コード"
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as ExportEncoding)}
+                className="ml-auto border rounded px-1 py-0.5 bg-background"
+              >
+                {EXPORT_ENCODINGS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            disabled={isStale}
+            onClick={() => onExport(result.dissolved, format, encoding)}
+          >
+            境界を保存 ({result.dissolved.length.toLocaleString()} エリア)
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useMemo, useState } from "react";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import {
+  AREA_JOIN_FORMATS,
+  DEFAULT_AREA_JOIN_OPTIONS,
+  findAreaJoinConflicts,
+  getJoinedPropertyKeys,
+  getMaxAreaDepth,
+  hasDuplicateAreaJoinColumns,
+  type AreaJoinColumns,
+  type AreaJoinFormat,
+  type AreaJoinOptions,
+} from "@/lib/area-join";
+import { findLongFieldNames } from "@/lib/dbf-writer";
+import { EXPORT_ENCODINGS, type ExportEncoding } from "@/lib/text-encoder";
+import { Button } from "@/components/ui/button";
+
+interface AreaJoinExportProps {
+  layers: Layer[];
+  areas: Area[];
+  /** @returns 出力したフィーチャー数 (出力できない場合は null) */
+  onExport: (
+    layer: Layer,
+    options: AreaJoinOptions,
+    format: AreaJoinFormat,
+    encoding: ExportEncoding
+  ) => number | null;
+}
+
+// 列名の入力欄の表示名
+const COLUMN_LABELS: { key: keyof AreaJoinColumns; label: string }[] = [
+  { key: "id", label: "エリアID" },
+  { key: "name", label: "エリア名" },
+  { key: "parentName", label: "親エリア名" },
+  { key: "path", label: "階層パス" },
+  { key: "levelPrefix", label: "階層ごとの列の接頭辞" },
+];
+
+/**
+ * エリアの割り当てをレイヤーの属性列に結合して出力するフォーム
+ * 列名は変更でき、空欄にした列は出力しない
+ */
+export function AreaJoinExport({ layers, areas, onExport }: AreaJoinExportProps) {
+  const [layerId, setLayerId] = useState<string | null>(null);
+  const [options, setOptions] = useState<AreaJoinOptions>(DEFAULT_AREA_JOIN_OPTIONS);
+  const [format, setFormat] = useState<AreaJoinFormat>("shapefile");
+  const [encoding, setEncoding] = useState<ExportEncoding>("shift_jis");
+  const [exportedCount, setExportedCount] = useState<number | null>(null);
+
+  // 選択したレイヤーが削除された場合は先頭のレイヤーにする
+  const layer = layers.find((l) => l.id === layerId) ?? layers[0];
+  const maxDepth = useMemo(() => getMaxAreaDepth(areas), [areas]);
+  const assignedCount = useMemo(() => {
+    if (!layer) return 0;
+    const prefix = `${layer.id}:`;
+    return areas.reduce(
+      (count, area) => count + area.featureIds.filter((id) => id.startsWith(prefix)).length,
+      0
+    );
+  }, [areas, layer]);
+  const conflicts = useMemo(
+    () => (layer ? findAreaJoinConflicts(layer.geojson.features, options) : []),
+    [layer, options]
+  );
+  const hasDuplicates = hasDuplicateAreaJoinColumns(options);
+  const levelDepth = Math.min(options.levelDepth, maxDepth);
+  const depthOptions = Array.from({ length: maxDepth + 1 }, (_, depth) => depth);
+  // Shapefile では 10 バイトを超える列名が短縮される
+  const longColumns = useMemo(() => {
+    if (!layer || format !== "shapefile") return [];
+    const keys = getJoinedPropertyKeys(layer.geojson.features, layer.schema, {
+      ...options,
+      levelDepth,
+    });
+    return findLongFieldNames(keys, encoding);
+  }, [layer, options, levelDepth, format, encoding]);
+
+  if (!layer) {
+    return <p className="text-xs text-muted-foreground">レイヤーを読み込んでください</p>;
+  }
+
+  const setColumn = (key: keyof AreaJoinColumns, value: string) => {
+    setOptions((prev) => ({ ...prev, columns: { ...prev.columns, [key]: value.trim() } }));
+    setExportedCount(null);
+  };
+
+  return (
+    <div className="border rounded-md p-2 space-y-2 text-xs">
+      <label className="flex items-center gap-1">
+        <span className="w-24 flex-shrink-0">レイヤー</span>
+        <select
+          value={layer.id}
+          onChange={(e) => {
+            setLayerId(e.target.value);
+            setExportedCount(null);
+          }}
+          className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+        >
+          {layers.map((l) => (
+            <option key={l.id} value={l.id}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {COLUMN_LABELS.map(({ key, label }) => (
+        <label key={key} className="flex items-center gap-1">
+          <span className="w-24 flex-shrink-0">{label}</span>
+          <input
+            type="text"
+            value={options.columns[key]}
+            onChange={(e) => setColumn(key, e.target.value)}
+            placeholder="出力しない"
+            className="flex-1 min-w-0 border rounded px-1 py-0.5"
+          />
+        </label>
+      ))}
+
+      <label className="flex items-center gap-1">
+        <span className="w-24 flex-shrink-0">階層ごとの列</span>
+        <select
+          value={levelDepth}
+          onChange={(e) => setOptions((prev) => ({ ...prev, levelDepth: Number(e.target.value) }))}
+          disabled={!options.columns.levelPrefix}
+          className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+        >
+          {depthOptions.map((depth) => (
+            <option key={depth} value={depth}>
+              {depth === 0 ? "出力しない" : `${depth} 階層目まで`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex items-center gap-2">
+        {AREA_JOIN_FORMATS.map(({ value, label }) => (
+          <label key={value} className="flex items-center gap-1">
+            <input
+              type="radio"
+              name="area-join-format"
+              checked={format === value}
+              onChange={() => setFormat(value)}
+            />
+            {label}
+          </label>
+        ))}
+        {format !== "geojson" && (
+          <select
+            aria-label="出力の文字コード"
+            value={encoding}
+            onChange={(e) => setEncoding(e.target.value as ExportEncoding)}
+            className="ml-auto border rounded px-1 py-0.5 bg-background"
+          >
+            {EXPORT_ENCODINGS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {conflicts.length > 0 && (
+        <p className="text-amber-600">
+          ⚠ 既存の列 {conflicts.join(", ")} の値はエリアの値で上書きされます
+        </p>
+      )}
+      {longColumns.length > 0 && (
+        <p className="text-amber-600">
+          ⚠ 列名 {longColumns.join(", ")} は 10 バイトを超えるため短縮して出力されます
+        </p>
+      )}
+      {hasDuplicates && <p className="text-destructive">同じ列名が複数あります</p>}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        disabled={hasDuplicates}
+        onClick={() =>
+          setExportedCount(onExport(layer, { ...options, levelDepth }, format, encoding))
+        }
+      >
+        結合して保存 ({layer.geojson.features.length.toLocaleString()} 件中{" "}
+        {assignedCount.toLocaleString()} 件割り当て済み)
+      </Button>
+      {exportedCount !== null && (
+        <p className="text-muted-foreground">{exportedCount.toLocaleString()} 件を保存しました</p>
+      )}
+    </div>
+  );
+}
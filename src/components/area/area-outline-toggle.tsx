@@ -0,0 +1,55 @@
+interface AreaOutlineToggleProps {
+  /** エリアの階層の最大の深さ */
+  maxLevel: number;
+  /** 境界線を表示するか */
+  isVisible: boolean;
+  onVisibleChange: (isVisible: boolean) => void;
+  /** 表示しない階層 (1 始まり) */
+  hiddenLevels: number[];
+  onHiddenLevelsChange: (levels: number[]) => void;
+}
+
+/**
+ * 地図に表示するエリアの境界線とラベルの階層の切り替え
+ */
+export function AreaOutlineToggle({
+  maxLevel,
+  isVisible,
+  onVisibleChange,
+  hiddenLevels,
+  onHiddenLevelsChange,
+}: AreaOutlineToggleProps) {
+  if (maxLevel === 0) return null;
+
+  const toggleLevel = (level: number) => {
+    onHiddenLevelsChange(
+      hiddenLevels.includes(level)
+        ? hiddenLevels.filter((l) => l !== level)
+        : [...hiddenLevels, level]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs px-2">
+      <label className="flex items-center gap-1 text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={isVisible}
+          onChange={(e) => onVisibleChange(e.target.checked)}
+        />
+        境界線
+      </label>
+      {isVisible &&
+        Array.from({ length: maxLevel }, (_, i) => i + 1).map((level) => (
+          <label key={level} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={!hiddenLevels.includes(level)}
+              onChange={() => toggleLevel(level)}
+            />
+            {level} 階層目
+          </label>
+        ))}
+    </div>
+  );
+}
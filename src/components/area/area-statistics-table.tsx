@@ -0,0 +1,201 @@
+import { useMemo, useState } from "react";
+import type { Area, AreaWithChildren } from "@/types/area";
+import { buildAreaTree } from "@/types/area";
+import {
+  formatStatisticValue,
+  getSummaryMean,
+  type AreaStatistics,
+  type NumericSummary,
+  type StatisticsValues,
+} from "@/lib/area-statistics";
+
+interface AreaStatisticsTableProps {
+  areas: Area[];
+  statistics: Map<string, AreaStatistics>;
+  /** 集計できる数値の列 */
+  numericFields: string[];
+  /** 集計する数値の列 */
+  fields: string[];
+  onFieldsChange: (fields: string[]) => void;
+}
+
+type SummaryMetric = "sum" | "mean" | "min" | "max";
+
+const SUMMARY_METRICS: { value: SummaryMetric; label: string }[] = [
+  { value: "sum", label: "合計" },
+  { value: "mean", label: "平均" },
+  { value: "min", label: "最小" },
+  { value: "max", label: "最大" },
+];
+
+/** 並べ替える列 (数値の列は "列名:集計" の形) */
+type SortKey = "name" | "count" | "area" | `${string}:${SummaryMetric}`;
+
+interface SortState {
+  key: SortKey;
+  descending: boolean;
+}
+
+function getMetricValue(summary: NumericSummary | undefined, metric: SummaryMetric): number | null {
+  if (!summary) return null;
+  return metric === "mean" ? getSummaryMean(summary) : summary[metric];
+}
+
+function getSortValue(values: StatisticsValues, key: SortKey): number | null {
+  if (key === "count") return values.featureCount;
+  if (key === "area") return values.areaKm2;
+  const separator = key.lastIndexOf(":");
+  return getMetricValue(
+    values.fields[key.slice(0, separator)],
+    key.slice(separator + 1) as SummaryMetric
+  );
+}
+
+/**
+ * ツリーの順 (親の直後に子) に並べたエリアと階層の深さ
+ */
+function flattenAreaTree(tree: AreaWithChildren[], depth = 0): { area: Area; depth: number }[] {
+  return tree.flatMap((area) => [{ area, depth }, ...flattenAreaTree(area.children, depth + 1)]);
+}
+
+/**
+ * エリアの統計の表
+ * 列の見出しをクリックすると並べ替える (もう一度クリックで逆順、3 回目でツリーの順に戻す)
+ */
+export function AreaStatisticsTable({
+  areas,
+  statistics,
+  numericFields,
+  fields,
+  onFieldsChange,
+}: AreaStatisticsTableProps) {
+  const [includeChildren, setIncludeChildren] = useState(true);
+  const [sort, setSort] = useState<SortState | null>(null);
+
+  const rows = useMemo(() => {
+    const ordered = flattenAreaTree(buildAreaTree(areas)).flatMap(({ area, depth }) => {
+      const stats = statistics.get(area.id);
+      return stats ? [{ area, depth, values: includeChildren ? stats.total : stats.own }] : [];
+    });
+    if (!sort) return ordered;
+    const direction = sort.descending ? -1 : 1;
+    return [...ordered].sort((a, b) => {
+      if (sort.key === "name") return a.area.name.localeCompare(b.area.name, "ja") * direction;
+      const valueA = getSortValue(a.values, sort.key);
+      const valueB = getSortValue(b.values, sort.key);
+      // 値のないエリアは常に最後
+      if (valueA === null || valueB === null)
+        return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+      return (valueA - valueB) * direction;
+    });
+  }, [areas, statistics, includeChildren, sort]);
+
+  const handleSort = (key: SortKey) => {
+    setSort((prev) => {
+      if (prev?.key !== key) return { key, descending: key !== "name" };
+      return prev.descending === (key !== "name") ? { key, descending: !prev.descending } : null;
+    });
+  };
+
+  const toggleField = (field: string) => {
+    onFieldsChange(
+      fields.includes(field)
+        ? fields.filter((f) => f !== field)
+        : numericFields.filter((f) => f === field || fields.includes(f))
+    );
+  };
+
+  const renderHeader = (key: SortKey, label: string, className = "text-right") => (
+    <th key={key} className={`px-1 py-0.5 font-medium whitespace-nowrap ${className}`}>
+      <button type="button" className="hover:underline" onClick={() => handleSort(key)}>
+        {label}
+        {sort?.key === key && (sort.descending ? " ▼" : " ▲")}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="border rounded-md p-2 space-y-2 text-xs">
+      {numericFields.length > 0 ? (
+        <div className="flex flex-wrap gap-x-2 gap-y-0.5 max-h-20 overflow-y-auto">
+          {numericFields.map((field) => (
+            <label key={field} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={fields.includes(field)}
+                onChange={() => toggleField(field)}
+              />
+              {field}
+            </label>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">集計できる数値の列がありません</p>
+      )}
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={includeChildren}
+          onChange={(e) => setIncludeChildren(e.target.checked)}
+        />
+        子エリアを含めて集計
+      </label>
+
+      <div className="max-h-64 overflow-auto">
+        <table className="w-full border-collapse">
+          <thead className="sticky top-0 bg-background">
+            <tr className="border-b">
+              {renderHeader("name", "エリア", "text-left")}
+              {renderHeader("count", "件数")}
+              {renderHeader("area", "面積 km²")}
+              {fields.flatMap((field) =>
+                SUMMARY_METRICS.map(({ value, label }) =>
+                  renderHeader(`${field}:${value}`, `${field} ${label}`)
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ area, depth, values }) => (
+              <tr key={area.id} className="border-b last:border-b-0">
+                <td
+                  className="px-1 py-0.5 max-w-32 truncate"
+                  style={{ paddingLeft: sort ? undefined : `${depth * 8 + 4}px` }}
+                  title={area.name}
+                >
+                  <span
+                    className="inline-block w-2 h-2 rounded-sm mr-1"
+                    style={{ backgroundColor: area.color }}
+                  />
+                  {area.name}
+                </td>
+                <td className="px-1 py-0.5 text-right tabular-nums">
+                  {values.featureCount.toLocaleString()}
+                  {values.missingCount > 0 && (
+                    <span
+                      className="text-amber-600"
+                      title={`${values.missingCount.toLocaleString()} 件のフィーチャーが見つかりません`}
+                    >
+                      {" "}
+                      ⚠
+                    </span>
+                  )}
+                </td>
+                <td className="px-1 py-0.5 text-right tabular-nums">
+                  {formatStatisticValue(values.areaKm2)}
+                </td>
+                {fields.flatMap((field) =>
+                  SUMMARY_METRICS.map(({ value }) => (
+                    <td key={`${field}:${value}`} className="px-1 py-0.5 text-right tabular-nums">
+                      {formatStatisticValue(getMetricValue(values.fields[field], value))}
+                    </td>
+                  ))
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
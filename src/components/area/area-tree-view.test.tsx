@@ -2,6 +2,7 @@ import { render, screen, fireEvent } from "@testing-library/react";
 import { describe, it, expect, vi } from "vitest";
 import { AreaTreeView } from "./area-tree-view";
 import type { AreaWithChildren } from "@/types/area";
+import type { AreaStatistics, StatisticsValues } from "@/lib/area-statistics";
 
 const mockAreas: AreaWithChildren[] = [
   {
@@ -309,4 +310,24 @@ describe("AreaTreeView", () => {
     // 子エリアのフィーチャー数も表示される
     expect(screen.getByText("1")).toBeInTheDocument();
   });
+
+  it("統計を指定すると子エリアを含めた集計が表示される", () => {
+    const createValues = (featureCount: number, sum: number): StatisticsValues => ({
+      featureCount,
+      missingCount: 0,
+      areaKm2: featureCount * 1.5,
+      fields: { JINKO: { count: featureCount, sum, min: null, max: null } },
+    });
+    const statistics = new Map<string, AreaStatistics>([
+      ["area-1", { areaId: "area-1", own: createValues(2, 300), total: createValues(2, 300) }],
+      ["area-2", { areaId: "area-2", own: createValues(0, 0), total: createValues(1, 1200) }],
+    ]);
+
+    render(
+      <AreaTreeView {...defaultProps} statistics={statistics} statisticsFields={["JINKO"]} />
+    );
+
+    expect(screen.getByText(/計 1 件 · 1.5 km²/)).toBeInTheDocument();
+    expect(screen.getByText(/JINKO 1,200/)).toBeInTheDocument();
+  });
 });
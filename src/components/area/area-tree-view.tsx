@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Pencil, Plus, X } from "lucide-react";
 import type { AreaWithChildren, Area } from "@/types/area";
 import { AREA_COLORS } from "@/types/area";
+import { formatStatisticValue, type AreaStatistics } from "@/lib/area-statistics";
 
 interface AreaTreeViewProps {
   areas: AreaWithChildren[];
@@ -10,6 +11,10 @@ interface AreaTreeViewProps {
   onAddChild: (parentId: string) => void;
   onRemoveArea: (id: string) => void;
   onUpdateArea: (id: string, updates: Partial<Omit<Area, "id">>) => void;
+  /** エリアの統計 (指定した場合、子エリアを含めた集計を表示する) */
+  statistics?: Map<string, AreaStatistics>;
+  /** 合計を表示する数値の列 */
+  statisticsFields?: string[];
 }
 
 interface AreaTreeItemProps {
@@ -22,6 +27,8 @@ interface AreaTreeItemProps {
   onAddChild: (parentId: string) => void;
   onRemoveArea: (id: string) => void;
   onUpdateArea: (id: string, updates: Partial<Omit<Area, "id">>) => void;
+  statistics?: Map<string, AreaStatistics>;
+  statisticsFields?: string[];
 }
 
 function AreaTreeItem({
@@ -34,9 +41,12 @@ function AreaTreeItem({
   onAddChild,
   onRemoveArea,
   onUpdateArea,
+  statistics,
+  statisticsFields = [],
 }: AreaTreeItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(area.name);
+  const total = statistics?.get(area.id)?.total;
 
   const isExpanded = expandedIds.has(area.id);
   const isSelected = selectedAreaId === area.id;
@@ -190,6 +200,22 @@ function AreaTreeItem({
         </div>
       </div>
 
+      {/* Statistics (子エリアを含めた集計) */}
+      {total && (
+        <div
+          className="text-xs text-muted-foreground truncate pr-2"
+          style={{ paddingLeft: `${depth * 16 + 48}px` }}
+        >
+          計 {total.featureCount.toLocaleString()} 件 · {formatStatisticValue(total.areaKm2)} km²
+          {statisticsFields.map((field) => (
+            <span key={field}>
+              {" "}
+              · {field} {formatStatisticValue(total.fields[field]?.sum ?? null)}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Children */}
       {hasChildren && isExpanded && (
         <div>
@@ -205,6 +231,8 @@ function AreaTreeItem({
               onAddChild={onAddChild}
               onRemoveArea={onRemoveArea}
               onUpdateArea={onUpdateArea}
+              statistics={statistics}
+              statisticsFields={statisticsFields}
             />
           ))}
         </div>
@@ -220,6 +248,8 @@ export function AreaTreeView({
   onAddChild,
   onRemoveArea,
   onUpdateArea,
+  statistics,
+  statisticsFields,
 }: AreaTreeViewProps) {
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
 
@@ -257,6 +287,8 @@ export function AreaTreeView({
           onAddChild={onAddChild}
           onRemoveArea={onRemoveArea}
           onUpdateArea={onUpdateArea}
+          statistics={statistics}
+          statisticsFields={statisticsFields}
         />
       ))}
     </div>
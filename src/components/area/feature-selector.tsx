@@ -1,6 +1,7 @@
 import { useState, useMemo, useCallback } from "react";
 import type { Feature, Geometry, GeoJsonProperties } from "geojson";
-import { generateFeatureId, type Layer } from "@/types/layer";
+import { getLayerFeatureId, type Layer } from "@/types/layer";
+import { formatPropertyValue } from "@/lib/field-schema";
 import {
   Card,
   CardContent,
@@ -57,7 +58,7 @@ export function FeatureSelector({
     if (!selectedLayer) return new Map<Feature<Geometry | null, GeoJsonProperties>, string>();
     const map = new Map<Feature<Geometry | null, GeoJsonProperties>, string>();
     allFeatures.forEach((feature, index) => {
-      map.set(feature, generateFeatureId(selectedLayer.id, index));
+      map.set(feature, getLayerFeatureId(selectedLayer, index));
     });
     return map;
   }, [selectedLayer, allFeatures]);
@@ -97,7 +98,7 @@ export function FeatureSelector({
     selectedAreaFeaturesInLayer.forEach((feature) => {
       const value = feature.properties?.[selectedKey];
       if (value !== null && value !== undefined) {
-        values.add(String(value));
+        values.add(formatPropertyValue(value));
       }
     });
     return values;
@@ -127,7 +128,7 @@ export function FeatureSelector({
           // 既に他のエリアに割り当て済みならスキップ
           if (assignedFeatureIds.has(featureId)) return;
           const value = feature.properties?.[selectedKey];
-          if (value !== null && value !== undefined && addedValues.includes(String(value))) {
+          if (value !== null && value !== undefined && addedValues.includes(formatPropertyValue(value))) {
             featureIdsToAdd.push(featureId);
           }
         });
@@ -143,7 +144,7 @@ export function FeatureSelector({
           const featureId = featureIdMap.get(feature);
           if (!featureId) return;
           const value = feature.properties?.[selectedKey];
-          if (value !== null && value !== undefined && removedValues.includes(String(value))) {
+          if (value !== null && value !== undefined && removedValues.includes(formatPropertyValue(value))) {
             featureIdsToRemove.push(featureId);
           }
         });
@@ -239,6 +240,7 @@ export function FeatureSelector({
             </div>
             <PropertyMultiSelect
               features={displayFeatures}
+              schema={selectedLayer?.schema}
               selectedKey={selectedKey}
               selectedValues={selectedValues}
               onKeyChange={handleKeyChange}
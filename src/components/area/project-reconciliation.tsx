@@ -0,0 +1,199 @@
+import { useMemo } from "react";
+import type { AreaProject } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { reconcileProject, type LayerReconciliation } from "@/lib/project-reconciliation";
+import { findLayerBySource } from "@/lib/layer-provenance";
+import { Button } from "@/components/ui/button";
+
+interface ProjectReconciliationProps {
+  project: AreaProject;
+  layers: Layer[];
+  /** 詳細を表示するか (プロジェクトを開いたときに表示する) */
+  expanded: boolean;
+  onExpandedChange: (expanded: boolean) => void;
+  onLoadFiles: () => void;
+  onRemapLayer: (fromLayerId: string, toLayer: Layer) => void;
+  onRemoveFeatureIds: (featureIds: string[]) => void;
+}
+
+// 見つからないIDの例として表示する件数
+const MAX_LISTED_IDS = 3;
+
+/**
+ * プロジェクトが参照するレイヤーと読み込み中のレイヤーの照合結果
+ * 記録された出所から必要なファイルを示し、見つからないフィーチャーがある場合は
+ * ファイルの読み込み・別レイヤーへの付け替え・削除を選べる
+ */
+export function ProjectReconciliation({
+  project,
+  layers,
+  expanded,
+  onExpandedChange,
+  onLoadFiles,
+  onRemapLayer,
+  onRemoveFeatureIds,
+}: ProjectReconciliationProps) {
+  const reconciliation = useMemo(() => reconcileProject(project, layers), [project, layers]);
+  const featureNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const area of project.areas) Object.assign(names, area.featureNames);
+    return names;
+  }, [project]);
+
+  // 読み込まれていないレイヤーごとの、形状が一致する読み込み済みのレイヤー (ファイル名が変わった場合)
+  // 付け替え先の候補はプロジェクトがまだ参照していないレイヤー
+  const { remapTargets, sameContentLayers } = useMemo(() => {
+    const referencedLayerIds = new Set(reconciliation.layers.map((entry) => entry.layerId));
+    const remapTargets = layers.filter((layer) => !referencedLayerIds.has(layer.id));
+    const found = new Map<string, Layer>();
+    for (const entry of reconciliation.layers) {
+      if (entry.layer || !entry.source) continue;
+      const layer = findLayerBySource(entry.source, remapTargets);
+      if (layer) found.set(entry.layerId, layer);
+    }
+    return { remapTargets, sameContentLayers: found };
+  }, [reconciliation, layers]);
+
+  const danglingCount = reconciliation.referencedCount - reconciliation.resolvedCount;
+
+  // フィーチャーを割り当てていないプロジェクトでは照合するものがない
+  if (reconciliation.layers.length === 0) return null;
+
+  if (!expanded) {
+    if (danglingCount === 0) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => onExpandedChange(true)}
+        className="w-full text-left text-xs text-amber-600 hover:underline px-2"
+      >
+        ⚠ {danglingCount.toLocaleString()} 件のフィーチャーが見つかりません (照合結果を表示)
+      </button>
+    );
+  }
+
+  const renderEntry = (entry: LayerReconciliation) => {
+    const isComplete = entry.danglingIds.length === 0;
+    const sameContentLayer = sameContentLayers.get(entry.layerId) ?? null;
+    return (
+      <li key={entry.layerId} className="border-t pt-1 space-y-1">
+        <div className="flex items-center gap-1">
+          <span
+            className={
+              isComplete ? "text-green-600" : entry.layer ? "text-amber-600" : "text-destructive"
+            }
+          >
+            {isComplete ? "✓" : entry.layer ? "⚠" : "✕"}
+          </span>
+          <span className="flex-1 truncate font-medium" title={entry.layerId}>
+            {entry.layerId}
+          </span>
+          <span className="text-muted-foreground flex-shrink-0">
+            {entry.layer
+              ? `${entry.resolvedCount.toLocaleString()} / ${entry.referencedCount.toLocaleString()} 件`
+              : `未読み込み (${entry.referencedCount.toLocaleString()} 件)`}
+          </span>
+        </div>
+
+        {entry.source && (
+          <div className="ml-4 text-muted-foreground break-all">
+            必要なファイル: {entry.source.fileNames.join(", ") || entry.source.name} (
+            {entry.source.featureCount.toLocaleString()} 件
+            {entry.source.keyField && ` · キー列 ${entry.source.keyField}`})
+          </div>
+        )}
+        {entry.contentMatches === false && (
+          <div className="ml-4 text-amber-600">⚠ 読み込んだレイヤーの形状が保存時と異なります</div>
+        )}
+
+        {!isComplete && (
+          <div className="ml-4 space-y-1">
+            <div className="text-muted-foreground break-all">
+              {entry.danglingIds.slice(0, MAX_LISTED_IDS).map((id) => (
+                <div key={id}>
+                  {id}
+                  {featureNames[id] ? ` (${featureNames[id]})` : ""}
+                </div>
+              ))}
+              {entry.danglingIds.length > MAX_LISTED_IDS &&
+                `他 ${(entry.danglingIds.length - MAX_LISTED_IDS).toLocaleString()} 件`}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+              {!entry.layer && (
+                <>
+                  <Button size="sm" variant="outline" onClick={onLoadFiles}>
+                    ファイルを読み込む
+                  </Button>
+                  {sameContentLayer && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onRemapLayer(entry.layerId, sameContentLayer)}
+                    >
+                      {sameContentLayer.name} に付け替え (形状が一致)
+                    </Button>
+                  )}
+                  {remapTargets.length > 0 && (
+                    <select
+                      aria-label={`${entry.layerId} の付け替え先`}
+                      value=""
+                      onChange={(e) => {
+                        const target = layers.find((layer) => layer.id === e.target.value);
+                        if (target) onRemapLayer(entry.layerId, target);
+                      }}
+                      className="min-w-0 border rounded px-1 py-0.5 bg-background"
+                    >
+                      <option value="">別のレイヤーに付け替え...</option>
+                      {remapTargets.map((layer) => (
+                        <option key={layer.id} value={layer.id}>
+                          {layer.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                className="text-destructive"
+                onClick={() => onRemoveFeatureIds(entry.danglingIds)}
+              >
+                見つからない {entry.danglingIds.length.toLocaleString()} 件を削除
+              </Button>
+            </div>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <output className="block border rounded-md p-2 space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          レイヤーとの照合{" "}
+          {danglingCount > 0 && (
+            <span className="text-amber-600">
+              ({danglingCount.toLocaleString()} 件見つかりません)
+            </span>
+          )}
+        </span>
+        <button
+          type="button"
+          onClick={() => onExpandedChange(false)}
+          className="text-muted-foreground hover:text-foreground"
+          title="閉じる"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="text-muted-foreground">
+        {reconciliation.resolvedCount.toLocaleString()} /{" "}
+        {reconciliation.referencedCount.toLocaleString()} 件のフィーチャーが見つかりました
+      </p>
+      <ul className="space-y-1 max-h-60 overflow-auto">{reconciliation.layers.map(renderEntry)}</ul>
+    </output>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import type { CsvSelection } from "@/types/layer";
+import {
+  CSV_DELIMITERS,
+  type CsvDelimiter,
+  type CsvGeometryMapping,
+  type CsvReadOptions,
+} from "@/lib/csv-parser";
+import { DBF_ENCODINGS, type DbfEncoding } from "@/lib/dbf-encoding";
+import { Button } from "@/components/ui/button";
+
+interface CsvImportDialogProps {
+  selection: CsvSelection;
+  onReread: (file: File, options: CsvReadOptions) => void;
+  onLoad: (file: File, mapping: CsvGeometryMapping) => void;
+  onCancel: (file: File) => void;
+}
+
+// プレビューする行数
+const PREVIEW_ROWS = 3;
+
+/**
+ * プレビューする行と内容から作ったキー (同じ内容の行は出現順の番号で区別する)
+ */
+function getPreviewRows(rows: string[][], delimiter: CsvDelimiter) {
+  const counts = new Map<string, number>();
+  return rows.slice(0, PREVIEW_ROWS).map((row) => {
+    const content = row.join(delimiter);
+    const count = counts.get(content) ?? 0;
+    counts.set(content, count + 1);
+    return { key: `${content}-${count}`, row };
+  });
+}
+
+/**
+ * CSV / TSV の座標列の指定
+ * 文字コード・区切り文字を変えると読み直し、列名から推定した対応付けを初期値にする
+ */
+export function CsvImportDialog({ selection, onReread, onLoad, onCancel }: CsvImportDialogProps) {
+  const { file, table } = selection;
+  const { headers } = table;
+  const [type, setType] = useState<CsvGeometryMapping["type"]>(selection.mapping?.type ?? "latlon");
+  const [latColumn, setLatColumn] = useState(
+    selection.mapping?.type === "latlon" ? selection.mapping.latColumn : ""
+  );
+  const [lonColumn, setLonColumn] = useState(
+    selection.mapping?.type === "latlon" ? selection.mapping.lonColumn : ""
+  );
+  const [wktColumn, setWktColumn] = useState(
+    selection.mapping?.type === "wkt" ? selection.mapping.wktColumn : ""
+  );
+
+  const mapping: CsvGeometryMapping | null =
+    type === "wkt"
+      ? wktColumn
+        ? { type, wktColumn }
+        : null
+      : latColumn && lonColumn
+        ? { type, latColumn, lonColumn }
+        : null;
+
+  const columnSelect = (
+    id: string,
+    label: string,
+    value: string,
+    onChange: (v: string) => void
+  ) => (
+    <div className="flex items-center gap-1">
+      <label htmlFor={id} className="w-12 flex-shrink-0">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+      >
+        <option value="">(選択)</option>
+        {headers.map((header, i) => (
+          <option key={header} value={header}>
+            {header}
+            {table.columnTypes[i] === "number" ? " (数値)" : ""}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="border rounded-md p-2 space-y-2 text-xs">
+      <div className="font-medium truncate" title={file.name}>
+        {file.name} の座標列を指定 ({table.rows.length.toLocaleString()} 行)
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          aria-label="文字コード"
+          value={table.encoding}
+          onChange={(e) =>
+            onReread(file, {
+              encoding: e.target.value as DbfEncoding,
+              delimiter: table.delimiter,
+            })
+          }
+          className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+        >
+          {DBF_ENCODINGS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="区切り文字"
+          value={table.delimiter}
+          onChange={(e) =>
+            onReread(file, {
+              encoding: table.encoding,
+              delimiter: e.target.value as CsvDelimiter,
+            })
+          }
+          className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+        >
+          {CSV_DELIMITERS.map(({ value, label }) => (
+            <option key={label} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-3">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="radio" checked={type === "latlon"} onChange={() => setType("latlon")} />
+          緯度経度
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="radio" checked={type === "wkt"} onChange={() => setType("wkt")} />
+          WKT
+        </label>
+      </div>
+
+      {type === "latlon" ? (
+        <div className="space-y-1">
+          {columnSelect("csv-lat-column", "緯度", latColumn, setLatColumn)}
+          {columnSelect("csv-lon-column", "経度", lonColumn, setLonColumn)}
+        </div>
+      ) : (
+        columnSelect("csv-wkt-column", "WKT", wktColumn, setWktColumn)
+      )}
+
+      {/* 先頭行のプレビュー */}
+      <div className="max-h-24 overflow-auto border rounded">
+        <table className="w-full">
+          <thead>
+            <tr>
+              {headers.map((header) => (
+                <th key={header} className="px-1 text-left font-medium whitespace-nowrap">
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {getPreviewRows(table.rows, table.delimiter).map(({ key, row }) => (
+              <tr key={key} className="border-t">
+                {headers.map((header, i) => (
+                  <td key={header} className="px-1 whitespace-nowrap text-muted-foreground">
+                    {row[i]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="flex-1"
+          disabled={!mapping}
+          onClick={() => mapping && onLoad(file, mapping)}
+        >
+          読み込む
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => onCancel(file)}>
+          キャンセル
+        </Button>
+      </div>
+    </div>
+  );
+}
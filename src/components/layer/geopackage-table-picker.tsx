@@ -0,0 +1,75 @@
+import { useState } from "react";
+import type { GeoPackageSelection } from "@/types/layer";
+import { Button } from "@/components/ui/button";
+
+interface GeoPackageTablePickerProps {
+  selection: GeoPackageSelection;
+  onLoad: (file: File, tableNames: string[]) => void;
+  onCancel: (file: File) => void;
+}
+
+/**
+ * GeoPackage から読み込むフィーチャーテーブルの選択
+ */
+export function GeoPackageTablePicker({ selection, onLoad, onCancel }: GeoPackageTablePickerProps) {
+  const { file, tables } = selection;
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(tables.map((t) => t.name)));
+
+  const toggle = (name: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  // 一覧の順序で読み込む
+  const handleLoad = () => {
+    onLoad(
+      file,
+      tables.filter((t) => selected.has(t.name)).map((t) => t.name)
+    );
+  };
+
+  return (
+    <div className="border rounded-md p-2 space-y-2 text-xs">
+      <div className="font-medium truncate" title={file.name}>
+        {file.name} のテーブルを選択
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-auto">
+        {tables.map((table) => (
+          <li key={table.name}>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.has(table.name)}
+                onChange={() => toggle(table.name)}
+              />
+              <span className="flex-1 truncate" title={table.identifier ?? table.name}>
+                {table.name}
+                {table.identifier && table.identifier !== table.name && (
+                  <span className="text-muted-foreground"> ({table.identifier})</span>
+                )}
+              </span>
+              <span className="text-muted-foreground flex-shrink-0">
+                {table.geometryType} · {table.featureCount.toLocaleString()} 件
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-1" disabled={selected.size === 0} onClick={handleLoad}>
+          {selected.size} 件を読み込む
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => onCancel(file)}>
+          キャンセル
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { useState, useMemo, useCallback } from "react";
 import type { Feature, Geometry, GeoJsonProperties } from "geojson";
 import type { Layer, PropertyFilter } from "@/types/layer";
+import {
+  createPropertyFilterMatcher,
+  describePropertyFilterCondition,
+  getDisplayedFeatures,
+} from "@/lib/property-filter-utils";
 import {
   Card,
   CardContent,
@@ -8,8 +13,11 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import type { ShapefileExport } from "@/lib/shapefile-writer";
+import type { ExportEncoding } from "@/lib/text-encoder";
 import { PropertyMultiSelect } from "@/components/ui/property-multi-select";
 import { Button } from "@/components/ui/button";
+import { ShapefileExportForm } from "@/components/layer/shapefile-export-form";
 
 interface GlobalLayerFilterProps {
   layers: Layer[];
@@ -18,6 +26,11 @@ interface GlobalLayerFilterProps {
   getFilteredFeatures: (
     layer: Layer
   ) => Feature<Geometry | null, GeoJsonProperties>[];
+  onDownloadShapefile: (
+    layerIds: string[],
+    encoding: ExportEncoding,
+    fileName: string
+  ) => ShapefileExport | null;
 }
 
 export function GlobalLayerFilter({
@@ -25,6 +38,7 @@ export function GlobalLayerFilter({
   globalFilter,
   onSetGlobalFilter,
   getFilteredFeatures,
+  onDownloadShapefile,
 }: GlobalLayerFilterProps) {
   const [selectedLayerId, setSelectedLayerId] = useState<string>("");
   const [selectedKey, setSelectedKey] = useState<string>(
@@ -54,18 +68,29 @@ export function GlobalLayerFilter({
   // グローバルフィルター適用後のフィーチャー数を計算
   const globalFilteredCount = useMemo(() => {
     if (!globalFilter?.enabled) return totalFeatureCount;
+    const matches = createPropertyFilterMatcher(globalFilter);
     let count = 0;
     for (const layer of layers) {
       const features = getFilteredFeatures(layer);
-      count += features.filter((f) => {
-        const value = f.properties?.[globalFilter.key];
-        if (value === null || value === undefined) return false;
-        return globalFilter.values.includes(String(value));
-      }).length;
+      count += features.filter((f) => matches(f.properties)).length;
     }
     return count;
   }, [layers, globalFilter, getFilteredFeatures, totalFeatureCount]);
 
+  // フィルター結果として保存するレイヤーとフィーチャー数 (地図に表示中のレイヤー・フィーチャーのみ)
+  const exportTarget = useMemo(() => {
+    const visibleLayers = layers.filter((layer) => layer.visible);
+    return {
+      layerIds: visibleLayers.map((layer) => layer.id),
+      featureCount: globalFilter?.enabled
+        ? visibleLayers.reduce(
+            (sum, layer) => sum + getDisplayedFeatures(layer, globalFilter).length,
+            0
+          )
+        : 0,
+    };
+  }, [layers, globalFilter]);
+
   const handleLayerChange = useCallback((layerId: string) => {
     setSelectedLayerId(layerId);
     setSelectedKey("");
@@ -111,10 +136,7 @@ export function GlobalLayerFilter({
         {globalFilter?.enabled && (
           <div className="p-2 bg-muted rounded text-xs flex items-center justify-between">
             <span className="truncate">
-              {globalFilter.key} ={" "}
-              {globalFilter.values.length === 1
-                ? `"${globalFilter.values[0]}"`
-                : `(${globalFilter.values.length}件)`}
+              {globalFilter.key} = {describePropertyFilterCondition(globalFilter)}
             </span>
             <button
               type="button"
@@ -126,6 +148,17 @@ export function GlobalLayerFilter({
           </div>
         )}
 
+        {/* フィルター結果の保存 (表示中のレイヤーの一致したフィーチャーをレイヤーごとのファイルに) */}
+        {globalFilter?.enabled && (
+          <ShapefileExportForm
+            featureCount={exportTarget.featureCount}
+            defaultEncoding="shift_jis"
+            onExport={(encoding) =>
+              onDownloadShapefile(exportTarget.layerIds, encoding, "フィルター結果")
+            }
+          />
+        )}
+
         {/* Layer selector */}
         <div>
           <label className="text-xs text-muted-foreground">レイヤー</label>
@@ -156,6 +189,7 @@ export function GlobalLayerFilter({
           <>
             <PropertyMultiSelect
               features={filteredFeatures}
+              schema={selectedLayer?.schema}
               selectedKey={selectedKey}
               selectedValues={selectedValues}
               onKeyChange={handleKeyChange}
@@ -0,0 +1,42 @@
+import type { LayerCacheSummary } from "@/lib/layer-cache";
+
+interface LayerCacheStatusProps {
+  isEnabled: boolean;
+  summary: LayerCacheSummary | null;
+  onSetEnabled: (enabled: boolean) => void;
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
+
+/**
+ * ブラウザに保存しているレイヤーの状況と保存の切り替え
+ */
+export function LayerCacheStatus({ isEnabled, summary, onSetEnabled }: LayerCacheStatusProps) {
+  return (
+    <div className="text-xs text-muted-foreground space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {!isEnabled
+            ? "レイヤーはブラウザに保存されません"
+            : summary
+              ? `${summary.layerCount} 件のレイヤーをブラウザに保存中 (${formatMegabytes(summary.totalBytes)} MB)`
+              : "レイヤーをブラウザに保存します"}
+        </span>
+        <button
+          type="button"
+          onClick={() => onSetEnabled(!isEnabled)}
+          className="flex-shrink-0 hover:underline text-foreground"
+        >
+          {isEnabled ? "保存したレイヤーを消去" : "保存する"}
+        </button>
+      </div>
+      {isEnabled && summary && summary.skippedLayerNames.length > 0 && (
+        <p className="text-amber-600">
+          容量の上限を超えるため保存していません: {summary.skippedLayerNames.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
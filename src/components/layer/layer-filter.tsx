@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import type { Layer, PropertyFilter } from "@/types/layer";
+import { getPropertyValueType } from "@/lib/field-schema";
 import { Button } from "@/components/ui/button";
 import { PropertyMultiSelect } from "@/components/ui/property-multi-select";
 
@@ -9,6 +10,8 @@ interface LayerFilterProps {
   onClose: () => void;
 }
 
+type FilterMode = "values" | "range";
+
 export function LayerFilter({ layer, onSetFilter, onClose }: LayerFilterProps) {
   const [selectedKey, setSelectedKey] = useState<string>(
     layer.filter?.key ?? ""
@@ -16,14 +19,46 @@ export function LayerFilter({ layer, onSetFilter, onClose }: LayerFilterProps) {
   const [selectedValues, setSelectedValues] = useState<Set<string>>(
     new Set(layer.filter?.values ?? [])
   );
+  // 数値・日付の列は範囲でも絞り込める
+  const [mode, setMode] = useState<FilterMode>(layer.filter?.range ? "range" : "values");
+  const [rangeMin, setRangeMin] = useState(layer.filter?.range?.min ?? "");
+  const [rangeMax, setRangeMax] = useState(layer.filter?.range?.max ?? "");
+
+  const keyType = useMemo(
+    () =>
+      selectedKey
+        ? getPropertyValueType(layer.geojson.features, selectedKey, layer.schema)
+        : "string",
+    [layer.geojson, layer.schema, selectedKey]
+  );
+  const isRangeAvailable = keyType === "number" || keyType === "date";
+  const isRange = isRangeAvailable && mode === "range";
+  const canApply = isRange
+    ? rangeMin !== "" || rangeMax !== ""
+    : selectedKey !== "" && selectedValues.size > 0;
+
+  const handleKeyChange = (key: string) => {
+    setSelectedKey(key);
+    setRangeMin("");
+    setRangeMax("");
+  };
 
   const handleApply = () => {
-    if (!selectedKey || selectedValues.size === 0) return;
-    onSetFilter({
-      key: selectedKey,
-      values: Array.from(selectedValues),
-      enabled: true,
-    });
+    if (!selectedKey || !canApply) return;
+    onSetFilter(
+      isRange
+        ? {
+            key: selectedKey,
+            values: [],
+            enabled: true,
+            range: { min: rangeMin || null, max: rangeMax || null },
+          }
+        : {
+            key: selectedKey,
+            values: Array.from(selectedValues),
+            enabled: true,
+          }
+    );
     onClose();
   };
 
@@ -31,26 +66,82 @@ export function LayerFilter({ layer, onSetFilter, onClose }: LayerFilterProps) {
     onSetFilter(undefined);
     setSelectedKey("");
     setSelectedValues(new Set());
+    setRangeMin("");
+    setRangeMax("");
     onClose();
   };
 
+  const rangeInputType = keyType === "date" ? "date" : "number";
+
   return (
     <div className="p-3 border rounded-lg bg-card space-y-3">
       <div className="text-sm font-medium">フィルター設定</div>
 
-      <PropertyMultiSelect
-        features={layer.geojson.features}
-        selectedKey={selectedKey}
-        selectedValues={selectedValues}
-        onKeyChange={setSelectedKey}
-        onValuesChange={setSelectedValues}
-      />
+      {isRangeAvailable && (
+        <div className="flex gap-3 text-xs">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="radio"
+              checked={mode === "values"}
+              onChange={() => setMode("values")}
+            />
+            値を選択
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="radio"
+              checked={mode === "range"}
+              onChange={() => setMode("range")}
+            />
+            範囲
+          </label>
+        </div>
+      )}
+
+      {isRange ? (
+        <div className="space-y-1 text-xs">
+          <div className="text-muted-foreground">{selectedKey} の範囲 (両端を含む)</div>
+          <div className="flex items-center gap-1">
+            <input
+              type={rangeInputType}
+              aria-label="下限"
+              value={rangeMin}
+              onChange={(e) => setRangeMin(e.target.value)}
+              className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+            />
+            <span>〜</span>
+            <input
+              type={rangeInputType}
+              aria-label="上限"
+              value={rangeMax}
+              onChange={(e) => setRangeMax(e.target.value)}
+              className="flex-1 min-w-0 border rounded px-1 py-0.5 bg-background"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => setMode("values")}
+            className="text-primary hover:underline"
+          >
+            列を変更
+          </button>
+        </div>
+      ) : (
+        <PropertyMultiSelect
+          features={layer.geojson.features}
+          schema={layer.schema}
+          selectedKey={selectedKey}
+          selectedValues={selectedValues}
+          onKeyChange={handleKeyChange}
+          onValuesChange={setSelectedValues}
+        />
+      )}
 
       <div className="flex gap-2">
         <Button
           size="sm"
           onClick={handleApply}
-          disabled={!selectedKey || selectedValues.size === 0}
+          disabled={!canApply}
           className="flex-1"
         >
           適用
@@ -0,0 +1,44 @@
+import { useMemo, useState } from "react";
+import type { Layer } from "@/types/layer";
+import { getAvailablePropertyKeys } from "@/lib/property-filter-utils";
+
+interface LayerKeyFieldSelectProps {
+  layer: Layer;
+  disabled?: boolean;
+  /** @returns 設定できない場合はその理由 */
+  onSetKeyField: (keyField: string | undefined) => string | null;
+}
+
+/**
+ * フィーチャーIDに使うキー列の選択
+ * キー列を設定すると、ファイルの並び順が変わってもエリアの割り当てが保たれる
+ */
+export function LayerKeyFieldSelect({ layer, disabled, onSetKeyField }: LayerKeyFieldSelectProps) {
+  const [error, setError] = useState<string | null>(null);
+  const keys = useMemo(() => getAvailablePropertyKeys(layer.geojson.features), [layer.geojson]);
+
+  if (keys.length === 0) return null;
+
+  return (
+    <div className="ml-6 text-xs text-muted-foreground space-y-0.5">
+      <div className="flex items-center gap-1">
+        <label htmlFor={`key-field-${layer.id}`}>キー列:</label>
+        <select
+          id={`key-field-${layer.id}`}
+          value={layer.keyField ?? ""}
+          onChange={(e) => setError(onSetKeyField(e.target.value || undefined))}
+          disabled={disabled}
+          className="min-w-0 border rounded px-1 py-0.5 bg-background"
+        >
+          <option value="">(インデックス)</option>
+          {keys.map((key) => (
+            <option key={key} value={key}>
+              {key}
+            </option>
+          ))}
+        </select>
+      </div>
+      {error && <p className="text-destructive">{error}</p>}
+    </div>
+  );
+}
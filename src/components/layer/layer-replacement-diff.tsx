@@ -0,0 +1,97 @@
+import type { Feature } from "geojson";
+import { generateFeatureName } from "@/types/layer";
+import type { LayerReplacement, LayerReplacementAssignments } from "@/lib/layer-replacement";
+
+interface LayerReplacementDiffProps {
+  replacement: LayerReplacement;
+  /** エリアの割り当ての変化 (プロジェクトがない場合は null) */
+  assignments: LayerReplacementAssignments | null;
+  onDismiss: () => void;
+}
+
+// 一覧に表示する件数
+const MAX_LISTED_FEATURES = 20;
+
+/**
+ * 一覧に表示するフィーチャー (index はレイヤー内の番号)
+ */
+function toListedFeature(feature: Feature, index: number): { index: number; label: string } {
+  const label =
+    generateFeatureName(feature.properties as Record<string, unknown> | null) || `#${index + 1}`;
+  return { index, label };
+}
+
+/**
+ * データを置き換えたときの差分 (追加・削除・対応付けできなかったフィーチャー)
+ */
+export function LayerReplacementDiff({
+  replacement,
+  assignments,
+  onDismiss,
+}: LayerReplacementDiffProps) {
+  const { oldLayer, newLayer, match } = replacement;
+  const sections = [
+    {
+      title: "追加",
+      className: "text-green-600",
+      features: match.addedIndices.map((i) => toListedFeature(newLayer.geojson.features[i], i)),
+    },
+    {
+      title: "削除",
+      className: "text-destructive",
+      features: match.removedIndices.map((i) => toListedFeature(oldLayer.geojson.features[i], i)),
+    },
+    {
+      title: "対応付けできない",
+      className: "text-amber-600",
+      features: match.unmatchedIndices.map((i) => toListedFeature(oldLayer.geojson.features[i], i)),
+    },
+  ];
+
+  return (
+    <output className="block border rounded-md p-2 space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium truncate">{newLayer.name} のデータを置き換えました</span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-muted-foreground hover:text-foreground"
+          title="閉じる"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="text-muted-foreground">
+        {match.method === "key" ? `キー列 ${oldLayer.keyField} で対応付け` : "ジオメトリで対応付け"}
+        : {match.matches.size.toLocaleString()} 件が一致
+      </p>
+      {assignments && (
+        <p className="text-muted-foreground">
+          エリアの割り当て: {assignments.keptCount.toLocaleString()} 件を引き継ぎ
+          {assignments.releasedIds.length > 0 &&
+            `、${assignments.releasedIds.length.toLocaleString()} 件を解除`}
+        </p>
+      )}
+      {sections.map(
+        ({ title, className, features }) =>
+          features.length > 0 && (
+            <details key={title}>
+              <summary className={`cursor-pointer ${className}`}>
+                {title} {features.length.toLocaleString()} 件
+              </summary>
+              <ul className="ml-4 max-h-32 overflow-auto text-muted-foreground">
+                {features.slice(0, MAX_LISTED_FEATURES).map(({ index, label }) => (
+                  <li key={index} className="truncate">
+                    {label}
+                  </li>
+                ))}
+                {features.length > MAX_LISTED_FEATURES && (
+                  <li>他 {(features.length - MAX_LISTED_FEATURES).toLocaleString()} 件</li>
+                )}
+              </ul>
+            </details>
+          )
+      )}
+    </output>
+  );
+}
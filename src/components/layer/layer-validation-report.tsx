@@ -0,0 +1,85 @@
+import { useState } from "react";
+import type { Layer } from "@/types/layer";
+import {
+  VALIDATION_ISSUE_LABELS,
+  countValidationIssues,
+  formatValidationReportCsv,
+  type ValidationIssueType,
+} from "@/lib/layer-validation";
+import { downloadFile } from "@/lib/download";
+
+interface LayerValidationReportProps {
+  layer: Layer;
+}
+
+// 種類ごとに一覧に表示する件数
+const MAX_LISTED_ISSUES = 50;
+
+/**
+ * 読み込み時の検証結果 (レイヤーの下に件数を表示し、展開すると種類ごとの一覧)
+ * 一覧は CSV として保存できる
+ */
+export function LayerValidationReport({ layer }: LayerValidationReportProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const report = layer.validation;
+  if (!report) return null;
+
+  if (report.issues.length === 0) {
+    return <div className="ml-6 text-xs text-muted-foreground">検証: 問題なし</div>;
+  }
+
+  const counts = countValidationIssues(report);
+  const issuesOf = (type: ValidationIssueType) =>
+    report.issues.filter((issue) => issue.type === type);
+
+  return (
+    <div className="ml-6 text-xs space-y-1">
+      <div className="flex items-center gap-1 text-amber-600">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="hover:underline"
+          aria-expanded={isExpanded}
+        >
+          検証: {report.issues.length.toLocaleString()} 件の問題 {isExpanded ? "▲" : "▼"}
+        </button>
+        <button
+          type="button"
+          onClick={() =>
+            // Excel で文字化けしないよう BOM を付ける
+            downloadFile(
+              "\uFEFF" + formatValidationReportCsv(report),
+              `${layer.name}_validation.csv`,
+              "text/csv"
+            )
+          }
+          className="ml-auto text-muted-foreground hover:text-foreground hover:underline"
+        >
+          CSV で保存
+        </button>
+      </div>
+
+      {isExpanded &&
+        counts.map(({ type, count }) => (
+          <details key={type}>
+            <summary className="cursor-pointer">
+              {VALIDATION_ISSUE_LABELS[type]} {count.toLocaleString()} 件
+            </summary>
+            <ul className="ml-4 max-h-32 overflow-auto text-muted-foreground">
+              {issuesOf(type)
+                .slice(0, MAX_LISTED_ISSUES)
+                .map(({ featureIndex, message }) => (
+                  <li key={`${type}-${featureIndex}-${message}`}>
+                    {featureIndex !== null && `#${featureIndex + 1}: `}
+                    {message}
+                  </li>
+                ))}
+              {count > MAX_LISTED_ISSUES && (
+                <li>他 {(count - MAX_LISTED_ISSUES).toLocaleString()} 件 (CSV で確認できます)</li>
+              )}
+            </ul>
+          </details>
+        ))}
+    </div>
+  );
+}
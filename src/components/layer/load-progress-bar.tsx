@@ -0,0 +1,63 @@
+import type { LoadProgress } from "@/types/layer";
+import type { ParseProgress } from "@/lib/shapefile-parser";
+import { Button } from "@/components/ui/button";
+
+interface LoadProgressBarProps {
+  loadProgress: LoadProgress;
+  onCancel: () => void;
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
+
+function formatProgress(progress: ParseProgress): string {
+  const total =
+    progress.totalRecords !== null ? ` / ${progress.totalRecords.toLocaleString()}` : "";
+  const bytes = `${formatMegabytes(progress.bytesProcessed)} / ${formatMegabytes(progress.totalBytes)} MB`;
+  return `${progress.recordsRead.toLocaleString()}${total} 件 · ${bytes}`;
+}
+
+/**
+ * 読み込み中のセットの進捗とキャンセルボタン
+ */
+export function LoadProgressBar({ loadProgress, onCancel }: LoadProgressBarProps) {
+  const { fileName, setIndex, setCount, progress } = loadProgress;
+
+  // レコード数が分かる場合はレコード数、なければ .shp のバイト数で割合を出す
+  let ratio = 0;
+  if (progress) {
+    ratio = progress.totalRecords
+      ? progress.recordsRead / progress.totalRecords
+      : progress.bytesProcessed / Math.max(progress.totalBytes, 1);
+  }
+  const percent = Math.min(100, Math.round(ratio * 100));
+
+  return (
+    <div
+      className="border rounded-md p-2 space-y-1 text-xs"
+      role="progressbar"
+      aria-valuenow={percent}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate" title={fileName}>
+          {fileName}
+        </span>
+        {setCount > 1 && (
+          <span className="text-muted-foreground flex-shrink-0">
+            {setIndex + 1} / {setCount}
+          </span>
+        )}
+      </div>
+      <div className="h-1.5 rounded bg-muted overflow-hidden">
+        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex items-center justify-between gap-2 text-muted-foreground">
+        <span>{progress ? formatProgress(progress) : "準備中..."}</span>
+        <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={onCancel}>
+          キャンセル
+        </Button>
+      </div>
+    </div>
+  );
+}
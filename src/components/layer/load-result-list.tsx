@@ -0,0 +1,56 @@
+import type { LoadResult } from "@/types/layer";
+
+interface LoadResultListProps {
+  results: LoadResult[];
+  onDismiss: () => void;
+}
+
+const STATUS_ICONS: Record<LoadResult["status"], string> = {
+  success: "✓",
+  warning: "⚠",
+  error: "✕",
+};
+
+const STATUS_CLASSES: Record<LoadResult["status"], string> = {
+  success: "text-green-600",
+  warning: "text-amber-600",
+  error: "text-destructive",
+};
+
+/**
+ * ファイルごとの読み込み結果一覧
+ */
+export function LoadResultList({ results, onDismiss }: LoadResultListProps) {
+  if (results.length === 0) return null;
+
+  const errorCount = results.filter((r) => r.status === "error").length;
+
+  return (
+    <output className="block border rounded-md p-2 space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">
+          読み込み結果 {errorCount > 0 && <span className="text-destructive">({errorCount} 件失敗)</span>}
+        </span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="text-muted-foreground hover:text-foreground"
+          title="閉じる"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="space-y-0.5 max-h-40 overflow-auto">
+        {results.map((result) => (
+          <li key={`${result.fileName}-${result.status}-${result.message}`} className="flex gap-1">
+            <span className={STATUS_CLASSES[result.status]}>{STATUS_ICONS[result.status]}</span>
+            <span className="truncate flex-shrink-0 max-w-[50%]" title={result.fileName}>
+              {result.fileName}
+            </span>
+            <span className="text-muted-foreground break-all">{result.message}</span>
+          </li>
+        ))}
+      </ul>
+    </output>
+  );
+}
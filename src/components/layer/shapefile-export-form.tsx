@@ -0,0 +1,61 @@
+import { useState } from "react";
+import type { ShapefileExport } from "@/lib/shapefile-writer";
+import { EXPORT_ENCODINGS, type ExportEncoding } from "@/lib/text-encoder";
+import { Button } from "@/components/ui/button";
+
+interface ShapefileExportFormProps {
+  /** 書き出すフィーチャー数 */
+  featureCount: number;
+  defaultEncoding: ExportEncoding;
+  /** @returns 書き出し結果 (対象がない場合は null) */
+  onExport: (encoding: ExportEncoding) => ShapefileExport | null;
+}
+
+/**
+ * Shapefile (ZIP) の書き出し (DBF の文字コードを選んで保存する)
+ */
+export function ShapefileExportForm({
+  featureCount,
+  defaultEncoding,
+  onExport,
+}: ShapefileExportFormProps) {
+  const [encoding, setEncoding] = useState<ExportEncoding>(defaultEncoding);
+  const [result, setResult] = useState<ShapefileExport | null>(null);
+
+  return (
+    <div className="space-y-1 text-xs">
+      <div className="flex items-center gap-1">
+        <select
+          aria-label="DBF の文字コード"
+          value={encoding}
+          onChange={(e) => setEncoding(e.target.value as ExportEncoding)}
+          className="border rounded px-1 py-0.5 bg-background"
+        >
+          {EXPORT_ENCODINGS.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1"
+          disabled={featureCount === 0}
+          onClick={() => setResult(onExport(encoding))}
+        >
+          Shapefile (ZIP) で保存 ({featureCount.toLocaleString()} 件)
+        </Button>
+      </div>
+      {result && (
+        <p className="text-muted-foreground">
+          {result.featureCount.toLocaleString()} 件を保存しました
+          {result.shpFileNames.length > 1 &&
+            ` (ジオメトリの種類ごとに ${result.shpFileNames.length} ファイル)`}
+          {result.nullGeometryCount > 0 &&
+            `。${result.nullGeometryCount.toLocaleString()} 件はジオメトリなしで出力しました`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { GeoJSON, Marker, useMap, useMapEvents } from "react-leaflet";
+import type { MultiPolygon, Polygon, Position } from "geojson";
+import L, { type PathOptions } from "leaflet";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { DissolvedArea } from "@/lib/area-dissolve";
+import { buildAreaPaths } from "@/lib/area-join";
+import { getGeometryBounds } from "@/lib/geometry-bounds";
+import { estimateLabelWidth, placeLabels, type LabelCandidate } from "@/lib/label-placement";
+import { getPolygonLabelPoint } from "@/lib/polygon-label";
+
+interface AreaOutlineLayerProps {
+  dissolved: DissolvedArea[];
+  /** 表示しない階層 (1 始まり) */
+  hiddenLevels: number[];
+}
+
+// 階層ごとの線の太さと文字の大きさ (深い階層ほど細く小さく、3 階層目以降は同じ)
+const LEVEL_WEIGHTS = [4, 3, 2];
+const LEVEL_FONT_SIZES = [14, 12, 11];
+// ラベルの高さ (文字の大きさに対する比)
+const LABEL_LINE_HEIGHT = 1.4;
+
+function getLevelValue(values: number[], level: number): number {
+  return values[Math.min(level, values.length) - 1];
+}
+
+// ラベルの位置はジオメトリごとに一度だけ計算する (変更のないエリアの結合結果は同じオブジェクト)
+const labelPoints = new WeakMap<Polygon | MultiPolygon, Position | null>();
+// GeoJSON はデータの変更を反映しないため、ジオメトリごとのキーで作り直す
+const geometryKeys = new WeakMap<Polygon | MultiPolygon, number>();
+let nextGeometryKey = 0;
+
+function getLabelPoint(geometry: Polygon | MultiPolygon): Position | null {
+  if (!labelPoints.has(geometry)) labelPoints.set(geometry, getPolygonLabelPoint(geometry));
+  return labelPoints.get(geometry) ?? null;
+}
+
+function getGeometryKey(geometry: Polygon | MultiPolygon): number {
+  let key = geometryKeys.get(geometry);
+  if (key === undefined) {
+    key = nextGeometryKey++;
+    geometryKeys.set(geometry, key);
+  }
+  return key;
+}
+
+function createLabelIcon(name: string, color: string, fontSize: number, width: number) {
+  const element = document.createElement("div");
+  element.textContent = name;
+  Object.assign(element.style, {
+    color,
+    fontSize: `${fontSize}px`,
+    fontWeight: "bold",
+    lineHeight: `${Math.round(fontSize * LABEL_LINE_HEIGHT)}px`,
+    textAlign: "center",
+    whiteSpace: "nowrap",
+    textShadow: "0 0 3px #fff, 0 0 3px #fff, 0 0 3px #fff",
+    pointerEvents: "none",
+  });
+  return L.divIcon({
+    html: element,
+    className: "",
+    iconSize: [width, Math.round(fontSize * LABEL_LINE_HEIGHT)],
+  });
+}
+
+type VisibleArea = DissolvedArea & { geometry: Polygon | MultiPolygon; level: number };
+
+interface PlacedLabel {
+  id: string;
+  name: string;
+  color: string;
+  fontSize: number;
+  position: [number, number];
+  icon: L.DivIcon;
+}
+
+/**
+ * 現在の表示範囲で表示するラベルを決める
+ * 上の階層・画面上で大きいエリアを優先し、画面外のラベルとエリアより大きいラベルは表示しない
+ */
+function computeLabels(map: L.Map, areas: VisibleArea[]): PlacedLabel[] {
+  const size = map.getSize();
+  const candidates: (LabelCandidate & {
+    label: Omit<PlacedLabel, "icon">;
+    level: number;
+    pixelArea: number;
+  })[] = [];
+  for (const { area, geometry, level } of areas) {
+    const point = getLabelPoint(geometry);
+    const bounds = getGeometryBounds(geometry);
+    if (!point || !bounds) continue;
+    const center = map.latLngToContainerPoint([point[1], point[0]]);
+    const fontSize = getLevelValue(LEVEL_FONT_SIZES, level);
+    const width = estimateLabelWidth(area.name, fontSize);
+    const height = Math.round(fontSize * LABEL_LINE_HEIGHT);
+    const southWest = map.latLngToContainerPoint([bounds[1], bounds[0]]);
+    const northEast = map.latLngToContainerPoint([bounds[3], bounds[2]]);
+    const boundsWidth = northEast.x - southWest.x;
+    const boundsHeight = southWest.y - northEast.y;
+    const isOutside =
+      center.x < -width ||
+      center.y < -height ||
+      center.x > size.x + width ||
+      center.y > size.y + height;
+    if (isOutside || boundsWidth < width || boundsHeight < height) continue;
+
+    candidates.push({
+      id: area.id,
+      x: center.x,
+      y: center.y,
+      width,
+      height,
+      label: {
+        id: area.id,
+        name: area.name,
+        color: area.color,
+        fontSize,
+        position: [point[1], point[0]],
+      },
+      level,
+      pixelArea: boundsWidth * boundsHeight,
+    });
+  }
+  candidates.sort((a, b) => a.level - b.level || b.pixelArea - a.pixelArea);
+  const placed = placeLabels(candidates);
+  return candidates
+    .filter((candidate) => placed.has(candidate.id))
+    .map(({ label, width }) => ({
+      ...label,
+      icon: createLabelIcon(label.name, label.color, label.fontSize, width),
+    }));
+}
+
+/**
+ * ディゾルブしたエリアの境界線と名前のラベル
+ * ラベルは重ならないよう、地図の移動・ズームのたびに配置をやり直す
+ */
+export function AreaOutlineLayer({ dissolved, hiddenLevels }: AreaOutlineLayerProps) {
+  const map = useMap();
+
+  // 表示する階層のエリア (上の階層から順、線は深い階層を上に重ねる)
+  const visible = useMemo(() => {
+    const paths = buildAreaPaths(dissolved.map((d) => d.area));
+    return dissolved
+      .map((d) => ({ ...d, level: paths.get(d.area.id)?.length ?? 1 }))
+      .filter((d): d is VisibleArea => d.geometry !== null && !hiddenLevels.includes(d.level))
+      .sort((a, b) => a.level - b.level);
+  }, [dissolved, hiddenLevels]);
+
+  const [labels, setLabels] = useState<PlacedLabel[]>([]);
+  const updateLabels = useCallback(() => setLabels(computeLabels(map, visible)), [map, visible]);
+  useEffect(updateLabels, [updateLabels]);
+  useMapEvents({ moveend: updateLabels, resize: updateLabels });
+
+  return (
+    <>
+      {visible.map(({ area, geometry, level }) => {
+        const style: PathOptions = {
+          color: area.color,
+          weight: getLevelValue(LEVEL_WEIGHTS, level),
+          opacity: 0.9,
+          fill: false,
+        };
+        return (
+          <GeoJSON
+            key={`${area.id}-${area.color}-${level}-${getGeometryKey(geometry)}`}
+            data={geometry}
+            style={style}
+            interactive={false}
+          />
+        );
+      })}
+      {labels.map((label) => (
+        <Marker
+          key={`${label.id}-${label.name}-${label.color}-${label.fontSize}`}
+          position={label.position}
+          icon={label.icon}
+          interactive={false}
+          keyboard={false}
+        />
+      ))}
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import type { Feature, GeoJsonProperties } from "geojson";
+import { formatPropertyValue } from "@/lib/field-schema";
 import {
   Card,
   CardContent,
@@ -57,7 +58,7 @@ export function FeatureInfoPanel({ feature }: FeatureInfoPanelProps) {
                   </td>
                   <td className="py-2 break-all">
                     {value !== null && value !== undefined
-                      ? String(value)
+                      ? formatPropertyValue(value)
                       : "-"}
                   </td>
                 </tr>
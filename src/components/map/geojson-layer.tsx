@@ -1,9 +1,14 @@
-import { GeoJSON, useMap } from "react-leaflet";
+import { GeoJSON, useMap, useMapEvents } from "react-leaflet";
 import type { Feature, FeatureCollection } from "geojson";
 import type { Layer, PathOptions } from "leaflet";
-import { useEffect, useRef, useMemo, useCallback } from "react";
-import { generateFeatureId, type PropertyFilter } from "@/types/layer";
+import { useEffect, useRef, useMemo, useCallback, useState } from "react";
+import { generateFeatureId, getFeatureKey, type PropertyFilter } from "@/types/layer";
 import { UI_COLORS } from "@/lib/color-palette";
+import {
+  createPropertyFilterMatcher,
+  describePropertyFilterCondition,
+} from "@/lib/property-filter-utils";
+import { getSimplificationLevel, getSimplifiedGeoJson } from "@/lib/geometry-simplification";
 
 // 最新のコールバックを参照するためのRef型
 type FeatureClickHandler = (feature: Feature, featureId: string, index: number) => void;
@@ -20,6 +25,7 @@ interface FilteredFeature {
 interface GeoJSONLayerProps {
   layerId: string;
   data: FeatureCollection;
+  keyField?: string; // フィーチャーIDに使うキー列
   color: string;
   onFeatureClick: (feature: Feature, featureId: string, index: number) => void;
   selectedFeatureIndex: number | null; // インデックスで選択を管理
@@ -37,6 +43,7 @@ interface GeoJSONLayerProps {
 export function GeoJSONLayer({
   layerId,
   data,
+  keyField,
   color,
   onFeatureClick,
   selectedFeatureIndex,
@@ -51,6 +58,15 @@ export function GeoJSONLayer({
   const map = useMap();
   const geoJsonRef = useRef<L.GeoJSON | null>(null);
 
+  // ズームに応じて簡略化したジオメトリを描画 (フィーチャーの順は元と同じ)
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+  const simplificationLevel = getSimplificationLevel(zoom);
+  const renderData = useMemo(
+    () => getSimplifiedGeoJson(data, simplificationLevel),
+    [data, simplificationLevel]
+  );
+
   // フィルター適用 (元のインデックスを保持)
   // レイヤーフィルターとグローバルフィルタの両方を適用
   const { filteredData, originalIndexMap } = useMemo(() => {
@@ -60,30 +76,24 @@ export function GeoJSONLayer({
     if (!hasLayerFilter && !hasGlobalFilter) {
       // フィルターなし: 全フィーチャーをそのまま使用
       const indexMap = new Map<Feature, number>();
-      data.features.forEach((f, i) => indexMap.set(f, i));
-      return { filteredData: data, originalIndexMap: indexMap };
+      renderData.features.forEach((f, i) => indexMap.set(f, i));
+      return { filteredData: renderData, originalIndexMap: indexMap };
     }
 
     // フィルター適用 (両方のフィルタをAND条件で適用)
     const filtered: FilteredFeature[] = [];
-    const layerValuesSet = hasLayerFilter ? new Set(filter.values) : null;
-    const globalValuesSet = hasGlobalFilter ? new Set(globalFilter.values) : null;
+    const matchesLayerFilter = hasLayerFilter ? createPropertyFilterMatcher(filter) : null;
+    const matchesGlobalFilter = hasGlobalFilter ? createPropertyFilterMatcher(globalFilter) : null;
 
-    data.features.forEach((feature, index) => {
+    renderData.features.forEach((feature, index) => {
       // レイヤーフィルタのチェック
-      if (layerValuesSet && filter) {
-        const value = feature.properties?.[filter.key];
-        if (!layerValuesSet.has(String(value))) {
-          return; // レイヤーフィルタに一致しない
-        }
+      if (matchesLayerFilter && !matchesLayerFilter(feature.properties)) {
+        return; // レイヤーフィルタに一致しない
       }
 
       // グローバルフィルタのチェック
-      if (globalValuesSet && globalFilter) {
-        const value = feature.properties?.[globalFilter.key];
-        if (!globalValuesSet.has(String(value))) {
-          return; // グローバルフィルタに一致しない
-        }
+      if (matchesGlobalFilter && !matchesGlobalFilter(feature.properties)) {
+        return; // グローバルフィルタに一致しない
       }
 
       filtered.push({ feature, originalIndex: index });
@@ -96,10 +106,17 @@ export function GeoJSONLayer({
     });
 
     return {
-      filteredData: { ...data, features: newFeatures },
+      filteredData: { ...renderData, features: newFeatures },
       originalIndexMap: indexMap,
     };
-  }, [data, filter, globalFilter]);
+  }, [renderData, filter, globalFilter]);
+
+  // 元インデックスからフィーチャーIDを生成
+  const getFeatureIdForIndex = useCallback(
+    (featureIndex: number): string =>
+      generateFeatureId(layerId, getFeatureKey(data.features[featureIndex], featureIndex, keyField)),
+    [layerId, data, keyField]
+  );
 
   // 最新のコールバックをrefに保存 (クロージャ問題を回避)
   const onFeatureClickRef = useRef<FeatureClickHandler>(onFeatureClick);
@@ -113,10 +130,10 @@ export function GeoJSONLayer({
   const getAreaColorForIndex = useCallback(
     (featureIndex: number): string | null => {
       if (!areaColorMap) return null;
-      const featureId = generateFeatureId(layerId, featureIndex);
+      const featureId = getFeatureIdForIndex(featureIndex);
       return areaColorMap.get(featureId) ?? null;
     },
-    [layerId, areaColorMap]
+    [getFeatureIdForIndex, areaColorMap]
   );
 
   // キー生成用: areaColorMapの内容を文字列化
@@ -157,7 +174,7 @@ export function GeoJSONLayer({
 
       // エリア選択モード時のホバースタイル
       if (isHover && areaSelectionMode) {
-        const featureId = generateFeatureId(layerId, featureIndex);
+        const featureId = getFeatureIdForIndex(featureIndex);
         const belongsToSelectedArea = selectedAreaFeatureIds?.has(featureId) ?? false;
 
         if (belongsToSelectedArea) {
@@ -204,7 +221,7 @@ export function GeoJSONLayer({
         fillColor: baseColor,
       };
     },
-    [color, getAreaColorForIndex, areaColorMap, areaSelectionMode, showSelectionHighlight, layerId, selectedAreaFeatureIds]
+    [color, getAreaColorForIndex, areaColorMap, areaSelectionMode, showSelectionHighlight, getFeatureIdForIndex, selectedAreaFeatureIds]
   );
 
   // 最新のスタイル関数をrefに保存 (ホバー時のクロージャ問題を回避)
@@ -232,12 +249,12 @@ export function GeoJSONLayer({
     (feature: Feature, layer: Layer) => {
       // 元インデックスをMapから取得
       const index = originalIndexMapRef.current.get(feature) ?? 0;
-      const featureId = generateFeatureId(layerId, index);
+      const featureId = getFeatureIdForIndex(index);
 
       layer.on({
         click: () => {
-          // refを使用して最新のコールバックを呼び出す
-          onFeatureClickRef.current(feature, featureId, index);
+          // refを使用して最新のコールバックを呼び出す (簡略化前のフィーチャーを渡す)
+          onFeatureClickRef.current(data.features[index] ?? feature, featureId, index);
         },
         mouseover: (e) => {
           const target = e.target as L.Path;
@@ -258,7 +275,8 @@ export function GeoJSONLayer({
       });
     },
     [
-      layerId,
+      data,
+      getFeatureIdForIndex,
       // selectedFeatureIndex, getStyleForFeature, onFeatureClick, originalIndexMapはrefを使用するため依存配列から削除
     ]
   );
@@ -270,13 +288,14 @@ export function GeoJSONLayer({
 
   // キーにエリア割り当て、選択モード、フィルターを含めて、変更時に再描画
   const selectionModeKey = areaSelectionMode ? "select" : "view";
-  const filterKey = filter?.enabled ? `${filter.key}=${filter.values.join(",")}` : "nofilter";
-  const globalFilterKey = globalFilter?.enabled ? `g:${globalFilter.key}=${globalFilter.values.join(",")}` : "noglobal";
+  const levelKey = renderData === data ? "full" : simplificationLevel;
+  const filterKey = filter?.enabled ? `${filter.key}=${describePropertyFilterCondition(filter)}:${filter.values.join(",")}` : "nofilter";
+  const globalFilterKey = globalFilter?.enabled ? `g:${globalFilter.key}=${describePropertyFilterCondition(globalFilter)}:${globalFilter.values.join(",")}` : "noglobal";
 
   return (
     <GeoJSON
       ref={geoJsonRef}
-      key={`${layerId}-${filteredData.features.length}-${color}-${areaColorMapKey}-${selectionModeKey}-${filterKey}-${globalFilterKey}`}
+      key={`${layerId}-${filteredData.features.length}-${color}-${areaColorMapKey}-${selectionModeKey}-${filterKey}-${globalFilterKey}-${levelKey}`}
       data={filteredData}
       style={style}
       onEachFeature={onEachFeature}
@@ -0,0 +1,133 @@
+import { GeoJSON, useMap } from "react-leaflet";
+import type { Feature, FeatureCollection } from "geojson";
+import type { Layer as LeafletLayer, PathOptions } from "leaflet";
+import { useEffect, useMemo, useCallback, useRef } from "react";
+import type { Layer } from "@/types/layer";
+import { getChangedFeature, type FeatureChangeType, type LayerDiff } from "@/lib/layer-diff";
+import { getGeometryBounds } from "@/lib/geometry-bounds";
+import { DIFF_COLORS } from "@/lib/color-palette";
+
+interface LayerDiffLayerProps {
+  diff: LayerDiff;
+  oldLayer: Layer;
+  newLayer: Layer;
+  /** 一覧で選択中の変更 (地図をその範囲に移動する) */
+  focusedIndex: number | null;
+  onChangeClick: (index: number) => void;
+}
+
+// 変更の種類ごとのスタイル (削除は破線で元の形を示す)
+const CHANGE_STYLES: Record<FeatureChangeType, PathOptions> = {
+  added: { color: DIFF_COLORS.added, fillColor: DIFF_COLORS.added, weight: 2, fillOpacity: 0.3 },
+  removed: {
+    color: DIFF_COLORS.removed,
+    fillColor: DIFF_COLORS.removed,
+    weight: 2,
+    fillOpacity: 0.1,
+    dashArray: "4 4",
+  },
+  geometry: {
+    color: DIFF_COLORS.geometry,
+    fillColor: DIFF_COLORS.geometry,
+    weight: 2,
+    fillOpacity: 0.3,
+  },
+  attributes: {
+    color: DIFF_COLORS.attributes,
+    fillColor: DIFF_COLORS.attributes,
+    weight: 1,
+    fillOpacity: 0.2,
+  },
+};
+
+// 変更箇所へ移動するときの最大ズーム (点のフィーチャーで寄りすぎない)
+const FOCUS_MAX_ZOOM = 16;
+
+// GeoJSON はデータの変更を反映しないため、比較結果ごとのキーで作り直す
+const diffKeys = new WeakMap<LayerDiff, number>();
+let nextDiffKey = 0;
+
+function getDiffKey(diff: LayerDiff): number {
+  let key = diffKeys.get(diff);
+  if (key === undefined) {
+    key = nextDiffKey++;
+    diffKeys.set(diff, key);
+  }
+  return key;
+}
+
+/**
+ * 2 つのレイヤーの比較結果を変更の種類ごとのスタイルで表示する
+ */
+export function LayerDiffLayer({
+  diff,
+  oldLayer,
+  newLayer,
+  focusedIndex,
+  onChangeClick,
+}: LayerDiffLayerProps) {
+  const map = useMap();
+
+  // 変更のあったフィーチャーと一覧での位置
+  const { data, indexMap } = useMemo(() => {
+    const indexMap = new Map<Feature, number>();
+    const features = diff.changes.map((change, index) => {
+      const feature = getChangedFeature(change, oldLayer, newLayer);
+      indexMap.set(feature, index);
+      return feature;
+    });
+    const data: FeatureCollection = { type: "FeatureCollection", features };
+    return { data, indexMap };
+  }, [diff, oldLayer, newLayer]);
+
+  // 最新のコールバックをrefに保存 (クロージャ問題を回避)
+  const onChangeClickRef = useRef(onChangeClick);
+  onChangeClickRef.current = onChangeClick;
+
+  useEffect(() => {
+    if (focusedIndex === null) return;
+    const change = diff.changes[focusedIndex];
+    if (!change) return;
+    const bounds = getGeometryBounds(getChangedFeature(change, oldLayer, newLayer).geometry);
+    if (!bounds) return;
+    const [minX, minY, maxX, maxY] = bounds;
+    map.fitBounds(
+      [
+        [minY, minX],
+        [maxY, maxX],
+      ],
+      { padding: [40, 40], maxZoom: FOCUS_MAX_ZOOM }
+    );
+  }, [focusedIndex, diff, oldLayer, newLayer, map]);
+
+  const style = useCallback(
+    (feature: Feature | undefined): PathOptions => {
+      const index = feature ? indexMap.get(feature) : undefined;
+      if (index === undefined) return CHANGE_STYLES.attributes;
+      const base = CHANGE_STYLES[diff.changes[index].type];
+      return index === focusedIndex ? { ...base, weight: 4, fillOpacity: 0.5 } : base;
+    },
+    [indexMap, diff, focusedIndex]
+  );
+
+  const onEachFeature = useCallback(
+    (feature: Feature, layer: LeafletLayer) => {
+      const index = indexMap.get(feature);
+      if (index === undefined) return;
+      layer.on({ click: () => onChangeClickRef.current(index) });
+    },
+    [indexMap]
+  );
+
+  if (data.features.length === 0) return null;
+
+  // 比較結果が変わったら作り直す (スタイルは style の変更で更新される)
+  return (
+    <GeoJSON
+      key={`${oldLayer.id}-${newLayer.id}-${getDiffKey(diff)}`}
+      data={data}
+      style={style}
+      onEachFeature={onEachFeature}
+    />
+  );
+}
@@ -4,9 +4,16 @@ import {
   getAvailablePropertyKeys,
   getAvailablePropertyValues,
 } from "@/lib/property-filter-utils";
+import type { DbfField } from "@/lib/dbf-header";
+import {
+  FIELD_VALUE_TYPE_LABELS,
+  getPropertyValueType,
+  getSchemaValueType,
+} from "@/lib/field-schema";
 
 interface PropertyMultiSelectProps {
   features: Feature<Geometry | null, GeoJsonProperties>[];
+  schema?: DbfField[]; // 値の並び順と列の型の表示に使う DBF のフィールド定義
   selectedKey: string;
   selectedValues: Set<string>;
   onKeyChange: (key: string) => void;
@@ -17,6 +24,7 @@ interface PropertyMultiSelectProps {
 
 export function PropertyMultiSelect({
   features,
+  schema,
   selectedKey,
   selectedValues,
   onKeyChange,
@@ -32,8 +40,13 @@ export function PropertyMultiSelect({
   );
 
   const availableValues = useMemo(
-    () => getAvailablePropertyValues(features, selectedKey),
-    [features, selectedKey]
+    () =>
+      getAvailablePropertyValues(
+        features,
+        selectedKey,
+        getPropertyValueType(features, selectedKey, schema)
+      ),
+    [features, selectedKey, schema]
   );
 
   // 検索テキストでフィルタリングされた値
@@ -95,11 +108,15 @@ export function PropertyMultiSelect({
           onChange={(e) => handleKeyChange(e.target.value)}
         >
           <option value="">選択してください</option>
-          {availableKeys.map((key) => (
-            <option key={key} value={key}>
-              {key}
-            </option>
-          ))}
+          {availableKeys.map((key) => {
+            const type = getSchemaValueType(schema, key);
+            return (
+              <option key={key} value={key}>
+                {key}
+                {type && type !== "string" ? ` (${FIELD_VALUE_TYPE_LABELS[type]})` : ""}
+              </option>
+            );
+          })}
         </select>
       </div>
 
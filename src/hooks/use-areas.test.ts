@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useAreas } from "./use-areas";
+import type { Layer } from "@/types/layer";
 // Test updated for getAreaColor removal
 
 describe("useAreas", () => {
@@ -98,6 +99,45 @@ describe("useAreas", () => {
     });
   });
 
+  describe("openProjectFromFile", () => {
+    it("プロジェクトを開けた場合はtrueを返す", async () => {
+      // Arrange
+      const { result } = renderHook(() => useAreas());
+      const json = JSON.stringify({
+        version: "1.0.0",
+        name: "営業エリア",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+        areas: [],
+      });
+
+      // Act
+      let opened = false;
+      await act(async () => {
+        opened = await result.current.openProjectFromFile(new File([json], "project.json"));
+      });
+
+      // Assert
+      expect(opened).toBe(true);
+      expect(result.current.project?.name).toBe("営業エリア");
+    });
+
+    it("無効なファイルではfalseを返しエラーを設定する", async () => {
+      // Arrange
+      const { result } = renderHook(() => useAreas());
+
+      // Act
+      let opened = true;
+      await act(async () => {
+        opened = await result.current.openProjectFromFile(new File(["{}"], "broken.json"));
+      });
+
+      // Assert
+      expect(opened).toBe(false);
+      expect(result.current.error).toBe("無効なプロジェクトファイルです");
+    });
+  });
+
   describe("addArea", () => {
     it("新しいエリアを追加する", () => {
       // Arrange
@@ -597,4 +637,163 @@ describe("useAreas", () => {
       expect(result.current.error).toBeNull();
     });
   });
+
+  describe("migrateFeatureIds", () => {
+    const layer: Layer = {
+      id: "town",
+      name: "town",
+      geojson: {
+        type: "FeatureCollection",
+        features: ["13101", "13102"].map((code) => ({
+          type: "Feature" as const,
+          geometry: { type: "Point" as const, coordinates: [139, 35] },
+          properties: { KEY_CODE: code },
+        })),
+      },
+      visible: true,
+      color: "#3b82f6",
+      keyField: "KEY_CODE",
+    };
+
+    it("インデックス形式のIDをレイヤーのキー列に合わせて書き換える", () => {
+      // Arrange
+      const { result } = renderHook(() => useAreas());
+      act(() => {
+        result.current.newProject("Test");
+      });
+      act(() => {
+        result.current.addArea("Area");
+      });
+      act(() => {
+        result.current.addFeatureToArea(result.current.areas[0].id, "town:1");
+      });
+
+      // Act
+      let notice: string | null = null;
+      act(() => {
+        notice = result.current.migrateFeatureIds([layer]);
+      });
+
+      // Assert
+      expect(result.current.areas[0].featureIds).toEqual(["town:13102"]);
+      expect(result.current.project?.featureKeyFields).toEqual({ town: "KEY_CODE" });
+      expect(notice).toBe("1 件のフィーチャーIDをキー列の設定に合わせて書き換えました");
+    });
+
+    it("形式が揃っていれば何もしない", () => {
+      // Arrange
+      const { result } = renderHook(() => useAreas());
+      act(() => {
+        result.current.newProject("Test");
+      });
+      act(() => {
+        result.current.migrateFeatureIds([layer]);
+      });
+      const project = result.current.project;
+
+      // Act
+      let notice: string | null = null;
+      act(() => {
+        notice = result.current.migrateFeatureIds([layer]);
+      });
+
+      // Assert
+      expect(notice).toBeNull();
+      expect(result.current.project).toBe(project);
+    });
+  });
+
+  describe("remapFeatureLayer / removeFeatureIds", () => {
+    function setupProjectWithFeatures(featureIds: string[]) {
+      const { result } = renderHook(() => useAreas());
+      act(() => {
+        result.current.newProject("Test");
+      });
+      act(() => {
+        result.current.addArea("Area");
+      });
+      act(() => {
+        result.current.addFeaturesToArea(result.current.areas[0].id, featureIds);
+      });
+      return result;
+    }
+
+    it("参照を別のレイヤーに付け替える", () => {
+      // Arrange
+      const result = setupProjectWithFeatures(["old:0", "other:1"]);
+      const toLayer: Layer = {
+        id: "new",
+        name: "new",
+        geojson: { type: "FeatureCollection", features: [] },
+        visible: true,
+        color: "#3b82f6",
+      };
+
+      // Act
+      act(() => {
+        result.current.remapFeatureLayer("old", toLayer);
+      });
+
+      // Assert
+      expect(result.current.areas[0].featureIds).toEqual(["new:0", "other:1"]);
+      expect(result.current.isDirty).toBe(true);
+    });
+
+    it("指定したフィーチャーIDを削除する", () => {
+      // Arrange
+      const result = setupProjectWithFeatures(["old:0", "old:1"]);
+
+      // Act
+      act(() => {
+        result.current.removeFeatureIds(["old:1"]);
+      });
+
+      // Assert
+      expect(result.current.areas[0].featureIds).toEqual(["old:0"]);
+    });
+  });
+
+  describe("remapFeatureIds", () => {
+    it("呼び出し元が古い状態を持っていても、その後に割り当てたIDを書き換える", () => {
+      // Arrange
+      const { result } = renderHook(() => useAreas());
+      act(() => {
+        result.current.newProject("Test");
+      });
+      act(() => {
+        result.current.addArea("Area");
+      });
+      const remapFeatureIds = result.current.remapFeatureIds;
+      act(() => {
+        result.current.addFeatureToArea(result.current.areas[0].id, "town:縺ｱ");
+      });
+
+      // Act
+      act(() => {
+        remapFeatureIds(new Map([["town:縺ｱ", "town:あ"]]));
+      });
+
+      // Assert
+      expect(result.current.areas[0].featureIds).toEqual(["town:あ"]);
+      expect(result.current.isDirty).toBe(true);
+    });
+
+    it("対象のIDがなければプロジェクトを変更しない", () => {
+      // Arrange
+      const { result } = renderHook(() => useAreas());
+      act(() => {
+        result.current.newProject("Test");
+      });
+      const project = result.current.project;
+
+      // Act
+      act(() => {
+        result.current.remapFeatureIds(new Map([["town:縺ｱ", "town:あ"]]));
+      });
+
+      // Assert
+      expect(result.current.project).toBe(project);
+      expect(result.current.isDirty).toBe(false);
+    });
+  });
 });
@@ -10,6 +10,36 @@ import {
 import type { Layer } from "@/types/layer";
 import { getFeatureNameFromLayers } from "@/types/layer";
 import { STORAGE_KEYS } from "@/lib/constants";
+import { downloadFile } from "@/lib/download";
+import { buildAreasKml } from "@/lib/kml-writer";
+import {
+  extendSchemaWithAreaColumns,
+  formatGeoJson,
+  getJoinedPropertyKeys,
+  joinAreaAttributes,
+  type AreaJoinFormat,
+  type AreaJoinOptions,
+} from "@/lib/area-join";
+import {
+  toDissolvedFeatures,
+  type DissolvedArea,
+  type DissolvedAreaFormat,
+} from "@/lib/area-dissolve";
+import { formatFeaturesCsv } from "@/lib/csv-writer";
+import { buildShapefileZip, toExportFileName } from "@/lib/shapefile-writer";
+import { encodeText, type ExportEncoding } from "@/lib/text-encoder";
+import {
+  describeFeatureIdMigration,
+  migrateProjectFeatureIds,
+  remapAreaFeatureIds,
+} from "@/lib/feature-id-migration";
+import { pruneFeatureIds, remapProjectLayer } from "@/lib/project-reconciliation";
+import { recordLayerSources } from "@/lib/layer-provenance";
+import {
+  applyLayerReplacement as applyReplacementToProject,
+  type LayerReplacement,
+  type LayerReplacementAssignments,
+} from "@/lib/layer-replacement";
 import { projectLogger } from "@/lib/logger";
 
 interface UseAreasResult {
@@ -29,8 +59,26 @@ interface UseAreasResult {
 
   // Project operations
   newProject: (name: string) => void;
-  openProjectFromFile: (file: File) => Promise<void>;
+  /** @returns 開けた場合 true */
+  openProjectFromFile: (file: File) => Promise<boolean>;
   downloadProject: (layers: Layer[]) => void;
+  downloadKml: (layers: Layer[]) => void;
+  /**
+   * エリアの割り当てをレイヤーの属性列に結合して出力する
+   * @returns 出力したフィーチャー数 (プロジェクトがない場合は null)
+   */
+  downloadAreaJoin: (
+    layer: Layer,
+    options: AreaJoinOptions,
+    format: AreaJoinFormat,
+    encoding: ExportEncoding
+  ) => number | null;
+  /** ディゾルブしたエリアの境界を出力する */
+  downloadDissolvedAreas: (
+    dissolved: DissolvedArea[],
+    format: DissolvedAreaFormat,
+    encoding: ExportEncoding
+  ) => void;
   closeProject: () => void;
 
   // Area operations
@@ -43,6 +91,22 @@ interface UseAreasResult {
   addFeatureToArea: (areaId: string, featureId: string) => void;
   removeFeatureFromArea: (areaId: string, featureId: string) => void;
   addFeaturesToArea: (areaId: string, featureIds: string[]) => void;
+  /**
+   * フィーチャーIDをレイヤーのキー列の設定に合わせて書き換える
+   * @returns 書き換えた内容の説明 (通知することがなければ null)
+   */
+  migrateFeatureIds: (layers: Layer[]) => string | null;
+  /** あるレイヤーへの参照を別の (名前の違う) レイヤーに付け替える */
+  remapFeatureLayer: (fromLayerId: string, toLayer: Layer) => void;
+  /** 指定したフィーチャーIDをすべてのエリアから削除する (見つからないIDの整理用) */
+  removeFeatureIds: (featureIds: string[]) => void;
+  /** フィーチャーIDを対応表に従って書き換える (属性を読み直してキーの値が変わった場合) */
+  remapFeatureIds: (mapping: Map<string, string>) => void;
+  /**
+   * レイヤーのデータの置き換えに合わせてフィーチャーIDを書き換える
+   * @returns 割り当ての変化 (プロジェクトがない場合は null)
+   */
+  applyLayerReplacement: (replacement: LayerReplacement) => LayerReplacementAssignments | null;
 
   // Utils
   getAreaById: (id: string) => Area | undefined;
@@ -54,15 +118,7 @@ interface UseAreasResult {
  */
 function downloadProjectAsFile(project: AreaProject) {
   const json = JSON.stringify(project, null, 2);
-  const blob = new Blob([json], { type: "application/json" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = `${project.name}.json`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  downloadFile(json, `${project.name}.json`, "application/json");
 }
 
 export function useAreas(): UseAreasResult {
@@ -130,7 +186,7 @@ export function useAreas(): UseAreasResult {
   }, []);
 
   // Open project from file
-  const openProjectFromFile = useCallback(async (file: File) => {
+  const openProjectFromFile = useCallback(async (file: File): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
 
@@ -146,10 +202,12 @@ export function useAreas(): UseAreasResult {
       setIsDirty(false);
       setSelectedAreaId(null);
       projectLogger.log(`Loaded: ${loadedProject.name}`);
+      return true;
     } catch (e) {
       const message = e instanceof Error ? e.message : "ファイルの読み込みに失敗しました";
       setError(message);
       projectLogger.error("Failed to open project:", e);
+      return false;
     } finally {
       setIsLoading(false);
     }
@@ -175,9 +233,9 @@ export function useAreas(): UseAreasResult {
         };
       });
 
+      // 参照するレイヤーの出所 (ファイル名・件数・キー列・フィンガープリント) を記録する
       const updatedProject: AreaProject = {
-        ...project,
-        areas: areasWithNames,
+        ...recordLayerSources({ ...project, areas: areasWithNames }, layers),
         updatedAt: new Date().toISOString(),
       };
 
@@ -188,6 +246,61 @@ export function useAreas(): UseAreasResult {
     [project]
   );
 
+  // Download areas as KML (エリアの階層をフォルダ、色をスタイルとして出力)
+  const downloadKml = useCallback(
+    (layers: Layer[]) => {
+      if (!project) return;
+      const kml = buildAreasKml(project, layers);
+      downloadFile(kml, `${project.name}.kml`, "application/vnd.google-earth.kml+xml");
+    },
+    [project]
+  );
+
+  // Download layer joined with area columns (Shapefile・GeoJSON・CSV)
+  const downloadAreaJoin = useCallback(
+    (layer: Layer, options: AreaJoinOptions, format: AreaJoinFormat, encoding: ExportEncoding) => {
+      if (!project) return null;
+      const features = joinAreaAttributes(layer, project.areas, options);
+      const fileName = toExportFileName(`${layer.name}_${project.name}`);
+
+      if (format === "shapefile") {
+        const schema = extendSchemaWithAreaColumns(layer.schema, options);
+        const result = buildShapefileZip([{ name: fileName, features, schema }], encoding);
+        downloadFile(result.zip, `${fileName}.zip`, "application/zip");
+      } else if (format === "geojson") {
+        downloadFile(formatGeoJson(features), `${fileName}.geojson`, "application/geo+json");
+      } else {
+        const csv = formatFeaturesCsv(
+          features,
+          getJoinedPropertyKeys(features, layer.schema, options)
+        );
+        // UTF-8 は Excel で文字化けしないよう BOM を付ける
+        const content =
+          encoding === "utf-8" ? "\uFEFF" + csv : (encodeText(csv, encoding) as BlobPart);
+        downloadFile(content, `${fileName}.csv`, `text/csv;charset=${encoding}`);
+      }
+      return features.length;
+    },
+    [project]
+  );
+
+  // Download dissolved area boundaries (GeoJSON・Shapefile)
+  const downloadDissolvedAreas = useCallback(
+    (dissolved: DissolvedArea[], format: DissolvedAreaFormat, encoding: ExportEncoding) => {
+      if (!project) return;
+      const features = toDissolvedFeatures(dissolved);
+      const fileName = toExportFileName(`${project.name}_dissolve`);
+
+      if (format === "shapefile") {
+        const result = buildShapefileZip([{ name: fileName, features }], encoding);
+        downloadFile(result.zip, `${fileName}.zip`, "application/zip");
+      } else {
+        downloadFile(formatGeoJson(features), `${fileName}.geojson`, "application/geo+json");
+      }
+    },
+    [project]
+  );
+
   // Close project
   const closeProject = useCallback(() => {
     setProject(null);
@@ -348,6 +461,71 @@ export function useAreas(): UseAreasResult {
     []
   );
 
+  // Migrate feature IDs to the layers' key fields
+  const migrateFeatureIds = useCallback(
+    (layers: Layer[]): string | null => {
+      if (!project) return null;
+      const migration = migrateProjectFeatureIds(project, layers);
+      if (!migration) return null;
+
+      setProject(migration.project);
+      if (migration.migratedCount > 0) {
+        setIsDirty(true);
+        projectLogger.log(`Migrated ${migration.migratedCount} feature IDs`);
+      }
+      return describeFeatureIdMigration(migration);
+    },
+    [project]
+  );
+
+  // Remap references to a differently named layer
+  const remapFeatureLayer = useCallback((fromLayerId: string, toLayer: Layer) => {
+    setProject((prev) => (prev ? remapProjectLayer(prev, fromLayerId, toLayer) : prev));
+    setIsDirty(true);
+    projectLogger.log(`Remapped layer: ${fromLayerId} -> ${toLayer.id}`);
+  }, []);
+
+  // Remove dangling feature IDs
+  const removeFeatureIds = useCallback((featureIds: string[]) => {
+    if (featureIds.length === 0) return;
+    setProject((prev) => (prev ? pruneFeatureIds(prev, featureIds) : prev));
+    setIsDirty(true);
+  }, []);
+
+  // Remap feature IDs whose key values changed
+  const remapFeatureIds = useCallback((mapping: Map<string, string>) => {
+    if (mapping.size === 0) return;
+    // 読み直しの間に変更された割り当ても書き換えるため、最新のプロジェクトで判定する
+    setProject((prev) => {
+      if (!prev) return prev;
+      const areas = remapAreaFeatureIds(prev.areas, mapping);
+      if (areas.every((area, i) => area === prev.areas[i])) return prev;
+      setIsDirty(true);
+      projectLogger.log(`Remapped feature IDs of ${mapping.size} features`);
+      return { ...prev, areas };
+    });
+  }, []);
+
+  // Move assignments to the replaced layer data
+  const applyLayerReplacement = useCallback(
+    (replacement: LayerReplacement): LayerReplacementAssignments | null => {
+      if (!project) return null;
+      const { project: updated, keptCount, releasedIds } = applyReplacementToProject(
+        project,
+        replacement
+      );
+      setProject(updated);
+      if (keptCount > 0 || releasedIds.length > 0) {
+        setIsDirty(true);
+        projectLogger.log(
+          `Replaced ${replacement.newLayer.id}: kept ${keptCount}, released ${releasedIds.length}`
+        );
+      }
+      return { keptCount, releasedIds };
+    },
+    [project]
+  );
+
   // Get area by ID
   const getAreaById = useCallback(
     (id: string): Area | undefined => {
@@ -381,6 +559,9 @@ export function useAreas(): UseAreasResult {
     newProject,
     openProjectFromFile,
     downloadProject,
+    downloadKml,
+    downloadAreaJoin,
+    downloadDissolvedAreas,
     closeProject,
     addArea,
     removeArea,
@@ -389,6 +570,11 @@ export function useAreas(): UseAreasResult {
     addFeatureToArea,
     removeFeatureFromArea,
     addFeaturesToArea,
+    migrateFeatureIds,
+    remapFeatureLayer,
+    removeFeatureIds,
+    remapFeatureIds,
+    applyLayerReplacement,
     getAreaById,
   };
 }
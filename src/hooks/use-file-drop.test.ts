@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useFileDrop } from "./use-file-drop";
+
+function createDragEvent(files: File[] = [], types = ["Files"]): React.DragEvent {
+  return {
+    preventDefault: vi.fn(),
+    dataTransfer: { types, files, dropEffect: "none" },
+  } as unknown as React.DragEvent;
+}
+
+describe("useFileDrop", () => {
+  it("ファイルのドラッグ中は isDragging が true になる", () => {
+    // Arrange
+    const { result } = renderHook(() => useFileDrop(vi.fn()));
+
+    // Act
+    act(() => {
+      result.current.dropHandlers.onDragEnter(createDragEvent());
+    });
+
+    // Assert
+    expect(result.current.isDragging).toBe(true);
+  });
+
+  it("子要素をまたいでも最後の dragleave まで表示を続ける", () => {
+    // Arrange
+    const { result } = renderHook(() => useFileDrop(vi.fn()));
+    act(() => {
+      result.current.dropHandlers.onDragEnter(createDragEvent());
+      result.current.dropHandlers.onDragEnter(createDragEvent());
+    });
+
+    // Act & Assert
+    act(() => {
+      result.current.dropHandlers.onDragLeave(createDragEvent());
+    });
+    expect(result.current.isDragging).toBe(true);
+
+    act(() => {
+      result.current.dropHandlers.onDragLeave(createDragEvent());
+    });
+    expect(result.current.isDragging).toBe(false);
+  });
+
+  it("ドロップしたファイルを渡してオーバーレイを閉じる", () => {
+    // Arrange
+    const onDropFiles = vi.fn();
+    const files = [new File([""], "blocks.shp")];
+    const { result } = renderHook(() => useFileDrop(onDropFiles));
+    act(() => {
+      result.current.dropHandlers.onDragEnter(createDragEvent());
+    });
+    const event = createDragEvent(files);
+
+    // Act
+    act(() => {
+      result.current.dropHandlers.onDrop(event);
+    });
+
+    // Assert
+    expect(event.preventDefault).toHaveBeenCalled();
+    expect(onDropFiles).toHaveBeenCalledWith(files);
+    expect(result.current.isDragging).toBe(false);
+  });
+
+  it("ファイル以外のドラッグは無視する", () => {
+    // Arrange
+    const { result } = renderHook(() => useFileDrop(vi.fn()));
+    const event = createDragEvent([], ["text/plain"]);
+
+    // Act
+    act(() => {
+      result.current.dropHandlers.onDragEnter(event);
+    });
+
+    // Assert
+    expect(result.current.isDragging).toBe(false);
+    expect(event.preventDefault).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { useState, useCallback, useRef } from "react";
+import { hasDraggedFiles } from "@/lib/file-drop";
+
+/** useFileDrop の戻り値型 */
+export interface UseFileDropResult {
+  /** ファイルをドラッグ中か (オーバーレイの表示用) */
+  isDragging: boolean;
+  dropHandlers: {
+    onDragEnter: (e: React.DragEvent) => void;
+    onDragOver: (e: React.DragEvent) => void;
+    onDragLeave: (e: React.DragEvent) => void;
+    onDrop: (e: React.DragEvent) => void;
+  };
+}
+
+/**
+ * 要素へのファイルのドロップを受け付ける
+ * 子要素をまたぐ dragenter / dragleave でちらつかないよう、入った回数を数える
+ */
+export function useFileDrop(onDropFiles: (files: File[]) => void): UseFileDropResult {
+  const [isDragging, setIsDragging] = useState(false);
+  const enterCountRef = useRef(0);
+
+  const onDragEnter = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    enterCountRef.current++;
+    setIsDragging(true);
+  }, []);
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    // preventDefault しないとブラウザがファイルを開いてしまう
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  }, []);
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    if (!hasDraggedFiles(e.dataTransfer)) return;
+    enterCountRef.current = Math.max(0, enterCountRef.current - 1);
+    if (enterCountRef.current === 0) {
+      setIsDragging(false);
+    }
+  }, []);
+
+  const onDrop = useCallback(
+    (e: React.DragEvent) => {
+      if (!hasDraggedFiles(e.dataTransfer)) return;
+      e.preventDefault();
+      enterCountRef.current = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) {
+        onDropFiles(files);
+      }
+    },
+    [onDropFiles]
+  );
+
+  return {
+    isDragging,
+    dropHandlers: { onDragEnter, onDragOver, onDragLeave, onDrop },
+  };
+}
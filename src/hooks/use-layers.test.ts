@@ -1,8 +1,15 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { renderHook, act } from "@testing-library/react";
+import { strToU8, zipSync } from "fflate";
+import { renderHook, act, waitFor } from "@testing-library/react";
 import { useLayers } from "./use-layers";
 import * as shapefileParser from "@/lib/shapefile-parser";
+import * as gpkgParser from "@/lib/gpkg-parser";
+import * as layerCache from "@/lib/layer-cache";
+import { STORAGE_KEYS } from "@/lib/constants";
+import type { GeoPackageTable } from "@/lib/gpkg-parser";
 import type { FeatureCollection } from "geojson";
+import type { ShapefileParseResult } from "@/lib/shapefile-parser";
+import type { LayerReplacement } from "@/lib/layer-replacement";
 import {
   createMockFileList,
   createShapefileFileList,
@@ -10,15 +17,33 @@ import {
   createInvalidFileList,
 } from "@/__tests__/test-utils/file-list-mock";
 
-// Mock shapefile parser
-vi.mock("@/lib/shapefile-parser", () => ({
+// Mock shapefile parser (ファイルのセット分けは実装をそのまま使う)
+vi.mock("@/lib/shapefile-parser", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/shapefile-parser")>()),
   parseShapefileFromFiles: vi.fn(),
-  extractShapefiles: vi.fn(),
+}));
+
+vi.mock("@/lib/gpkg-parser", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/gpkg-parser")>()),
+  listGeoPackageTables: vi.fn(),
+  readGeoPackageTables: vi.fn(),
+}));
+
+vi.mock("@/lib/layer-cache", () => ({
+  isLayerCacheAvailable: vi.fn(),
+  loadLayerCache: vi.fn(),
+  saveLayerCache: vi.fn(),
+  clearLayerCache: vi.fn(),
 }));
 
 // 型付きモック関数
-const mockExtractShapefiles = vi.mocked(shapefileParser.extractShapefiles);
 const mockParseShapefileFromFiles = vi.mocked(shapefileParser.parseShapefileFromFiles);
+const mockListGeoPackageTables = vi.mocked(gpkgParser.listGeoPackageTables);
+const mockReadGeoPackageTables = vi.mocked(gpkgParser.readGeoPackageTables);
+const mockIsLayerCacheAvailable = vi.mocked(layerCache.isLayerCacheAvailable);
+const mockLoadLayerCache = vi.mocked(layerCache.loadLayerCache);
+const mockSaveLayerCache = vi.mocked(layerCache.saveLayerCache);
+const mockClearLayerCache = vi.mocked(layerCache.clearLayerCache);
 
 describe("useLayers", () => {
   const mockGeoJson: FeatureCollection = {
@@ -32,32 +57,34 @@ describe("useLayers", () => {
     ],
   };
 
+  const mockParseResult: ShapefileParseResult = {
+    geojson: mockGeoJson,
+    encoding: { encoding: "shift_jis", source: "heuristic" },
+    schema: [{ name: "name", type: "C", length: 10, decimals: 0 }],
+    validation: { featureCount: 1, issues: [] },
+  };
+
   // モックセットアップヘルパー
   function setupValidShapefileMocks(name = "test") {
     const { fileList, shpFile, dbfFile } = createShapefileFileList(name);
-    mockExtractShapefiles.mockReturnValue({
-      shpFile,
-      dbfFile,
-      name,
-    });
-    mockParseShapefileFromFiles.mockResolvedValue(mockGeoJson);
+    mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
     return { fileList, shpFile, dbfFile };
   }
 
   function setupSingleShpMocks(name = "test") {
     const { fileList, shpFile } = createSingleShpFileList(name);
-    mockExtractShapefiles.mockReturnValue({
-      shpFile,
-      dbfFile: undefined,
-      name,
-    });
-    mockParseShapefileFromFiles.mockResolvedValue(mockGeoJson);
+    mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
     return { fileList, shpFile };
   }
 
   beforeEach(() => {
     localStorage.clear();
     vi.clearAllMocks();
+    // 既定では IndexedDB が使えない環境として扱う
+    mockIsLayerCacheAvailable.mockReturnValue(false);
+    mockLoadLayerCache.mockResolvedValue([]);
+    mockSaveLayerCache.mockResolvedValue({ layerCount: 0, totalBytes: 0, skippedLayerNames: [] });
+    mockClearLayerCache.mockResolvedValue();
   });
 
   afterEach(() => {
@@ -81,12 +108,12 @@ describe("useLayers", () => {
       expect(result.current.isLoading).toBe(false);
     });
 
-    it("errorがnullで開始する", () => {
+    it("loadResultsが空で開始する", () => {
       // Act
       const { result } = renderHook(() => useLayers());
 
       // Assert
-      expect(result.current.error).toBeNull();
+      expect(result.current.loadResults).toEqual([]);
     });
 
     it("globalFilterがundefinedで開始する", () => {
@@ -118,7 +145,6 @@ describe("useLayers", () => {
     it("Shapefileが見つからない場合はエラーを設定する", async () => {
       // Arrange
       const fileList = createInvalidFileList("test.txt");
-      mockExtractShapefiles.mockReturnValue(null);
 
       const { result } = renderHook(() => useLayers());
 
@@ -129,31 +155,118 @@ describe("useLayers", () => {
 
       // Assert
       expect(result.current.layers).toHaveLength(0);
-      expect(result.current.error).toBe(
-        "Shapefileが見つかりません (.shp ファイルを選択してください)"
-      );
+      expect(result.current.loadResults).toContainEqual({
+        fileName: "test.txt",
+        status: "error",
+        message: "読み込めるファイルが見つかりません (.shp、.zip、GeoJSON、KML、GeoPackage または CSV を選択してください)",
+      });
+    });
+
+    it("ベース名ごとにセットを分けて複数レイヤーを作成する", async () => {
+      // Arrange
+      const files = ["A.shp", "A.dbf", "B.shp", "B.dbf"].map((name) => new File([""], name));
+      mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(...files));
+      });
+
+      // Assert
+      expect(result.current.layers.map((l) => l.name)).toEqual(["A", "B"]);
+      expect(mockParseShapefileFromFiles).toHaveBeenCalledWith(files[0], files[1], expect.anything());
+      expect(mockParseShapefileFromFiles).toHaveBeenCalledWith(files[2], files[3], expect.anything());
+      expect(result.current.layers[0].color).not.toBe(result.current.layers[1].color);
+      expect(result.current.layers[0].fileNames).toEqual(["A.shp", "A.dbf"]);
+    });
+
+    it("ファイルごとの読み込み結果を返す", async () => {
+      // Arrange
+      const files = ["A.shp", "A.dbf", "B.shp", "C.dbf"].map((name) => new File([""], name));
+      mockParseShapefileFromFiles
+        .mockResolvedValueOnce(mockParseResult)
+        .mockRejectedValueOnce(new Error("壊れたファイル"));
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      let results: Awaited<ReturnType<typeof result.current.addLayerFromFiles>> = [];
+      await act(async () => {
+        results = await result.current.addLayerFromFiles(createMockFileList(...files));
+      });
+
+      // Assert
+      expect(results).toEqual([
+        { fileName: "A.shp", status: "success", message: "1 件のフィーチャー", layerId: "a" },
+        { fileName: "B.shp", status: "error", message: "壊れたファイル" },
+        {
+          fileName: "C.dbf",
+          status: "warning",
+          message: "対応する .shp がありません (C.shp) (読み込みません)",
+        },
+      ]);
+      expect(result.current.loadResults).toEqual(results);
+      expect(result.current.layers).toHaveLength(1);
+    });
+
+    it(".dbf がないセットは警告付きで読み込む", async () => {
+      // Arrange
+      const { fileList } = setupSingleShpMocks("test");
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+
+      // Assert
+      expect(result.current.loadResults[0]).toMatchObject({ status: "warning", layerId: "test" });
+    });
+
+    it("検証で問題が見つかったセットは警告付きで読み込み、検証結果をレイヤーに保持する", async () => {
+      // Arrange
+      const { fileList } = setupValidShapefileMocks("test");
+      const validation = {
+        featureCount: 1,
+        issues: [
+          {
+            type: "null-geometry" as const,
+            featureIndex: 0,
+            message: "ジオメトリがありません (Null Shape)",
+          },
+        ],
+      };
+      mockParseShapefileFromFiles.mockResolvedValue({ ...mockParseResult, validation });
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+
+      // Assert
+      expect(result.current.loadResults[0]).toMatchObject({
+        status: "warning",
+        message: "1 件のフィーチャー (検証で 1 件の問題)",
+      });
+      expect(result.current.layers[0].validation).toEqual(validation);
     });
 
     it("パース中はisLoadingがtrueになる", async () => {
       // Arrange
-      const { fileList, shpFile } = createSingleShpFileList("test");
+      const { fileList } = createSingleShpFileList("test");
 
-      let resolvePromise: (value: FeatureCollection) => void = () => {};
-      const pendingPromise = new Promise<FeatureCollection>((resolve) => {
+      let resolvePromise: (value: ShapefileParseResult) => void = () => {};
+      const pendingPromise = new Promise<ShapefileParseResult>((resolve) => {
         resolvePromise = resolve;
       });
 
-      mockExtractShapefiles.mockReturnValue({
-        shpFile,
-        dbfFile: undefined,
-        name: "test",
-      });
       mockParseShapefileFromFiles.mockReturnValue(pendingPromise);
 
       const { result } = renderHook(() => useLayers());
 
       // Act
-      let addPromise: Promise<void>;
+      let addPromise: Promise<unknown>;
       act(() => {
         addPromise = result.current.addLayerFromFiles(fileList);
       });
@@ -163,13 +276,371 @@ describe("useLayers", () => {
 
       // Resolve and complete
       await act(async () => {
-        resolvePromise(mockGeoJson);
+        resolvePromise(mockParseResult);
+        await addPromise;
+      });
+
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("解析の進捗を loadProgress に反映する", async () => {
+      // Arrange
+      const { fileList } = createSingleShpFileList("test");
+      let resolvePromise: (value: ShapefileParseResult) => void = () => {};
+      mockParseShapefileFromFiles.mockImplementation(
+        (_shp, _dbf, options) =>
+          new Promise((resolve) => {
+            options?.onProgress?.({
+              recordsRead: 500,
+              totalRecords: 1000,
+              bytesProcessed: 1024,
+              totalBytes: 2048,
+            });
+            resolvePromise = resolve;
+          })
+      );
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      let addPromise: Promise<unknown>;
+      act(() => {
+        addPromise = result.current.addLayerFromFiles(fileList);
+      });
+      await act(async () => {});
+
+      // Assert
+      expect(result.current.loadProgress).toEqual({
+        fileName: "test.shp",
+        setIndex: 0,
+        setCount: 1,
+        progress: { recordsRead: 500, totalRecords: 1000, bytesProcessed: 1024, totalBytes: 2048 },
+      });
+
+      await act(async () => {
+        resolvePromise(mockParseResult);
         await addPromise;
       });
+      expect(result.current.loadProgress).toBeNull();
+    });
+
+    it("キャンセルすると読み込み済みのレイヤーを残して残りを中断する", async () => {
+      // Arrange
+      const files = ["A.shp", "B.shp", "C.shp"].map((name) => new File([""], name));
+      mockParseShapefileFromFiles
+        .mockResolvedValueOnce(mockParseResult)
+        .mockImplementationOnce(
+          (_shp, _dbf, options) =>
+            new Promise((_, reject) => {
+              options?.signal?.addEventListener("abort", () =>
+                reject(new DOMException("読み込みをキャンセルしました", "AbortError"))
+              );
+            })
+        );
+      const { result } = renderHook(() => useLayers());
 
+      // Act
+      let addPromise: Promise<unknown>;
+      act(() => {
+        addPromise = result.current.addLayerFromFiles(createMockFileList(...files));
+      });
+      await act(async () => {});
+      await act(async () => {
+        result.current.cancelLoading();
+        await addPromise;
+      });
+
+      // Assert
+      expect(result.current.layers.map((l) => l.name)).toEqual(["A"]);
+      expect(mockParseShapefileFromFiles).toHaveBeenCalledTimes(2);
+      expect(result.current.loadResults.map((r) => [r.fileName, r.message])).toEqual([
+        ["A.shp", "1 件のフィーチャー (.dbf がないため属性なし)"],
+        ["B.shp", "キャンセルしました"],
+        ["C.shp", "キャンセルしました"],
+      ]);
       expect(result.current.isLoading).toBe(false);
     });
 
+    it("検出した文字コードと構成ファイルをレイヤーに保持する", async () => {
+      // Arrange
+      const { fileList, shpFile, dbfFile } = setupValidShapefileMocks("test");
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+
+      // Assert
+      expect(result.current.layers[0].encoding).toEqual({
+        encoding: "shift_jis",
+        source: "heuristic",
+      });
+      expect(result.current.layers[0].source?.shpFile).toBe(shpFile);
+      expect(result.current.layers[0].source?.dbfFile).toBe(dbfFile);
+    });
+
+    it("ZIP 内の全 Shapefile セットをレイヤーとして読み込む", async () => {
+      // Arrange
+      const zipData = zipSync({
+        "A.shp": strToU8("a"),
+        "A.dbf": strToU8("a"),
+        "nested/B.shp": strToU8("b"),
+        "nested/B.prj": strToU8("b"),
+      });
+      const zipFile = new File([zipData as BlobPart], "boundaries.zip");
+      mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(zipFile));
+      });
+
+      // Assert
+      expect(result.current.layers.map((l) => l.name)).toEqual(["A", "B"]);
+      expect(result.current.layers.map((l) => l.id)).toEqual(["a", "b"]);
+      expect(result.current.layers[1].source?.prjFile?.name).toBe("nested/B.prj");
+      expect(result.current.layers[1].fileNames).toEqual(["boundaries.zip"]);
+      expect(result.current.loadResults.map((r) => r.fileName)).toEqual([
+        "boundaries.zip/A.shp",
+        "boundaries.zip/nested/B.shp",
+      ]);
+    });
+
+    it("GeoJSON ファイルを Shapefile と同じようにレイヤーとして読み込む", async () => {
+      // Arrange
+      const geojson = new File([JSON.stringify(mockGeoJson)], "Tokyo Wards.geojson");
+      const ndjson = new File(
+        [mockGeoJson.features.map((f) => JSON.stringify(f)).join("\n")],
+        "stations.ndjson"
+      );
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(geojson, ndjson));
+      });
+
+      // Assert
+      expect(mockParseShapefileFromFiles).not.toHaveBeenCalled();
+      expect(result.current.layers.map((l) => [l.id, l.name])).toEqual([
+        ["tokyo_wards", "Tokyo Wards"],
+        ["stations", "stations"],
+      ]);
+      expect(result.current.layers[0].geojson).toEqual(mockGeoJson);
+      expect(result.current.loadResults).toEqual([
+        {
+          fileName: "Tokyo Wards.geojson",
+          status: "success",
+          message: "1 件のフィーチャー",
+          layerId: "tokyo_wards",
+        },
+        {
+          fileName: "stations.ndjson",
+          status: "success",
+          message: "1 件のフィーチャー",
+          layerId: "stations",
+        },
+      ]);
+    });
+
+    it("KML のフォルダごとにレイヤーを作成する", async () => {
+      // Arrange
+      const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+        <Folder><name>east</name><Placemark><Point><coordinates>139,35</coordinates></Point></Placemark></Folder>
+        <Folder><name>west</name><Placemark><Point><coordinates>135,34</coordinates></Point></Placemark></Folder>
+      </Document></kml>`;
+      const file = new File([kml], "territory.kml");
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(file));
+      });
+
+      // Assert
+      expect(result.current.layers.map((l) => l.id)).toEqual(["east", "west"]);
+      expect(result.current.loadResults.map((r) => r.fileName)).toEqual([
+        "territory.kml/east",
+        "territory.kml/west",
+      ]);
+    });
+
+    describe("GeoPackage", () => {
+      function createTable(name: string): GeoPackageTable {
+        return {
+          name,
+          identifier: null,
+          geometryColumn: "geom",
+          geometryType: "POLYGON",
+          srsId: 4326,
+          featureCount: 1,
+        };
+      }
+
+      it("フィーチャーテーブルが 1 つならそのまま読み込む", async () => {
+        // Arrange
+        const file = new File([""], "data.gpkg");
+        mockListGeoPackageTables.mockResolvedValue([createTable("blocks")]);
+        mockReadGeoPackageTables.mockResolvedValue([
+          { table: createTable("blocks"), geojson: mockGeoJson },
+        ]);
+        const { result } = renderHook(() => useLayers());
+
+        // Act
+        await act(async () => {
+          await result.current.addLayerFromFiles(createMockFileList(file));
+        });
+
+        // Assert
+        expect(mockReadGeoPackageTables).toHaveBeenCalledWith(file, ["blocks"]);
+        expect(result.current.layers.map((l) => l.id)).toEqual(["blocks"]);
+        expect(result.current.loadResults[0].fileName).toBe("data.gpkg/blocks");
+        expect(result.current.pendingGeoPackages).toEqual([]);
+      });
+
+      it("複数のテーブルがある場合は選択待ちにし、選択したテーブルを読み込む", async () => {
+        // Arrange
+        const file = new File([""], "data.gpkg");
+        const tables = [createTable("blocks"), createTable("stations")];
+        mockListGeoPackageTables.mockResolvedValue(tables);
+        mockReadGeoPackageTables.mockResolvedValue([{ table: tables[1], geojson: mockGeoJson }]);
+        const { result } = renderHook(() => useLayers());
+
+        // Act
+        await act(async () => {
+          await result.current.addLayerFromFiles(createMockFileList(file));
+        });
+
+        // Assert - 選択待ち
+        expect(result.current.layers).toHaveLength(0);
+        expect(result.current.pendingGeoPackages).toEqual([{ file, tables }]);
+        expect(result.current.loadResults[0].status).toBe("warning");
+
+        // Act - テーブルを選択して読み込む
+        await act(async () => {
+          await result.current.loadGeoPackageTables(file, ["stations"]);
+        });
+
+        // Assert
+        expect(mockReadGeoPackageTables).toHaveBeenCalledWith(file, ["stations"]);
+        expect(result.current.layers.map((l) => l.id)).toEqual(["stations"]);
+        expect(result.current.pendingGeoPackages).toEqual([]);
+      });
+    });
+
+    describe("CSV", () => {
+      it("座標列の指定待ちにし、指定された列でポイントレイヤーを作る", async () => {
+        // Arrange
+        const file = new File(["店舗,緯度,経度\n本店,35.6,139.7\n支店,,\n"], "stores.csv");
+        const { result } = renderHook(() => useLayers());
+
+        // Act
+        await act(async () => {
+          await result.current.addLayerFromFiles(createMockFileList(file));
+        });
+
+        // Assert - 列名から推定した対応付けで選択待ち
+        expect(result.current.layers).toHaveLength(0);
+        expect(result.current.pendingCsvFiles[0].mapping).toEqual({
+          type: "latlon",
+          latColumn: "緯度",
+          lonColumn: "経度",
+        });
+
+        // Act - 読み込む
+        await act(async () => {
+          await result.current.loadCsvFile(file, result.current.pendingCsvFiles[0].mapping!);
+        });
+
+        // Assert
+        const [layer] = result.current.layers;
+        expect(layer.id).toBe("stores");
+        expect(layer.geojson.features[0].geometry).toEqual({
+          type: "Point",
+          coordinates: [139.7, 35.6],
+        });
+        expect(result.current.pendingCsvFiles).toEqual([]);
+        expect(result.current.loadResults).toEqual([
+          {
+            fileName: "stores.csv",
+            status: "warning",
+            message: "2 件のフィーチャー (座標を読み取れない 1 行はジオメトリなし)",
+            layerId: "stores",
+          },
+        ]);
+      });
+
+      it("区切り文字を指定して読み直す", async () => {
+        // Arrange
+        const file = new File(["x;y\n1,5;2,5\n"], "points.csv");
+        const { result } = renderHook(() => useLayers());
+        await act(async () => {
+          await result.current.addLayerFromFiles(createMockFileList(file));
+        });
+
+        // Act
+        await act(async () => {
+          await result.current.rereadCsvFile(file, { encoding: "utf-8", delimiter: "," });
+        });
+
+        // Assert
+        expect(result.current.pendingCsvFiles[0].table.headers).toEqual(["x;y"]);
+      });
+
+      it("キャンセルすると選択待ちから外す", async () => {
+        // Arrange
+        const file = new File(["lat,lon\n35,139\n"], "a.csv");
+        const { result } = renderHook(() => useLayers());
+        await act(async () => {
+          await result.current.addLayerFromFiles(createMockFileList(file));
+        });
+
+        // Act
+        act(() => {
+          result.current.cancelCsvSelection(file);
+        });
+
+        // Assert
+        expect(result.current.pendingCsvFiles).toEqual([]);
+        expect(result.current.layers).toHaveLength(0);
+      });
+    });
+
+    it("不正な GeoJSON はファイルごとのエラーにする", async () => {
+      // Arrange
+      const invalid = new File(["{"], "broken.json");
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(invalid));
+      });
+
+      // Assert
+      expect(result.current.layers).toHaveLength(0);
+      expect(result.current.loadResults).toEqual([
+        { fileName: "broken.json", status: "error", message: "JSON として読み込めません" },
+      ]);
+    });
+
+    it("Shapefile を含まない ZIP ではエラーを設定する", async () => {
+      // Arrange
+      const zipFile = new File([zipSync({ "readme.txt": strToU8("x") }) as BlobPart], "empty.zip");
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(zipFile));
+      });
+
+      // Assert
+      expect(result.current.layers).toHaveLength(0);
+      expect(result.current.loadResults).toEqual([
+        { fileName: "empty.zip", status: "error", message: "Shapefile が含まれていません" },
+      ]);
+    });
+
     it("各レイヤーに色を割り当てる", async () => {
       // Arrange
       const { fileList } = setupSingleShpMocks("test");
@@ -329,16 +800,186 @@ describe("useLayers", () => {
     });
   });
 
+  describe("setLayerKeyField", () => {
+    it("キー列を設定・解除する", async () => {
+      // Arrange
+      const { fileList } = setupSingleShpMocks("test");
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+      const layerId = result.current.layers[0].id;
+
+      // Act
+      let error: string | null = null;
+      act(() => {
+        error = result.current.setLayerKeyField(layerId, "name");
+      });
+
+      // Assert
+      expect(error).toBeNull();
+      expect(result.current.layers[0].keyField).toBe("name");
+
+      act(() => {
+        result.current.setLayerKeyField(layerId, undefined);
+      });
+      expect(result.current.layers[0].keyField).toBeUndefined();
+    });
+
+    it("値が重複している列は設定しない", async () => {
+      // Arrange
+      const { fileList } = createSingleShpFileList("test");
+      mockParseShapefileFromFiles.mockResolvedValue({
+        ...mockParseResult,
+        geojson: { ...mockGeoJson, features: [mockGeoJson.features[0], mockGeoJson.features[0]] },
+      });
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+      const layerId = result.current.layers[0].id;
+
+      // Act
+      let error: string | null = null;
+      act(() => {
+        error = result.current.setLayerKeyField(layerId, "name");
+      });
+
+      // Assert
+      expect(error).toBe("name はキー列に使えません (値が重複しています: Test)");
+      expect(result.current.layers[0].keyField).toBeUndefined();
+    });
+  });
+
+  describe("replaceLayerData", () => {
+    it("色とフィルターを保ったままデータを置き換える", async () => {
+      // Arrange
+      const { fileList } = setupSingleShpMocks("test");
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+      const layerId = result.current.layers[0].id;
+      const filter = { key: "name", values: ["Test"], enabled: true };
+      act(() => {
+        result.current.setLayerColor(layerId, "#ff0000");
+        result.current.setLayerFilter(layerId, filter);
+      });
+      const newGeoJson: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [
+          mockGeoJson.features[0],
+          { ...mockGeoJson.features[0], properties: { name: "New" } },
+        ],
+      };
+      const file = new File([JSON.stringify(newGeoJson)], "test_2020.geojson");
+
+      // Act
+      let replacement: LayerReplacement | null = null;
+      await act(async () => {
+        replacement = await result.current.replaceLayerData(layerId, [file]);
+      });
+
+      // Assert
+      expect(result.current.layers).toHaveLength(1);
+      expect(result.current.layers[0]).toMatchObject({
+        id: layerId,
+        color: "#ff0000",
+        filter,
+        fileNames: ["test_2020.geojson"],
+      });
+      expect(result.current.layers[0].geojson.features).toHaveLength(2);
+      expect(replacement!.match.matches.size).toBe(1);
+      expect(result.current.loadResults[0].status).toBe("success");
+    });
+
+    it("複数のレイヤーになるファイルはエラーにする", async () => {
+      // Arrange
+      const { fileList } = setupSingleShpMocks("test");
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+      const layerId = result.current.layers[0].id;
+      const files = ["A.shp", "B.shp"].map((name) => new File([""], name));
+
+      // Act
+      let replacement: LayerReplacement | null = null;
+      await act(async () => {
+        replacement = await result.current.replaceLayerData(layerId, files);
+      });
+
+      // Assert
+      expect(replacement).toBeNull();
+      expect(result.current.loadResults[0]).toMatchObject({
+        status: "error",
+        message: "1 つのレイヤーになるファイル (Shapefile・ZIP・GeoJSON・KML) を選択してください",
+      });
+    });
+  });
+
+  describe("setLayerEncoding", () => {
+    it("保持しているファイルを指定した文字コードで再デコードする", async () => {
+      // Arrange
+      const { fileList, shpFile, dbfFile } = setupValidShapefileMocks("test");
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+      const layerId = result.current.layers[0].id;
+      const redecoded: FeatureCollection = {
+        type: "FeatureCollection",
+        features: [{ ...mockGeoJson.features[0], properties: { name: "東京" } }],
+      };
+      mockParseShapefileFromFiles.mockResolvedValueOnce({
+        geojson: redecoded,
+        encoding: { encoding: "utf-8", source: "manual" },
+        schema: null,
+        validation: { featureCount: 1, issues: [] },
+      });
+
+      // Act
+      await act(async () => {
+        await result.current.setLayerEncoding(layerId, "utf-8");
+      });
+
+      // Assert
+      expect(mockParseShapefileFromFiles).toHaveBeenLastCalledWith(
+        shpFile,
+        dbfFile,
+        expect.objectContaining({ encoding: "utf-8" })
+      );
+      expect(result.current.layers[0].geojson).toBe(redecoded);
+      expect(result.current.layers[0].encoding).toEqual({ encoding: "utf-8", source: "manual" });
+      expect(result.current.layers[0].id).toBe(layerId);
+    });
+
+    it(".dbf がないレイヤーでは何もしない", async () => {
+      // Arrange
+      const { fileList } = setupSingleShpMocks("test");
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+      mockParseShapefileFromFiles.mockClear();
+
+      // Act
+      await act(async () => {
+        await result.current.setLayerEncoding(result.current.layers[0].id, "utf-8");
+      });
+
+      // Assert
+      expect(mockParseShapefileFromFiles).not.toHaveBeenCalled();
+    });
+  });
+
   describe("reorderLayers", () => {
     it("レイヤーの順序を変更する", async () => {
       // Arrange
       const shpFile1 = new File([""], "test1.shp");
       const shpFile2 = new File([""], "test2.shp");
 
-      mockExtractShapefiles
-        .mockReturnValueOnce({ shpFile: shpFile1, dbfFile: undefined, name: "test1" })
-        .mockReturnValueOnce({ shpFile: shpFile2, dbfFile: undefined, name: "test2" });
-      mockParseShapefileFromFiles.mockResolvedValue(mockGeoJson);
+      mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
 
       const { result } = renderHook(() => useLayers());
       await act(async () => {
@@ -375,16 +1016,15 @@ describe("useLayers", () => {
       expect(result.current.layers).toHaveLength(0);
     });
 
-    it("エラーもクリアする", async () => {
+    it("読み込み結果もクリアする", async () => {
       // Arrange
       const fileList = createInvalidFileList("test.txt");
-      mockExtractShapefiles.mockReturnValue(null);
 
       const { result } = renderHook(() => useLayers());
       await act(async () => {
         await result.current.addLayerFromFiles(fileList);
       });
-      expect(result.current.error).not.toBeNull();
+      expect(result.current.loadResults).not.toHaveLength(0);
 
       // Act
       act(() => {
@@ -392,7 +1032,7 @@ describe("useLayers", () => {
       });
 
       // Assert
-      expect(result.current.error).toBeNull();
+      expect(result.current.loadResults).toEqual([]);
     });
 
     it("globalFilterもクリアする", async () => {
@@ -499,10 +1139,7 @@ describe("useLayers", () => {
       const shpFile1 = new File([""], "data.shp");
       const shpFile2 = new File([""], "data.shp");
 
-      mockExtractShapefiles
-        .mockReturnValueOnce({ shpFile: shpFile1, dbfFile: undefined, name: "data" })
-        .mockReturnValueOnce({ shpFile: shpFile2, dbfFile: undefined, name: "data" });
-      mockParseShapefileFromFiles.mockResolvedValue(mockGeoJson);
+      mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
 
       const { result } = renderHook(() => useLayers());
 
@@ -520,4 +1157,146 @@ describe("useLayers", () => {
       expect(result.current.layers[1].id).toBe("data_1");
     });
   });
+  describe("保存したレイヤー設定の復元", () => {
+    it("削除したレイヤーを読み込み直すと色・表示・フィルター・位置を復元する", async () => {
+      // Arrange
+      mockParseShapefileFromFiles.mockResolvedValue(mockParseResult);
+      const { result } = renderHook(() => useLayers());
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(new File([""], "first.shp")));
+      });
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(new File([""], "second.shp")));
+      });
+      act(() => {
+        result.current.setLayerColor("first", "#ef4444");
+        result.current.toggleLayer("first");
+        result.current.setLayerFilter("first", { key: "name", values: ["Test"], enabled: true });
+      });
+      act(() => {
+        result.current.removeLayer("first");
+      });
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(createMockFileList(new File([""], "first.shp")));
+      });
+
+      // Assert
+      expect(result.current.layers.map((l) => l.id)).toEqual(["first", "second"]);
+      expect(result.current.layers[0]).toMatchObject({
+        color: "#ef4444",
+        visible: false,
+        filter: { key: "name", values: ["Test"], enabled: true },
+      });
+      expect(result.current.loadResults[0].message).toBe(
+        "1 件のフィーチャー (.dbf がないため属性なし) · 前回の設定を復元 (形状が一致)"
+      );
+    });
+
+    it("保存した設定がなければ新しい色で追加する", async () => {
+      // Arrange
+      localStorage.setItem(
+        STORAGE_KEYS.LAYERS,
+        JSON.stringify([{ name: "other", visible: false, color: "#ef4444" }])
+      );
+      const { fileList } = setupSingleShpMocks("test");
+      const { result } = renderHook(() => useLayers());
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+
+      // Assert
+      expect(result.current.layers[0].visible).toBe(true);
+      expect(result.current.layers[0].color).not.toBe("#ef4444");
+      expect(result.current.loadResults[0].message).toBe("1 件のフィーチャー (.dbf がないため属性なし)");
+    });
+  });
+
+  describe("レイヤーキャッシュ", () => {
+    it("起動時にキャッシュしたレイヤーを復元する", async () => {
+      // Arrange
+      mockIsLayerCacheAvailable.mockReturnValue(true);
+      mockLoadLayerCache.mockResolvedValue([
+        {
+          id: "blocks",
+          name: "blocks",
+          geojson: mockGeoJson,
+          visible: false,
+          color: "#ef4444",
+          size: 100,
+        },
+      ]);
+
+      // Act
+      const { result } = renderHook(() => useLayers());
+
+      // Assert
+      await waitFor(() => expect(result.current.layers).toHaveLength(1));
+      expect(result.current.layers[0]).toEqual({
+        id: "blocks",
+        name: "blocks",
+        geojson: mockGeoJson,
+        visible: false,
+        color: "#ef4444",
+      });
+      expect(result.current.layerCache).toEqual({
+        layerCount: 1,
+        totalBytes: 100,
+        skippedLayerNames: [],
+      });
+      expect(result.current.loadResults[0].message).toBe("1 件のフィーチャー (前回の状態から復元)");
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("レイヤーの変更をキャッシュに保存する", async () => {
+      // Arrange
+      mockIsLayerCacheAvailable.mockReturnValue(true);
+      const { fileList } = setupValidShapefileMocks("blocks");
+      const { result } = renderHook(() => useLayers());
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      // Act
+      await act(async () => {
+        await result.current.addLayerFromFiles(fileList);
+      });
+
+      // Assert
+      await waitFor(() => expect(mockSaveLayerCache).toHaveBeenCalledWith(result.current.layers));
+      expect(result.current.layers).toHaveLength(1);
+    });
+
+    it("無効にすると保存したレイヤーを削除し、以降は保存しない", async () => {
+      // Arrange
+      mockIsLayerCacheAvailable.mockReturnValue(true);
+      const { result } = renderHook(() => useLayers());
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      // Act
+      await act(async () => {
+        await result.current.setLayerCacheEnabled(false);
+      });
+
+      // Assert
+      expect(mockClearLayerCache).toHaveBeenCalled();
+      expect(result.current.isLayerCacheEnabled).toBe(false);
+      expect(result.current.layerCache).toBeNull();
+      expect(localStorage.getItem(STORAGE_KEYS.LAYER_CACHE)).toBe("off");
+    });
+
+    it("無効にしている場合は起動時に復元しない", () => {
+      // Arrange
+      mockIsLayerCacheAvailable.mockReturnValue(true);
+      localStorage.setItem(STORAGE_KEYS.LAYER_CACHE, "off");
+
+      // Act
+      const { result } = renderHook(() => useLayers());
+
+      // Assert
+      expect(mockLoadLayerCache).not.toHaveBeenCalled();
+      expect(result.current.isLayerCacheEnabled).toBe(false);
+    });
+  });
 });
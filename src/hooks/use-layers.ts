@@ -1,26 +1,173 @@
 import { useState, useCallback, useEffect, useRef } from "react";
-import type { Layer, PropertyFilter, SavedLayerState } from "@/types/layer";
+import type {
+  CsvSelection,
+  GeoPackageSelection,
+  Layer,
+  LoadProgress,
+  LoadResult,
+  PropertyFilter,
+  SavedLayerState,
+} from "@/types/layer";
 import { LAYER_COLORS } from "@/types/layer";
 import {
   parseShapefileFromFiles,
-  extractShapefiles,
+  collectShapefileSets,
+  getBaseName,
+  type ParseProgress,
+  type ShapefileCollection,
+  type ShapefileSet,
 } from "@/lib/shapefile-parser";
+import { extractZipFiles, isZipFile } from "@/lib/zip-extractor";
+import { isGeoJsonFile, parseGeoJsonFile } from "@/lib/geojson-parser";
+import { isKmlFile, parseKmlFile } from "@/lib/kml-parser";
+import {
+  isGeoPackageFile,
+  listGeoPackageTables,
+  readGeoPackageTables,
+} from "@/lib/gpkg-parser";
+import {
+  csvToFeatureCollection,
+  isCsvFile,
+  readCsvFile,
+  guessGeometryMapping,
+  type CsvGeometryMapping,
+  type CsvReadOptions,
+  type CsvTable,
+} from "@/lib/csv-parser";
+import type { DbfEncoding } from "@/lib/dbf-encoding";
+import {
+  clearLayerCache,
+  isLayerCacheAvailable,
+  loadLayerCache,
+  saveLayerCache,
+  type LayerCacheSummary,
+} from "@/lib/layer-cache";
+import {
+  excludeLoadedLayerStates,
+  findSavedLayerState,
+  insertLayersByOrder,
+  mergeSavedLayerStates,
+  restoreFilter,
+  restoreKeyField,
+} from "@/lib/saved-layer-state";
+import { describeKeyFieldIssues, findKeyFieldIssues } from "@/lib/feature-key";
+import { buildLayerReplacement, type LayerReplacement } from "@/lib/layer-replacement";
+import { getDisplayedFeatures } from "@/lib/property-filter-utils";
+import { buildShapefileZip, toExportFileName, type ShapefileExport } from "@/lib/shapefile-writer";
+import type { ExportEncoding } from "@/lib/text-encoder";
+import { downloadFile } from "@/lib/download";
 import { STORAGE_KEYS } from "@/lib/constants";
 import { layerLogger, shapefileLogger } from "@/lib/logger";
+import { buildRedecodedFeatureIdMapping } from "@/lib/feature-id-migration";
 
 interface UseLayersResult {
   layers: Layer[];
   isLoading: boolean;
-  error: string | null;
+  loadResults: LoadResult[];
+  loadProgress: LoadProgress | null;
   globalFilter: PropertyFilter | undefined;
-  addLayerFromFiles: (files: FileList) => Promise<void>;
+  /** レイヤーをブラウザ (IndexedDB) に保存するか */
+  isLayerCacheEnabled: boolean;
+  /** 直近の保存結果 (未保存・無効の場合は null) */
+  layerCache: LayerCacheSummary | null;
+  /** テーブルの選択待ちの GeoPackage */
+  pendingGeoPackages: GeoPackageSelection[];
+  /** 座標列の指定待ちの CSV / TSV */
+  pendingCsvFiles: CsvSelection[];
+  addLayerFromFiles: (files: FileList | File[]) => Promise<LoadResult[]>;
+  loadGeoPackageTables: (file: File, tableNames: string[]) => Promise<LoadResult[]>;
+  cancelGeoPackageSelection: (file: File) => void;
+  rereadCsvFile: (file: File, options: CsvReadOptions) => Promise<void>;
+  loadCsvFile: (file: File, mapping: CsvGeometryMapping) => Promise<LoadResult[]>;
+  cancelCsvSelection: (file: File) => void;
   removeLayer: (id: string) => void;
   toggleLayer: (id: string) => void;
   setLayerColor: (id: string, color: string) => void;
   setLayerFilter: (id: string, filter: PropertyFilter | undefined) => void;
+  /**
+   * フィーチャーIDに使うキー列を設定する (undefined でインデックスに戻す)
+   * @returns 値が空・重複していて設定できない場合はその理由
+   */
+  setLayerKeyField: (id: string, keyField: string | undefined) => string | null;
+  /**
+   * 保持しているファイルを指定した文字コードで読み直す
+   * @returns キー列の値が変わったフィーチャーIDの対応表 (読み直せなかった場合は null)
+   */
+  setLayerEncoding: (id: string, encoding: DbfEncoding) => Promise<Map<string, string> | null>;
+  /**
+   * レイヤーのデータを別のファイル (新しい年次のデータなど) で置き換える
+   * @returns 置き換えの内容 (失敗・キャンセルした場合は null)
+   */
+  replaceLayerData: (id: string, files: FileList | File[]) => Promise<LayerReplacement | null>;
   setGlobalFilter: (filter: PropertyFilter | undefined) => void;
+  /**
+   * 表示中のフィーチャー (レイヤーのフィルターとグローバルフィルターの適用後) を Shapefile の ZIP で保存
+   * @returns 書き出し結果 (対象のフィーチャーがない場合は保存せず null)
+   */
+  downloadShapefile: (
+    layerIds: string[],
+    encoding: ExportEncoding,
+    fileName: string
+  ) => ShapefileExport | null;
   reorderLayers: (fromIndex: number, toIndex: number) => void;
+  cancelLoading: () => void;
+  clearLoadResults: () => void;
   clearAll: () => void;
+  /** 保存を有効にする / 無効にして保存したレイヤーを削除する */
+  setLayerCacheEnabled: (enabled: boolean) => Promise<void>;
+}
+
+// 読み込み対象 (Shapefile セット・GeoJSON や KML のファイル・GeoPackage のテーブル・CSV) と表示用ラベル
+type PendingSet =
+  | { label: string; set: ShapefileSet; archiveName?: string }
+  | { label: string; file: File }
+  | { label: string; geoPackage: File; tableNames: string[] }
+  | { label: string; csv: CsvTable; mapping: CsvGeometryMapping };
+
+// 解析済みのレイヤー (ID と色は追加時に割り当てる)
+type ParsedLayer = Pick<
+  Layer,
+  "name" | "geojson" | "source" | "encoding" | "schema" | "validation"
+> & {
+  label: string;
+};
+
+/**
+ * 読み込み対象のファイル名 (プロジェクトに出所として記録する)
+ */
+function getPendingFileNames(item: PendingSet): string[] {
+  if ("file" in item) return [item.file.name];
+  if ("geoPackage" in item) return [item.geoPackage.name];
+  if ("csv" in item) return [item.label];
+  if (item.archiveName) return [item.archiveName];
+  const { shpFile, dbfFile, prjFile, cpgFile } = item.set;
+  return [shpFile, dbfFile, prjFile, cpgFile].flatMap((file) => (file ? [file.name] : []));
+}
+
+// データの置き換えに使えないファイルを選んだ場合のエラー
+const REPLACEMENT_FILE_ERROR =
+  "1 つのレイヤーになるファイル (Shapefile・ZIP・GeoJSON・KML) を選択してください";
+
+// キャッシュへの書き込みを待つ時間 (連続した変更をまとめる)
+const LAYER_CACHE_SAVE_DELAY = 500;
+
+function loadSavedLayerStates(): SavedLayerState[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.LAYERS);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    layerLogger.error("Failed to load layer state:", e);
+    return [];
+  }
+}
+
+function loadLayerCacheEnabled(): boolean {
+  try {
+    return localStorage.getItem(STORAGE_KEYS.LAYER_CACHE) !== "off";
+  } catch {
+    return true;
+  }
 }
 
 /**
@@ -35,23 +182,169 @@ function generateLayerIdFromName(name: string): string {
     .replace(/^_|_$/g, "");
 }
 
+/**
+ * セットにまとめたファイルを読み込み対象と警告に振り分ける
+ * @param archiveName - ZIP 内のファイルの場合はアーカイブ名
+ */
+function toPendingSets(
+  { sets, unmatched }: ShapefileCollection,
+  archiveName?: string
+): { pending: PendingSet[]; issues: LoadResult[] } {
+  const prefix = archiveName ? `${archiveName}/` : "";
+  return {
+    pending: sets.map((set) => ({ label: `${prefix}${set.shpFile.name}`, set, archiveName })),
+    issues: unmatched.map(({ file, reason }) => ({
+      fileName: `${prefix}${file.name}`,
+      status: "warning",
+      message: `${reason} (読み込みません)`,
+    })),
+  };
+}
+
+/** GeoJSON 系・KML のファイルか */
+function isVectorFile(file: File): boolean {
+  return isGeoJsonFile(file) || isKmlFile(file);
+}
+
+/**
+ * GeoJSON 系・KML のファイルを解析
+ * KML はフォルダごとに別レイヤーになる
+ */
+async function parseVectorFile(file: File): Promise<ParsedLayer[]> {
+  if (isKmlFile(file)) {
+    const kmlLayers = await parseKmlFile(file);
+    return kmlLayers.map(({ name, geojson }) => ({
+      label: kmlLayers.length > 1 ? `${file.name}/${name}` : file.name,
+      name,
+      geojson,
+    }));
+  }
+  const geojson = await parseGeoJsonFile(file);
+  return [{ label: file.name, name: getBaseName(file.name), geojson }];
+}
+
+/**
+ * 読み込み対象を解析
+ * @returns 解析したレイヤーと、CSV で座標を読み取れなかった行数
+ */
+async function parsePendingSet(
+  item: PendingSet,
+  options: { signal: AbortSignal; onProgress: (progress: ParseProgress) => void }
+): Promise<{ parsed: ParsedLayer[]; invalidRowCount: number }> {
+  const { label } = item;
+  if ("file" in item) {
+    return { parsed: await parseVectorFile(item.file), invalidRowCount: 0 };
+  }
+  if ("geoPackage" in item) {
+    const gpkgLayers = await readGeoPackageTables(item.geoPackage, item.tableNames);
+    const parsed = gpkgLayers.map(({ table, geojson }) => ({
+      label: `${item.geoPackage.name}/${table.name}`,
+      name: table.name,
+      geojson,
+    }));
+    return { parsed, invalidRowCount: 0 };
+  }
+  if ("csv" in item) {
+    const converted = csvToFeatureCollection(item.csv, item.mapping);
+    return {
+      parsed: [{ label, name: getBaseName(label), geojson: converted.geojson }],
+      invalidRowCount: converted.invalidRowCount,
+    };
+  }
+  const { shpFile, dbfFile, prjFile, cpgFile, name } = item.set;
+  const { geojson, encoding, schema, validation } = await parseShapefileFromFiles(
+    shpFile,
+    dbfFile,
+    { prjFile, cpgFile, signal: options.signal, onProgress: options.onProgress }
+  );
+  const parsed = [
+    {
+      label,
+      name,
+      geojson,
+      source: { shpFile, dbfFile, prjFile, cpgFile },
+      encoding: encoding ?? undefined,
+      schema: schema ?? undefined,
+      validation,
+    },
+  ];
+  return { parsed, invalidRowCount: 0 };
+}
+
 export function useLayers(): UseLayersResult {
   const [layers, setLayers] = useState<Layer[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [loadResults, setLoadResults] = useState<LoadResult[]>([]);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [pendingGeoPackages, setPendingGeoPackages] = useState<GeoPackageSelection[]>([]);
+  const [pendingCsvFiles, setPendingCsvFiles] = useState<CsvSelection[]>([]);
   const [globalFilter, setGlobalFilterState] = useState<PropertyFilter | undefined>(undefined);
+  const [isLayerCacheEnabled, setIsLayerCacheEnabledState] = useState(loadLayerCacheEnabled);
+  const [layerCache, setLayerCache] = useState<LayerCacheSummary | null>(null);
   const isInitialized = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // 起動時にキャッシュしたレイヤーを復元
+  useEffect(() => {
+    if (!isLayerCacheEnabled || !isLayerCacheAvailable()) {
+      isInitialized.current = true;
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    loadLayerCache()
+      .then((cached) => {
+        if (cancelled) return;
+        isInitialized.current = true;
+        if (cached.length === 0) return;
+        const restored: Layer[] = cached.map(({ size: _size, ...layer }) => layer);
+        // 復元前に読み込まれたレイヤーがあれば、そちらを優先する
+        setLayers((prev) => (prev.length > 0 ? prev : restored));
+        setLayerCache({
+          layerCount: cached.length,
+          totalBytes: cached.reduce((sum, layer) => sum + layer.size, 0),
+          skippedLayerNames: [],
+        });
+        setLoadResults(
+          restored.map((layer) => ({
+            fileName: layer.name,
+            status: "success",
+            message: `${layer.geojson.features.length} 件のフィーチャー (前回の状態から復元)`,
+            layerId: layer.id,
+          }))
+        );
+        layerLogger.log(`Restored ${cached.length} layers from cache`);
+      })
+      .catch((e) => {
+        isInitialized.current = true;
+        layerLogger.error("Failed to restore cached layers:", e);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // 起動時のみ
+  }, []);
 
-  // レイヤー変更時に設定を自動保存 (GeoJSONは除く、再アップロードが必要)
+  // レイヤー変更時にキャッシュを更新 (連続した変更はまとめて書き込む)
+  useEffect(() => {
+    if (!isInitialized.current || !isLayerCacheEnabled || !isLayerCacheAvailable()) return;
+    const timer = setTimeout(() => {
+      saveLayerCache(layers)
+        .then(setLayerCache)
+        .catch((e) => layerLogger.error("Failed to save layer cache:", e));
+    }, LAYER_CACHE_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [layers, isLayerCacheEnabled]);
+
+  // レイヤー変更時に設定を自動保存 (GeoJSON は IndexedDB のキャッシュに保存する)
+  // 削除したレイヤーの設定も、同じファイルを読み込み直したときのために残す
   useEffect(() => {
     if (!isInitialized.current) return;
 
-    const savedState: SavedLayerState[] = layers.map((layer) => ({
-      name: layer.name,
-      visible: layer.visible,
-      color: layer.color,
-      filter: layer.filter,
-    }));
+    const savedState = mergeSavedLayerStates(loadSavedLayerStates(), layers);
 
     try {
       localStorage.setItem(STORAGE_KEYS.LAYERS, JSON.stringify(savedState));
@@ -60,53 +353,299 @@ export function useLayers(): UseLayersResult {
     }
   }, [layers]);
 
+  // 読み込み対象を順に解析してレイヤーを追加
+  const loadPendingSets = useCallback(
+    async (
+      pending: PendingSet[],
+      initialResults: LoadResult[],
+      issues: LoadResult[]
+    ): Promise<LoadResult[]> => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      try {
+        const results = [...initialResults];
+        const usedIds = new Set(layers.map((l) => l.id));
+        const newLayers: { layer: Layer; order?: number }[] = [];
+        // 同じファイルを読み込み直した場合は前回の設定を引き継ぐ
+        const savedStates = excludeLoadedLayerStates(loadSavedLayerStates(), layers);
+        const usedStates = new Set<SavedLayerState>();
+
+        for (const [setIndex, item] of pending.entries()) {
+          const { label } = item;
+          // キャンセル後の残りのセットは読み込まない (読み込み済みのレイヤーは残す)
+          if (controller.signal.aborted) {
+            results.push({ fileName: label, status: "warning", message: "キャンセルしました" });
+            continue;
+          }
+
+          setLoadProgress({ fileName: label, setIndex, setCount: pending.length, progress: null });
+          try {
+            const { parsed, invalidRowCount } = await parsePendingSet(item, {
+              signal: controller.signal,
+              onProgress: (progress) =>
+                setLoadProgress((prev) =>
+                  prev?.fileName === label ? { ...prev, progress } : prev
+                ),
+            });
+
+            for (const { label: layerLabel, ...layer } of parsed) {
+              const { name, geojson } = layer;
+              shapefileLogger.log(`Loaded: ${name} (${geojson.features.length} features)`);
+
+              // ファイル名ベースのレイヤーIDを生成
+              const baseLayerId = generateLayerIdFromName(name);
+
+              // 重複チェック: 同じIDが既にあれば連番を付ける
+              let layerId = baseLayerId;
+              let counter = 1;
+              while (usedIds.has(layerId)) {
+                layerId = `${baseLayerId}_${counter}`;
+                counter++;
+              }
+              usedIds.add(layerId);
+
+              const saved = findSavedLayerState(savedStates, layer, usedStates);
+              if (saved) usedStates.add(saved.state);
+              newLayers.push({
+                layer: {
+                  ...layer,
+                  id: layerId,
+                  visible: saved?.state.visible ?? true,
+                  color:
+                    saved?.state.color ??
+                    LAYER_COLORS[(layers.length + newLayers.length) % LAYER_COLORS.length],
+                  filter: restoreFilter(saved?.state.filter, geojson),
+                  keyField: restoreKeyField(saved?.state.keyField, geojson),
+                  fileNames: getPendingFileNames(item),
+                },
+                order: saved?.state.order,
+              });
+
+              const restoredNote = saved
+                ? ` · 前回の設定を復元 (${saved.match === "fingerprint" ? "形状" : "名前"}が一致)`
+                : "";
+              const featureCount = `${geojson.features.length} 件のフィーチャー`;
+              const warnings = [
+                "set" in item && !item.set.dbfFile && ".dbf がないため属性なし",
+                invalidRowCount > 0 && `座標を読み取れない ${invalidRowCount} 行はジオメトリなし`,
+                layer.validation?.issues.length &&
+                  `検証で ${layer.validation.issues.length} 件の問題`,
+              ].filter(Boolean);
+              const warning = warnings.length > 0 ? warnings.join("、") : null;
+              results.push(
+                warning
+                  ? {
+                      fileName: layerLabel,
+                      status: "warning",
+                      message: `${featureCount} (${warning})${restoredNote}`,
+                      layerId,
+                    }
+                  : {
+                      fileName: layerLabel,
+                      status: "success",
+                      message: `${featureCount}${restoredNote}`,
+                      layerId,
+                    }
+              );
+            }
+          } catch (e) {
+            if (controller.signal.aborted) {
+              results.push({ fileName: label, status: "warning", message: "キャンセルしました" });
+              continue;
+            }
+            const message = e instanceof Error ? e.message : "Unknown error";
+            results.push({ fileName: label, status: "error", message });
+            shapefileLogger.error(`Failed to load file: ${label}`, e);
+          }
+        }
+
+        if (newLayers.length > 0) {
+          setLayers((prev) => insertLayersByOrder(prev, newLayers));
+        }
+
+        const allResults = [...results, ...issues];
+        setLoadResults(allResults);
+        return allResults;
+      } finally {
+        abortControllerRef.current = null;
+        setLoadProgress(null);
+        setIsLoading(false);
+      }
+    },
+    [layers]
+  );
+
   const addLayerFromFiles = useCallback(
-    async (files: FileList) => {
+    async (files: FileList | File[]): Promise<LoadResult[]> => {
       setIsLoading(true);
-      setError(null);
+      setLoadResults([]);
 
+      const fileArray = Array.from(files);
       try {
-        const extracted = extractShapefiles(files);
-        if (!extracted) {
-          throw new Error("Shapefileが見つかりません (.shp ファイルを選択してください)");
-        }
+        const pending: PendingSet[] = [];
+        const results: LoadResult[] = [];
+        const issues: LoadResult[] = [];
+        const selections: GeoPackageSelection[] = [];
+        const csvSelections: CsvSelection[] = [];
 
-        const { shpFile, dbfFile, name } = extracted;
-        const geojson = await parseShapefileFromFiles(shpFile, dbfFile);
+        const loose = toPendingSets(
+          collectShapefileSets(
+            fileArray.filter(
+              (f) => !isZipFile(f) && !isVectorFile(f) && !isGeoPackageFile(f) && !isCsvFile(f)
+            )
+          )
+        );
+        pending.push(...loose.pending);
+        pending.push(...fileArray.filter(isVectorFile).map((file) => ({ label: file.name, file })));
+        issues.push(...loose.issues);
 
-        shapefileLogger.log(`Loaded: ${name} (${geojson.features.length} features)`);
+        // ZIP は展開して含まれる全セットを読み込む
+        for (const zipFile of fileArray.filter(isZipFile)) {
+          try {
+            const collection = collectShapefileSets(await extractZipFiles(zipFile));
+            if (collection.sets.length === 0) {
+              throw new Error("Shapefile が含まれていません");
+            }
+            const zipped = toPendingSets(collection, zipFile.name);
+            pending.push(...zipped.pending);
+            issues.push(...zipped.issues);
+          } catch (e) {
+            const message = e instanceof Error ? e.message : "Unknown error";
+            results.push({ fileName: zipFile.name, status: "error", message });
+            shapefileLogger.error(`Failed to extract zip: ${zipFile.name}`, e);
+          }
+        }
 
-        // ファイル名ベースのレイヤーIDを生成
-        const baseLayerId = generateLayerIdFromName(name);
+        // GeoPackage はフィーチャーテーブルが複数ある場合、読み込むテーブルを選択してもらう
+        for (const file of fileArray.filter(isGeoPackageFile)) {
+          try {
+            const tables = await listGeoPackageTables(file);
+            if (tables.length === 0) {
+              throw new Error("フィーチャーテーブルが含まれていません");
+            }
+            if (tables.length === 1) {
+              pending.push({ label: file.name, geoPackage: file, tableNames: [tables[0].name] });
+            } else {
+              selections.push({ file, tables });
+              issues.push({
+                fileName: file.name,
+                status: "warning",
+                message: `${tables.length} 件のフィーチャーテーブルがあります。読み込むテーブルを選択してください`,
+              });
+            }
+          } catch (e) {
+            const message = e instanceof Error ? e.message : "Unknown error";
+            results.push({ fileName: file.name, status: "error", message });
+            shapefileLogger.error(`Failed to open GeoPackage: ${file.name}`, e);
+          }
+        }
 
-        // 重複チェック: 同じIDが既にあれば連番を付ける
-        let layerId = baseLayerId;
-        let counter = 1;
-        while (layers.some((l) => l.id === layerId)) {
-          layerId = `${baseLayerId}_${counter}`;
-          counter++;
+        // CSV は座標列を確認してから読み込む (推定した対応付けを初期値にする)
+        for (const file of fileArray.filter(isCsvFile)) {
+          try {
+            const table = await readCsvFile(file);
+            const mapping = guessGeometryMapping(table.headers);
+            csvSelections.push({ file, table, mapping });
+            issues.push({
+              fileName: file.name,
+              status: "warning",
+              message: `${table.rows.length} 行あります。座標の列を指定してください`,
+            });
+          } catch (e) {
+            const message = e instanceof Error ? e.message : "Unknown error";
+            results.push({ fileName: file.name, status: "error", message });
+            shapefileLogger.error(`Failed to read CSV: ${file.name}`, e);
+          }
         }
 
-        const newLayer: Layer = {
-          id: layerId,
-          name,
-          geojson,
-          visible: true,
-          color: LAYER_COLORS[layers.length % LAYER_COLORS.length],
-        };
+        if (
+          pending.length === 0 &&
+          results.length === 0 &&
+          selections.length === 0 &&
+          csvSelections.length === 0
+        ) {
+          results.push({
+            fileName: fileArray.map((f) => f.name).join(", "),
+            status: "error",
+            message:
+              "読み込めるファイルが見つかりません (.shp、.zip、GeoJSON、KML、GeoPackage または CSV を選択してください)",
+          });
+        }
 
-        setLayers((prev) => [...prev, newLayer]);
+        if (selections.length > 0) {
+          setPendingGeoPackages((prev) => [...prev, ...selections]);
+        }
+        if (csvSelections.length > 0) {
+          setPendingCsvFiles((prev) => [...prev, ...csvSelections]);
+        }
+
+        return await loadPendingSets(pending, results, issues);
       } catch (e) {
+        // ファイルの振り分け中の失敗 (セットごとの失敗は loadPendingSets で結果に含める)
         const message = e instanceof Error ? e.message : "Unknown error";
-        setError(message);
-        shapefileLogger.error("Failed to load shapefile:", e);
+        const failed: LoadResult[] = [
+          { fileName: fileArray.map((f) => f.name).join(", "), status: "error", message },
+        ];
+        setLoadResults(failed);
+        shapefileLogger.error("Failed to load files:", e);
+        return failed;
       } finally {
         setIsLoading(false);
       }
     },
-    [layers.length]
+    [loadPendingSets]
   );
 
+  // 選択された GeoPackage のテーブルを読み込む
+  const loadGeoPackageTables = useCallback(
+    async (file: File, tableNames: string[]): Promise<LoadResult[]> => {
+      setPendingGeoPackages((prev) => prev.filter((selection) => selection.file !== file));
+      setIsLoading(true);
+      setLoadResults([]);
+      return loadPendingSets([{ label: file.name, geoPackage: file, tableNames }], [], []);
+    },
+    [loadPendingSets]
+  );
+
+  const cancelGeoPackageSelection = useCallback((file: File) => {
+    setPendingGeoPackages((prev) => prev.filter((selection) => selection.file !== file));
+  }, []);
+
+  // 文字コード・区切り文字を指定して CSV を読み直す
+  const rereadCsvFile = useCallback(async (file: File, options: CsvReadOptions) => {
+    try {
+      const table = await readCsvFile(file, options);
+      setPendingCsvFiles((prev) =>
+        prev.map((selection) =>
+          selection.file === file
+            ? { file, table, mapping: guessGeometryMapping(table.headers) }
+            : selection
+        )
+      );
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      setLoadResults([{ fileName: file.name, status: "error", message }]);
+      shapefileLogger.error(`Failed to read CSV: ${file.name}`, e);
+    }
+  }, []);
+
+  // 指定された座標列で CSV をレイヤーにする
+  const loadCsvFile = useCallback(
+    async (file: File, mapping: CsvGeometryMapping): Promise<LoadResult[]> => {
+      const selection = pendingCsvFiles.find((s) => s.file === file);
+      if (!selection) return [];
+      setPendingCsvFiles((prev) => prev.filter((s) => s.file !== file));
+      setIsLoading(true);
+      setLoadResults([]);
+      return loadPendingSets([{ label: file.name, csv: selection.table, mapping }], [], []);
+    },
+    [pendingCsvFiles, loadPendingSets]
+  );
+
+  const cancelCsvSelection = useCallback((file: File) => {
+    setPendingCsvFiles((prev) => prev.filter((selection) => selection.file !== file));
+  }, []);
+
   const removeLayer = useCallback((id: string) => {
     setLayers((prev) => prev.filter((layer) => layer.id !== id));
   }, []);
@@ -134,6 +673,156 @@ export function useLayers(): UseLayersResult {
     []
   );
 
+  const setLayerKeyField = useCallback(
+    (id: string, keyField: string | undefined): string | null => {
+      const layer = layers.find((l) => l.id === id);
+      if (!layer) return null;
+      if (keyField) {
+        const issue = describeKeyFieldIssues(keyField, findKeyFieldIssues(layer.geojson, keyField));
+        if (issue) return issue;
+      }
+      setLayers((prev) => prev.map((l) => (l.id === id ? { ...l, keyField } : l)));
+      return null;
+    },
+    [layers]
+  );
+
+  // 保持しているファイルを指定した文字コードで再デコード
+  const setLayerEncoding = useCallback(
+    async (id: string, encoding: DbfEncoding): Promise<Map<string, string> | null> => {
+      const current = layers.find((layer) => layer.id === id);
+      const source = current?.source;
+      if (!current || !source?.dbfFile) return null;
+
+      setIsLoading(true);
+      setLoadResults([]);
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const fileName = source.shpFile.name;
+      setLoadProgress({ fileName, setIndex: 0, setCount: 1, progress: null });
+
+      try {
+        const result = await parseShapefileFromFiles(source.shpFile, source.dbfFile, {
+          prjFile: source.prjFile,
+          cpgFile: source.cpgFile,
+          encoding,
+          signal: controller.signal,
+          onProgress: (progress) => setLoadProgress((prev) => prev && { ...prev, progress }),
+        });
+        // フィーチャーの順序は変わらないため、インデックス形式のフィーチャーIDはそのまま有効
+        // キー列がある場合はキーの値が変わるため、書き換える ID の対応表を返す
+        setLayers((prev) =>
+          prev.map((layer) =>
+            layer.id === id
+              ? {
+                  ...layer,
+                  geojson: result.geojson,
+                  encoding: result.encoding ?? undefined,
+                  schema: result.schema ?? undefined,
+                  validation: result.validation,
+                }
+              : layer
+          )
+        );
+        shapefileLogger.log(`Re-decoded: ${id} (${encoding})`);
+        return buildRedecodedFeatureIdMapping(current, current.geojson, result.geojson);
+      } catch (e) {
+        if (controller.signal.aborted) {
+          setLoadResults([{ fileName, status: "warning", message: "キャンセルしました" }]);
+          return null;
+        }
+        const message = e instanceof Error ? e.message : "Unknown error";
+        setLoadResults([{ fileName, status: "error", message }]);
+        shapefileLogger.error("Failed to re-decode shapefile:", e);
+        return null;
+      } finally {
+        abortControllerRef.current = null;
+        setLoadProgress(null);
+        setIsLoading(false);
+      }
+    },
+    [layers]
+  );
+
+  // 色・フィルター・並び順を保ったままデータだけを置き換える
+  const replaceLayerData = useCallback(
+    async (id: string, files: FileList | File[]): Promise<LayerReplacement | null> => {
+      const oldLayer = layers.find((layer) => layer.id === id);
+      if (!oldLayer) return null;
+
+      setIsLoading(true);
+      setLoadResults([]);
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const fileArray = Array.from(files);
+      const fileName = fileArray.map((file) => file.name).join(", ");
+
+      try {
+        // 1 つのレイヤーになるファイル (Shapefile・ZIP・GeoJSON 系・KML) のみ受け付ける
+        const pending: PendingSet[] = [
+          ...toPendingSets(
+            collectShapefileSets(fileArray.filter((f) => !isZipFile(f) && !isVectorFile(f)))
+          ).pending,
+          ...fileArray.filter(isVectorFile).map((file) => ({ label: file.name, file })),
+        ];
+        for (const zipFile of fileArray.filter(isZipFile)) {
+          pending.push(
+            ...toPendingSets(collectShapefileSets(await extractZipFiles(zipFile)), zipFile.name)
+              .pending
+          );
+        }
+        if (pending.length !== 1) {
+          throw new Error(REPLACEMENT_FILE_ERROR);
+        }
+
+        const [item] = pending;
+        setLoadProgress({ fileName: item.label, setIndex: 0, setCount: 1, progress: null });
+        const { parsed } = await parsePendingSet(item, {
+          signal: controller.signal,
+          onProgress: (progress) => setLoadProgress((prev) => prev && { ...prev, progress }),
+        });
+        if (parsed.length !== 1) {
+          throw new Error(REPLACEMENT_FILE_ERROR);
+        }
+
+        const [{ geojson, source, encoding, schema, validation }] = parsed;
+        const replacement = buildLayerReplacement(oldLayer, {
+          geojson,
+          source,
+          encoding,
+          schema,
+          validation,
+          fileNames: getPendingFileNames(item),
+        });
+        setLayers((prev) => prev.map((layer) => (layer.id === id ? replacement.newLayer : layer)));
+        setLoadResults([
+          {
+            fileName: item.label,
+            status: "success",
+            message: `${oldLayer.name} のデータを ${geojson.features.length} 件のフィーチャーに置き換えました`,
+            layerId: id,
+          },
+        ]);
+        shapefileLogger.log(`Replaced: ${id} (${geojson.features.length} features)`);
+        return replacement;
+      } catch (e) {
+        if (controller.signal.aborted) {
+          setLoadResults([{ fileName, status: "warning", message: "キャンセルしました" }]);
+          return null;
+        }
+        const message = e instanceof Error ? e.message : "Unknown error";
+        setLoadResults([{ fileName, status: "error", message }]);
+        shapefileLogger.error("Failed to replace layer data:", e);
+        return null;
+      } finally {
+        abortControllerRef.current = null;
+        setLoadProgress(null);
+        setIsLoading(false);
+      }
+    },
+    [layers]
+  );
+
   const reorderLayers = useCallback((fromIndex: number, toIndex: number) => {
     setLayers((prev) => {
       const newLayers = [...prev];
@@ -143,9 +832,18 @@ export function useLayers(): UseLayersResult {
     });
   }, []);
 
+  // 読み込み中の解析を中断 (Worker を停止する)
+  const cancelLoading = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const clearLoadResults = useCallback(() => {
+    setLoadResults([]);
+  }, []);
+
   const clearAll = useCallback(() => {
     setLayers([]);
-    setError(null);
+    setLoadResults([]);
     setGlobalFilterState(undefined);
     try {
       localStorage.removeItem(STORAGE_KEYS.LAYERS);
@@ -154,6 +852,23 @@ export function useLayers(): UseLayersResult {
     }
   }, []);
 
+  const setLayerCacheEnabled = useCallback(async (enabled: boolean) => {
+    setIsLayerCacheEnabledState(enabled);
+    try {
+      localStorage.setItem(STORAGE_KEYS.LAYER_CACHE, enabled ? "on" : "off");
+    } catch (e) {
+      layerLogger.error("Failed to save layer cache setting:", e);
+    }
+    // 有効にした場合は保存のエフェクトが書き込む
+    if (enabled) return;
+    setLayerCache(null);
+    try {
+      await clearLayerCache();
+    } catch (e) {
+      layerLogger.error("Failed to clear layer cache:", e);
+    }
+  }, []);
+
   const setGlobalFilter = useCallback(
     (filter: PropertyFilter | undefined) => {
       setGlobalFilterState(filter);
@@ -161,18 +876,54 @@ export function useLayers(): UseLayersResult {
     []
   );
 
+  const downloadShapefile = useCallback(
+    (layerIds: string[], encoding: ExportEncoding, fileName: string) => {
+      const sets = layers
+        .filter((layer) => layerIds.includes(layer.id))
+        .map((layer) => ({
+          name: layer.name,
+          features: getDisplayedFeatures(layer, globalFilter),
+          schema: layer.schema,
+        }))
+        .filter((set) => set.features.length > 0);
+      if (sets.length === 0) return null;
+
+      const result = buildShapefileZip(sets, encoding);
+      downloadFile(result.zip, `${toExportFileName(fileName)}.zip`, "application/zip");
+      return result;
+    },
+    [layers, globalFilter]
+  );
+
   return {
     layers,
     isLoading,
-    error,
+    loadResults,
+    loadProgress,
+    pendingGeoPackages,
+    pendingCsvFiles,
     globalFilter,
+    isLayerCacheEnabled,
+    layerCache,
     addLayerFromFiles,
+    loadGeoPackageTables,
+    cancelGeoPackageSelection,
+    rereadCsvFile,
+    loadCsvFile,
+    cancelCsvSelection,
     removeLayer,
     toggleLayer,
     setLayerColor,
     setLayerFilter,
+    setLayerKeyField,
+    setLayerEncoding,
+    replaceLayerData,
     setGlobalFilter,
+    downloadShapefile,
     reorderLayers,
+    cancelLoading,
+    clearLoadResults,
     clearAll,
+    setLayerCacheEnabled,
   };
 }
@@ -0,0 +1,261 @@
+import { describe, it, expect } from "vitest";
+import type { Feature, Position } from "geojson";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { createAreaDissolveCache, dissolveAreas, toDissolvedFeatures } from "./area-dissolve";
+
+function rectangle(minX: number, minY: number, maxX: number, maxY: number): Position[] {
+  return [
+    [minX, minY],
+    [maxX, minY],
+    [maxX, maxY],
+    [minX, maxY],
+    [minX, minY],
+  ];
+}
+
+function polygon(...rings: Position[][]): Feature {
+  return { type: "Feature", geometry: { type: "Polygon", coordinates: rings }, properties: {} };
+}
+
+function createLayer(features: Feature[]): Layer {
+  return {
+    id: "blocks",
+    name: "blocks",
+    visible: true,
+    color: "#000000",
+    geojson: { type: "FeatureCollection", features },
+  };
+}
+
+function createArea(id: string, featureIds: string[], parentId: string | null = null): Area {
+  return { id, name: `エリア${id}`, parentId, color: "#ff0000", featureIds };
+}
+
+describe("dissolveAreas", () => {
+  it("隣り合うフィーチャーを 1 つのポリゴンに結合する", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 1, 1)), polygon(rectangle(1, 0, 2, 1))]);
+
+    // Act
+    const [result] = dissolveAreas([createArea("a", ["blocks:0", "blocks:1"])], [layer]);
+
+    // Assert
+    expect(result.geometry?.type).toBe("Polygon");
+    expect(result.partCount).toBe(1);
+    expect(result.issues).toEqual([]);
+    expect(result.featureCount).toBe(2);
+  });
+
+  it("親エリアは子孫のエリアのフィーチャーも結合する", () => {
+    // Arrange
+    const layer = createLayer([
+      polygon(rectangle(0, 0, 1, 1)),
+      polygon(rectangle(1, 0, 2, 1)),
+      polygon(rectangle(5, 0, 6, 1)),
+    ]);
+    const areas = [
+      createArea("root", []),
+      createArea("child", ["blocks:0"], "root"),
+      createArea("grandchild", ["blocks:1"], "child"),
+      createArea("other", ["blocks:2"]),
+    ];
+
+    // Act
+    const [root, child, grandchild, other] = dissolveAreas(areas, [layer]);
+
+    // Assert
+    expect(root.totalFeatureCount).toBe(2);
+    expect(root.featureCount).toBe(0);
+    expect(root.partCount).toBe(1);
+    expect(child.totalFeatureCount).toBe(2);
+    expect(grandchild.totalFeatureCount).toBe(1);
+    expect(other.geometry).toEqual({
+      type: "Polygon",
+      coordinates: [rectangle(5, 0, 6, 1)],
+    });
+  });
+
+  it("離れたフィーチャーはマルチポリゴンになる", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 1, 1)), polygon(rectangle(5, 0, 6, 1))]);
+
+    // Act
+    const [result] = dissolveAreas([createArea("a", ["blocks:0", "blocks:1"])], [layer]);
+
+    // Assert
+    expect(result.geometry?.type).toBe("MultiPolygon");
+    expect(result.partCount).toBe(2);
+  });
+
+  it("フィーチャーの間に囲まれた穴を報告する", () => {
+    // Arrange (中央の 1 度四方が空いている)
+    const layer = createLayer([
+      polygon(rectangle(0, 0, 3, 1)),
+      polygon(rectangle(0, 2, 3, 3)),
+      polygon(rectangle(0, 1, 1, 2)),
+      polygon(rectangle(2, 1, 3, 2)),
+    ]);
+    const area = createArea("a", ["blocks:0", "blocks:1", "blocks:2", "blocks:3"]);
+
+    // Act
+    const [result] = dissolveAreas([area], [layer]);
+
+    // Assert
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0].type).toBe("hole");
+    expect(result.issues[0].bounds).toEqual([1, 1, 2, 2]);
+    expect(result.issues[0].position).toEqual([1.5, 1.5]);
+  });
+
+  it("境界のずれによる細い隙間を sliver として報告する", () => {
+    // Arrange (左右のフィーチャーの間に幅 0.0001 度の隙間がある)
+    const layer = createLayer([
+      polygon(rectangle(0, 0, 3, 1)),
+      polygon(rectangle(0, 2, 3, 3)),
+      polygon(rectangle(0, 1, 1.5, 2)),
+      polygon(rectangle(1.5001, 1, 3, 2)),
+    ]);
+    const area = createArea("a", ["blocks:0", "blocks:1", "blocks:2", "blocks:3"]);
+
+    // Act
+    const [result] = dissolveAreas([area], [layer]);
+
+    // Assert
+    expect(result.issues.map((issue) => issue.type)).toEqual(["sliver"]);
+  });
+
+  it("フィーチャー自体の穴は報告しない", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 3, 3), rectangle(1, 1, 2, 2))]);
+
+    // Act
+    const [result] = dissolveAreas([createArea("a", ["blocks:0"])], [layer]);
+
+    // Assert
+    expect(result.geometry?.coordinates).toHaveLength(2);
+    expect(result.issues).toEqual([]);
+  });
+
+  it("見つからないフィーチャーとポリゴン以外のフィーチャーは結合せずに数える", () => {
+    // Arrange
+    const layer = createLayer([
+      polygon(rectangle(0, 0, 1, 1)),
+      { type: "Feature", geometry: { type: "Point", coordinates: [0, 0] }, properties: {} },
+    ]);
+    const area = createArea("a", ["blocks:0", "blocks:1", "missing:0"]);
+
+    // Act
+    const [result] = dissolveAreas([area], [layer]);
+
+    // Assert
+    expect(result.skippedCount).toBe(2);
+    expect(result.partCount).toBe(1);
+  });
+
+  it("結合するポリゴンがないエリアのジオメトリは null", () => {
+    // Act
+    const [result] = dissolveAreas([createArea("a", [])], []);
+
+    // Assert
+    expect(result.geometry).toBeNull();
+    expect(result.partCount).toBe(0);
+    expect(result.error).toBeNull();
+  });
+
+  it("親が循環していても終了する", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 1, 1)), polygon(rectangle(1, 0, 2, 1))]);
+    const areas = [createArea("a", ["blocks:0"], "b"), createArea("b", ["blocks:1"], "a")];
+
+    // Act
+    const results = dissolveAreas(areas, [layer]);
+
+    // Assert
+    expect(results.map((r) => r.totalFeatureCount)).toEqual([2, 1]);
+  });
+});
+
+describe("dissolveAreas (キャッシュ)", () => {
+  it("変更のないエリアは前回の結果を使い、変更したエリアと祖先だけを再計算する", () => {
+    // Arrange
+    const layer = createLayer([
+      polygon(rectangle(0, 0, 1, 1)),
+      polygon(rectangle(1, 0, 2, 1)),
+      polygon(rectangle(5, 0, 6, 1)),
+    ]);
+    const areas = [
+      createArea("root", []),
+      createArea("child", ["blocks:0"], "root"),
+      createArea("other", ["blocks:2"]),
+    ];
+    const cache = createAreaDissolveCache();
+    const before = dissolveAreas(areas, [layer], cache);
+
+    // Act
+    const updated = [areas[0], { ...areas[1], featureIds: ["blocks:0", "blocks:1"] }, areas[2]];
+    const after = dissolveAreas(updated, [layer], cache);
+
+    // Assert
+    expect(after[2]).toBe(before[2]);
+    expect(after[1]).not.toBe(before[1]);
+    expect(after[0]).not.toBe(before[0]);
+    expect(after[0].totalFeatureCount).toBe(2);
+  });
+
+  it("レイヤーのデータが変わった場合はすべて再計算する", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 1, 1))]);
+    const areas = [createArea("a", ["blocks:0"])];
+    const cache = createAreaDissolveCache();
+    const before = dissolveAreas(areas, [layer], cache);
+
+    // Act
+    const replaced = createLayer([polygon(rectangle(0, 0, 2, 2))]);
+    const after = dissolveAreas(areas, [replaced], cache);
+
+    // Assert
+    expect(after[0]).not.toBe(before[0]);
+    expect(after[0].geometry).toEqual({ type: "Polygon", coordinates: [rectangle(0, 0, 2, 2)] });
+  });
+
+  it("レイヤーの表示の切り替えなどデータが同じ場合は前回の結果を使う", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 1, 1))]);
+    const areas = [createArea("a", ["blocks:0"])];
+    const cache = createAreaDissolveCache();
+    const before = dissolveAreas(areas, [layer], cache);
+
+    // Act
+    const after = dissolveAreas(areas, [{ ...layer, visible: false }], cache);
+
+    // Assert
+    expect(after[0]).toBe(before[0]);
+  });
+});
+
+describe("toDissolvedFeatures", () => {
+  it("エリアの属性とフィーチャー数・穴の数を持つフィーチャーにする", () => {
+    // Arrange
+    const layer = createLayer([polygon(rectangle(0, 0, 1, 1))]);
+    const areas = [createArea("root", []), createArea("child", ["blocks:0"], "root")];
+
+    // Act
+    const features = toDissolvedFeatures(dissolveAreas(areas, [layer]));
+
+    // Assert
+    expect(features[1].properties).toEqual({
+      AREA_ID: "child",
+      AREA_NAME: "エリアchild",
+      PARENT_ID: "root",
+      PARENT: "エリアroot",
+      COLOR: "#ff0000",
+      OWN_COUNT: 1,
+      FEAT_COUNT: 1,
+      PARTS: 1,
+      SLIVERS: 0,
+      HOLES: 0,
+    });
+    expect(features[0].geometry?.type).toBe("Polygon");
+  });
+});
@@ -0,0 +1,291 @@
+import type { Feature, Geometry, MultiPolygon, Polygon, Position } from "geojson";
+import polygonClipping, {
+  type MultiPolygon as ClipMultiPolygon,
+  type Polygon as ClipPolygon,
+} from "polygon-clipping";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { resolveFeatureId } from "@/types/layer";
+import { getBoundsCenter, getGeometryBounds, type Bounds } from "@/lib/geometry-bounds";
+import { getLineLength, getRingArea } from "@/lib/geodesic";
+import type { AreaJoinFormat } from "@/lib/area-join";
+
+/**
+ * エリアのディゾルブ (所属するフィーチャーのポリゴンを結合して 1 つの境界にする)
+ * 親エリアは子孫のエリアのフィーチャーも含めて結合する
+ */
+
+/**
+ * 結合で生じた穴の種類
+ * sliver: 隣り合うフィーチャーの境界のずれによる細い隙間
+ * hole: 割り当てていないフィーチャーなどによる穴
+ */
+export type DissolveIssueType = "sliver" | "hole";
+
+/**
+ * 結合で生じた穴 (フィーチャー自体の穴は含めない)
+ */
+export interface DissolveIssue {
+  type: DissolveIssueType;
+  /** 面積 (m²) */
+  area: number;
+  /** 穴の外接矩形 */
+  bounds: Bounds;
+  /** 穴の位置 (外接矩形の中心) */
+  position: Position;
+}
+
+/**
+ * エリアごとの結合結果
+ */
+export interface DissolvedArea {
+  area: Area;
+  /** 結合した境界 (結合できるポリゴンがない場合は null) */
+  geometry: Polygon | MultiPolygon | null;
+  /** エリアに直接割り当てたフィーチャー数 */
+  featureCount: number;
+  /** 子孫のエリアを含めたフィーチャー数 */
+  totalFeatureCount: number;
+  /** 結合しなかったフィーチャー数 (レイヤーが読み込まれていない・ポリゴン以外) */
+  skippedCount: number;
+  /** 境界の数 (離れた部分があると 2 以上) */
+  partCount: number;
+  issues: DissolveIssue[];
+  /** 結合に失敗した場合のエラー */
+  error: string | null;
+}
+
+/**
+ * 結合結果の出力形式
+ */
+export type DissolvedAreaFormat = Exclude<AreaJoinFormat, "csv">;
+
+// 隙間とみなす穴の円形度 (4π × 面積 / 周長², 円は 1) の上限
+const SLIVER_MAX_COMPACTNESS = 0.1;
+// 形によらず隙間とみなす穴の面積 (m²)
+const SLIVER_MAX_AREA = 1;
+
+function toClipRing(ring: Position[]): [number, number][] {
+  return ring.map(([x, y]) => [x, y]);
+}
+
+/**
+ * ジオメトリのポリゴンを取り出す (ポリゴンを含まない場合は空)
+ */
+function toClipPolygons(geometry: Geometry | null): ClipPolygon[] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates.map(toClipRing)];
+    case "MultiPolygon":
+      return geometry.coordinates.map((polygon) => polygon.map(toClipRing));
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(toClipPolygons);
+    default:
+      return [];
+  }
+}
+
+function toVertexKey([x, y]: Position): string {
+  return `${x},${y}`;
+}
+
+/**
+ * 穴の種類を判定する (細長い・ごく小さい穴は隙間)
+ */
+function classifyHole(ring: Position[]): DissolveIssue {
+  const area = getRingArea(ring);
+  const perimeter = getLineLength(ring);
+  const compactness = perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+  const bounds = getGeometryBounds({ type: "LineString", coordinates: ring }) as Bounds;
+  return {
+    type: compactness < SLIVER_MAX_COMPACTNESS || area < SLIVER_MAX_AREA ? "sliver" : "hole",
+    area,
+    bounds,
+    position: getBoundsCenter(bounds),
+  };
+}
+
+/**
+ * 結合結果の穴のうち、フィーチャー自体の穴ではないものを返す
+ * (すべての頂点がフィーチャーの穴の頂点と一致する穴はフィーチャー自体の穴とみなす)
+ */
+function findIntroducedHoles(result: ClipMultiPolygon, memberHoleVertices: Set<string>) {
+  return result
+    .flatMap((polygon) => polygon.slice(1))
+    .filter((hole) => !hole.every((vertex) => memberHoleVertices.has(toVertexKey(vertex))))
+    .map(classifyHole);
+}
+
+// エリアの結合の途中結果 (親の結合に子の結合結果と穴の頂点を引き継ぐ)
+interface DissolveEntry {
+  area: Area;
+  children: DissolveEntry[];
+  dissolved: DissolvedArea;
+  polygons: ClipMultiPolygon;
+  holeVertices: Set<string>;
+}
+
+/**
+ * 前回の結合結果 (エリアと子の結果が変わっていないエリアは再計算しない)
+ */
+export interface AreaDissolveCache {
+  /** 前回の計算に使ったレイヤーの ID・データ・キー列 (変わったらすべて再計算する) */
+  layerKeys: unknown[];
+  entries: Map<string, DissolveEntry>;
+}
+
+export function createAreaDissolveCache(): AreaDissolveCache {
+  return { layerKeys: [], entries: new Map() };
+}
+
+function toGeometry(result: ClipMultiPolygon): Polygon | MultiPolygon | null {
+  if (result.length === 0) return null;
+  return result.length === 1
+    ? { type: "Polygon", coordinates: result[0] }
+    : { type: "MultiPolygon", coordinates: result };
+}
+
+/**
+ * エリアをディゾルブする (エリアの並び順で返す)
+ * 親が見つからない・循環しているエリアはその親の結合に含めない
+ * @param cache - 指定した場合、変更のないエリアは前回の結果を使う (フィーチャーの追加・削除では
+ *   そのエリアと祖先のエリアだけを再計算する)
+ */
+export function dissolveAreas(
+  areas: Area[],
+  layers: Layer[],
+  cache?: AreaDissolveCache
+): DissolvedArea[] {
+  if (cache) {
+    const layerKeys = layers.flatMap((layer) => [layer.id, layer.geojson, layer.keyField]);
+    const isSameLayers =
+      layerKeys.length === cache.layerKeys.length &&
+      layerKeys.every((key, i) => key === cache.layerKeys[i]);
+    if (!isSameLayers) {
+      cache.layerKeys = layerKeys;
+      cache.entries.clear();
+    }
+  }
+
+  const childrenByParent = new Map<string, Area[]>();
+  for (const area of areas) {
+    if (area.parentId === null) continue;
+    const children = childrenByParent.get(area.parentId) ?? [];
+    children.push(area);
+    childrenByParent.set(area.parentId, children);
+  }
+
+  const results = new Map<string, DissolveEntry>();
+  const visiting = new Set<string>();
+
+  const dissolve = (area: Area): DissolveEntry => {
+    const done = results.get(area.id);
+    if (done) return done;
+    visiting.add(area.id);
+
+    const children: DissolveEntry[] = [];
+    for (const child of childrenByParent.get(area.id) ?? []) {
+      if (!visiting.has(child.id)) children.push(dissolve(child));
+    }
+    visiting.delete(area.id);
+
+    const cached = cache?.entries.get(area.id);
+    const entry =
+      cached &&
+      cached.area === area &&
+      cached.children.length === children.length &&
+      cached.children.every((c, i) => c === children[i])
+        ? cached
+        : dissolveEntry(area, children);
+    results.set(area.id, entry);
+    cache?.entries.set(area.id, entry);
+    return entry;
+  };
+
+  const dissolveEntry = (area: Area, children: DissolveEntry[]): DissolveEntry => {
+    const parts: ClipPolygon[] = [];
+    const holeVertices = new Set<string>();
+    let skippedCount = 0;
+    for (const featureId of area.featureIds) {
+      const feature: Feature | undefined = resolveFeatureId(featureId, layers)?.feature;
+      const polygons = toClipPolygons(feature?.geometry ?? null);
+      if (polygons.length === 0) skippedCount++;
+      for (const polygon of polygons) {
+        parts.push(polygon);
+        for (const hole of polygon.slice(1)) {
+          for (const vertex of hole) holeVertices.add(toVertexKey(vertex));
+        }
+      }
+    }
+
+    let totalFeatureCount = area.featureIds.length;
+    for (const child of children) {
+      parts.push(...child.polygons);
+      for (const vertex of child.holeVertices) holeVertices.add(vertex);
+      totalFeatureCount += child.dissolved.totalFeatureCount;
+      skippedCount += child.dissolved.skippedCount;
+    }
+
+    let polygons: ClipMultiPolygon = [];
+    let error: string | null = null;
+    if (parts.length > 0) {
+      try {
+        polygons = polygonClipping.union(parts[0], ...parts.slice(1));
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+    }
+
+    return {
+      area,
+      children,
+      dissolved: {
+        area,
+        geometry: toGeometry(polygons),
+        featureCount: area.featureIds.length,
+        totalFeatureCount,
+        skippedCount,
+        partCount: polygons.length,
+        issues: findIntroducedHoles(polygons, holeVertices),
+        error,
+      },
+      polygons,
+      holeVertices,
+    };
+  };
+
+  const dissolved = areas.map((area) => dissolve(area).dissolved);
+  // 削除されたエリアの結果を捨てる
+  for (const id of cache?.entries.keys() ?? []) {
+    if (!results.has(id)) cache?.entries.delete(id);
+  }
+  return dissolved;
+}
+
+/**
+ * 結合結果を出力用のフィーチャーにする (エリアの属性とフィーチャー数・穴の数を持つ)
+ */
+export function toDissolvedFeatures(
+  dissolved: DissolvedArea[]
+): Feature<Polygon | MultiPolygon | null>[] {
+  const names = new Map(dissolved.map(({ area }) => [area.id, area.name]));
+  return dissolved.map(
+    ({ area, geometry, featureCount, totalFeatureCount, partCount, issues }) => ({
+      type: "Feature",
+      geometry,
+      properties: {
+        AREA_ID: area.id,
+        AREA_NAME: area.name,
+        PARENT_ID: area.parentId,
+        PARENT: area.parentId !== null ? (names.get(area.parentId) ?? null) : null,
+        COLOR: area.color,
+        OWN_COUNT: featureCount,
+        FEAT_COUNT: totalFeatureCount,
+        PARTS: partCount,
+        SLIVERS: issues.filter((issue) => issue.type === "sliver").length,
+        HOLES: issues.filter((issue) => issue.type === "hole").length,
+      },
+    })
+  );
+}
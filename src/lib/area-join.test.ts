@@ -0,0 +1,252 @@
+import { describe, it, expect } from "vitest";
+import type { Feature } from "geojson";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import type { DbfField } from "@/lib/dbf-header";
+import {
+  DEFAULT_AREA_JOIN_OPTIONS,
+  buildAreaPaths,
+  extendSchemaWithAreaColumns,
+  findAreaJoinConflicts,
+  formatGeoJson,
+  getAreaJoinColumnNames,
+  getJoinedPropertyKeys,
+  getMaxAreaDepth,
+  hasDuplicateAreaJoinColumns,
+  joinAreaAttributes,
+  type AreaJoinOptions,
+} from "./area-join";
+
+function createFeature(properties: Feature["properties"]): Feature {
+  return { type: "Feature", geometry: { type: "Point", coordinates: [139, 35] }, properties };
+}
+
+const layer: Pick<Layer, "id" | "geojson" | "keyField"> = {
+  id: "wards",
+  geojson: {
+    type: "FeatureCollection",
+    features: [
+      createFeature({ name: "千代田区" }),
+      createFeature({ name: "中央区" }),
+      createFeature({ name: "港区" }),
+    ],
+  },
+};
+
+const areas: Area[] = [
+  { id: "tokyo", name: "東京", parentId: null, color: "#000000", featureIds: ["wards:2"] },
+  { id: "east", name: "東エリア", parentId: "tokyo", color: "#000000", featureIds: [] },
+  { id: "chiyoda", name: "千代田", parentId: "east", color: "#000000", featureIds: ["wards:0"] },
+];
+
+describe("buildAreaPaths", () => {
+  it("ルートからエリア自身までの階層を返す", () => {
+    // Act
+    const paths = buildAreaPaths(areas);
+
+    // Assert
+    expect(paths.get("chiyoda")?.map((a) => a.id)).toEqual(["tokyo", "east", "chiyoda"]);
+    expect(paths.get("tokyo")?.map((a) => a.id)).toEqual(["tokyo"]);
+  });
+
+  it("親が循環している場合は打ち切る", () => {
+    // Arrange
+    const cyclic: Area[] = [
+      { id: "a", name: "A", parentId: "b", color: "#000000", featureIds: [] },
+      { id: "b", name: "B", parentId: "a", color: "#000000", featureIds: [] },
+    ];
+
+    // Act
+    const paths = buildAreaPaths(cyclic);
+
+    // Assert
+    expect(paths.get("a")?.map((a) => a.id)).toEqual(["b", "a"]);
+  });
+});
+
+describe("getMaxAreaDepth", () => {
+  it("最も深いエリアの階層数を返す", () => {
+    // Act & Assert
+    expect(getMaxAreaDepth(areas)).toBe(3);
+    expect(getMaxAreaDepth([])).toBe(0);
+  });
+});
+
+describe("getAreaJoinColumnNames", () => {
+  it("空欄の列を除き、階層ごとの列を深さの分だけ追加する", () => {
+    // Arrange
+    const options: AreaJoinOptions = {
+      ...DEFAULT_AREA_JOIN_OPTIONS,
+      columns: { ...DEFAULT_AREA_JOIN_OPTIONS.columns, parentName: "" },
+      levelDepth: 2,
+    };
+
+    // Act
+    const names = getAreaJoinColumnNames(options);
+
+    // Assert
+    expect(names).toEqual(["AREA_ID", "AREA_NAME", "AREA_PATH", "AREA_L1", "AREA_L2"]);
+  });
+});
+
+describe("joinAreaAttributes", () => {
+  it("割り当て先のエリアの ID・名前・親・階層パスを追加する", () => {
+    // Act
+    const features = joinAreaAttributes(layer, areas, DEFAULT_AREA_JOIN_OPTIONS);
+
+    // Assert
+    expect(features[0].properties).toEqual({
+      name: "千代田区",
+      AREA_ID: "chiyoda",
+      AREA_NAME: "千代田",
+      PARENT: "東エリア",
+      AREA_PATH: "東京 > 東エリア > 千代田",
+    });
+    expect(features[2].properties).toMatchObject({ AREA_ID: "tokyo", PARENT: null });
+  });
+
+  it("割り当てのないフィーチャーの列は null にする", () => {
+    // Act
+    const features = joinAreaAttributes(layer, areas, DEFAULT_AREA_JOIN_OPTIONS);
+
+    // Assert
+    expect(features[1].properties).toEqual({
+      name: "中央区",
+      AREA_ID: null,
+      AREA_NAME: null,
+      PARENT: null,
+      AREA_PATH: null,
+    });
+  });
+
+  it("階層ごとの列に各階層のエリア名を出力し、浅いエリアの残りの列は null にする", () => {
+    // Arrange
+    const options: AreaJoinOptions = { ...DEFAULT_AREA_JOIN_OPTIONS, levelDepth: 3 };
+
+    // Act
+    const features = joinAreaAttributes(layer, areas, options);
+
+    // Assert
+    expect(features[0].properties).toMatchObject({
+      AREA_L1: "東京",
+      AREA_L2: "東エリア",
+      AREA_L3: "千代田",
+    });
+    expect(features[2].properties).toMatchObject({
+      AREA_L1: "東京",
+      AREA_L2: null,
+      AREA_L3: null,
+    });
+  });
+
+  it("空欄の列は出力せず、元のフィーチャーは変更しない", () => {
+    // Arrange
+    const options: AreaJoinOptions = {
+      ...DEFAULT_AREA_JOIN_OPTIONS,
+      columns: { id: "", name: "エリア", parentName: "", path: "", levelPrefix: "" },
+      levelDepth: 2,
+    };
+
+    // Act
+    const features = joinAreaAttributes(layer, areas, options);
+
+    // Assert
+    expect(features[0].properties).toEqual({ name: "千代田区", エリア: "千代田" });
+    expect(layer.geojson.features[0].properties).toEqual({ name: "千代田区" });
+  });
+
+  it("キー列を設定したレイヤーはキー列の値でフィーチャーを照合する", () => {
+    // Arrange
+    const keyed = {
+      ...layer,
+      keyField: "name",
+    };
+    const keyedAreas: Area[] = [
+      { id: "a", name: "A", parentId: null, color: "#000000", featureIds: ["wards:港区"] },
+    ];
+
+    // Act
+    const features = joinAreaAttributes(keyed, keyedAreas, DEFAULT_AREA_JOIN_OPTIONS);
+
+    // Assert
+    expect(features.map((f) => f.properties?.AREA_ID)).toEqual([null, null, "a"]);
+  });
+});
+
+describe("findAreaJoinConflicts", () => {
+  it("追加する列と同じ名前の既存の列を返す", () => {
+    // Arrange
+    const features = [createFeature({ AREA_NAME: "旧", code: 1 })];
+
+    // Act & Assert
+    expect(findAreaJoinConflicts(features, DEFAULT_AREA_JOIN_OPTIONS)).toEqual(["AREA_NAME"]);
+  });
+});
+
+describe("hasDuplicateAreaJoinColumns", () => {
+  it("同じ列名が複数ある場合に true を返す", () => {
+    // Arrange
+    const options: AreaJoinOptions = {
+      ...DEFAULT_AREA_JOIN_OPTIONS,
+      columns: { ...DEFAULT_AREA_JOIN_OPTIONS.columns, parentName: "AREA_NAME" },
+    };
+
+    // Act & Assert
+    expect(hasDuplicateAreaJoinColumns(options)).toBe(true);
+    expect(hasDuplicateAreaJoinColumns(DEFAULT_AREA_JOIN_OPTIONS)).toBe(false);
+  });
+});
+
+describe("extendSchemaWithAreaColumns", () => {
+  it("元のスキーマの後に文字列の列を追加し、同じ名前の列は置き換える", () => {
+    // Arrange
+    const schema: DbfField[] = [
+      { name: "code", type: "N", length: 5, decimals: 0 },
+      { name: "AREA_ID", type: "N", length: 3, decimals: 0 },
+    ];
+
+    // Act
+    const result = extendSchemaWithAreaColumns(schema, DEFAULT_AREA_JOIN_OPTIONS);
+
+    // Assert
+    expect(result?.map((field) => `${field.name}:${field.type}`)).toEqual([
+      "code:N",
+      "AREA_ID:C",
+      "AREA_NAME:C",
+      "PARENT:C",
+      "AREA_PATH:C",
+    ]);
+  });
+
+  it("スキーマがない場合は undefined を返す", () => {
+    // Act & Assert
+    expect(extendSchemaWithAreaColumns(undefined, DEFAULT_AREA_JOIN_OPTIONS)).toBeUndefined();
+  });
+});
+
+describe("getJoinedPropertyKeys", () => {
+  it("元の列の後に追加した列を並べる", () => {
+    // Arrange
+    const features = joinAreaAttributes(layer, areas, DEFAULT_AREA_JOIN_OPTIONS);
+
+    // Act
+    const keys = getJoinedPropertyKeys(features, undefined, DEFAULT_AREA_JOIN_OPTIONS);
+
+    // Assert
+    expect(keys).toEqual(["name", "AREA_ID", "AREA_NAME", "PARENT", "AREA_PATH"]);
+  });
+});
+
+describe("formatGeoJson", () => {
+  it("日付の属性を YYYY-MM-DD で出力する", () => {
+    // Arrange
+    const features = [createFeature({ date: new Date(2024, 0, 5), name: "千代田区" })];
+
+    // Act
+    const json = JSON.parse(formatGeoJson(features));
+
+    // Assert
+    expect(json.type).toBe("FeatureCollection");
+    expect(json.features[0].properties).toEqual({ date: "2024-01-05", name: "千代田区" });
+  });
+});
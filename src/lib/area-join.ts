@@ -0,0 +1,202 @@
+import type { Feature, GeoJsonProperties, Geometry } from "geojson";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { getLayerFeatureId } from "@/types/layer";
+import type { DbfField } from "@/lib/dbf-header";
+import { formatPropertyValue } from "@/lib/field-schema";
+
+/**
+ * エリアの割り当てをレイヤーの属性列として結合する
+ * 元のレイヤーにエリアID・エリア名・親エリア名・階層パス・階層ごとのエリア名の列を追加して出力する
+ */
+
+/**
+ * 追加する列の名前 (空欄の列は出力しない)
+ */
+export interface AreaJoinColumns {
+  id: string;
+  name: string;
+  parentName: string;
+  path: string;
+  /** 階層ごとの列名の接頭辞 (AREA_L → AREA_L1, AREA_L2, ...) */
+  levelPrefix: string;
+}
+
+/**
+ * 結合の設定
+ */
+export interface AreaJoinOptions {
+  columns: AreaJoinColumns;
+  /** 階層ごとの列を出力する深さ (0 の場合は出力しない) */
+  levelDepth: number;
+  /** 階層パスの区切り */
+  pathSeparator: string;
+}
+
+/**
+ * 出力形式
+ */
+export type AreaJoinFormat = "shapefile" | "geojson" | "csv";
+
+export const AREA_JOIN_FORMATS: { value: AreaJoinFormat; label: string }[] = [
+  { value: "shapefile", label: "Shapefile" },
+  { value: "geojson", label: "GeoJSON" },
+  { value: "csv", label: "CSV" },
+];
+
+/** 既定の列名 (Shapefile の列名の上限 10 バイトに収まる名前) */
+export const DEFAULT_AREA_JOIN_OPTIONS: AreaJoinOptions = {
+  columns: {
+    id: "AREA_ID",
+    name: "AREA_NAME",
+    parentName: "PARENT",
+    path: "AREA_PATH",
+    levelPrefix: "AREA_L",
+  },
+  levelDepth: 0,
+  pathSeparator: " > ",
+};
+
+/**
+ * エリアごとのルートからの階層 (ルートが先頭、最後がエリア自身)
+ * 親が見つからない・循環している場合はそこで打ち切る
+ */
+export function buildAreaPaths(areas: Area[]): Map<string, Area[]> {
+  const byId = new Map(areas.map((area) => [area.id, area]));
+  const paths = new Map<string, Area[]>();
+  for (const area of areas) {
+    const path: Area[] = [];
+    const visited = new Set<string>();
+    for (
+      let current: Area | undefined = area;
+      current && !visited.has(current.id);
+      current = current.parentId !== null ? byId.get(current.parentId) : undefined
+    ) {
+      visited.add(current.id);
+      path.unshift(current);
+    }
+    paths.set(area.id, path);
+  }
+  return paths;
+}
+
+/**
+ * エリアの階層の最大の深さ
+ */
+export function getMaxAreaDepth(areas: Area[]): number {
+  let depth = 0;
+  for (const path of buildAreaPaths(areas).values()) depth = Math.max(depth, path.length);
+  return depth;
+}
+
+/**
+ * 追加する列の名前 (出力順)
+ */
+export function getAreaJoinColumnNames(options: AreaJoinOptions): string[] {
+  const { columns, levelDepth } = options;
+  const levels = columns.levelPrefix
+    ? Array.from({ length: levelDepth }, (_, i) => `${columns.levelPrefix}${i + 1}`)
+    : [];
+  return [columns.id, columns.name, columns.parentName, columns.path, ...levels].filter(
+    (name) => name !== ""
+  );
+}
+
+/**
+ * 追加する列と同じ名前の既存の列 (結合すると値を上書きする)
+ */
+export function findAreaJoinConflicts(
+  features: Feature<Geometry | null, GeoJsonProperties>[],
+  options: AreaJoinOptions
+): string[] {
+  const existing = new Set(features.flatMap((f) => Object.keys(f.properties ?? {})));
+  return getAreaJoinColumnNames(options).filter((name) => existing.has(name));
+}
+
+/**
+ * 同じ名前の列が複数ある設定か
+ */
+export function hasDuplicateAreaJoinColumns(options: AreaJoinOptions): boolean {
+  const names = getAreaJoinColumnNames(options);
+  return new Set(names).size !== names.length;
+}
+
+/**
+ * レイヤーのフィーチャーに割り当て先のエリアの列を追加する
+ * 割り当てのないフィーチャーの列は null。元のフィーチャーは変更しない
+ */
+export function joinAreaAttributes(
+  layer: Pick<Layer, "id" | "geojson" | "keyField">,
+  areas: Area[],
+  options: AreaJoinOptions
+): Feature[] {
+  const { columns, levelDepth, pathSeparator } = options;
+  const paths = buildAreaPaths(areas);
+  const areaByFeatureId = new Map<string, Area>();
+  for (const area of areas) {
+    for (const featureId of area.featureIds) areaByFeatureId.set(featureId, area);
+  }
+
+  return layer.geojson.features.map((feature, index) => {
+    const area = areaByFeatureId.get(getLayerFeatureId(layer, index));
+    const path = area ? (paths.get(area.id) ?? [area]) : [];
+    const entries: [string, string | null][] = [
+      [columns.id, area?.id ?? null],
+      [columns.name, area?.name ?? null],
+      [columns.parentName, path.length > 1 ? path[path.length - 2].name : null],
+      [columns.path, area ? path.map((a) => a.name).join(pathSeparator) : null],
+    ];
+    if (columns.levelPrefix) {
+      for (let level = 1; level <= levelDepth; level++) {
+        entries.push([`${columns.levelPrefix}${level}`, path[level - 1]?.name ?? null]);
+      }
+    }
+    const values = Object.fromEntries(entries.filter(([name]) => name !== ""));
+    return { ...feature, properties: { ...feature.properties, ...values } };
+  });
+}
+
+/**
+ * 結合後の DBF のフィールド定義 (元のスキーマに文字列の列を追加、長さは出力時に値に合わせる)
+ * スキーマのないレイヤーは undefined (出力時に値から推定する)
+ */
+export function extendSchemaWithAreaColumns(
+  schema: DbfField[] | undefined,
+  options: AreaJoinOptions
+): DbfField[] | undefined {
+  if (!schema) return undefined;
+  const names = getAreaJoinColumnNames(options);
+  return [
+    ...schema.filter((field) => !names.includes(field.name)),
+    ...names.map((name) => ({ name, type: "C", length: 1, decimals: 0 })),
+  ];
+}
+
+/**
+ * 出力する列 (元の列の後に追加した列)
+ */
+export function getJoinedPropertyKeys(
+  features: Feature<Geometry | null, GeoJsonProperties>[],
+  schema: DbfField[] | undefined,
+  options: AreaJoinOptions
+): string[] {
+  const names = getAreaJoinColumnNames(options);
+  const sourceKeys = schema
+    ? schema.map((field) => field.name)
+    : [...new Set(features.flatMap((f) => Object.keys(f.properties ?? {})))];
+  return [...sourceKeys.filter((key) => !names.includes(key)), ...names];
+}
+
+/**
+ * GeoJSON の文字列にする (日付は YYYY-MM-DD)
+ */
+export function formatGeoJson(features: Feature<Geometry | null, GeoJsonProperties>[]): string {
+  return JSON.stringify(
+    { type: "FeatureCollection", features },
+    function (this: Record<string, unknown>, key: string, value: unknown) {
+      // Date は toJSON で ISO 形式の文字列になるため、変換前の値で判定する
+      const original = this[key];
+      return original instanceof Date ? formatPropertyValue(original) : value;
+    }
+  );
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import type { Feature, Position } from "geojson";
+import type { Area } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import type { DbfField } from "@/lib/dbf-header";
+import { getRingArea } from "@/lib/geodesic";
+import {
+  computeAreaStatistics,
+  createAreaStatisticsCache,
+  getNumericFieldNames,
+  getSummaryMean,
+  summarizeFeatures,
+} from "./area-statistics";
+
+function square(minX: number, minY: number, size: number): Position[] {
+  return [
+    [minX, minY],
+    [minX + size, minY],
+    [minX + size, minY + size],
+    [minX, minY + size],
+    [minX, minY],
+  ];
+}
+
+function createFeature(minX: number, properties: Feature["properties"]): Feature {
+  return {
+    type: "Feature",
+    geometry: { type: "Polygon", coordinates: [square(minX, 35, 0.01)] },
+    properties,
+  };
+}
+
+function createLayer(features: Feature[], schema?: DbfField[]): Layer {
+  return {
+    id: "towns",
+    name: "towns",
+    visible: true,
+    color: "#000000",
+    geojson: { type: "FeatureCollection", features },
+    schema,
+  };
+}
+
+function createArea(id: string, featureIds: string[], parentId: string | null = null): Area {
+  return { id, name: id, parentId, color: "#ff0000", featureIds };
+}
+
+const layer = createLayer([
+  createFeature(139, { JINKO: 100, SETAI: 40, name: "A" }),
+  createFeature(139.01, { JINKO: 300, SETAI: 120, name: "B" }),
+  createFeature(139.02, { JINKO: null, SETAI: 10, name: "C" }),
+  { type: "Feature", geometry: { type: "Point", coordinates: [139, 35] }, properties: {} },
+]);
+
+describe("summarizeFeatures", () => {
+  it("フィーチャー数・面積・数値の列の合計と最小・最大を集計する", () => {
+    // Act
+    const values = summarizeFeatures(["towns:0", "towns:1", "towns:2"], [layer], ["JINKO"]);
+
+    // Assert
+    expect(values.featureCount).toBe(3);
+    expect(values.areaKm2).toBeCloseTo(
+      (getRingArea(square(139, 35, 0.01)) +
+        getRingArea(square(139.01, 35, 0.01)) +
+        getRingArea(square(139.02, 35, 0.01))) /
+        1e6,
+      6
+    );
+    expect(values.fields.JINKO).toEqual({ count: 2, sum: 400, min: 100, max: 300 });
+  });
+
+  it("見つからないフィーチャーを数え、ポリゴン以外の面積は 0 とする", () => {
+    // Act
+    const values = summarizeFeatures(["towns:3", "missing:0"], [layer], []);
+
+    // Assert
+    expect(values.featureCount).toBe(1);
+    expect(values.missingCount).toBe(1);
+    expect(values.areaKm2).toBe(0);
+  });
+});
+
+describe("getSummaryMean", () => {
+  it("値のあるフィーチャーの平均を返し、値がない場合は null を返す", () => {
+    // Act & Assert
+    expect(getSummaryMean({ count: 2, sum: 400, min: 100, max: 300 })).toBe(200);
+    expect(getSummaryMean({ count: 0, sum: 0, min: null, max: null })).toBeNull();
+  });
+});
+
+describe("computeAreaStatistics", () => {
+  const areas = [
+    createArea("root", ["towns:0"]),
+    createArea("child", ["towns:1"], "root"),
+    createArea("grandchild", ["towns:2"], "child"),
+  ];
+
+  it("子孫のエリアを含めた集計をまとめる", () => {
+    // Act
+    const statistics = computeAreaStatistics(areas, [layer], ["JINKO", "SETAI"]);
+
+    // Assert
+    const root = statistics.get("root");
+    expect(root?.own.featureCount).toBe(1);
+    expect(root?.total.featureCount).toBe(3);
+    expect(root?.total.fields.JINKO).toEqual({ count: 2, sum: 400, min: 100, max: 300 });
+    expect(root?.total.fields.SETAI).toEqual({ count: 3, sum: 170, min: 10, max: 120 });
+    expect(statistics.get("child")?.total.fields.SETAI.sum).toBe(130);
+    expect(root?.total.areaKm2).toBeCloseTo(
+      (root?.own.areaKm2 ?? 0) + (statistics.get("child")?.total.areaKm2 ?? 0),
+      9
+    );
+  });
+
+  it("割り当てが変わっていないエリアは前回の集計を使う", () => {
+    // Arrange
+    const cache = createAreaStatisticsCache();
+    const before = computeAreaStatistics(areas, [layer], ["JINKO"], cache);
+
+    // Act
+    const updated = [areas[0], { ...areas[1], featureIds: [] }, areas[2]];
+    const after = computeAreaStatistics(updated, [layer], ["JINKO"], cache);
+
+    // Assert
+    expect(after.get("grandchild")?.own).toBe(before.get("grandchild")?.own);
+    expect(after.get("root")?.own).toBe(before.get("root")?.own);
+    expect(after.get("child")?.own.featureCount).toBe(0);
+    expect(after.get("root")?.total.fields.JINKO.sum).toBe(100);
+  });
+
+  it("集計する列が変わった場合は集計し直す", () => {
+    // Arrange
+    const cache = createAreaStatisticsCache();
+    computeAreaStatistics(areas, [layer], ["JINKO"], cache);
+
+    // Act
+    const statistics = computeAreaStatistics(areas, [layer], ["SETAI"], cache);
+
+    // Assert
+    expect(statistics.get("root")?.own.fields).toEqual({
+      SETAI: { count: 1, sum: 40, min: 40, max: 40 },
+    });
+  });
+});
+
+describe("getNumericFieldNames", () => {
+  it("スキーマの数値の列と、スキーマのないレイヤーで値が数値の列を返す", () => {
+    // Arrange
+    const withSchema = createLayer(
+      [createFeature(139, { CODE: "13101", AREA: 1.5 })],
+      [
+        { name: "CODE", type: "C", length: 5, decimals: 0 },
+        { name: "AREA", type: "N", length: 10, decimals: 2 },
+      ]
+    );
+
+    // Act
+    const names = getNumericFieldNames([withSchema, layer]);
+
+    // Assert
+    expect(names).toEqual(["AREA", "JINKO", "SETAI"]);
+  });
+});
@@ -0,0 +1,215 @@
+import type { Geometry } from "geojson";
+import type { Area, AreaWithChildren } from "@/types/area";
+import { buildAreaTree } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { resolveFeatureId } from "@/types/layer";
+import { getPropertyValueType } from "@/lib/field-schema";
+import { getGeometryArea } from "@/lib/geodesic";
+
+/**
+ * エリアの統計 (面積・フィーチャー数・数値の列の合計など)
+ * エリアに直接割り当てたフィーチャーの集計と、子孫のエリアを含めた集計を求める
+ */
+
+/**
+ * 数値の列の集計 (値のないフィーチャーは数えない)
+ */
+export interface NumericSummary {
+  /** 値のあるフィーチャー数 */
+  count: number;
+  sum: number;
+  min: number | null;
+  max: number | null;
+}
+
+/**
+ * フィーチャーの集計
+ */
+export interface StatisticsValues {
+  featureCount: number;
+  /** 見つからないフィーチャー数 (レイヤーが読み込まれていない) */
+  missingCount: number;
+  /** 面積 (km²、ポリゴン以外は 0) */
+  areaKm2: number;
+  /** 列名 -> 集計 */
+  fields: Record<string, NumericSummary>;
+}
+
+/**
+ * エリアの統計
+ */
+export interface AreaStatistics {
+  areaId: string;
+  /** エリアに直接割り当てたフィーチャーの集計 */
+  own: StatisticsValues;
+  /** 子孫のエリアを含めた集計 */
+  total: StatisticsValues;
+}
+
+/**
+ * 前回の集計結果 (割り当てが変わっていないエリアは直接割り当てたフィーチャーを集計し直さない)
+ */
+export interface AreaStatisticsCache {
+  /** 前回の集計に使ったレイヤーの ID・データ・キー列と列名 (変わったらすべて集計し直す) */
+  keys: unknown[];
+  own: Map<string, { featureIds: string[]; values: StatisticsValues }>;
+}
+
+export function createAreaStatisticsCache(): AreaStatisticsCache {
+  return { keys: [], own: new Map() };
+}
+
+// ジオメトリごとの面積 (同じフィーチャーの面積は一度だけ計算する)
+const geometryAreas = new WeakMap<Geometry, number>();
+
+function getCachedGeometryArea(geometry: Geometry | null): number {
+  if (!geometry) return 0;
+  let area = geometryAreas.get(geometry);
+  if (area === undefined) {
+    area = getGeometryArea(geometry);
+    geometryAreas.set(geometry, area);
+  }
+  return area;
+}
+
+function createEmptySummary(): NumericSummary {
+  return { count: 0, sum: 0, min: null, max: null };
+}
+
+function createEmptyValues(fields: string[]): StatisticsValues {
+  return {
+    featureCount: 0,
+    missingCount: 0,
+    areaKm2: 0,
+    fields: Object.fromEntries(fields.map((field) => [field, createEmptySummary()])),
+  };
+}
+
+/**
+ * 集計をまとめる (target を書き換える)
+ */
+function mergeValues(target: StatisticsValues, source: StatisticsValues): void {
+  target.featureCount += source.featureCount;
+  target.missingCount += source.missingCount;
+  target.areaKm2 += source.areaKm2;
+  for (const [field, summary] of Object.entries(source.fields)) {
+    const merged = target.fields[field] ?? createEmptySummary();
+    merged.count += summary.count;
+    merged.sum += summary.sum;
+    if (summary.min !== null) merged.min = Math.min(merged.min ?? Infinity, summary.min);
+    if (summary.max !== null) merged.max = Math.max(merged.max ?? -Infinity, summary.max);
+    target.fields[field] = merged;
+  }
+}
+
+/**
+ * 平均 (値がない場合は null)
+ */
+export function getSummaryMean(summary: NumericSummary): number | null {
+  return summary.count > 0 ? summary.sum / summary.count : null;
+}
+
+/**
+ * エリアに直接割り当てたフィーチャーを集計する
+ */
+export function summarizeFeatures(
+  featureIds: string[],
+  layers: Layer[],
+  fields: string[]
+): StatisticsValues {
+  const values = createEmptyValues(fields);
+  let areaM2 = 0;
+  for (const featureId of featureIds) {
+    const feature = resolveFeatureId(featureId, layers)?.feature;
+    if (!feature) {
+      values.missingCount++;
+      continue;
+    }
+    values.featureCount++;
+    areaM2 += getCachedGeometryArea(feature.geometry);
+    for (const field of fields) {
+      const value: unknown = feature.properties?.[field];
+      if (typeof value !== "number" || !Number.isFinite(value)) continue;
+      const summary = values.fields[field];
+      summary.count++;
+      summary.sum += value;
+      summary.min = Math.min(summary.min ?? Infinity, value);
+      summary.max = Math.max(summary.max ?? -Infinity, value);
+    }
+  }
+  values.areaKm2 = areaM2 / 1e6;
+  return values;
+}
+
+/**
+ * すべてのエリアの統計を求める
+ * 子孫を含めた集計はエリアのツリー (buildAreaTree) を下からまとめる
+ * @param fields - 集計する数値の列
+ * @param cache - 指定した場合、割り当てが変わっていないエリアは前回の集計を使う
+ */
+export function computeAreaStatistics(
+  areas: Area[],
+  layers: Layer[],
+  fields: string[],
+  cache?: AreaStatisticsCache
+): Map<string, AreaStatistics> {
+  if (cache) {
+    const keys = [
+      ...layers.flatMap((layer) => [layer.id, layer.geojson, layer.keyField]),
+      fields.join("\n"),
+    ];
+    const isSame = keys.length === cache.keys.length && keys.every((k, i) => k === cache.keys[i]);
+    if (!isSame) {
+      cache.keys = keys;
+      cache.own.clear();
+    }
+  }
+
+  const statistics = new Map<string, AreaStatistics>();
+  const rollUp = (area: AreaWithChildren): StatisticsValues => {
+    const cached = cache?.own.get(area.id);
+    const own =
+      cached && cached.featureIds === area.featureIds
+        ? cached.values
+        : summarizeFeatures(area.featureIds, layers, fields);
+    cache?.own.set(area.id, { featureIds: area.featureIds, values: own });
+
+    const total = createEmptyValues(fields);
+    mergeValues(total, own);
+    for (const child of area.children) mergeValues(total, rollUp(child));
+    statistics.set(area.id, { areaId: area.id, own, total });
+    return total;
+  };
+  for (const root of buildAreaTree(areas)) rollUp(root);
+
+  // 削除されたエリアの集計を捨てる
+  for (const id of cache?.own.keys() ?? []) {
+    if (!statistics.has(id)) cache?.own.delete(id);
+  }
+  return statistics;
+}
+
+/**
+ * 集計できる数値の列 (いずれかのレイヤーで数値の列)
+ */
+export function getNumericFieldNames(layers: Layer[]): string[] {
+  const names = new Set<string>();
+  for (const layer of layers) {
+    const keys = layer.schema
+      ? layer.schema.map((field) => field.name)
+      : [...new Set(layer.geojson.features.flatMap((f) => Object.keys(f.properties ?? {})))];
+    for (const key of keys) {
+      if (getPropertyValueType(layer.geojson.features, key, layer.schema) === "number") {
+        names.add(key);
+      }
+    }
+  }
+  return [...names];
+}
+
+/**
+ * 集計値の表示 (値がない場合は "-")
+ */
+export function formatStatisticValue(value: number | null, maximumFractionDigits = 2): string {
+  return value === null ? "-" : value.toLocaleString(undefined, { maximumFractionDigits });
+}
@@ -188,3 +188,13 @@ export function getNextAvailableColor(usedColors: string[]): string {
 export function getColorByIndex(index: number): string {
   return POLYGON_PALETTE[index % POLYGON_PALETTE.length];
 }
+
+/**
+ * レイヤー比較の変更の種類ごとの色
+ */
+export const DIFF_COLORS = {
+  added: "#22c55e", // 追加 (緑)
+  removed: "#ef4444", // 削除 (赤)
+  geometry: "#f97316", // ジオメトリの変更 (オレンジ)
+  attributes: "#3b82f6", // 属性の変更 (青)
+} as const;
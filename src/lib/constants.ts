@@ -14,4 +14,6 @@ export const STORAGE_KEYS = {
   MAP_STYLE: "shapefile-viewer-map-style",
   /** サイドバー幅の保存キー */
   SIDEBAR_WIDTH: "shapefile-viewer-sidebar-width",
+  /** レイヤーキャッシュ (IndexedDB) の有効・無効の保存キー */
+  LAYER_CACHE: "shapefile-viewer-layer-cache",
 } as const;
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import {
+  csvToFeatureCollection,
+  detectDelimiter,
+  guessGeometryMapping,
+  inferColumnTypes,
+  parseCsvRows,
+  parseNumber,
+  readCsvFile,
+} from "./csv-parser";
+
+// Shift_JIS の「東京」
+const SJIS_TOKYO = [0x93, 0x8c, 0x8b, 0x9e];
+
+describe("detectDelimiter", () => {
+  it("各行で数がそろう区切り文字を選ぶ", () => {
+    expect(detectDelimiter("a,b,c\n1,2,3")).toBe(",");
+    expect(detectDelimiter("a\tb\n1\t2,5")).toBe("\t");
+    expect(detectDelimiter("a;b\n1,5;2,5")).toBe(";");
+  });
+
+  it("引用符内の区切り文字は数えない", () => {
+    expect(detectDelimiter('name\tnote\n"a,b,c"\tx')).toBe("\t");
+  });
+});
+
+describe("parseCsvRows", () => {
+  it("引用符・エスケープ・改行を含むフィールドを分割する", () => {
+    // Arrange
+    const text = 'name,note\r\n"東京, 本社","1行目\n""2行目"""\r\n\r\n大阪,\n';
+
+    // Act
+    const rows = parseCsvRows(text, ",");
+
+    // Assert
+    expect(rows).toEqual([
+      ["name", "note"],
+      ["東京, 本社", '1行目\n"2行目"'],
+      ["大阪", ""],
+    ]);
+  });
+});
+
+describe("parseNumber", () => {
+  it("全角数字・桁区切りを数値にする", () => {
+    expect(parseNumber("１３９．７")).toBe(139.7);
+    expect(parseNumber("1,234,567")).toBe(1234567);
+    expect(parseNumber("-35.6")).toBe(-35.6);
+  });
+
+  it("数値でない値は null を返す", () => {
+    expect(parseNumber("")).toBeNull();
+    expect(parseNumber("12a")).toBeNull();
+    expect(parseNumber("1,23")).toBeNull();
+  });
+});
+
+describe("inferColumnTypes", () => {
+  it("空欄を除きすべて数値の列を number とする", () => {
+    // Arrange
+    const headers = ["name", "sales", "zip"];
+    const rows = [
+      ["東京", "1,200", "0010001"],
+      ["大阪", "", "5300001"],
+    ];
+
+    // Act & Assert
+    // 先頭が 0 のコード類は文字列のまま残す
+    expect(inferColumnTypes(headers, rows)).toEqual(["string", "number", "string"]);
+  });
+});
+
+describe("guessGeometryMapping", () => {
+  it("緯度・経度の列名を推定する", () => {
+    expect(guessGeometryMapping(["店舗", "緯度", "経度"])).toEqual({
+      type: "latlon",
+      latColumn: "緯度",
+      lonColumn: "経度",
+    });
+    expect(guessGeometryMapping(["name", "Latitude", "Lng"])).toEqual({
+      type: "latlon",
+      latColumn: "Latitude",
+      lonColumn: "Lng",
+    });
+  });
+
+  it("緯度経度がなければ WKT の列を推定する", () => {
+    expect(guessGeometryMapping(["id", "WKT"])).toEqual({ type: "wkt", wktColumn: "WKT" });
+  });
+
+  it("推定できない場合は null を返す", () => {
+    expect(guessGeometryMapping(["id", "name"])).toBeNull();
+  });
+});
+
+describe("readCsvFile", () => {
+  it("Shift_JIS の CSV を推定した文字コードで読み込む", async () => {
+    // Arrange
+    const bytes = new Uint8Array([
+      ...new TextEncoder().encode("name,lat,lon\r\n"),
+      ...SJIS_TOKYO,
+      ...new TextEncoder().encode(",35.6,139.7\r\n"),
+    ]);
+    const file = new File([bytes], "stores.csv");
+
+    // Act
+    const table = await readCsvFile(file);
+
+    // Assert
+    expect(table.encoding).toBe("shift_jis");
+    expect(table.delimiter).toBe(",");
+    expect(table.headers).toEqual(["name", "lat", "lon"]);
+    expect(table.rows).toEqual([["東京", "35.6", "139.7"]]);
+    expect(table.columnTypes).toEqual(["string", "number", "number"]);
+  });
+
+  it("BOM 付きの TSV を UTF-8 として読み込む", async () => {
+    // Arrange
+    const file = new File(["\uFEFF名前\t緯度\n東京\t35.6\n"], "stores.tsv");
+
+    // Act
+    const table = await readCsvFile(file);
+
+    // Assert
+    expect(table.encoding).toBe("utf-8");
+    expect(table.delimiter).toBe("\t");
+    expect(table.headers).toEqual(["名前", "緯度"]);
+  });
+
+  it("空・重複した列名に連番を付ける", async () => {
+    const table = await readCsvFile(new File(["a,,a\n1,2,3"], "x.csv"));
+    expect(table.headers).toEqual(["a", "列2", "a_2"]);
+  });
+
+  it("空のファイルはエラーになる", async () => {
+    await expect(readCsvFile(new File([""], "empty.csv"))).rejects.toThrow("データがありません");
+  });
+});
+
+describe("csvToFeatureCollection", () => {
+  it("緯度経度の列からポイントを作り、数値列を数値にする", async () => {
+    // Arrange
+    const table = await readCsvFile(
+      new File(
+        ["name,lat,lon,sales\n東京,35.6,139.7,100\n不明,,139.7,\n範囲外,95,139.7,5\n"],
+        "s.csv"
+      )
+    );
+
+    // Act
+    const { geojson, invalidRowCount } = csvToFeatureCollection(table, {
+      type: "latlon",
+      latColumn: "lat",
+      lonColumn: "lon",
+    });
+
+    // Assert
+    expect(geojson.features).toHaveLength(3);
+    expect(geojson.features[0].geometry).toEqual({ type: "Point", coordinates: [139.7, 35.6] });
+    expect(geojson.features[0].properties).toEqual({
+      name: "東京",
+      lat: 35.6,
+      lon: 139.7,
+      sales: 100,
+    });
+    expect(geojson.features[1].geometry).toBeNull();
+    expect(geojson.features[1].properties?.sales).toBeNull();
+    expect(geojson.features[2].geometry).toBeNull();
+    expect(invalidRowCount).toBe(2);
+  });
+
+  it("WKT の列からジオメトリを作る (解析できない行はジオメトリなし)", async () => {
+    // Arrange
+    const table = await readCsvFile(
+      new File(['id,wkt\n1,"POLYGON ((0 0, 1 0, 1 1, 0 0))"\n2,POINT (x y)\n'], "a.csv")
+    );
+
+    // Act
+    const { geojson, invalidRowCount } = csvToFeatureCollection(table, {
+      type: "wkt",
+      wktColumn: "wkt",
+    });
+
+    // Assert
+    expect(geojson.features[0].geometry?.type).toBe("Polygon");
+    expect(geojson.features[1].geometry).toBeNull();
+    expect(invalidRowCount).toBe(1);
+  });
+
+  it("存在しない列を指定するとエラーになる", async () => {
+    const table = await readCsvFile(new File(["a,b\n1,2"], "x.csv"));
+    expect(() =>
+      csvToFeatureCollection(table, { type: "latlon", latColumn: "lat", lonColumn: "b" })
+    ).toThrow("列がありません: lat");
+  });
+});
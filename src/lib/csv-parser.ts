@@ -0,0 +1,301 @@
+import type { Feature, FeatureCollection, Geometry } from "geojson";
+import { guessTextEncoding, type DbfEncoding } from "@/lib/dbf-encoding";
+import { parseWktGeometry } from "@/lib/wkt-geometry";
+
+/**
+ * CSV / TSV の読み込み
+ * Excel から書き出した店舗一覧など、座標列を持つ表をポイントレイヤーにする
+ */
+
+/** 対応する区切り文字 */
+export type CsvDelimiter = "," | "\t" | ";" | "|";
+
+/** UI 表示用の区切り文字一覧 */
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ",", label: "カンマ" },
+  { value: "\t", label: "タブ" },
+  { value: ";", label: "セミコロン" },
+  { value: "|", label: "縦棒" },
+];
+
+/** 列の型 (数値として解釈できる列は number) */
+export type CsvColumnType = "number" | "string";
+
+/**
+ * 読み込んだ表
+ */
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+  encoding: DbfEncoding;
+  delimiter: CsvDelimiter;
+  columnTypes: CsvColumnType[];
+}
+
+/**
+ * 読み込み時の指定 (省略時は自動判定)
+ */
+export interface CsvReadOptions {
+  encoding?: DbfEncoding;
+  delimiter?: CsvDelimiter;
+}
+
+/**
+ * ジオメトリを作る列の対応付け
+ */
+export type CsvGeometryMapping =
+  { type: "latlon"; latColumn: string; lonColumn: string } | { type: "wkt"; wktColumn: string };
+
+/**
+ * 変換結果
+ */
+export interface CsvConversionResult {
+  geojson: FeatureCollection;
+  /** 座標が空・不正でジオメトリを作れなかった行数 */
+  invalidRowCount: number;
+}
+
+// 列名の候補 (小文字・空白除去後に比較)
+const LAT_COLUMN_NAMES = ["lat", "latitude", "緯度", "y", "ido"];
+const LON_COLUMN_NAMES = ["lon", "lng", "long", "longitude", "経度", "x", "keido"];
+const WKT_COLUMN_NAMES = ["wkt", "geometry", "geom", "the_geom", "shape"];
+
+// 区切り文字の推定に使う行数
+const DELIMITER_SAMPLE_LINES = 20;
+
+/**
+ * CSV / TSV ファイルか (拡張子で判定)
+ */
+export function isCsvFile(file: File): boolean {
+  return /\.(csv|tsv)$/i.test(file.name);
+}
+
+/**
+ * バイト列を文字列に変換 (BOM があれば UTF-8、なければ内容から推定)
+ */
+export function decodeCsv(
+  buffer: ArrayBuffer,
+  encoding?: DbfEncoding
+): { text: string; encoding: DbfEncoding } {
+  const bytes = new Uint8Array(buffer);
+  const hasBom = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+  const resolved = encoding ?? (hasBom ? "utf-8" : guessTextEncoding(bytes));
+  // TextDecoder は UTF-8 の BOM を取り除く
+  return { text: new TextDecoder(resolved).decode(bytes), encoding: resolved };
+}
+
+/**
+ * 引用符の外にある区切り文字の数を数える
+ */
+function countDelimiters(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * 区切り文字を推定
+ * 先頭の行で出現数が一定 (かつ 1 以上) の区切り文字を優先する
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .slice(0, DELIMITER_SAMPLE_LINES);
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ",", score: 0 };
+  for (const { value: delimiter } of CSV_DELIMITERS) {
+    const counts = lines.map((line) => countDelimiters(line, delimiter));
+    if (counts.length === 0 || counts[0] === 0) continue;
+    const consistent = counts.every((c) => c === counts[0]);
+    // 行ごとの出現数がそろっているものを優先
+    const score = counts[0] + (consistent ? 1000 : 0);
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+/**
+ * CSV を行・列に分割 (RFC 4180: 引用符内の区切り文字・改行・"" エスケープに対応)
+ */
+export function parseCsvRows(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // 空行は除く
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * 全角の数字・記号を半角にする (Excel で全角入力された座標・数値向け)
+ */
+function toHalfWidthNumber(value: string): string {
+  return value
+    .trim()
+    .replace(/[０-９．－＋]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0xfee0));
+}
+
+/**
+ * 文字列を数値として解釈 (桁区切りのカンマを許容)
+ * @returns 数値として解釈できない場合 null
+ */
+export function parseNumber(value: string): number | null {
+  const normalized = toHalfWidthNumber(value);
+  if (!/^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/.test(normalized)) return null;
+  const number = Number(normalized.replace(/,/g, ""));
+  return normalized === "" || !Number.isFinite(number) ? null : number;
+}
+
+/**
+ * 列の型を推定
+ * 空欄以外がすべて数値なら number。ただし先頭が 0 の値 (郵便番号・コード類) を含む列は string
+ */
+export function inferColumnTypes(headers: string[], rows: string[][]): CsvColumnType[] {
+  return headers.map((_, column) => {
+    const values = rows.map((row) => (row[column] ?? "").trim()).filter((v) => v !== "");
+    if (values.length === 0) return "string";
+    const isNumeric = values.every(
+      (v) => parseNumber(v) !== null && !/^[-+]?0\d/.test(toHalfWidthNumber(v))
+    );
+    return isNumeric ? "number" : "string";
+  });
+}
+
+function normalizeColumnName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_()（）]/g, "");
+}
+
+function findColumn(headers: string[], candidates: string[]): string | undefined {
+  return headers.find((h) => candidates.includes(normalizeColumnName(h)));
+}
+
+/**
+ * 列名からジオメトリ列の対応付けを推定
+ * @returns 推定できない場合 null
+ */
+export function guessGeometryMapping(headers: string[]): CsvGeometryMapping | null {
+  const latColumn = findColumn(headers, LAT_COLUMN_NAMES);
+  const lonColumn = findColumn(headers, LON_COLUMN_NAMES);
+  if (latColumn && lonColumn) return { type: "latlon", latColumn, lonColumn };
+  const wktColumn = findColumn(headers, WKT_COLUMN_NAMES);
+  if (wktColumn) return { type: "wkt", wktColumn };
+  return null;
+}
+
+/**
+ * CSV / TSV ファイルを読み込む
+ */
+export async function readCsvFile(file: File, options: CsvReadOptions = {}): Promise<CsvTable> {
+  const { text, encoding } = decodeCsv(await file.arrayBuffer(), options.encoding);
+  const delimiter = options.delimiter ?? (/\.tsv$/i.test(file.name) ? "\t" : detectDelimiter(text));
+  const [headerRow, ...rows] = parseCsvRows(text, delimiter);
+  if (!headerRow) {
+    throw new Error("データがありません");
+  }
+
+  // 空・重複した列名は連番で区別する
+  const used = new Set<string>();
+  const headers = headerRow.map((name, i) => {
+    const base = name.trim() || `列${i + 1}`;
+    let header = base;
+    for (let n = 2; used.has(header); n++) header = `${base}_${n}`;
+    used.add(header);
+    return header;
+  });
+
+  return { headers, rows, encoding, delimiter, columnTypes: inferColumnTypes(headers, rows) };
+}
+
+function createGeometry(
+  row: string[],
+  headers: string[],
+  mapping: CsvGeometryMapping
+): Geometry | null {
+  const value = (column: string) => row[headers.indexOf(column)] ?? "";
+  if (mapping.type === "wkt") {
+    const wkt = value(mapping.wktColumn).trim();
+    return wkt === "" ? null : parseWktGeometry(wkt);
+  }
+  const lat = parseNumber(value(mapping.latColumn));
+  const lon = parseNumber(value(mapping.lonColumn));
+  if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { type: "Point", coordinates: [lon, lat] };
+}
+
+/**
+ * 表を FeatureCollection に変換
+ * 座標が空・不正な行もジオメトリなし (null) のフィーチャーとして残す
+ */
+export function csvToFeatureCollection(
+  table: CsvTable,
+  mapping: CsvGeometryMapping
+): CsvConversionResult {
+  const { headers, rows, columnTypes } = table;
+  const columns =
+    mapping.type === "wkt" ? [mapping.wktColumn] : [mapping.latColumn, mapping.lonColumn];
+  for (const column of columns) {
+    if (!headers.includes(column)) {
+      throw new Error(`列がありません: ${column}`);
+    }
+  }
+
+  let invalidRowCount = 0;
+  const features: Feature[] = rows.map((row) => {
+    let geometry: Geometry | null;
+    try {
+      geometry = createGeometry(row, headers, mapping);
+    } catch {
+      geometry = null;
+    }
+    if (!geometry) invalidRowCount++;
+
+    const properties: Record<string, string | number | null> = {};
+    headers.forEach((header, i) => {
+      const value = row[i] ?? "";
+      properties[header] = columnTypes[i] === "number" ? parseNumber(value) : value;
+    });
+    return { type: "Feature", geometry: geometry as Geometry, properties };
+  });
+
+  return { geojson: { type: "FeatureCollection", features }, invalidRowCount };
+}
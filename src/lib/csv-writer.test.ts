@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { escapeCsvValue, formatCsv, formatFeaturesCsv } from "./csv-writer";
+
+describe("escapeCsvValue", () => {
+  it("区切り文字・引用符・改行を含む値だけを引用符で囲む", () => {
+    // Act & Assert
+    expect(escapeCsvValue("千代田区")).toBe("千代田区");
+    expect(escapeCsvValue("a,b")).toBe('"a,b"');
+    expect(escapeCsvValue('a"b')).toBe('"a""b"');
+    expect(escapeCsvValue("a\nb")).toBe('"a\nb"');
+  });
+});
+
+describe("formatCsv", () => {
+  it("行を CRLF で区切る", () => {
+    // Act
+    const csv = formatCsv([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+
+    // Assert
+    expect(csv).toBe("a,b\r\n1,2\r\n");
+  });
+});
+
+describe("formatFeaturesCsv", () => {
+  it("指定した列の値を出力し、空の値は空欄にする", () => {
+    // Arrange
+    const features = [
+      {
+        type: "Feature" as const,
+        geometry: null,
+        properties: { name: "千代田区", code: 13101, date: new Date(2024, 0, 5) },
+      },
+      { type: "Feature" as const, geometry: null, properties: { name: null } },
+    ];
+
+    // Act
+    const csv = formatFeaturesCsv(features, ["name", "code", "date"]);
+
+    // Assert
+    expect(csv).toBe("name,code,date\r\n千代田区,13101,2024-01-05\r\n,,\r\n");
+  });
+});
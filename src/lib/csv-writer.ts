@@ -0,0 +1,38 @@
+import type { Feature, GeoJsonProperties, Geometry } from "geojson";
+import { formatPropertyValue } from "@/lib/field-schema";
+
+/**
+ * CSV の書き出し (RFC 4180 形式、改行は CRLF)
+ */
+
+/**
+ * 区切り文字・引用符・改行を含む値を引用符で囲む
+ */
+export function escapeCsvValue(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 行の配列を CSV にする
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * フィーチャーの属性を CSV にする (ジオメトリは含めない、空の値は空欄)
+ */
+export function formatFeaturesCsv(
+  features: Feature<Geometry | null, GeoJsonProperties>[],
+  keys: string[]
+): string {
+  return formatCsv([
+    keys,
+    ...features.map(({ properties }) =>
+      keys.map((key) => {
+        const value: unknown = properties?.[key];
+        return value === null || value === undefined ? "" : formatPropertyValue(value);
+      })
+    ),
+  ]);
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectDbfEncoding,
+  encodingFromLanguageDriver,
+  guessDbfEncoding,
+  guessTextEncoding,
+  parseCpg,
+} from "./dbf-encoding";
+
+// Shift_JIS の「東京」
+const SJIS_TOKYO = [0x93, 0x8c, 0x8b, 0x9e];
+// EUC-JP の「東京」
+const EUC_TOKYO = [0xc5, 0xec, 0xb5, 0xfe];
+
+/**
+ * 1 フィールド (C型 10 バイト) の DBF を作成
+ */
+function createDbf(records: number[][], ldid = 0): ArrayBuffer {
+  const fieldLength = 10;
+  const headerLength = 32 + 32 + 1;
+  const recordLength = 1 + fieldLength;
+  const buffer = new ArrayBuffer(headerLength + recordLength * records.length + 1);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint8(0, 0x03);
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  view.setUint8(29, ldid);
+
+  bytes.set([...new TextEncoder().encode("NAME")], 32);
+  view.setUint8(32 + 11, "C".charCodeAt(0));
+  view.setUint8(32 + 16, fieldLength);
+  view.setUint8(64, 0x0d);
+
+  records.forEach((record, i) => {
+    const offset = headerLength + recordLength * i;
+    bytes.fill(0x20, offset, offset + recordLength);
+    bytes.set(record.slice(0, fieldLength), offset + 1);
+  });
+  view.setUint8(buffer.byteLength - 1, 0x1a);
+  return buffer;
+}
+
+describe("parseCpg", () => {
+  it.each([
+    ["UTF-8", "utf-8"],
+    ["utf8\r\n", "utf-8"],
+    ["SJIS", "shift_jis"],
+    ["Shift_JIS", "shift_jis"],
+    ["932", "shift_jis"],
+    ["EUC-JP", "euc-jp"],
+    ["1252", "windows-1252"],
+    ["ISO-8859-1", "windows-1252"],
+  ])("%s を %s と判定する", (text, expected) => {
+    expect(parseCpg(text)).toBe(expected);
+  });
+
+  it("未対応の記述ではnullを返す", () => {
+    expect(parseCpg("KOI8-R")).toBeNull();
+  });
+});
+
+describe("encodingFromLanguageDriver", () => {
+  it("0x13 を Shift_JIS と判定する", () => {
+    expect(encodingFromLanguageDriver(createDbf([], 0x13))).toBe("shift_jis");
+  });
+
+  it("0x57 (ANSI) は文字コードを特定できないためnullを返す", () => {
+    expect(encodingFromLanguageDriver(createDbf([], 0x57))).toBeNull();
+  });
+
+  it("LDID が未設定の場合はnullを返す", () => {
+    expect(encodingFromLanguageDriver(createDbf([], 0))).toBeNull();
+  });
+
+  it("ヘッダーに満たないバッファではnullを返す", () => {
+    expect(encodingFromLanguageDriver(new ArrayBuffer(10))).toBeNull();
+  });
+});
+
+describe("guessDbfEncoding", () => {
+  it("UTF-8 のレコードを UTF-8 と推定する", () => {
+    // Arrange
+    const dbf = createDbf([[...new TextEncoder().encode("東京")]]);
+
+    // Act & Assert
+    expect(guessDbfEncoding(dbf)).toBe("utf-8");
+  });
+
+  it("Shift_JIS のレコードを Shift_JIS と推定する", () => {
+    expect(guessDbfEncoding(createDbf([SJIS_TOKYO]))).toBe("shift_jis");
+  });
+
+  it("EUC-JP のレコードを Shift_JIS と区別する", () => {
+    // 0xFE は Shift_JIS の範囲外のため EUC-JP と推定される
+    expect(guessDbfEncoding(createDbf([EUC_TOKYO]))).toBe("euc-jp");
+  });
+
+  it("ASCII のみの場合は既定値 (Shift_JIS) を返す", () => {
+    const dbf = createDbf([[...new TextEncoder().encode("Tokyo")]]);
+    expect(guessDbfEncoding(dbf)).toBe("shift_jis");
+  });
+});
+
+describe("guessTextEncoding", () => {
+  it("DBF 以外のテキストでも文字コードを推定する", () => {
+    const utf8 = new TextEncoder().encode("名前,緯度\n東京,35.6");
+    expect(guessTextEncoding(utf8)).toBe("utf-8");
+    expect(guessTextEncoding(new Uint8Array(SJIS_TOKYO))).toBe("shift_jis");
+  });
+});
+
+describe("detectDbfEncoding", () => {
+  it(".cpg を最優先する", () => {
+    // Arrange
+    const dbf = createDbf([SJIS_TOKYO], 0x13);
+
+    // Act
+    const result = detectDbfEncoding(dbf, "UTF-8");
+
+    // Assert
+    expect(result).toEqual({ encoding: "utf-8", source: "cpg" });
+  });
+
+  it(".cpg がない場合は言語ドライバー ID を使う", () => {
+    // Arrange
+    const dbf = createDbf([[...new TextEncoder().encode("東京")]], 0x13);
+
+    // Act
+    const result = detectDbfEncoding(dbf);
+
+    // Assert
+    expect(result).toEqual({ encoding: "shift_jis", source: "ldid" });
+  });
+
+  it("言語ドライバー ID が 0x57 の場合は内容から推定する", () => {
+    // Arrange
+    const dbf = createDbf([SJIS_TOKYO], 0x57);
+
+    // Act
+    const result = detectDbfEncoding(dbf);
+
+    // Assert
+    expect(result).toEqual({ encoding: "shift_jis", source: "heuristic" });
+  });
+
+  it("どちらもない場合は内容から推定する", () => {
+    // Arrange
+    const dbf = createDbf([[...new TextEncoder().encode("東京")]]);
+
+    // Act
+    const result = detectDbfEncoding(dbf, "unknown");
+
+    // Assert
+    expect(result).toEqual({ encoding: "utf-8", source: "heuristic" });
+  });
+});
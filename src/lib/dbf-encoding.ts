@@ -0,0 +1,136 @@
+/**
+ * DBF の文字コード判定
+ *
+ * 判定の優先順位:
+ * 1. .cpg ファイル
+ * 2. DBF ヘッダーの言語ドライバー ID (LDID)
+ * 3. レコード内容からの推定
+ */
+
+/** 対応する文字コード (TextDecoder のラベル) */
+export type DbfEncoding = "utf-8" | "shift_jis" | "euc-jp" | "windows-1252";
+
+/** 文字コードの判定根拠 */
+export type EncodingSource = "cpg" | "ldid" | "heuristic" | "manual";
+
+export interface DetectedEncoding {
+  encoding: DbfEncoding;
+  source: EncodingSource;
+}
+
+/** UI 表示用の文字コード一覧 */
+export const DBF_ENCODINGS: { value: DbfEncoding; label: string }[] = [
+  { value: "shift_jis", label: "Shift_JIS" },
+  { value: "utf-8", label: "UTF-8" },
+  { value: "euc-jp", label: "EUC-JP" },
+  { value: "windows-1252", label: "Windows-1252" },
+];
+
+/** 判定できない場合の既定値 (国内の Shapefile は Shift_JIS が大半) */
+export const DEFAULT_DBF_ENCODING: DbfEncoding = "shift_jis";
+
+// .cpg の記述 (正規化済み) -> 文字コード
+const CPG_ALIASES: Record<string, DbfEncoding> = {
+  UTF8: "utf-8",
+  "65001": "utf-8",
+  SJIS: "shift_jis",
+  SHIFTJIS: "shift_jis",
+  CP932: "shift_jis",
+  MS932: "shift_jis",
+  "932": "shift_jis",
+  WINDOWS31J: "shift_jis",
+  EUCJP: "euc-jp",
+  "20932": "euc-jp",
+  "51932": "euc-jp",
+  "1252": "windows-1252",
+  ANSI1252: "windows-1252",
+  CP1252: "windows-1252",
+  WINDOWS1252: "windows-1252",
+  ISO88591: "windows-1252",
+  "88591": "windows-1252",
+  LATIN1: "windows-1252",
+};
+
+// 言語ドライバー ID -> 文字コード (GDAL の対応表に準拠)
+// 0x57 (ANSI) は ArcGIS が .cpg のない Shift_JIS の DBF にも書き込むため、判定に使わず内容から推定する
+const LDID_ENCODINGS: Record<number, DbfEncoding> = {
+  0x03: "windows-1252",
+  0x13: "shift_jis",
+  0x7b: "shift_jis",
+};
+
+// 推定に使うレコード数の上限
+const HEURISTIC_SAMPLE_RECORDS = 2000;
+
+/**
+ * .cpg の内容から文字コードを取得
+ * @returns 未対応の記述の場合 null
+ */
+export function parseCpg(text: string): DbfEncoding | null {
+  const normalized = text
+    .trim()
+    .toUpperCase()
+    .replace(/[\s_-]/g, "");
+  return CPG_ALIASES[normalized] ?? null;
+}
+
+/**
+ * DBF ヘッダーの言語ドライバー ID (オフセット 29) から文字コードを取得
+ * @returns 未設定・未対応の場合 null
+ */
+export function encodingFromLanguageDriver(dbfBuffer: ArrayBuffer): DbfEncoding | null {
+  if (dbfBuffer.byteLength < 32) return null;
+  const ldid = new DataView(dbfBuffer).getUint8(29);
+  return LDID_ENCODINGS[ldid] ?? null;
+}
+
+function canDecode(bytes: Uint8Array, encoding: DbfEncoding): boolean {
+  try {
+    new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * バイト列から文字コードを推定
+ * 非 ASCII 文字がなければ既定値、UTF-8 として正しくデコードできれば UTF-8、
+ * それ以外は Shift_JIS → EUC-JP の順に判定する
+ */
+export function guessTextEncoding(bytes: Uint8Array): DbfEncoding {
+  if (bytes.every((b) => b < 0x80)) return DEFAULT_DBF_ENCODING;
+  if (canDecode(bytes, "utf-8")) return "utf-8";
+  if (canDecode(bytes, "shift_jis")) return "shift_jis";
+  if (canDecode(bytes, "euc-jp")) return "euc-jp";
+  return DEFAULT_DBF_ENCODING;
+}
+
+/**
+ * DBF のレコード内容から文字コードを推定
+ */
+export function guessDbfEncoding(dbfBuffer: ArrayBuffer): DbfEncoding {
+  if (dbfBuffer.byteLength < 32) return DEFAULT_DBF_ENCODING;
+  const view = new DataView(dbfBuffer);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const sampleEnd = Math.min(
+    dbfBuffer.byteLength,
+    headerLength + recordLength * HEURISTIC_SAMPLE_RECORDS
+  );
+  // フィールド名も判定対象に含める (ヘッダー先頭 32 バイトは除く)
+  return guessTextEncoding(new Uint8Array(dbfBuffer, 32, Math.max(0, sampleEnd - 32)));
+}
+
+/**
+ * DBF の文字コードを判定
+ */
+export function detectDbfEncoding(dbfBuffer: ArrayBuffer, cpgText?: string): DetectedEncoding {
+  const fromCpg = cpgText !== undefined ? parseCpg(cpgText) : null;
+  if (fromCpg) return { encoding: fromCpg, source: "cpg" };
+
+  const fromLdid = encodingFromLanguageDriver(dbfBuffer);
+  if (fromLdid) return { encoding: fromLdid, source: "ldid" };
+
+  return { encoding: guessDbfEncoding(dbfBuffer), source: "heuristic" };
+}
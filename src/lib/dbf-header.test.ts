@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { readDbfHeader } from "./dbf-header";
+
+// Shift_JIS の「名称」
+const SJIS_MEISHO = [0x96, 0xbc, 0x8f, 0xcc];
+
+/**
+ * フィールド定義だけの DBF を作成
+ */
+function createDbfHeader(
+  fields: { name: number[]; type: string; length: number; decimals?: number }[],
+  recordCount = 0
+): ArrayBuffer {
+  const headerLength = 32 + 32 * fields.length + 1;
+  const buffer = new ArrayBuffer(headerLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint8(0, 0x03);
+  view.setUint32(4, recordCount, true);
+  view.setUint16(8, headerLength, true);
+  fields.forEach(({ name, type, length, decimals = 0 }, i) => {
+    const offset = 32 + 32 * i;
+    bytes.set(name, offset);
+    view.setUint8(offset + 11, type.charCodeAt(0));
+    view.setUint8(offset + 16, length);
+    view.setUint8(offset + 17, decimals);
+  });
+  view.setUint8(headerLength - 1, 0x0d);
+  return buffer;
+}
+
+const ascii = (text: string) => [...new TextEncoder().encode(text)];
+
+describe("readDbfHeader", () => {
+  it("レコード数とフィールドの名前・型・長さ・小数部の桁数を読む", () => {
+    // Arrange
+    const dbf = createDbfHeader(
+      [
+        { name: ascii("KEY_CODE"), type: "C", length: 11 },
+        { name: ascii("AREA"), type: "N", length: 12, decimals: 3 },
+      ],
+      5
+    );
+
+    // Act
+    const header = readDbfHeader(dbf, "shift_jis");
+
+    // Assert
+    expect(header).toEqual({
+      recordCount: 5,
+      fields: [
+        { name: "KEY_CODE", type: "C", length: 11, decimals: 0 },
+        { name: "AREA", type: "N", length: 12, decimals: 3 },
+      ],
+    });
+  });
+
+  it("フィールド名を指定した文字コードで読む", () => {
+    // Arrange
+    const dbf = createDbfHeader([{ name: SJIS_MEISHO, type: "C", length: 20 }]);
+
+    // Act
+    const header = readDbfHeader(dbf, "shift_jis");
+
+    // Assert
+    expect(header.fields[0].name).toBe("名称");
+  });
+
+  it("ヘッダーが不完全な場合はエラー", () => {
+    expect(() => readDbfHeader(new ArrayBuffer(10), "shift_jis")).toThrow(
+      "DBF ファイルのヘッダーが不完全です"
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import type { DbfEncoding } from "@/lib/dbf-encoding";
+
+/**
+ * DBF (dBASE III) のヘッダーの読み取り
+ * shapefile ライブラリはフィールド定義を公開しないため、検証用に自前で読む
+ */
+
+/**
+ * フィールド定義
+ */
+export interface DbfField {
+  name: string;
+  /** 型 (C: 文字列, N: 数値, F: 浮動小数点, D: 日付, L: 論理値) */
+  type: string;
+  length: number;
+  /** 小数部の桁数 */
+  decimals: number;
+}
+
+/**
+ * ヘッダーの内容
+ */
+export interface DbfHeader {
+  recordCount: number;
+  fields: DbfField[];
+}
+
+// ファイルヘッダーとフィールド定義の長さ
+const FILE_HEADER_LENGTH = 32;
+const FIELD_DESCRIPTOR_LENGTH = 32;
+const FIELD_NAME_LENGTH = 11;
+const HEADER_TERMINATOR = 0x0d;
+
+/**
+ * DBF のヘッダーを読む
+ * @param encoding - フィールド名の文字コード (属性値と同じ)
+ */
+export function readDbfHeader(buffer: ArrayBuffer, encoding: DbfEncoding): DbfHeader {
+  if (buffer.byteLength < FILE_HEADER_LENGTH) {
+    throw new Error("DBF ファイルのヘッダーが不完全です");
+  }
+  const view = new DataView(buffer);
+  const headerLength = Math.min(view.getUint16(8, true), buffer.byteLength);
+  const decoder = new TextDecoder(encoding);
+  const fields: DbfField[] = [];
+
+  for (
+    let offset = FILE_HEADER_LENGTH;
+    offset + FIELD_DESCRIPTOR_LENGTH <= headerLength && view.getUint8(offset) !== HEADER_TERMINATOR;
+    offset += FIELD_DESCRIPTOR_LENGTH
+  ) {
+    const nameBytes = new Uint8Array(buffer, offset, FIELD_NAME_LENGTH);
+    const nameLength = nameBytes.indexOf(0);
+    fields.push({
+      name: decoder.decode(nameBytes.subarray(0, nameLength === -1 ? undefined : nameLength)),
+      type: String.fromCharCode(view.getUint8(offset + 11)),
+      length: view.getUint8(offset + 16),
+      decimals: view.getUint8(offset + 17),
+    });
+  }
+
+  return { recordCount: view.getUint32(4, true), fields };
+}
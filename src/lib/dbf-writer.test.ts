@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import type { Feature, Geometry } from "geojson";
+import { buildDbfColumns, findLongFieldNames, writeDbf } from "./dbf-writer";
+import { readDbfHeader } from "./dbf-header";
+
+function createFeature(properties: Record<string, unknown>): Feature<Geometry | null> {
+  return { type: "Feature", geometry: null, properties };
+}
+
+describe("buildDbfColumns", () => {
+  it("スキーマの型・長さ・小数部の桁数を保つ", () => {
+    // Arrange
+    const schema = [
+      { name: "CODE", type: "C", length: 5, decimals: 0 },
+      { name: "AREA", type: "N", length: 12, decimals: 3 },
+      { name: "DATE", type: "D", length: 8, decimals: 0 },
+    ];
+    const features = [createFeature({ CODE: "13101", AREA: 1.5, DATE: new Date(2020, 3, 1) })];
+
+    // Act
+    const columns = buildDbfColumns(features, schema, "shift_jis");
+
+    // Assert
+    expect(columns.map((c) => c.field)).toEqual(schema);
+  });
+
+  it("値が収まらない文字列の列は長さを広げる", () => {
+    // Arrange
+    const schema = [{ name: "NAME", type: "C", length: 4, decimals: 0 }];
+    const features = [createFeature({ NAME: "千代田" })];
+
+    // Act
+    const [sjis] = buildDbfColumns(features, schema, "shift_jis");
+    const [utf8] = buildDbfColumns(features, schema, "utf-8");
+
+    // Assert
+    expect(sjis.field.length).toBe(6);
+    expect(utf8.field.length).toBe(9);
+  });
+
+  it("スキーマがない場合は値から型を推定し、列名を 10 バイト以内で重複しないようにする", () => {
+    // Arrange
+    const features = [
+      createFeature({ population_total: 100, population_total2: 1.25, flag: true, name: "A" }),
+    ];
+
+    // Act
+    const columns = buildDbfColumns(features, undefined, "utf-8");
+
+    // Assert
+    expect(columns.map(({ key, field }) => [key, field.name, field.type, field.decimals])).toEqual([
+      ["population_total", "population", "N", 0],
+      ["population_total2", "populati_2", "N", 2],
+      ["flag", "flag", "L", 0],
+      ["name", "name", "C", 0],
+    ]);
+  });
+});
+
+describe("findLongFieldNames", () => {
+  it("文字コードでのバイト数が 10 を超える列名を返す", () => {
+    // Act
+    const names = findLongFieldNames(["AREA_NAME", "AREA_PATH_1", "エリア名称"], "shift_jis");
+
+    // Assert
+    expect(names).toEqual(["AREA_PATH_1"]);
+    expect(findLongFieldNames(["エリア名称"], "utf-8")).toEqual(["エリア名称"]);
+  });
+});
+
+describe("writeDbf", () => {
+  it("ヘッダーとレコードを書き出す (数値は右詰め、文字列は左詰め)", () => {
+    // Arrange
+    const features = [createFeature({ NAME: "東京", POP: 42 }), createFeature({ NAME: null })];
+    const columns = [
+      { key: "NAME", field: { name: "NAME", type: "C", length: 6, decimals: 0 } },
+      { key: "POP", field: { name: "POP", type: "N", length: 5, decimals: 0 } },
+    ];
+
+    // Act
+    const bytes = writeDbf(features, columns, "shift_jis");
+
+    // Assert
+    const header = readDbfHeader(bytes.buffer as ArrayBuffer, "shift_jis");
+    expect(header.recordCount).toBe(2);
+    expect(header.fields).toEqual(columns.map((c) => c.field));
+    expect(bytes[29]).toBe(0x13);
+    const headerLength = 32 + 32 * 2 + 1;
+    const record = new TextDecoder("shift_jis").decode(
+      bytes.subarray(headerLength, headerLength + 12)
+    );
+    expect(record).toBe(" 東京     42");
+    expect(bytes[bytes.length - 1]).toBe(0x1a);
+  });
+});
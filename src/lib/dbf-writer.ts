@@ -0,0 +1,218 @@
+import type { Feature, GeoJsonProperties, Geometry } from "geojson";
+import type { DbfField } from "@/lib/dbf-header";
+import { formatPropertyValue, getPropertyValueType } from "@/lib/field-schema";
+import { encodeText, truncateText, type ExportEncoding } from "@/lib/text-encoder";
+
+/**
+ * DBF (dBASE III) の書き出し
+ * レイヤーのスキーマ (読み込んだ DBF のフィールド定義) があればその型・長さ・小数部の桁数を使い、
+ * ない場合 (GeoJSON などから読み込んだレイヤー) は値から推定する
+ */
+
+type PropertyFeature = Feature<Geometry | null, GeoJsonProperties>;
+
+/**
+ * 出力する列 (属性のキーと DBF のフィールド定義)
+ */
+export interface DbfColumn {
+  key: string;
+  field: DbfField;
+}
+
+// ファイルヘッダーとフィールド定義の長さ
+const FILE_HEADER_LENGTH = 32;
+const FIELD_DESCRIPTOR_LENGTH = 32;
+const FIELD_NAME_BYTES = 10;
+const MAX_FIELD_LENGTH = 254;
+const MAX_DECIMALS = 15;
+const HEADER_TERMINATOR = 0x0d;
+const FILE_TERMINATOR = 0x1a;
+const SPACE = 0x20;
+
+// 言語ドライバー ID (Shift_JIS は CP932、UTF-8 には ID がないため .cpg で指定する)
+const LANGUAGE_DRIVERS: Record<ExportEncoding, number> = {
+  shift_jis: 0x13,
+  "utf-8": 0x00,
+};
+
+// 書き出しに対応する型 (それ以外の型の列は値から型を推定する)
+const WRITABLE_TYPES = new Set(["C", "N", "F", "D", "L"]);
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+function toNumber(value: unknown): number | null {
+  const number =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && value.trim() !== ""
+        ? Number(value)
+        : NaN;
+  return Number.isFinite(number) ? number : null;
+}
+
+function countDecimals(value: number): number {
+  if (Number.isInteger(value)) return 0;
+  const text = String(value);
+  if (text.includes("e")) return MAX_DECIMALS;
+  return text.length - text.indexOf(".") - 1;
+}
+
+/**
+ * 値をフィールドの型に合わせて文字列にする (空の場合は null)
+ */
+function formatDbfValue(value: unknown, field: DbfField): string | null {
+  if (value === null || value === undefined) return null;
+  switch (field.type) {
+    case "N":
+    case "F": {
+      const number = toNumber(value);
+      if (number === null) return null;
+      return field.decimals > 0 ? number.toFixed(field.decimals) : String(Math.round(number));
+    }
+    case "D": {
+      if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) return null;
+        return `${pad(value.getFullYear(), 4)}${pad(value.getMonth() + 1)}${pad(value.getDate())}`;
+      }
+      const match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(String(value).trim());
+      return match ? `${match[1]}${match[2]}${match[3]}` : null;
+    }
+    case "L":
+      if (typeof value === "boolean") return value ? "T" : "F";
+      if (/^[TtYy]/.test(String(value))) return "T";
+      if (/^[FfNn]/.test(String(value))) return "F";
+      return null;
+    default:
+      return formatPropertyValue(value);
+  }
+}
+
+/**
+ * 値から推定したフィールド定義 (長さは後で値に合わせて広げる)
+ */
+function inferField(features: PropertyFeature[], key: string): DbfField {
+  switch (getPropertyValueType(features, key)) {
+    case "number": {
+      let decimals = 0;
+      for (const { properties } of features) {
+        const number = toNumber(properties?.[key]);
+        if (number !== null) decimals = Math.max(decimals, countDecimals(number));
+      }
+      return { name: key, type: "N", length: 1, decimals: Math.min(decimals, MAX_DECIMALS) };
+    }
+    case "date":
+      return { name: key, type: "D", length: 8, decimals: 0 };
+    case "boolean":
+      return { name: key, type: "L", length: 1, decimals: 0 };
+    default:
+      return { name: key, type: "C", length: 1, decimals: 0 };
+  }
+}
+
+/**
+ * DBF の列名の上限 (10 バイト) を超える列名 (出力時に短縮される)
+ */
+export function findLongFieldNames(keys: string[], encoding: ExportEncoding): string[] {
+  return keys.filter((key) => encodeText(key, encoding).length > FIELD_NAME_BYTES);
+}
+
+/**
+ * 10 バイト以内で重複しない列名にする (大文字・小文字は区別しない)
+ */
+function createFieldName(key: string, encoding: ExportEncoding, used: Set<string>): string {
+  const base = truncateText(key, encoding, FIELD_NAME_BYTES) || "FIELD";
+  let name = base;
+  for (let i = 2; used.has(name.toUpperCase()); i++) {
+    const suffix = `_${i}`;
+    name = truncateText(base, encoding, FIELD_NAME_BYTES - suffix.length) + suffix;
+  }
+  used.add(name.toUpperCase());
+  return name;
+}
+
+/**
+ * 出力する列を決める
+ * スキーマがあればその列と定義を使い、文字列・数値の長さは値が収まるよう広げる
+ * (文字コードを変えるとバイト数が変わるため、254 バイトを超える文字列は切り詰める)
+ */
+export function buildDbfColumns(
+  features: PropertyFeature[],
+  schema: DbfField[] | undefined,
+  encoding: ExportEncoding
+): DbfColumn[] {
+  const keys = schema
+    ? schema.map((field) => field.name)
+    : [...new Set(features.flatMap((f) => Object.keys(f.properties ?? {})))];
+  const used = new Set<string>();
+
+  return keys.map((key, i) => {
+    const source = schema?.[i];
+    const type = source?.type.toUpperCase() ?? "";
+    const field: DbfField =
+      source && WRITABLE_TYPES.has(type) ? { ...source, type } : inferField(features, key);
+
+    if (field.type === "C" || field.type === "N" || field.type === "F") {
+      let length = field.length;
+      for (const { properties } of features) {
+        const text = formatDbfValue(properties?.[key], field);
+        if (text !== null) length = Math.max(length, encodeText(text, encoding).length);
+      }
+      field.length = Math.min(Math.max(length, 1), MAX_FIELD_LENGTH);
+    }
+    return { key, field: { ...field, name: createFieldName(key, encoding, used) } };
+  });
+}
+
+/**
+ * DBF を書き出す
+ */
+export function writeDbf(
+  features: PropertyFeature[],
+  columns: DbfColumn[],
+  encoding: ExportEncoding
+): Uint8Array {
+  const headerLength = FILE_HEADER_LENGTH + FIELD_DESCRIPTOR_LENGTH * columns.length + 1;
+  const recordLength = 1 + columns.reduce((sum, { field }) => sum + field.length, 0);
+  const bytes = new Uint8Array(headerLength + recordLength * features.length + 1);
+  const view = new DataView(bytes.buffer);
+
+  const today = new Date();
+  view.setUint8(0, 0x03);
+  view.setUint8(1, today.getFullYear() - 1900);
+  view.setUint8(2, today.getMonth() + 1);
+  view.setUint8(3, today.getDate());
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  view.setUint8(29, LANGUAGE_DRIVERS[encoding]);
+
+  columns.forEach(({ field }, i) => {
+    const offset = FILE_HEADER_LENGTH + FIELD_DESCRIPTOR_LENGTH * i;
+    bytes.set(encodeText(field.name, encoding), offset);
+    view.setUint8(offset + 11, field.type.charCodeAt(0));
+    view.setUint8(offset + 16, field.length);
+    view.setUint8(offset + 17, field.decimals);
+  });
+  view.setUint8(headerLength - 1, HEADER_TERMINATOR);
+
+  bytes.fill(SPACE, headerLength, bytes.length - 1);
+  features.forEach(({ properties }, record) => {
+    let offset = headerLength + recordLength * record + 1;
+    for (const { key, field } of columns) {
+      const text = formatDbfValue(properties?.[key], field);
+      if (text !== null) {
+        const value = encodeText(truncateText(text, encoding, field.length), encoding);
+        // 数値は右詰め、それ以外は左詰め
+        const isNumber = field.type === "N" || field.type === "F";
+        bytes.set(value, isNumber ? offset + field.length - value.length : offset);
+      } else if (field.type === "L") {
+        view.setUint8(offset, "?".charCodeAt(0));
+      }
+      offset += field.length;
+    }
+  });
+  view.setUint8(bytes.length - 1, FILE_TERMINATOR);
+  return bytes;
+}
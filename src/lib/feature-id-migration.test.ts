@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import type { Area, AreaProject } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import {
+  buildRedecodedFeatureIdMapping,
+  describeFeatureIdMigration,
+  findRecordedKeyFields,
+  migrateProjectFeatureIds,
+  remapAreaFeatureIds,
+} from "./feature-id-migration";
+
+function createLayer(id: string, codes: string[], keyField?: string): Layer {
+  return {
+    id,
+    name: id,
+    geojson: {
+      type: "FeatureCollection",
+      features: codes.map((code) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [139, 35] },
+        properties: { KEY_CODE: code },
+      })),
+    },
+    visible: true,
+    color: "#3b82f6",
+    keyField,
+  };
+}
+
+function createArea(id: string, featureIds: string[], overrides: Partial<Area> = {}): Area {
+  return { id, name: id, parentId: null, color: "#ef4444", featureIds, ...overrides };
+}
+
+function createProject(areas: Area[], featureKeyFields?: Record<string, string>): AreaProject {
+  return {
+    version: "1.0.0",
+    name: "test",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    areas,
+    featureKeyFields,
+  };
+}
+
+describe("remapAreaFeatureIds", () => {
+  it("IDとフィーチャー名のキーを置き換え、重複をまとめる", () => {
+    // Arrange
+    const areas = [
+      createArea("a", ["town:0", "town:1", "town:2"], { featureNames: { "town:0": "千代田区" } }),
+    ];
+    const mapping = new Map([
+      ["town:0", "town:13101"],
+      ["town:1", "town:13101"],
+    ]);
+
+    // Act
+    const [area] = remapAreaFeatureIds(areas, mapping);
+
+    // Assert
+    expect(area.featureIds).toEqual(["town:13101", "town:2"]);
+    expect(area.featureNames).toEqual({ "town:13101": "千代田区" });
+  });
+
+  it("対象のIDがないエリアはそのまま返す", () => {
+    const area = createArea("a", ["town:5"]);
+    expect(remapAreaFeatureIds([area], new Map([["town:0", "town:1"]]))[0]).toBe(area);
+  });
+});
+
+describe("migrateProjectFeatureIds", () => {
+  it("インデックス形式のIDをキー形式に書き換える", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["town:1", "town:9", "other:0"])]);
+    const layers = [createLayer("town", ["13101", "13102"], "KEY_CODE")];
+
+    // Act
+    const migration = migrateProjectFeatureIds(project, layers);
+
+    // Assert
+    expect(migration?.project.areas[0].featureIds).toEqual(["town:13102", "town:9", "other:0"]);
+    expect(migration?.project.featureKeyFields).toEqual({ town: "KEY_CODE" });
+    expect(migration?.migratedCount).toBe(1);
+    expect(migration?.unresolvedIds).toEqual(["town:9"]);
+  });
+
+  it("KEY_CODE を記録したプロジェクトをキー列のないレイヤーで開いてもインデックス形式に戻さない", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["town:13102"])], { town: "KEY_CODE" });
+    const layers = [createLayer("town", ["13101", "13102"])];
+
+    // Act
+    const migration = migrateProjectFeatureIds(project, layers);
+
+    // Assert
+    expect(migration).toBeNull();
+  });
+
+  it("記録と違うキー列を設定したレイヤーは新しいキー列の形式に書き換える", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["town:13102"])], { town: "KEY_CODE" });
+    const layer = createLayer("town", ["13101", "13102"]);
+    layer.geojson.features.forEach((feature, i) => {
+      feature.properties = { ...feature.properties, NAME: `町${i}` };
+    });
+
+    // Act
+    const migration = migrateProjectFeatureIds(project, [{ ...layer, keyField: "NAME" }]);
+
+    // Assert
+    expect(migration?.project.areas[0].featureIds).toEqual(["town:町1"]);
+    expect(migration?.project.featureKeyFields).toEqual({ town: "NAME" });
+  });
+
+  it("並び順が変わったデータでもキーで同じフィーチャーを指す", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["town:13101"])], { town: "KEY_CODE" });
+    const reordered = createLayer("town", ["13102", "13101"], "KEY_CODE");
+
+    // Act
+    const migration = migrateProjectFeatureIds(project, [reordered]);
+
+    // Assert
+    expect(migration).toBeNull();
+  });
+
+  it("エリアがなくてもキー列を記録する", () => {
+    // Act
+    const migration = migrateProjectFeatureIds(createProject([]), [
+      createLayer("town", ["13101"], "KEY_CODE"),
+    ]);
+
+    // Assert
+    expect(migration?.project.featureKeyFields).toEqual({ town: "KEY_CODE" });
+    expect(migration?.migratedCount).toBe(0);
+    expect(describeFeatureIdMigration(migration!)).toBeNull();
+  });
+});
+
+describe("findRecordedKeyFields", () => {
+  it("KEY_CODE を記録していてキー列のないレイヤーに KEY_CODE を設定し直す", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["town:13102"])], { town: "KEY_CODE" });
+    const layers = [createLayer("town", ["13101", "13102"])];
+
+    // Act
+    const keyFields = findRecordedKeyFields(project, layers);
+
+    // Assert
+    expect(keyFields).toEqual([{ layerId: "town", keyField: "KEY_CODE" }]);
+  });
+
+  it("キー列を設定済みのレイヤーと、キー列に使えない列は対象外", () => {
+    // Arrange
+    const project = createProject([], { town: "KEY_CODE", dup: "KEY_CODE" });
+    const layers = [
+      createLayer("town", ["13101"], "KEY_CODE"),
+      createLayer("dup", ["13101", "13101"]),
+    ];
+
+    // Act
+    const keyFields = findRecordedKeyFields(project, layers);
+
+    // Assert
+    expect(keyFields).toEqual([]);
+  });
+});
+
+describe("buildRedecodedFeatureIdMapping", () => {
+  it("キー列の値が変わったフィーチャーを並び順で対応付ける", () => {
+    // Arrange
+    const before = createLayer("towns", ["縺ｱ", "B", "縺ｲ"], "KEY_CODE");
+    const after = createLayer("towns", ["あ", "B", "い"], "KEY_CODE");
+
+    // Act
+    const mapping = buildRedecodedFeatureIdMapping(before, before.geojson, after.geojson);
+
+    // Assert
+    expect(mapping).toEqual(
+      new Map([
+        ["towns:縺ｱ", "towns:あ"],
+        ["towns:縺ｲ", "towns:い"],
+      ])
+    );
+  });
+
+  it("キー列がない場合は空を返す", () => {
+    // Arrange
+    const before = createLayer("towns", ["A"]);
+    const after = createLayer("towns", ["B"]);
+
+    // Act
+    const mapping = buildRedecodedFeatureIdMapping(before, before.geojson, after.geojson);
+
+    // Assert
+    expect(mapping.size).toBe(0);
+  });
+});
+
+describe("describeFeatureIdMigration", () => {
+  it("書き換えた件数と見つからなかった件数を説明する", () => {
+    // Arrange
+    const migration = {
+      project: createProject([]),
+      migratedCount: 3,
+      unresolvedIds: ["town:9"],
+    };
+
+    // Act
+    const message = describeFeatureIdMigration(migration);
+
+    // Assert
+    expect(message).toBe(
+      "3 件のフィーチャーIDをキー列の設定に合わせて書き換えました。1 件は対応するフィーチャーが見つからないためそのままです"
+    );
+  });
+});
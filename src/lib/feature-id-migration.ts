@@ -0,0 +1,146 @@
+import type { FeatureCollection } from "geojson";
+import type { Area, AreaProject } from "@/types/area";
+import { getLayerFeatureId, resolveFeatureId, splitFeatureId, type Layer } from "@/types/layer";
+import { restoreKeyField } from "@/lib/saved-layer-state";
+
+/**
+ * エリアのフィーチャーIDの書き換え
+ * レイヤーのキー列を設定・変更したときに、インデックス形式 (layerId:index) の ID を
+ * キー形式 (layerId:キーの値) に移行する
+ * キー形式からインデックス形式には戻さない (キー列はプロジェクトの記録からレイヤーに設定し直す)
+ */
+
+/**
+ * 移行結果
+ */
+export interface FeatureIdMigration {
+  project: AreaProject;
+  /** 書き換えたフィーチャーIDの数 */
+  migratedCount: number;
+  /** 対応するフィーチャーが見つからず、そのまま残したID */
+  unresolvedIds: string[];
+}
+
+/**
+ * フィーチャーIDを対応表に従って置き換える
+ * 置き換え先が重複する場合は 1 つにまとめ、featureNames のキーも置き換える
+ */
+export function remapAreaFeatureIds(areas: Area[], mapping: Map<string, string>): Area[] {
+  return areas.map((area) => {
+    if (!area.featureIds.some((id) => mapping.has(id))) return area;
+    const featureIds = Array.from(new Set(area.featureIds.map((id) => mapping.get(id) ?? id)));
+    const featureNames = area.featureNames
+      ? Object.fromEntries(
+          Object.entries(area.featureNames).map(([id, name]) => [mapping.get(id) ?? id, name])
+        )
+      : undefined;
+    return { ...area, featureIds, ...(featureNames ? { featureNames } : {}) };
+  });
+}
+
+/**
+ * プロジェクトのフィーチャーIDを読み込み中のレイヤーのキー列に合わせる
+ * キー列を設定していて、プロジェクトに記録したキー列 (featureKeyFields) と違うレイヤーのみ対象
+ * @returns 変更がない場合は null
+ */
+export function migrateProjectFeatureIds(
+  project: AreaProject,
+  layers: Layer[]
+): FeatureIdMigration | null {
+  const recorded = project.featureKeyFields ?? {};
+  const changedLayers = layers.filter(
+    (layer) => layer.keyField && recorded[layer.id] !== layer.keyField
+  );
+  if (changedLayers.length === 0) return null;
+
+  const changedById = new Map(changedLayers.map((layer) => [layer.id, layer]));
+  const mapping = new Map<string, string>();
+  const unresolvedIds: string[] = [];
+  for (const area of project.areas) {
+    for (const featureId of area.featureIds) {
+      const layerId = splitFeatureId(featureId)?.layerId;
+      const layer = layerId !== undefined ? changedById.get(layerId) : undefined;
+      if (!layer) continue;
+
+      // 記録されているキー列 (なければインデックス) で ID を解釈する
+      const resolved = resolveFeatureId(featureId, [layer], recorded[layer.id] ?? null);
+      if (!resolved) {
+        unresolvedIds.push(featureId);
+        continue;
+      }
+      const newId = getLayerFeatureId(layer, resolved.index);
+      if (newId !== featureId) mapping.set(featureId, newId);
+    }
+  }
+
+  const featureKeyFields = { ...recorded };
+  for (const layer of changedLayers) {
+    if (layer.keyField) featureKeyFields[layer.id] = layer.keyField;
+  }
+
+  return {
+    project: {
+      ...project,
+      areas: remapAreaFeatureIds(project.areas, mapping),
+      featureKeyFields,
+    },
+    migratedCount: mapping.size,
+    unresolvedIds,
+  };
+}
+
+/**
+ * プロジェクトに記録したキー列のうち、キー列を設定していないレイヤーに設定し直すもの
+ * 別のブラウザでプロジェクトを開いた場合など、レイヤーの設定にキー列が残っていないときに使う
+ * 列がない・値が空や重複しているキー列は対象外
+ */
+export function findRecordedKeyFields(
+  project: AreaProject,
+  layers: Layer[]
+): { layerId: string; keyField: string }[] {
+  const recorded = project.featureKeyFields ?? {};
+  return layers.flatMap((layer) => {
+    if (layer.keyField || !recorded[layer.id]) return [];
+    const keyField = restoreKeyField(recorded[layer.id], layer.geojson);
+    return keyField ? [{ layerId: layer.id, keyField }] : [];
+  });
+}
+
+/**
+ * 属性を読み直したレイヤーのフィーチャーIDの対応表 (読み直す前の ID -> 読み直した後の ID)
+ * 文字コードを変えるとキー列の値も変わるため、同じ並び順のフィーチャーどうしを対応付ける
+ * キー列がない (インデックス形式の) 場合は空
+ */
+export function buildRedecodedFeatureIdMapping(
+  layer: Pick<Layer, "id" | "keyField">,
+  before: FeatureCollection,
+  after: FeatureCollection
+): Map<string, string> {
+  const mapping = new Map<string, string>();
+  if (!layer.keyField) return mapping;
+  const count = Math.min(before.features.length, after.features.length);
+  for (let index = 0; index < count; index++) {
+    const oldId = getLayerFeatureId({ ...layer, geojson: before }, index);
+    const newId = getLayerFeatureId({ ...layer, geojson: after }, index);
+    if (oldId !== newId) mapping.set(oldId, newId);
+  }
+  return mapping;
+}
+
+/**
+ * 移行結果の説明 (利用者への通知用)
+ */
+export function describeFeatureIdMigration(migration: FeatureIdMigration): string | null {
+  const messages: string[] = [];
+  if (migration.migratedCount > 0) {
+    messages.push(
+      `${migration.migratedCount} 件のフィーチャーIDをキー列の設定に合わせて書き換えました`
+    );
+  }
+  if (migration.unresolvedIds.length > 0) {
+    messages.push(
+      `${migration.unresolvedIds.length} 件は対応するフィーチャーが見つからないためそのままです`
+    );
+  }
+  return messages.length > 0 ? messages.join("。") : null;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection } from "geojson";
+import {
+  describeKeyFieldIssues,
+  findKeyFieldIssues,
+  getFeatureKeyValue,
+  getKeyIndex,
+} from "./feature-key";
+
+function createGeoJson(codes: unknown[]): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: codes.map((code) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [139, 35] },
+      properties: { KEY_CODE: code },
+    })),
+  };
+}
+
+describe("getFeatureKeyValue", () => {
+  it("数値の値を文字列にする", () => {
+    expect(getFeatureKeyValue(createGeoJson([13101]).features[0], "KEY_CODE")).toBe("13101");
+  });
+
+  it("空・null・列なしは null を返す", () => {
+    const geojson = createGeoJson(["  ", null]);
+    expect(getFeatureKeyValue(geojson.features[0], "KEY_CODE")).toBeNull();
+    expect(getFeatureKeyValue(geojson.features[1], "KEY_CODE")).toBeNull();
+    expect(getFeatureKeyValue(geojson.features[0], "OTHER")).toBeNull();
+  });
+});
+
+describe("findKeyFieldIssues", () => {
+  it("空の値と重複した値を数える", () => {
+    // Arrange
+    const geojson = createGeoJson(["A", "B", "A", "", null, "B", "A"]);
+
+    // Act
+    const issues = findKeyFieldIssues(geojson, "KEY_CODE");
+
+    // Assert
+    expect(issues).toEqual({ emptyCount: 2, duplicateKeys: ["A", "B"] });
+  });
+
+  it("一意な値だけなら問題なし", () => {
+    expect(findKeyFieldIssues(createGeoJson(["A", "B"]), "KEY_CODE")).toEqual({
+      emptyCount: 0,
+      duplicateKeys: [],
+    });
+  });
+});
+
+describe("describeKeyFieldIssues", () => {
+  it("問題がなければ null を返す", () => {
+    expect(describeKeyFieldIssues("KEY_CODE", { emptyCount: 0, duplicateKeys: [] })).toBeNull();
+  });
+
+  it("重複した値は 5 件まで表示する", () => {
+    // Arrange
+    const duplicateKeys = ["1", "2", "3", "4", "5", "6", "7"];
+
+    // Act
+    const message = describeKeyFieldIssues("KEY_CODE", { emptyCount: 1, duplicateKeys });
+
+    // Assert
+    expect(message).toBe(
+      "KEY_CODE はキー列に使えません (1 件のフィーチャーで値が空です、値が重複しています: 1, 2, 3, 4, 5 (他 2 件))"
+    );
+  });
+});
+
+describe("getKeyIndex", () => {
+  it("キーの値から位置を引く (重複時は最初のフィーチャー)", () => {
+    // Arrange
+    const geojson = createGeoJson(["A", "B", "A"]);
+
+    // Act
+    const index = getKeyIndex(geojson, "KEY_CODE");
+
+    // Assert
+    expect(index.get("A")).toBe(0);
+    expect(index.get("B")).toBe(1);
+  });
+
+  it("同じデータとキー列では同じ索引を返す", () => {
+    const geojson = createGeoJson(["A"]);
+    expect(getKeyIndex(geojson, "KEY_CODE")).toBe(getKeyIndex(geojson, "KEY_CODE"));
+  });
+});
@@ -0,0 +1,91 @@
+import type { Feature, FeatureCollection } from "geojson";
+import { formatPropertyValue } from "@/lib/field-schema";
+
+/**
+ * キー列 (KEY_CODE など) によるフィーチャーの識別
+ * キー列を設定したレイヤーでは、フィーチャーIDが配列の位置ではなくキーの値になる
+ */
+
+/**
+ * キー列の値の問題 (空・重複)
+ */
+export interface KeyFieldIssues {
+  /** 値が空のフィーチャー数 */
+  emptyCount: number;
+  /** 重複している値 */
+  duplicateKeys: string[];
+}
+
+// 重複した値を表示する件数
+const MAX_LISTED_DUPLICATES = 5;
+
+// geojson -> キー列 -> (キー -> インデックス)
+const keyIndexCache = new WeakMap<FeatureCollection, Map<string, Map<string, number>>>();
+
+/**
+ * フィーチャーのキー列の値 (空の場合は null)
+ */
+export function getFeatureKeyValue(feature: Feature, keyField: string): string | null {
+  const value = feature.properties?.[keyField];
+  if (value === null || value === undefined) return null;
+  const key = formatPropertyValue(value).trim();
+  return key === "" ? null : key;
+}
+
+/**
+ * キー列の値が空・重複していないか調べる
+ */
+export function findKeyFieldIssues(geojson: FeatureCollection, keyField: string): KeyFieldIssues {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  let emptyCount = 0;
+  for (const feature of geojson.features) {
+    const key = getFeatureKeyValue(feature, keyField);
+    if (key === null) {
+      emptyCount++;
+    } else if (seen.has(key)) {
+      duplicates.add(key);
+    } else {
+      seen.add(key);
+    }
+  }
+  return { emptyCount, duplicateKeys: Array.from(duplicates) };
+}
+
+/**
+ * 問題がある場合の説明 (問題がなければ null)
+ */
+export function describeKeyFieldIssues(keyField: string, issues: KeyFieldIssues): string | null {
+  const messages: string[] = [];
+  if (issues.emptyCount > 0) {
+    messages.push(`${issues.emptyCount} 件のフィーチャーで値が空です`);
+  }
+  if (issues.duplicateKeys.length > 0) {
+    const listed = issues.duplicateKeys.slice(0, MAX_LISTED_DUPLICATES).join(", ");
+    const rest = issues.duplicateKeys.length - MAX_LISTED_DUPLICATES;
+    messages.push(`値が重複しています: ${listed}${rest > 0 ? ` (他 ${rest} 件)` : ""}`);
+  }
+  return messages.length > 0 ? `${keyField} はキー列に使えません (${messages.join("、")})` : null;
+}
+
+/**
+ * キーの値からフィーチャーの位置を引く索引
+ */
+export function getKeyIndex(geojson: FeatureCollection, keyField: string): Map<string, number> {
+  let byField = keyIndexCache.get(geojson);
+  if (!byField) {
+    byField = new Map();
+    keyIndexCache.set(geojson, byField);
+  }
+  let index = byField.get(keyField);
+  if (!index) {
+    index = new Map();
+    for (const [i, feature] of geojson.features.entries()) {
+      const key = getFeatureKeyValue(feature, keyField);
+      // 重複している場合は最初のフィーチャー
+      if (key !== null && !index.has(key)) index.set(key, i);
+    }
+    byField.set(keyField, index);
+  }
+  return index;
+}
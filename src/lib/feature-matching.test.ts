@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import type { Feature, FeatureCollection } from "geojson";
+import { getGeometryKey, matchFeatures } from "./feature-matching";
+
+function square(x: number, y: number, size = 1): Feature["geometry"] {
+  return {
+    type: "Polygon",
+    coordinates: [
+      [
+        [x, y],
+        [x + size, y],
+        [x + size, y + size],
+        [x, y + size],
+        [x, y],
+      ],
+    ],
+  };
+}
+
+function createGeoJson(
+  features: { geometry: Feature["geometry"]; code?: string | null }[]
+): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: features.map(({ geometry, code }) => ({
+      type: "Feature",
+      geometry,
+      properties: code === undefined ? {} : { KEY_CODE: code },
+    })),
+  };
+}
+
+describe("getGeometryKey", () => {
+  it("ごく小さな座標の違いは同じとみなす", () => {
+    expect(getGeometryKey(square(139, 35))).toBe(getGeometryKey(square(139.00000001, 35)));
+    expect(getGeometryKey(square(139, 35))).not.toBe(getGeometryKey(square(139.001, 35)));
+  });
+});
+
+describe("matchFeatures", () => {
+  describe("キー列", () => {
+    it("キーの値で対応付け、追加・削除・対応付けできないフィーチャーを分ける", () => {
+      // Arrange
+      const oldData = createGeoJson([
+        { geometry: square(0, 0), code: "A" },
+        { geometry: square(1, 0), code: "B" },
+        { geometry: square(2, 0), code: "C" },
+        { geometry: square(3, 0), code: "" },
+      ]);
+      const newData = createGeoJson([
+        { geometry: square(5, 5), code: "B" },
+        { geometry: square(6, 5), code: "C" },
+        { geometry: square(7, 5), code: "C" },
+        { geometry: square(8, 5), code: "A" },
+        { geometry: square(9, 5), code: "D" },
+      ]);
+
+      // Act
+      const result = matchFeatures(oldData, newData, "KEY_CODE");
+
+      // Assert
+      expect(result.method).toBe("key");
+      expect(Array.from(result.matches)).toEqual([
+        [0, 3],
+        [1, 0],
+      ]);
+      expect(result.removedIndices).toEqual([]);
+      expect(result.unmatchedIndices).toEqual([2, 3]);
+      expect(result.addedIndices).toEqual([1, 2, 4]);
+    });
+
+    it("古いデータで重複しているキーも対応付けない", () => {
+      // Arrange
+      const oldData = createGeoJson([
+        { geometry: square(0, 0), code: "A" },
+        { geometry: square(1, 0), code: "A" },
+      ]);
+      const newData = createGeoJson([{ geometry: square(0, 0), code: "A" }]);
+
+      // Act
+      const result = matchFeatures(oldData, newData, "KEY_CODE");
+
+      // Assert
+      expect(result.matches.size).toBe(0);
+      expect(result.unmatchedIndices).toEqual([0, 1]);
+      expect(result.addedIndices).toEqual([0]);
+    });
+
+    it("新しいデータにキー列がなければジオメトリで対応付ける", () => {
+      // Arrange
+      const oldData = createGeoJson([{ geometry: square(0, 0), code: "A" }]);
+      const newData = createGeoJson([{ geometry: square(0, 0) }]);
+
+      // Act
+      const result = matchFeatures(oldData, newData, "KEY_CODE");
+
+      // Assert
+      expect(result.method).toBe("geometry");
+      expect(Array.from(result.matches)).toEqual([[0, 0]]);
+    });
+  });
+
+  describe("ジオメトリ", () => {
+    it("並び順が変わっても同じ形のフィーチャーを対応付ける", () => {
+      // Arrange
+      const oldData = createGeoJson([{ geometry: square(0, 0) }, { geometry: square(2, 0) }]);
+      const newData = createGeoJson([{ geometry: square(2, 0) }, { geometry: square(0, 0) }]);
+
+      // Act
+      const result = matchFeatures(oldData, newData);
+
+      // Assert
+      expect(Array.from(result.matches)).toEqual([
+        [0, 1],
+        [1, 0],
+      ]);
+      expect(result.addedIndices).toEqual([]);
+      expect(result.removedIndices).toEqual([]);
+    });
+
+    it("形が少し変わったフィーチャーは外接矩形の中心で対応付ける", () => {
+      // Arrange
+      const oldData = createGeoJson([{ geometry: square(0, 0) }, { geometry: square(10, 10) }]);
+      const newData = createGeoJson([
+        { geometry: square(0.1, 0, 1.1) },
+        { geometry: square(20, 20) },
+      ]);
+
+      // Act
+      const result = matchFeatures(oldData, newData);
+
+      // Assert
+      expect(Array.from(result.matches)).toEqual([[0, 0]]);
+      expect(result.removedIndices).toEqual([1]);
+      expect(result.addedIndices).toEqual([1]);
+    });
+
+    it("候補が複数あるフィーチャーは対応付けない", () => {
+      // Arrange
+      const oldData = createGeoJson([{ geometry: square(0, 0, 4) }]);
+      const newData = createGeoJson([
+        { geometry: square(1, 1, 2) },
+        { geometry: square(1.5, 1.5, 1) },
+      ]);
+
+      // Act
+      const result = matchFeatures(oldData, newData);
+
+      // Assert
+      expect(result.matches.size).toBe(0);
+      expect(result.unmatchedIndices).toEqual([0]);
+      expect(result.addedIndices).toEqual([0, 1]);
+    });
+
+    it("並び順と形が変わった多数のフィーチャーを近くの候補から対応付ける", () => {
+      // Arrange
+      const positions = Array.from({ length: 2500 }, (_, i) => [i % 50, Math.floor(i / 50)]);
+      const oldData = createGeoJson(positions.map(([x, y]) => ({ geometry: square(x, y) })));
+      const newData = createGeoJson(
+        [...positions].reverse().map(([x, y]) => ({ geometry: square(x + 0.1, y, 0.9) }))
+      );
+
+      // Act
+      const result = matchFeatures(oldData, newData);
+
+      // Assert
+      expect(result.matches.size).toBe(2500);
+      expect(result.matches.get(0)).toBe(2499);
+      expect(result.matches.get(1234)).toBe(1265);
+      expect(result.unmatchedIndices).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import type { FeatureCollection, Geometry } from "geojson";
+import { findKeyFieldIssues, getFeatureKeyValue, getKeyIndex } from "@/lib/feature-key";
+import {
+  boundsContains,
+  getBoundsCenter,
+  getGeometryBounds,
+  type Bounds,
+} from "@/lib/geometry-bounds";
+
+/**
+ * 2 つのバージョンのデータ間でのフィーチャーの対応付け
+ * キー列があればキーの値で、なければジオメトリで対応付ける
+ */
+
+/**
+ * 対応付けの方法
+ */
+export type FeatureMatchMethod = "key" | "geometry";
+
+/**
+ * 対応付けの結果 (インデックスはそれぞれのデータの features の位置)
+ */
+export interface FeatureMatchResult {
+  method: FeatureMatchMethod;
+  /** 旧インデックス -> 新インデックス */
+  matches: Map<number, number>;
+  /** 新しいデータにのみあるフィーチャー (新インデックス) */
+  addedIndices: number[];
+  /** 古いデータにのみあるフィーチャー (旧インデックス) */
+  removedIndices: number[];
+  /** キーが空・重複している、または候補が複数あって対応付けられないフィーチャー (旧インデックス) */
+  unmatchedIndices: number[];
+}
+
+// ジオメトリの比較で丸める桁数 (約 10cm)
+const COORDINATE_PRECISION = 1e6;
+
+/**
+ * 座標を丸めたジオメトリの文字列 (同じ形かの比較用)
+ */
+export function getGeometryKey(geometry: Geometry | null): string {
+  return JSON.stringify(geometry, (_key, value: unknown) =>
+    typeof value === "number"
+      ? Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION
+      : value
+  );
+}
+
+function collectAdded(newCount: number, matches: Map<number, number>): number[] {
+  const matched = new Set(matches.values());
+  const added: number[] = [];
+  for (let i = 0; i < newCount; i++) {
+    if (!matched.has(i)) added.push(i);
+  }
+  return added;
+}
+
+/**
+ * キー列の値で対応付ける
+ */
+function matchByKey(
+  oldData: FeatureCollection,
+  newData: FeatureCollection,
+  keyField: string
+): FeatureMatchResult {
+  const newIndex = getKeyIndex(newData, keyField);
+  // どちらかで重複しているキーは対応付けられない
+  const duplicates = new Set([
+    ...findKeyFieldIssues(oldData, keyField).duplicateKeys,
+    ...findKeyFieldIssues(newData, keyField).duplicateKeys,
+  ]);
+  const matches = new Map<number, number>();
+  const removedIndices: number[] = [];
+  const unmatchedIndices: number[] = [];
+
+  for (const [oldIndex, feature] of oldData.features.entries()) {
+    const key = getFeatureKeyValue(feature, keyField);
+    if (key === null || duplicates.has(key)) {
+      unmatchedIndices.push(oldIndex);
+      continue;
+    }
+    const index = newIndex.get(key);
+    if (index === undefined) {
+      removedIndices.push(oldIndex);
+    } else {
+      matches.set(oldIndex, index);
+    }
+  }
+
+  return {
+    method: "key",
+    matches,
+    addedIndices: collectAdded(newData.features.length, matches),
+    removedIndices,
+    unmatchedIndices,
+  };
+}
+
+/**
+ * 形が変わったフィーチャーの対応先の候補
+ */
+interface BoundsCandidate {
+  index: number;
+  bounds: Bounds;
+  center: [number, number];
+}
+
+/**
+ * 中心の X 座標で並べた候補のうち、中心の X 座標が x 以上の最初の位置 (二分探索)
+ */
+function findFirstCandidate(sorted: BoundsCandidate[], x: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid].center[0] < x) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * 中心が互いの外接矩形に含まれる、まだ対応付けていない候補
+ * 候補の中心は bounds に含まれるため、中心の X 座標が bounds の範囲内の候補だけを調べる
+ */
+function findBoundsCandidates(
+  sorted: BoundsCandidate[],
+  bounds: Bounds,
+  usedNew: Set<number>
+): BoundsCandidate[] {
+  const center = getBoundsCenter(bounds);
+  const candidates: BoundsCandidate[] = [];
+  for (
+    let i = findFirstCandidate(sorted, bounds[0]);
+    i < sorted.length && sorted[i].center[0] <= bounds[2];
+    i++
+  ) {
+    const candidate = sorted[i];
+    if (
+      !usedNew.has(candidate.index) &&
+      boundsContains(candidate.bounds, center) &&
+      boundsContains(bounds, candidate.center)
+    ) {
+      candidates.push(candidate);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * ジオメトリで対応付ける
+ * 同じ形のフィーチャーを対応付けた後、残りは外接矩形の中心が互いに含まれるフィーチャーが
+ * 1 つだけの場合に対応付ける (境界が少し修正された場合など)
+ */
+function matchByGeometry(
+  oldData: FeatureCollection,
+  newData: FeatureCollection
+): FeatureMatchResult {
+  const matches = new Map<number, number>();
+  const usedNew = new Set<number>();
+
+  // 同じ形のフィーチャー
+  const newByGeometry = new Map<string, number[]>();
+  for (const [index, feature] of newData.features.entries()) {
+    if (!feature.geometry) continue;
+    const key = getGeometryKey(feature.geometry);
+    const indices = newByGeometry.get(key);
+    if (indices) {
+      indices.push(index);
+    } else {
+      newByGeometry.set(key, [index]);
+    }
+  }
+  const leftoverOld: number[] = [];
+  for (const [oldIndex, feature] of oldData.features.entries()) {
+    const candidates = feature.geometry
+      ? (newByGeometry.get(getGeometryKey(feature.geometry)) ?? [])
+      : [];
+    const index = candidates.find((i) => !usedNew.has(i));
+    if (index === undefined) {
+      leftoverOld.push(oldIndex);
+    } else {
+      matches.set(oldIndex, index);
+      usedNew.add(index);
+    }
+  }
+
+  // 形が変わったフィーチャー
+  // 中心の X 座標で並べ、近くの候補だけを調べる
+  const leftoverNew: BoundsCandidate[] = [];
+  for (const [index, feature] of newData.features.entries()) {
+    const bounds = usedNew.has(index) ? null : getGeometryBounds(feature.geometry);
+    if (bounds) leftoverNew.push({ index, bounds, center: getBoundsCenter(bounds) });
+  }
+  leftoverNew.sort((a, b) => a.center[0] - b.center[0]);
+  const removedIndices: number[] = [];
+  const unmatchedIndices: number[] = [];
+  for (const oldIndex of leftoverOld) {
+    const bounds = getGeometryBounds(oldData.features[oldIndex].geometry);
+    if (!bounds) {
+      unmatchedIndices.push(oldIndex);
+      continue;
+    }
+    const candidates = findBoundsCandidates(leftoverNew, bounds, usedNew);
+    if (candidates.length === 1) {
+      matches.set(oldIndex, candidates[0].index);
+      usedNew.add(candidates[0].index);
+    } else if (candidates.length > 1) {
+      unmatchedIndices.push(oldIndex);
+    } else {
+      removedIndices.push(oldIndex);
+    }
+  }
+
+  return {
+    method: "geometry",
+    matches,
+    addedIndices: collectAdded(newData.features.length, matches),
+    removedIndices,
+    unmatchedIndices,
+  };
+}
+
+/**
+ * 古いデータと新しいデータのフィーチャーを対応付ける
+ * @param keyField - キー列 (新しいデータにその列がなければジオメトリで対応付ける)
+ */
+export function matchFeatures(
+  oldData: FeatureCollection,
+  newData: FeatureCollection,
+  keyField?: string
+): FeatureMatchResult {
+  const hasKey =
+    keyField !== undefined &&
+    newData.features.some((feature) => getFeatureKeyValue(feature, keyField) !== null);
+  return hasKey ? matchByKey(oldData, newData, keyField) : matchByGeometry(oldData, newData);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import type { Feature } from "geojson";
+import {
+  comparePropertyValues,
+  formatPropertyValue,
+  getFieldValueType,
+  getPropertyValueType,
+  normalizeDbfValues,
+} from "./field-schema";
+
+function createFeature(properties: Record<string, unknown>): Feature {
+  return { type: "Feature", geometry: { type: "Point", coordinates: [0, 0] }, properties };
+}
+
+describe("getFieldValueType", () => {
+  it("DBF の型を属性値の型にする", () => {
+    const field = { name: "A", length: 10, decimals: 0 };
+    expect(getFieldValueType({ ...field, type: "C" })).toBe("string");
+    expect(getFieldValueType({ ...field, type: "N" })).toBe("number");
+    expect(getFieldValueType({ ...field, type: "F" })).toBe("number");
+    expect(getFieldValueType({ ...field, type: "D" })).toBe("date");
+    expect(getFieldValueType({ ...field, type: "L" })).toBe("boolean");
+  });
+});
+
+describe("getPropertyValueType", () => {
+  it("スキーマがあればスキーマの型を、なければ最初の値の型を返す", () => {
+    // Arrange
+    const features = [createFeature({ CODE: null }), createFeature({ CODE: 13 })];
+    const schema = [{ name: "CODE", type: "C", length: 2, decimals: 0 }];
+
+    // Act & Assert
+    expect(getPropertyValueType(features, "CODE", schema)).toBe("string");
+    expect(getPropertyValueType(features, "CODE")).toBe("number");
+    expect(getPropertyValueType(features, "NONE")).toBe("string");
+  });
+});
+
+describe("formatPropertyValue", () => {
+  it("日付を YYYY-MM-DD にする", () => {
+    expect(formatPropertyValue(new Date(2020, 3, 1))).toBe("2020-04-01");
+    expect(formatPropertyValue(1.5)).toBe("1.5");
+    expect(formatPropertyValue(true)).toBe("true");
+  });
+});
+
+describe("comparePropertyValues", () => {
+  it("数値を大小で比較する", () => {
+    expect([10, 9, 100].sort((a, b) => comparePropertyValues(a, b))).toEqual([9, 10, 100]);
+  });
+
+  it("日付を前後で比較する", () => {
+    // Arrange
+    const dates = [new Date(2021, 0, 1), new Date(2020, 11, 31)];
+
+    // Act
+    const sorted = [...dates].sort((a, b) => comparePropertyValues(a, b));
+
+    // Assert
+    expect(sorted).toEqual([dates[1], dates[0]]);
+  });
+
+  it("列の型が数値であれば文字列の値も数値として比較し、読めない値は後ろにする", () => {
+    // Act
+    const sorted = ["10", "abc", "9"].sort((a, b) => comparePropertyValues(a, b, "number"));
+
+    // Assert
+    expect(sorted).toEqual(["9", "10", "abc"]);
+  });
+
+  it("日付を文字列の範囲の値と比較する", () => {
+    expect(comparePropertyValues(new Date(2020, 3, 1), "2020-04-02", "date")).toBeLessThan(0);
+    expect(comparePropertyValues(new Date(2020, 3, 1), "2020-04-01", "date")).toBe(0);
+  });
+});
+
+describe("normalizeDbfValues", () => {
+  it("空の日付 (Invalid Date・1899-11-30) を null にする", () => {
+    // Arrange
+    const valid = new Date(2020, 3, 1);
+    const features = [
+      createFeature({ DATE: new Date(NaN) }),
+      createFeature({ DATE: new Date(1899, 10, 30) }),
+      createFeature({ DATE: valid }),
+    ];
+
+    // Act
+    normalizeDbfValues(features, [{ name: "DATE", type: "D", length: 8, decimals: 0 }]);
+
+    // Assert
+    expect(features.map((f) => f.properties?.DATE)).toEqual([null, null, valid]);
+  });
+});
@@ -0,0 +1,168 @@
+import type { Feature, GeoJsonProperties, Geometry } from "geojson";
+import type { DbfField } from "@/lib/dbf-header";
+
+/**
+ * 属性の型 (DBF のフィールド定義、または値そのものから判定する)
+ * フィルターの値の並び順や表示・出力での値の文字列化に使う
+ */
+
+/**
+ * 属性値の型
+ */
+export type FieldValueType = "string" | "number" | "date" | "boolean";
+
+export const FIELD_VALUE_TYPE_LABELS: Record<FieldValueType, string> = {
+  string: "文字列",
+  number: "数値",
+  date: "日付",
+  boolean: "論理値",
+};
+
+// DBF の型 -> 属性値の型 (shapefile ライブラリのデコード結果に合わせる)
+const DBF_VALUE_TYPES: Record<string, FieldValueType> = {
+  C: "string",
+  N: "number",
+  F: "number",
+  B: "number",
+  M: "number",
+  D: "date",
+  L: "boolean",
+};
+
+/**
+ * フィールド定義の属性値の型
+ */
+export function getFieldValueType(field: DbfField): FieldValueType {
+  return DBF_VALUE_TYPES[field.type.toUpperCase()] ?? "string";
+}
+
+/**
+ * スキーマから列の属性値の型を取得 (スキーマがない・列がない場合は null)
+ */
+export function getSchemaValueType(
+  schema: DbfField[] | undefined,
+  key: string
+): FieldValueType | null {
+  const field = schema?.find((f) => f.name === key);
+  return field ? getFieldValueType(field) : null;
+}
+
+/**
+ * 値そのものの型
+ */
+export function getValueType(value: unknown): FieldValueType {
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  if (value instanceof Date) return "date";
+  return "string";
+}
+
+/**
+ * 列の属性値の型 (スキーマがあればその型、なければ最初の値の型)
+ */
+export function getPropertyValueType(
+  features: Feature<Geometry | null, GeoJsonProperties>[],
+  key: string,
+  schema?: DbfField[]
+): FieldValueType {
+  const schemaType = getSchemaValueType(schema, key);
+  if (schemaType) return schemaType;
+  for (const { properties } of features) {
+    const value: unknown = properties?.[key];
+    if (value !== null && value !== undefined) return getValueType(value);
+  }
+  return "string";
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * 日付を YYYY-MM-DD にする (DBF の日付はローカル時刻の 0 時として読み込まれる)
+ */
+export function formatDate(date: Date): string {
+  return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 属性値の文字列表現 (フィルターの値・キー・表示・出力で共通)
+ */
+export function formatPropertyValue(value: unknown): string {
+  if (value instanceof Date) return formatDate(value);
+  return String(value);
+}
+
+/**
+ * YYYY-MM-DD をローカル時刻の 0 時として読む (DBF の日付と同じ基準で比較する)
+ */
+function parseLocalDate(value: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return Date.parse(value);
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+/**
+ * 文字列を指定した型の値として比較用に読む (読めない場合は null)
+ */
+function toComparable(value: unknown, type: FieldValueType): number | null {
+  switch (type) {
+    case "number": {
+      if (typeof value === "number") return value;
+      const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+      return Number.isNaN(parsed) ? null : parsed;
+    }
+    case "date": {
+      const time =
+        value instanceof Date
+          ? value.getTime()
+          : typeof value === "string"
+            ? parseLocalDate(value)
+            : NaN;
+      return Number.isNaN(time) ? null : time;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? Number(value) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 属性値を型に合わせて比較する (数値は大小、日付は前後、それ以外は文字列として)
+ * @param type - 列の型 (省略時は値から判定する)
+ */
+export function comparePropertyValues(a: unknown, b: unknown, type?: FieldValueType): number {
+  const valueType = type ?? (getValueType(a) === getValueType(b) ? getValueType(a) : "string");
+  if (valueType !== "string") {
+    const x = toComparable(a, valueType);
+    const y = toComparable(b, valueType);
+    if (x !== null && y !== null) return x - y;
+    // 型どおりに読めない値は後ろに並べる
+    if (x !== null || y !== null) return x === null ? 1 : -1;
+  }
+  const x = formatPropertyValue(a);
+  const y = formatPropertyValue(b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+// shapefile ライブラリが空の日付 ("        " や "00000000") を読んだ結果 (1899-11-30)
+const BLANK_DBF_DATE = new Date(0, -1, 0).getTime();
+
+/**
+ * DBF の値を型に合わせて整える
+ * 空の日付は shapefile ライブラリが 1899-11-30 または Invalid Date にするため null にする
+ */
+export function normalizeDbfValues(features: Feature[], fields: DbfField[]): void {
+  const dateFields = fields.filter((f) => getFieldValueType(f) === "date").map((f) => f.name);
+  if (dateFields.length === 0) return;
+  for (const { properties } of features) {
+    if (!properties) continue;
+    for (const name of dateFields) {
+      const value: unknown = properties[name];
+      if (!(value instanceof Date)) continue;
+      const time = value.getTime();
+      if (Number.isNaN(time) || time === BLANK_DBF_DATE) properties[name] = null;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { createEmptyProject } from "@/types/area";
+import { hasDraggedFiles, isAreaProjectFile, routeDroppedFiles } from "./file-drop";
+
+function createProjectFile(name = "project.json"): File {
+  return new File([JSON.stringify(createEmptyProject("営業エリア"))], name);
+}
+
+describe("isAreaProjectFile", () => {
+  it("エリアプロジェクトの JSON を判定する", async () => {
+    expect(await isAreaProjectFile(createProjectFile())).toBe(true);
+  });
+
+  it("GeoJSON はプロジェクトとしない", async () => {
+    const geojson = new File(
+      [JSON.stringify({ type: "FeatureCollection", features: [] })],
+      "blocks.json"
+    );
+    expect(await isAreaProjectFile(geojson)).toBe(false);
+  });
+
+  it("キーが似ていても形式が不正ならプロジェクトとしない", async () => {
+    const file = new File([JSON.stringify({ version: "1", createdAt: "x" })], "a.json");
+    expect(await isAreaProjectFile(file)).toBe(false);
+  });
+
+  it(".json 以外は内容を読まずに false を返す", async () => {
+    expect(await isAreaProjectFile(createProjectFile("project.geojson"))).toBe(false);
+  });
+});
+
+describe("routeDroppedFiles", () => {
+  it("プロジェクトとレイヤーのファイルに振り分ける", async () => {
+    // Arrange
+    const project = createProjectFile();
+    const shp = new File([""], "blocks.shp");
+    const dbf = new File([""], "blocks.dbf");
+
+    // Act
+    const routed = await routeDroppedFiles([shp, project, dbf]);
+
+    // Assert
+    expect(routed.projectFiles).toEqual([project]);
+    expect(routed.layerFiles).toEqual([shp, dbf]);
+  });
+});
+
+describe("hasDraggedFiles", () => {
+  it("ファイルのドラッグのみ true を返す", () => {
+    expect(hasDraggedFiles({ types: ["Files"] } as unknown as DataTransfer)).toBe(true);
+    expect(hasDraggedFiles({ types: ["text/plain"] } as unknown as DataTransfer)).toBe(false);
+    expect(hasDraggedFiles(null)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { parseAreaProject } from "@/types/area";
+
+/**
+ * ドロップされたファイルの振り分け
+ * .json は GeoJSON とエリアプロジェクトのどちらもありうるため内容で判定する
+ */
+
+/**
+ * 振り分け結果
+ */
+export interface DroppedFiles {
+  /** レイヤーとして読み込むファイル (Shapefile・GeoJSON・KML など) */
+  layerFiles: File[];
+  /** エリアプロジェクトの JSON */
+  projectFiles: File[];
+}
+
+// 先頭から読んで判定するバイト数
+const SNIFF_BYTES = 4096;
+
+/**
+ * エリアプロジェクトの JSON か
+ * 大きな GeoJSON を丸ごと解析しないよう、先頭にプロジェクトのキー (version, createdAt) がある場合のみ検証する
+ */
+export async function isAreaProjectFile(file: File): Promise<boolean> {
+  if (!/\.json$/i.test(file.name)) return false;
+  const head = await file.slice(0, SNIFF_BYTES).text();
+  if (!/"version"\s*:/.test(head) || !/"createdAt"\s*:/.test(head)) return false;
+  return parseAreaProject(await file.text()) !== null;
+}
+
+/**
+ * ドロップされたファイルをレイヤーとプロジェクトに振り分ける
+ */
+export async function routeDroppedFiles(files: File[]): Promise<DroppedFiles> {
+  const layerFiles: File[] = [];
+  const projectFiles: File[] = [];
+  for (const file of files) {
+    if (await isAreaProjectFile(file)) {
+      projectFiles.push(file);
+    } else {
+      layerFiles.push(file);
+    }
+  }
+  return { layerFiles, projectFiles };
+}
+
+/**
+ * ドラッグ中のデータにファイルが含まれるか (テキストやリンクのドラッグは対象外)
+ */
+export function hasDraggedFiles(dataTransfer: DataTransfer | null): boolean {
+  return dataTransfer !== null && Array.from(dataTransfer.types).includes("Files");
+}
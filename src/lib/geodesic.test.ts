@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import type { Position } from "geojson";
+import { getDistance, getGeometryArea, getLineLength, getRingArea } from "./geodesic";
+
+function square(minX: number, minY: number, size: number): Position[] {
+  return [
+    [minX, minY],
+    [minX + size, minY],
+    [minX + size, minY + size],
+    [minX, minY + size],
+    [minX, minY],
+  ];
+}
+
+describe("getRingArea", () => {
+  it("赤道上の 1 度四方の面積を返す", () => {
+    // Act
+    const area = getRingArea(square(0, 0, 1));
+
+    // Assert
+    expect(area / 1e6).toBeCloseTo(12364, 0);
+  });
+
+  it("リングの向きによらず正の値を返す", () => {
+    // Arrange
+    const ring = square(139, 35, 0.1);
+
+    // Act & Assert
+    expect(getRingArea([...ring].reverse())).toBeCloseTo(getRingArea(ring), 6);
+  });
+
+  it("高緯度ほど同じ経緯度の幅の面積が小さい", () => {
+    // Act & Assert
+    expect(getRingArea(square(139, 60, 1))).toBeLessThan(getRingArea(square(139, 35, 1)));
+  });
+});
+
+describe("getGeometryArea", () => {
+  it("ポリゴンの穴を除き、マルチポリゴンは合計する", () => {
+    // Arrange
+    const outer = square(0, 0, 2);
+    const hole = square(0.5, 0.5, 1);
+
+    // Act
+    const polygon = getGeometryArea({ type: "Polygon", coordinates: [outer, hole] });
+    const multi = getGeometryArea({
+      type: "MultiPolygon",
+      coordinates: [[outer], [square(5, 0, 1)]],
+    });
+
+    // Assert
+    expect(polygon).toBeCloseTo(getRingArea(outer) - getRingArea(hole), 0);
+    expect(multi).toBeCloseTo(getRingArea(outer) + getRingArea(square(5, 0, 1)), 0);
+  });
+
+  it("ポリゴン以外は 0 を返す", () => {
+    // Act & Assert
+    expect(getGeometryArea({ type: "Point", coordinates: [139, 35] })).toBe(0);
+    expect(getGeometryArea(null)).toBe(0);
+  });
+});
+
+describe("getDistance", () => {
+  it("赤道上の経度 1 度の距離を返す", () => {
+    // Act & Assert
+    expect(getDistance([0, 0], [1, 0]) / 1000).toBeCloseTo(111.195, 2);
+  });
+});
+
+describe("getLineLength", () => {
+  it("各区間の距離を合計する", () => {
+    // Act & Assert
+    expect(
+      getLineLength([
+        [0, 0],
+        [1, 0],
+        [2, 0],
+      ])
+    ).toBeCloseTo(2 * getDistance([0, 0], [1, 0]), 6);
+  });
+});
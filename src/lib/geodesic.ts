@@ -0,0 +1,80 @@
+import type { Geometry, Position } from "geojson";
+
+/**
+ * 経緯度の座標からの面積・長さの計算 (地球を平均半径の球とみなす)
+ */
+
+// 地球の平均半径 (m)
+const EARTH_RADIUS = 6371008.8;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * リングの面積 (m²、向きによらず正の値)
+ */
+export function getRingArea(ring: Position[]): number {
+  const length = ring.length;
+  if (length < 3) return 0;
+  let total = 0;
+  for (let i = 0; i < length; i++) {
+    const lower = ring[i];
+    const middle = ring[(i + 1) % length];
+    const upper = ring[(i + 2) % length];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2);
+}
+
+/**
+ * ポリゴン (外周から穴を除いた) の面積 (m²)
+ */
+export function getPolygonArea(rings: Position[][]): number {
+  const [outer, ...holes] = rings;
+  if (!outer) return 0;
+  return Math.max(
+    0,
+    holes.reduce((area, hole) => area - getRingArea(hole), getRingArea(outer))
+  );
+}
+
+/**
+ * ジオメトリの面積 (m²、ポリゴン以外は 0)
+ */
+export function getGeometryArea(geometry: Geometry | null): number {
+  if (!geometry) return 0;
+  switch (geometry.type) {
+    case "Polygon":
+      return getPolygonArea(geometry.coordinates);
+    case "MultiPolygon":
+      return geometry.coordinates.reduce((area, polygon) => area + getPolygonArea(polygon), 0);
+    case "GeometryCollection":
+      return geometry.geometries.reduce((area, child) => area + getGeometryArea(child), 0);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * 2 点間の大円距離 (m)
+ */
+export function getDistance([lon1, lat1]: Position, [lon2, lat2]: Position): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * 線の長さ (m)
+ */
+export function getLineLength(positions: Position[]): number {
+  let length = 0;
+  for (let i = 1; i < positions.length; i++) {
+    length += getDistance(positions[i - 1], positions[i]);
+  }
+  return length;
+}
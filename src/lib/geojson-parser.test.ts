@@ -0,0 +1,161 @@
+import { describe, it, expect } from "vitest";
+import type { Point } from "geojson";
+import {
+  isGeoJsonFile,
+  parseGeoJsonFile,
+  parseLineDelimitedGeoJson,
+  toFeatureCollection,
+} from "./geojson-parser";
+
+const POINT_FEATURE = {
+  type: "Feature",
+  geometry: { type: "Point", coordinates: [139.7, 35.6] },
+  properties: { name: "東京" },
+};
+
+describe("isGeoJsonFile", () => {
+  it.each(["a.geojson", "a.JSON", "a.topojson", "a.ndjson", "a.geojsonl"])(
+    "%s を対象とする",
+    (name) => {
+      expect(isGeoJsonFile(new File([""], name))).toBe(true);
+    }
+  );
+
+  it("Shapefile は対象外", () => {
+    expect(isGeoJsonFile(new File([""], "a.shp"))).toBe(false);
+  });
+});
+
+describe("toFeatureCollection", () => {
+  it("FeatureCollection の properties を正規化する", () => {
+    // Arrange
+    const value = {
+      type: "FeatureCollection",
+      features: [POINT_FEATURE, { type: "Feature", geometry: null, properties: null }],
+    };
+
+    // Act
+    const result = toFeatureCollection(value);
+
+    // Assert
+    expect(result.features).toHaveLength(2);
+    expect(result.features[1].properties).toEqual({});
+  });
+
+  it("単独の Feature と Geometry を FeatureCollection に包む", () => {
+    expect(toFeatureCollection(POINT_FEATURE).features).toHaveLength(1);
+    expect(toFeatureCollection(POINT_FEATURE.geometry).features[0]).toEqual({
+      type: "Feature",
+      geometry: POINT_FEATURE.geometry,
+      properties: {},
+    });
+  });
+
+  it("TopoJSON の全オブジェクトをフィーチャーに変換する", () => {
+    // Arrange
+    const topology = {
+      type: "Topology",
+      arcs: [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+      objects: {
+        areas: {
+          type: "GeometryCollection",
+          geometries: [{ type: "Polygon", arcs: [[0]], properties: { code: "13101" } }],
+        },
+        stations: { type: "Point", coordinates: [0.5, 0.5] },
+      },
+    };
+
+    // Act
+    const result = toFeatureCollection(topology);
+
+    // Assert
+    expect(result.features.map((f) => f.geometry.type)).toEqual(["Polygon", "Point"]);
+    expect(result.features[0].properties).toEqual({ code: "13101" });
+  });
+
+  it("crs メンバーの EPSG コードから経緯度に変換する", () => {
+    // Arrange - JGD2011 平面直角座標系 IX 系の原点
+    const value = {
+      type: "FeatureCollection",
+      crs: { type: "name", properties: { name: "urn:ogc:def:crs:EPSG::6677" } },
+      features: [{ ...POINT_FEATURE, geometry: { type: "Point", coordinates: [0, 0] } }],
+    };
+
+    // Act
+    const result = toFeatureCollection(value);
+
+    // Assert
+    const [lon, lat] = (result.features[0].geometry as Point).coordinates;
+    expect(lon).toBeCloseTo(139 + 5 / 6, 6);
+    expect(lat).toBeCloseTo(36, 6);
+  });
+
+  it("不正なジオメトリは位置付きのエラーにする", () => {
+    // Arrange
+    const value = {
+      type: "FeatureCollection",
+      features: [POINT_FEATURE, { type: "Feature", geometry: { type: "Point" }, properties: {} }],
+    };
+
+    // Act & Assert
+    expect(() => toFeatureCollection(value)).toThrow("2 番目のフィーチャーのジオメトリが不正です");
+  });
+
+  it("未対応の種類はエラーにする", () => {
+    expect(() => toFeatureCollection({ type: "Unknown" })).toThrow(
+      "未対応の GeoJSON の種類です: Unknown"
+    );
+  });
+});
+
+describe("parseLineDelimitedGeoJson", () => {
+  it("1 行 1 フィーチャーで読み込み、空行を無視する", () => {
+    // Arrange
+    const text = `${JSON.stringify(POINT_FEATURE)}\n\n${JSON.stringify(POINT_FEATURE)}\r\n`;
+
+    // Act
+    const result = parseLineDelimitedGeoJson(text);
+
+    // Assert
+    expect(result.features).toHaveLength(2);
+  });
+
+  it("JSON として読めない行は行番号付きのエラーにする", () => {
+    expect(() => parseLineDelimitedGeoJson(`${JSON.stringify(POINT_FEATURE)}\n{`)).toThrow(
+      "2 行目を JSON として読み込めません"
+    );
+  });
+});
+
+describe("parseGeoJsonFile", () => {
+  it("拡張子に応じて解析する", async () => {
+    // Arrange
+    const geojson = new File([JSON.stringify(POINT_FEATURE)], "a.geojson");
+    const ndjson = new File([JSON.stringify(POINT_FEATURE)], "a.ndjson");
+
+    // Act & Assert
+    expect((await parseGeoJsonFile(geojson)).features).toHaveLength(1);
+    expect((await parseGeoJsonFile(ndjson)).features).toHaveLength(1);
+  });
+
+  it("JSON として読めない場合はエラーにする", async () => {
+    await expect(parseGeoJsonFile(new File(["{"], "a.json"))).rejects.toThrow(
+      "JSON として読み込めません"
+    );
+  });
+
+  it("フィーチャーがない場合はエラーにする", async () => {
+    // Arrange
+    const file = new File([JSON.stringify({ type: "FeatureCollection", features: [] })], "a.json");
+
+    // Act & Assert
+    await expect(parseGeoJsonFile(file)).rejects.toThrow("フィーチャーが含まれていません");
+  });
+});
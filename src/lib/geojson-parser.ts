@@ -0,0 +1,190 @@
+import type { Feature, FeatureCollection, GeoJsonObject, Geometry } from "geojson";
+import { feature as topojsonFeature } from "topojson-client";
+import type { Topology } from "topojson-specification";
+import { getCrsByEpsg, reprojectFeatureCollection } from "@/lib/projection";
+
+/**
+ * GeoJSON / TopoJSON / 改行区切り GeoJSON の読み込み
+ */
+
+/** 読み込み対象の拡張子 */
+const GEOJSON_EXTENSIONS = ["geojson", "json", "topojson", "ndjson", "geojsonl"];
+
+// 1 行に 1 フィーチャーを記述する形式
+const LINE_DELIMITED_EXTENSIONS = ["ndjson", "geojsonl"];
+
+const GEOMETRY_TYPES = [
+  "Point",
+  "MultiPoint",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+  "GeometryCollection",
+];
+
+function getExtension(name: string): string {
+  return name.toLowerCase().split(".").pop() ?? "";
+}
+
+/**
+ * GeoJSON 系のファイルか (拡張子で判定)
+ */
+export function isGeoJsonFile(file: File): boolean {
+  return GEOJSON_EXTENSIONS.includes(getExtension(file.name));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isGeometry(value: unknown): value is Geometry {
+  if (!isObject(value) || !GEOMETRY_TYPES.includes(value.type as string)) return false;
+  if (value.type === "GeometryCollection") {
+    return Array.isArray(value.geometries) && value.geometries.every(isGeometry);
+  }
+  return Array.isArray(value.coordinates);
+}
+
+/**
+ * フィーチャーを検証し、properties を正規化する
+ * @param position - エラーメッセージ用の位置 (例: "3 番目のフィーチャー")
+ */
+function toFeature(value: unknown, position: string): Feature {
+  if (!isObject(value) || value.type !== "Feature") {
+    throw new Error(`${position}が Feature ではありません`);
+  }
+  if (value.geometry !== null && !isGeometry(value.geometry)) {
+    throw new Error(`${position}のジオメトリが不正です`);
+  }
+  if (value.properties !== undefined && value.properties !== null && !isObject(value.properties)) {
+    throw new Error(`${position}の properties がオブジェクトではありません`);
+  }
+  return {
+    ...(value as unknown as Feature),
+    // フィルターや名称生成で参照するため、属性なしは空オブジェクトにそろえる
+    properties: (value.properties as Feature["properties"]) ?? {},
+  };
+}
+
+/**
+ * 旧仕様 (2008) の crs メンバーから EPSG コードを取得
+ * 例: "urn:ogc:def:crs:EPSG::6677", "EPSG:6677"
+ */
+function getLegacyCrsCode(value: Record<string, unknown>): number | null {
+  const crs = value.crs;
+  if (!isObject(crs) || !isObject(crs.properties)) return null;
+  const name = String(crs.properties.name ?? "");
+  if (/CRS84$/i.test(name)) return null;
+  const match = name.match(/EPSG:+(\d+)$/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * TopoJSON の全オブジェクトを 1 つの FeatureCollection にまとめる
+ */
+function topologyToFeatureCollection(topology: Topology): FeatureCollection {
+  if (!isObject(topology.objects) || !Array.isArray(topology.arcs)) {
+    throw new Error("TopoJSON の objects または arcs が不正です");
+  }
+  const features: Feature[] = [];
+  for (const [name, object] of Object.entries(topology.objects)) {
+    const converted = topojsonFeature(topology, object) as Feature | FeatureCollection;
+    const list = converted.type === "FeatureCollection" ? converted.features : [converted];
+    for (const [i, f] of list.entries()) {
+      features.push(toFeature(f, `${name} の ${i + 1} 番目のフィーチャー`));
+    }
+  }
+  return { type: "FeatureCollection", features };
+}
+
+/**
+ * GeoJSON オブジェクト (FeatureCollection / Feature / Geometry / Topology) を FeatureCollection に変換
+ */
+export function toFeatureCollection(value: unknown): FeatureCollection {
+  if (!isObject(value)) {
+    throw new Error("GeoJSON のオブジェクトではありません");
+  }
+
+  let collection: FeatureCollection;
+  if (value.type === "Topology") {
+    collection = topologyToFeatureCollection(value as unknown as Topology);
+  } else if (value.type === "FeatureCollection") {
+    if (!Array.isArray(value.features)) {
+      throw new Error("FeatureCollection に features 配列がありません");
+    }
+    collection = {
+      type: "FeatureCollection",
+      features: value.features.map((f, i) => toFeature(f, `${i + 1} 番目のフィーチャー`)),
+    };
+  } else if (value.type === "Feature") {
+    collection = { type: "FeatureCollection", features: [toFeature(value, "フィーチャー")] };
+  } else if (isGeometry(value)) {
+    collection = {
+      type: "FeatureCollection",
+      features: [{ type: "Feature", geometry: value, properties: {} }],
+    };
+  } else {
+    throw new Error(`未対応の GeoJSON の種類です: ${String(value.type)}`);
+  }
+
+  // 座標系が明示されている場合は WGS84 経緯度に変換する
+  const epsg = getLegacyCrsCode(value);
+  if (epsg !== null) {
+    const crs = getCrsByEpsg(epsg);
+    if (!crs) {
+      throw new Error(`未対応の座標系です: EPSG:${epsg}`);
+    }
+    return reprojectFeatureCollection(collection, crs);
+  }
+  return collection;
+}
+
+/**
+ * 改行区切り GeoJSON (1 行 1 フィーチャー) を解析
+ */
+export function parseLineDelimitedGeoJson(text: string): FeatureCollection {
+  const features: Feature[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    // レコード区切り文字 (RFC 8142 の GeoJSON Text Sequences) も許容する
+    const trimmed = (line.startsWith("\u001e") ? line.slice(1) : line).trim();
+    if (trimmed === "") return;
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`${i + 1} 行目を JSON として読み込めません`);
+    }
+    if (isObject(value) && value.type === "FeatureCollection") {
+      features.push(...toFeatureCollection(value).features);
+    } else {
+      features.push(toFeature(value, `${i + 1} 行目`));
+    }
+  });
+  return { type: "FeatureCollection", features };
+}
+
+/**
+ * GeoJSON 系のファイルを解析して FeatureCollection に変換
+ */
+export async function parseGeoJsonFile(file: File): Promise<FeatureCollection> {
+  const text = await file.text();
+
+  let collection: FeatureCollection;
+  if (LINE_DELIMITED_EXTENSIONS.includes(getExtension(file.name))) {
+    collection = parseLineDelimitedGeoJson(text);
+  } else {
+    let value: GeoJsonObject | Topology;
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new Error("JSON として読み込めません");
+    }
+    collection = toFeatureCollection(value);
+  }
+
+  if (collection.features.length === 0) {
+    throw new Error("フィーチャーが含まれていません");
+  }
+  return collection;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection } from "geojson";
+import {
+  getTransferables,
+  packFeatureCollection,
+  unpackFeatureCollection,
+} from "./geojson-transfer";
+
+describe("packFeatureCollection / unpackFeatureCollection", () => {
+  it("各ジオメトリ種別と属性を復元する", () => {
+    // Arrange
+    const collection: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [139.7, 35.6] },
+          properties: { name: "東京" },
+        },
+        {
+          type: "Feature",
+          geometry: {
+            type: "LineString",
+            coordinates: [
+              [0, 0],
+              [1, 1],
+            ],
+          },
+          properties: null,
+        },
+        {
+          type: "Feature",
+          geometry: {
+            type: "MultiPolygon",
+            coordinates: [
+              [
+                [
+                  [0, 0],
+                  [1, 0],
+                  [1, 1],
+                  [0, 0],
+                ],
+              ],
+              [
+                [
+                  [2, 2],
+                  [3, 2],
+                  [3, 3],
+                  [2, 2],
+                ],
+              ],
+            ],
+          },
+          properties: { code: 1 },
+        },
+        {
+          type: "Feature",
+          geometry: null as never,
+          properties: { code: 2 },
+        },
+        {
+          type: "Feature",
+          geometry: {
+            type: "GeometryCollection",
+            geometries: [{ type: "Point", coordinates: [1, 2] }],
+          },
+          properties: {},
+        },
+      ],
+    };
+
+    // Act
+    const result = unpackFeatureCollection(packFeatureCollection(collection));
+
+    // Assert
+    expect(result).toEqual(collection);
+  });
+
+  it("座標とジオメトリ構造を転送可能なバッファにまとめる", () => {
+    // Arrange
+    const packed = packFeatureCollection({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [139.7, 35.6] },
+          properties: {},
+        },
+      ],
+    });
+
+    // Act
+    const transferables = getTransferables(packed);
+
+    // Assert
+    expect(transferables).toHaveLength(3);
+    expect(Array.from(packed.coordinates)).toEqual([139.7, 35.6]);
+  });
+});
@@ -0,0 +1,171 @@
+import type { Feature, FeatureCollection, GeoJsonProperties, Geometry, Position } from "geojson";
+
+/**
+ * Worker とメインスレッド間で FeatureCollection を効率よく受け渡すための変換
+ *
+ * 座標は Float64Array、ジオメトリ構造は Uint32Array / Uint8Array に詰めて
+ * Transferable としてコピーなしで転送する。属性は構造化複製で渡す (Date 等を保持)。
+ * 座標は 2 次元 (x, y) のみ保持する。
+ */
+
+// ジオメトリ種別コード
+const GEOMETRY_CODES = {
+  Point: 1,
+  MultiPoint: 2,
+  LineString: 3,
+  MultiLineString: 4,
+  Polygon: 5,
+  MultiPolygon: 6,
+} as const;
+
+type PackableType = keyof typeof GEOMETRY_CODES;
+
+const NULL_GEOMETRY = 0;
+// 詰められないジオメトリ (GeometryCollection) は extras で構造化複製する
+const EXTRA_GEOMETRY = 255;
+
+export interface PackedFeatureCollection {
+  /** フィーチャーごとのジオメトリ種別コード */
+  types: Uint8Array;
+  /** ジオメトリ構造 (点数・リング数など) を先頭から順に並べたもの */
+  lengths: Uint32Array;
+  /** 全座標 (x0, y0, x1, y1, ...) */
+  coordinates: Float64Array;
+  properties: GeoJsonProperties[];
+  /** 詰められなかったジオメトリ (フィーチャーインデックス -> ジオメトリ) */
+  extras: Record<number, Geometry>;
+}
+
+function isPackable(geometry: Geometry): geometry is Extract<Geometry, { type: PackableType }> {
+  return geometry.type in GEOMETRY_CODES;
+}
+
+/**
+ * FeatureCollection を転送用の配列に変換
+ */
+export function packFeatureCollection(collection: FeatureCollection): PackedFeatureCollection {
+  const lengths: number[] = [];
+  const coordinates: number[] = [];
+  const features = collection.features;
+  const types = new Uint8Array(features.length);
+  const extras: Record<number, Geometry> = {};
+
+  const pushLine = (line: Position[]) => {
+    lengths.push(line.length);
+    for (const position of line) coordinates.push(position[0], position[1]);
+  };
+  const pushLines = (lines: Position[][]) => {
+    lengths.push(lines.length);
+    for (const line of lines) pushLine(line);
+  };
+
+  features.forEach((feature, i) => {
+    const geometry = feature.geometry;
+    if (!geometry) {
+      types[i] = NULL_GEOMETRY;
+      return;
+    }
+    if (!isPackable(geometry)) {
+      types[i] = EXTRA_GEOMETRY;
+      extras[i] = geometry;
+      return;
+    }
+    types[i] = GEOMETRY_CODES[geometry.type];
+    switch (geometry.type) {
+      case "Point":
+        coordinates.push(geometry.coordinates[0], geometry.coordinates[1]);
+        break;
+      case "MultiPoint":
+      case "LineString":
+        pushLine(geometry.coordinates);
+        break;
+      case "MultiLineString":
+      case "Polygon":
+        pushLines(geometry.coordinates);
+        break;
+      case "MultiPolygon":
+        lengths.push(geometry.coordinates.length);
+        for (const polygon of geometry.coordinates) pushLines(polygon);
+        break;
+    }
+  });
+
+  return {
+    types,
+    lengths: Uint32Array.from(lengths),
+    coordinates: Float64Array.from(coordinates),
+    properties: features.map((f) => f.properties),
+    extras,
+  };
+}
+
+/**
+ * postMessage の transfer リストに渡すバッファ
+ */
+export function getTransferables(packed: PackedFeatureCollection): ArrayBuffer[] {
+  return [packed.types.buffer, packed.lengths.buffer, packed.coordinates.buffer] as ArrayBuffer[];
+}
+
+/**
+ * 転送用の配列から FeatureCollection を復元
+ */
+export function unpackFeatureCollection(packed: PackedFeatureCollection): FeatureCollection {
+  const { types, lengths, coordinates, properties, extras } = packed;
+  let lengthIndex = 0;
+  let coordIndex = 0;
+
+  const readPosition = (): Position => {
+    const position = [coordinates[coordIndex], coordinates[coordIndex + 1]];
+    coordIndex += 2;
+    return position;
+  };
+  const readLine = (): Position[] => {
+    const count = lengths[lengthIndex++];
+    const line: Position[] = new Array(count);
+    for (let i = 0; i < count; i++) line[i] = readPosition();
+    return line;
+  };
+  const readLines = (): Position[][] => {
+    const count = lengths[lengthIndex++];
+    const lines: Position[][] = new Array(count);
+    for (let i = 0; i < count; i++) lines[i] = readLine();
+    return lines;
+  };
+
+  const readGeometry = (code: number, index: number): Geometry | null => {
+    switch (code) {
+      case GEOMETRY_CODES.Point:
+        return { type: "Point", coordinates: readPosition() };
+      case GEOMETRY_CODES.MultiPoint:
+        return { type: "MultiPoint", coordinates: readLine() };
+      case GEOMETRY_CODES.LineString:
+        return { type: "LineString", coordinates: readLine() };
+      case GEOMETRY_CODES.MultiLineString:
+        return { type: "MultiLineString", coordinates: readLines() };
+      case GEOMETRY_CODES.Polygon:
+        return { type: "Polygon", coordinates: readLines() };
+      case GEOMETRY_CODES.MultiPolygon: {
+        const count = lengths[lengthIndex++];
+        const polygons: Position[][][] = new Array(count);
+        for (let i = 0; i < count; i++) polygons[i] = readLines();
+        return { type: "MultiPolygon", coordinates: polygons };
+      }
+      case EXTRA_GEOMETRY:
+        return extras[index] ?? null;
+      default:
+        return null;
+    }
+  };
+
+  const features: Feature[] = new Array(types.length);
+  for (let i = 0; i < types.length; i++) {
+    features[i] = {
+      type: "Feature",
+      // shapefile ライブラリと同様、ジオメトリのないレコードは geometry: null
+      geometry: readGeometry(types[i], i) as Geometry,
+      properties: properties[i],
+    };
+  }
+
+  return { type: "FeatureCollection", features };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { boundsContains, getBoundsCenter, getGeometryBounds } from "./geometry-bounds";
+
+describe("getGeometryBounds", () => {
+  it("マルチポリゴンの全座標から外接矩形を求める", () => {
+    // Act
+    const bounds = getGeometryBounds({
+      type: "MultiPolygon",
+      coordinates: [
+        [
+          [
+            [139, 35],
+            [140, 35],
+            [140, 36],
+            [139, 35],
+          ],
+        ],
+        [
+          [
+            [141, 34],
+            [142, 34],
+            [142, 35],
+            [141, 34],
+          ],
+        ],
+      ],
+    });
+
+    // Assert
+    expect(bounds).toEqual([139, 34, 142, 36]);
+  });
+
+  it("ジオメトリコレクションの子ジオメトリも含める", () => {
+    expect(
+      getGeometryBounds({
+        type: "GeometryCollection",
+        geometries: [
+          { type: "Point", coordinates: [139, 35] },
+          {
+            type: "LineString",
+            coordinates: [
+              [140, 36],
+              [141, 37],
+            ],
+          },
+        ],
+      })
+    ).toEqual([139, 35, 141, 37]);
+  });
+
+  it("ジオメトリがない・座標がない場合は null を返す", () => {
+    expect(getGeometryBounds(null)).toBeNull();
+    expect(getGeometryBounds({ type: "MultiPoint", coordinates: [] })).toBeNull();
+  });
+});
+
+describe("getBoundsCenter / boundsContains", () => {
+  it("中心を求め、点が含まれるか判定する", () => {
+    const bounds: [number, number, number, number] = [139, 35, 141, 37];
+    expect(getBoundsCenter(bounds)).toEqual([140, 36]);
+    expect(boundsContains(bounds, [139, 37])).toBe(true);
+    expect(boundsContains(bounds, [138.9, 36])).toBe(false);
+  });
+});
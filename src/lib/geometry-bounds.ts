@@ -0,0 +1,68 @@
+import type { Geometry, Position } from "geojson";
+
+/**
+ * ジオメトリの外接矩形 [西, 南, 東, 北]
+ */
+export type Bounds = [number, number, number, number];
+
+/**
+ * ジオメトリに含まれる全座標を順に返す
+ */
+export function* iterateCoordinates(geometry: Geometry): Generator<Position> {
+  switch (geometry.type) {
+    case "Point":
+      yield geometry.coordinates;
+      break;
+    case "MultiPoint":
+    case "LineString":
+      yield* geometry.coordinates;
+      break;
+    case "MultiLineString":
+    case "Polygon":
+      for (const line of geometry.coordinates) yield* line;
+      break;
+    case "MultiPolygon":
+      for (const polygon of geometry.coordinates) {
+        for (const ring of polygon) yield* ring;
+      }
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) yield* iterateCoordinates(child);
+      break;
+  }
+}
+
+/**
+ * ジオメトリの外接矩形 (座標がない場合は null)
+ */
+export function getGeometryBounds(geometry: Geometry | null): Bounds | null {
+  if (!geometry) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of iterateCoordinates(geometry)) {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  return minX <= maxX ? [minX, minY, maxX, maxY] : null;
+}
+
+/**
+ * 外接矩形の中心
+ */
+export function getBoundsCenter([minX, minY, maxX, maxY]: Bounds): [number, number] {
+  return [(minX + maxX) / 2, (minY + maxY) / 2];
+}
+
+/**
+ * 点が外接矩形に含まれるか
+ */
+export function boundsContains(
+  [minX, minY, maxX, maxY]: Bounds,
+  [x, y]: [number, number]
+): boolean {
+  return x >= minX && x <= maxX && y >= minY && y <= maxY;
+}
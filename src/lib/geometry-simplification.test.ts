@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import type { Feature, FeatureCollection, Polygon, Position } from "geojson";
+import {
+  getSimplificationLevel,
+  getSimplifiedGeoJson,
+  SIMPLIFICATION_LEVELS,
+  simplifyFeatureCollection,
+} from "./geometry-simplification";
+
+// y = 0 から y = 1 の間を細かく揺れる境界線 (x = 1 付近)
+function createWigglyBorder(count: number): Position[] {
+  return Array.from({ length: count + 1 }, (_, i) => [1 + (i % 2) * 0.001, i / count]);
+}
+
+function createPolygon(ring: Position[], properties: Record<string, unknown> = {}): Feature {
+  return { type: "Feature", geometry: { type: "Polygon", coordinates: [ring] }, properties };
+}
+
+// 揺れる境界線を共有する左右の 2 つのポリゴン
+function createAdjacentPolygons(count: number): FeatureCollection {
+  const border = createWigglyBorder(count);
+  const left = [[0, 0], ...border, [0, 1], [0, 0]];
+  const right = [[2, 1], ...[...border].reverse(), [2, 0], [2, 1]];
+  return {
+    type: "FeatureCollection",
+    features: [createPolygon(left, { name: "left" }), createPolygon(right, { name: "right" })],
+  };
+}
+
+const key = (p: Position) => `${p[0]},${p[1]}`;
+
+function getRing(feature: Feature): Position[] {
+  return (feature.geometry as Polygon).coordinates[0];
+}
+
+describe("getSimplificationLevel", () => {
+  it("ズームが小さいほど粗いレベルを使い、大きなズームでは null を返す", () => {
+    // Assert
+    expect(getSimplificationLevel(5)).toBe(0);
+    expect(getSimplificationLevel(8)).toBe(0);
+    expect(getSimplificationLevel(9)).toBe(1);
+    expect(getSimplificationLevel(13)).toBe(2);
+    expect(getSimplificationLevel(14)).toBeNull();
+    expect(SIMPLIFICATION_LEVELS[0].tolerance).toBeGreaterThan(SIMPLIFICATION_LEVELS[1].tolerance);
+  });
+});
+
+describe("simplifyFeatureCollection", () => {
+  it("許容誤差より小さな揺れの頂点を減らす", () => {
+    // Arrange
+    const geojson = createAdjacentPolygons(100);
+
+    // Act
+    const result = simplifyFeatureCollection(geojson, 0.01);
+
+    // Assert
+    expect(getRing(result.features[0]).length).toBeLessThan(getRing(geojson.features[0]).length);
+    expect(getRing(result.features[0]).length).toBeGreaterThanOrEqual(4);
+  });
+
+  it("隣り合うポリゴンの共有する境界線を同じ頂点で簡略化する", () => {
+    // Arrange
+    const geojson = createAdjacentPolygons(100);
+
+    // Act
+    const result = simplifyFeatureCollection(geojson, 0.01);
+
+    // Assert: 境界線上 (x が 1 付近) に残った頂点が左右で一致する
+    const borderPoints = (feature: Feature) =>
+      new Set(
+        getRing(feature)
+          .filter(([x]) => x >= 1 && x < 1.5)
+          .map(key)
+      );
+    expect(borderPoints(result.features[0])).toEqual(borderPoints(result.features[1]));
+  });
+
+  it("リングを閉じたまま、小さなリングもつぶさない", () => {
+    // Arrange
+    const ring = [
+      [0, 0],
+      [0.0001, 0],
+      [0.0001, 0.0001],
+      [0, 0.0001],
+      [0, 0],
+    ];
+    const geojson: FeatureCollection = {
+      type: "FeatureCollection",
+      features: [createPolygon(ring)],
+    };
+
+    // Act
+    const result = getRing(simplifyFeatureCollection(geojson, 1).features[0]);
+
+    // Assert
+    expect(result.length).toBeGreaterThanOrEqual(4);
+    expect(result[0]).toEqual(result[result.length - 1]);
+  });
+
+  it("フィーチャーの順とプロパティを保ち、ポイントはそのままにする", () => {
+    // Arrange
+    const point: Feature = {
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [139, 35] },
+      properties: { name: "point" },
+    };
+    const geojson = createAdjacentPolygons(10);
+    geojson.features.push(point);
+
+    // Act
+    const result = simplifyFeatureCollection(geojson, 0.01);
+
+    // Assert
+    expect(result.features.map((f) => f.properties)).toEqual(
+      geojson.features.map((f) => f.properties)
+    );
+    expect(result.features[0].properties).toBe(geojson.features[0].properties);
+    expect(result.features[2].geometry).toBe(point.geometry);
+  });
+});
+
+describe("getSimplifiedGeoJson", () => {
+  it("頂点の少ないレイヤーや大きなズームでは元の GeoJSON を返す", () => {
+    // Arrange
+    const geojson = createAdjacentPolygons(10);
+
+    // Act & Assert
+    expect(getSimplifiedGeoJson(geojson, 0)).toBe(geojson);
+    expect(getSimplifiedGeoJson(geojson, null)).toBe(geojson);
+  });
+
+  it("頂点の多いレイヤーは簡略化した結果を保持して返す", () => {
+    // Arrange
+    const geojson = createAdjacentPolygons(20000);
+
+    // Act
+    const coarse = getSimplifiedGeoJson(geojson, 0);
+
+    // Assert
+    expect(coarse).not.toBe(geojson);
+    expect(getRing(coarse.features[0]).length).toBeLessThan(getRing(geojson.features[0]).length);
+    expect(getSimplifiedGeoJson(geojson, 0)).toBe(coarse);
+  });
+});
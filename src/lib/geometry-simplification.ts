@@ -0,0 +1,388 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { iterateCoordinates } from "@/lib/geometry-bounds";
+
+/**
+ * ズームに応じた表示用のジオメトリの簡略化
+ * 隣り合うポリゴンの境界線が離れないよう、リング・ラインを共有する頂点 (接合点) で
+ * 区切った線分 (アーク) ごとに簡略化し、同じアークには同じ結果を使う
+ *
+ * 簡略化したジオメトリは描画だけに使い、クリック・出力・エリアの集計は元のジオメトリを使う
+ */
+
+/**
+ * 簡略化のレベル
+ */
+export interface SimplificationLevel {
+  /** このレベルを使う最大のズーム */
+  maxZoom: number;
+  /** 許容誤差 (度) */
+  tolerance: number;
+}
+
+// ズーム z での 1 ピクセルの大きさ (度、256px タイル)
+function pixelSize(zoom: number): number {
+  return 360 / (256 * 2 ** zoom);
+}
+
+/**
+ * 簡略化のレベル (ズームの小さい順)
+ * 許容誤差は各レベルの最大ズームでの半ピクセル。これより大きなズームでは元のジオメトリを描画する
+ */
+export const SIMPLIFICATION_LEVELS: SimplificationLevel[] = [8, 11, 13].map((maxZoom) => ({
+  maxZoom,
+  tolerance: pixelSize(maxZoom) / 2,
+}));
+
+// 簡略化するレイヤーの最小の頂点数 (これより小さなレイヤーはそのまま描画する)
+export const MIN_SIMPLIFICATION_VERTICES = 20000;
+
+/**
+ * ズームで使う簡略化のレベル (元のジオメトリを描画する場合は null)
+ */
+export function getSimplificationLevel(zoom: number): number | null {
+  const level = SIMPLIFICATION_LEVELS.findIndex((l) => zoom <= l.maxZoom);
+  return level >= 0 ? level : null;
+}
+
+const pointKey = (p: Position) => `${p[0]},${p[1]}`;
+
+/**
+ * 接合点 (3 本以上の線が集まる頂点・ラインの端点)
+ */
+interface Topology {
+  junctions: Set<string>;
+}
+
+// 連続する重複点と閉じる点を除いたリング (頂点が 3 未満の場合は null)
+function openRing(ring: Position[]): Position[] | null {
+  const points: Position[] = [];
+  for (const p of ring) {
+    const last = points[points.length - 1];
+    if (!last || last[0] !== p[0] || last[1] !== p[1]) points.push(p);
+  }
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first[0] === last[0] && first[1] === last[1]) points.pop();
+  return points.length >= 3 ? points : null;
+}
+
+function dedupeLine(line: Position[]): Position[] {
+  return line.filter((p, i) => i === 0 || p[0] !== line[i - 1][0] || p[1] !== line[i - 1][1]);
+}
+
+// ジオメトリのリングとラインを返す
+function collectLines(geometry: Geometry | null, rings: Position[][], lines: Position[][]) {
+  if (!geometry) return;
+  switch (geometry.type) {
+    case "Polygon":
+      rings.push(...geometry.coordinates);
+      break;
+    case "MultiPolygon":
+      for (const polygon of geometry.coordinates) rings.push(...polygon);
+      break;
+    case "LineString":
+      lines.push(geometry.coordinates);
+      break;
+    case "MultiLineString":
+      lines.push(...geometry.coordinates);
+      break;
+    case "GeometryCollection":
+      for (const child of geometry.geometries) collectLines(child, rings, lines);
+      break;
+  }
+}
+
+/**
+ * 接合点を求める
+ * 前後の頂点の組が出現ごとに異なる頂点は、複数の線が分かれる点とみなす
+ */
+function buildTopology(geojson: FeatureCollection): Topology {
+  const neighbors = new Map<string, [string, string]>();
+  const junctions = new Set<string>();
+
+  const visit = (key: string, a: string, b: string) => {
+    const existing = neighbors.get(key);
+    if (!existing) {
+      neighbors.set(key, [a, b]);
+      return;
+    }
+    const isSame =
+      (existing[0] === a && existing[1] === b) || (existing[0] === b && existing[1] === a);
+    if (!isSame) junctions.add(key);
+  };
+
+  for (const feature of geojson.features) {
+    const rings: Position[][] = [];
+    const lines: Position[][] = [];
+    collectLines(feature.geometry, rings, lines);
+
+    for (const ring of rings) {
+      const points = openRing(ring);
+      if (!points) continue;
+      const keys = points.map(pointKey);
+      for (let i = 0; i < keys.length; i++) {
+        visit(keys[i], keys[(i - 1 + keys.length) % keys.length], keys[(i + 1) % keys.length]);
+      }
+    }
+    for (const line of lines) {
+      const points = dedupeLine(line);
+      if (points.length < 2) continue;
+      const keys = points.map(pointKey);
+      junctions.add(keys[0]);
+      junctions.add(keys[keys.length - 1]);
+      for (let i = 1; i < keys.length - 1; i++) visit(keys[i], keys[i - 1], keys[i + 1]);
+    }
+  }
+  return { junctions };
+}
+
+// 点 p と線分 ab の距離の 2 乗
+function segmentDistanceSq(p: Position, a: Position, b: Position): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  let t = lengthSq === 0 ? 0 : ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq;
+  t = Math.max(0, Math.min(1, t));
+  const x = a[0] + t * dx - p[0];
+  const y = a[1] + t * dy - p[1];
+  return x * x + y * y;
+}
+
+/**
+ * Douglas-Peucker 法で線を簡略化する
+ * リングがつぶれないよう、中間の頂点があれば最も離れた 1 点は必ず残す
+ */
+function douglasPeucker(points: Position[], tolerance: number): Position[] {
+  const last = points.length - 1;
+  if (last < 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[last] = 1;
+  const toleranceSq = tolerance * tolerance;
+
+  let farthest = 1;
+  let farthestDistance = -1;
+  const stack: [number, number][] = [[0, last]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop() as [number, number];
+    // 同じ距離の頂点は中央に近いものを選び、分割が偏らないようにする
+    const middle = (start + end) / 2;
+    let maxDistance = -1;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = segmentDistanceSq(points[i], points[start], points[end]);
+      if (
+        distance > maxDistance ||
+        (distance === maxDistance && Math.abs(i - middle) < Math.abs(maxIndex - middle))
+      ) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex < 0) continue;
+    if (start === 0 && end === last) {
+      farthest = maxIndex;
+      farthestDistance = maxDistance;
+    }
+    if (maxDistance > toleranceSq) {
+      keep[maxIndex] = 1;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+  if (farthestDistance >= 0) keep[farthest] = 1;
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * アークを簡略化する (同じアークは逆向きでも同じ結果)
+ * 始点が同じアークは次の頂点で区別できるため、始点と次の頂点をキーにする
+ */
+function simplifyArc(arc: Position[], tolerance: number, cache: Map<string, Position[]>) {
+  const key = `${pointKey(arc[0])}|${pointKey(arc[1])}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const first = arc[0];
+  const last = arc[arc.length - 1];
+  let simplified: Position[];
+  if (first[0] === last[0] && first[1] === last[1]) {
+    // 閉じたアークは始点から最も遠い点で 2 つに分ける
+    let farthest = 1;
+    let farthestDistance = -1;
+    for (let i = 1; i < arc.length - 1; i++) {
+      const distance = segmentDistanceSq(arc[i], first, first);
+      if (distance > farthestDistance) {
+        farthestDistance = distance;
+        farthest = i;
+      }
+    }
+    simplified = [
+      ...douglasPeucker(arc.slice(0, farthest + 1), tolerance),
+      ...douglasPeucker(arc.slice(farthest), tolerance).slice(1),
+    ];
+  } else {
+    simplified = douglasPeucker(arc, tolerance);
+  }
+
+  cache.set(key, simplified);
+  cache.set(`${pointKey(last)}|${pointKey(arc[arc.length - 2])}`, [...simplified].reverse());
+  return simplified;
+}
+
+// 接合点の位置で区切ってアークごとに簡略化した線をつなぐ
+function simplifyBetweenJunctions(
+  points: Position[],
+  isJunction: (i: number) => boolean,
+  tolerance: number,
+  cache: Map<string, Position[]>
+): Position[] {
+  const result: Position[] = [points[0]];
+  let start = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (i === points.length - 1 || isJunction(i)) {
+      result.push(...simplifyArc(points.slice(start, i + 1), tolerance, cache).slice(1));
+      start = i;
+    }
+  }
+  return result;
+}
+
+function simplifyRing(
+  ring: Position[],
+  topology: Topology,
+  tolerance: number,
+  cache: Map<string, Position[]>
+): Position[] {
+  const points = openRing(ring);
+  if (!points) return ring;
+  const keys = points.map(pointKey);
+
+  // 接合点から始める (接合点のないリングは座標の最も小さな頂点から)
+  let start = keys.findIndex((key) => topology.junctions.has(key));
+  if (start < 0) {
+    start = 0;
+    for (let i = 1; i < points.length; i++) {
+      const [x, y] = points[i];
+      const [minX, minY] = points[start];
+      if (x < minX || (x === minX && y < minY)) start = i;
+    }
+  }
+  const rotated = [...points.slice(start), ...points.slice(0, start), points[start]];
+  const rotatedKeys = [...keys.slice(start), ...keys.slice(0, start)];
+  return simplifyBetweenJunctions(
+    rotated,
+    (i) => topology.junctions.has(rotatedKeys[i % rotatedKeys.length]),
+    tolerance,
+    cache
+  );
+}
+
+function simplifyLine(
+  line: Position[],
+  topology: Topology,
+  tolerance: number,
+  cache: Map<string, Position[]>
+): Position[] {
+  const points = dedupeLine(line);
+  if (points.length < 2) return line;
+  return simplifyBetweenJunctions(
+    points,
+    (i) => topology.junctions.has(pointKey(points[i])),
+    tolerance,
+    cache
+  );
+}
+
+function simplifyGeometry(
+  geometry: Geometry,
+  topology: Topology,
+  tolerance: number,
+  cache: Map<string, Position[]>
+): Geometry {
+  const ring = (r: Position[]) => simplifyRing(r, topology, tolerance, cache);
+  const line = (l: Position[]) => simplifyLine(l, topology, tolerance, cache);
+  switch (geometry.type) {
+    case "Polygon":
+      return { ...geometry, coordinates: geometry.coordinates.map(ring) };
+    case "MultiPolygon":
+      return { ...geometry, coordinates: geometry.coordinates.map((p) => p.map(ring)) };
+    case "LineString":
+      return { ...geometry, coordinates: line(geometry.coordinates) };
+    case "MultiLineString":
+      return { ...geometry, coordinates: geometry.coordinates.map(line) };
+    case "GeometryCollection":
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((g) => simplifyGeometry(g, topology, tolerance, cache)),
+      };
+    default:
+      return geometry;
+  }
+}
+
+function simplifyWithTopology(
+  geojson: FeatureCollection,
+  topology: Topology,
+  tolerance: number
+): FeatureCollection {
+  const cache = new Map<string, Position[]>();
+  return {
+    ...geojson,
+    features: geojson.features.map((feature): Feature =>
+      feature.geometry
+        ? { ...feature, geometry: simplifyGeometry(feature.geometry, topology, tolerance, cache) }
+        : feature
+    ),
+  };
+}
+
+/**
+ * 境界を共有したままフィーチャーを簡略化する
+ * 結果のフィーチャーは元と同じ順で、プロパティは元のオブジェクトを共有する
+ */
+export function simplifyFeatureCollection(
+  geojson: FeatureCollection,
+  tolerance: number
+): FeatureCollection {
+  return simplifyWithTopology(geojson, buildTopology(geojson), tolerance);
+}
+
+/**
+ * ライン・ポリゴンの頂点数
+ */
+export function countLineVertices(geojson: FeatureCollection): number {
+  let count = 0;
+  for (const { geometry } of geojson.features) {
+    if (!geometry || geometry.type === "Point" || geometry.type === "MultiPoint") continue;
+    for (const _ of iterateCoordinates(geometry)) count++;
+  }
+  return count;
+}
+
+// レイヤーごとの各レベルの簡略化結果 (小さなレイヤーは null)
+const simplifiedCache = new WeakMap<FeatureCollection, FeatureCollection[] | null>();
+
+/**
+ * 描画に使う GeoJSON
+ * 初めて簡略化が必要になったときに全レベルをまとめて作り、GeoJSON ごとに保持する
+ * @param level - getSimplificationLevel の結果 (null の場合は元の GeoJSON)
+ */
+export function getSimplifiedGeoJson(
+  geojson: FeatureCollection,
+  level: number | null
+): FeatureCollection {
+  if (level === null) return geojson;
+  let levels = simplifiedCache.get(geojson);
+  if (levels === undefined) {
+    if (countLineVertices(geojson) < MIN_SIMPLIFICATION_VERTICES) {
+      levels = null;
+    } else {
+      const topology = buildTopology(geojson);
+      levels = SIMPLIFICATION_LEVELS.map(({ tolerance }) =>
+        simplifyWithTopology(geojson, topology, tolerance)
+      );
+    }
+    simplifiedCache.set(geojson, levels);
+  }
+  return levels?.[level] ?? geojson;
+}
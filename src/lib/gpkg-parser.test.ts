@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import { resolve } from "node:path";
+import initSqlJs, { type SqlJsStatic } from "sql.js";
+import type { Polygon } from "geojson";
+import {
+  decodeGpkgGeometry,
+  isGeoPackageFile,
+  listGeoPackageTables,
+  parseWkb,
+  readGeoPackageTables,
+} from "./gpkg-parser";
+
+// Node では WASM をファイルから読み込む
+vi.mock("sql.js/dist/sql-wasm-browser.wasm?url", () => ({
+  default: resolve(__dirname, "../../node_modules/sql.js/dist/sql-wasm.wasm"),
+}));
+
+/**
+ * リトルエンディアンの WKB を作成
+ */
+function pointWkb(x: number, y: number, type = 1): Uint8Array {
+  const buffer = new ArrayBuffer(21 + (type === 1001 ? 8 : 0));
+  const view = new DataView(buffer);
+  view.setUint8(0, 1);
+  view.setUint32(1, type, true);
+  view.setFloat64(5, x, true);
+  view.setFloat64(13, y, true);
+  return new Uint8Array(buffer);
+}
+
+function polygonWkb(ring: [number, number][]): Uint8Array {
+  const buffer = new ArrayBuffer(9 + 4 + ring.length * 16);
+  const view = new DataView(buffer);
+  view.setUint8(0, 1);
+  view.setUint32(1, 3, true);
+  view.setUint32(5, 1, true);
+  view.setUint32(9, ring.length, true);
+  ring.forEach(([x, y], i) => {
+    view.setFloat64(13 + i * 16, x, true);
+    view.setFloat64(21 + i * 16, y, true);
+  });
+  return new Uint8Array(buffer);
+}
+
+/**
+ * GP ヘッダー (エンベロープなし) を付ける
+ */
+function gpkgBlob(wkb: Uint8Array, srsId: number): Uint8Array {
+  const blob = new Uint8Array(8 + wkb.length);
+  const view = new DataView(blob.buffer);
+  blob.set([0x47, 0x50, 0, 0x01]);
+  view.setInt32(4, srsId, true);
+  blob.set(wkb, 8);
+  return blob;
+}
+
+const JGD2011_ZONE9_WKT =
+  'PROJCS["JGD2011 / Japan Plane Rectangular CS IX",GEOGCS["JGD2011",DATUM["Japanese_Geodetic_Datum_2011",SPHEROID["GRS 1980",6378137,298.257222101]],PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["latitude_of_origin",36],PARAMETER["central_meridian",139.833333333333],PARAMETER["scale_factor",0.9999],PARAMETER["false_easting",0],PARAMETER["false_northing",0],UNIT["metre",1]]';
+
+let SQL: SqlJsStatic;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+/**
+ * ポイントテーブル (経緯度) とポリゴンテーブル (平面直角座標系) を持つ GeoPackage を作成
+ */
+function createGeoPackage(): File {
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE gpkg_spatial_ref_sys (srs_name TEXT, srs_id INTEGER PRIMARY KEY, organization TEXT, organization_coordsys_id INTEGER, definition TEXT, description TEXT);
+    CREATE TABLE gpkg_contents (table_name TEXT PRIMARY KEY, data_type TEXT, identifier TEXT);
+    CREATE TABLE gpkg_geometry_columns (table_name TEXT, column_name TEXT, geometry_type_name TEXT, srs_id INTEGER, z INTEGER, m INTEGER);
+    CREATE TABLE stations (fid INTEGER PRIMARY KEY, geom BLOB, name TEXT, passengers INTEGER);
+    CREATE TABLE blocks (fid INTEGER PRIMARY KEY, shape BLOB, code TEXT);
+    CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT);
+  `);
+  db.run(
+    "INSERT INTO gpkg_spatial_ref_sys VALUES ('WGS 84', 4326, 'EPSG', 4326, 'GEOGCS[\"WGS 84\"]', NULL), ('JGD2011 IX', 100, 'NONE', 100, ?, NULL)",
+    [JGD2011_ZONE9_WKT]
+  );
+  db.run(`
+    INSERT INTO gpkg_contents VALUES ('stations', 'features', '駅'), ('blocks', 'features', NULL), ('notes', 'attributes', NULL);
+    INSERT INTO gpkg_geometry_columns VALUES ('stations', 'geom', 'POINT', 4326, 0, 0), ('blocks', 'shape', 'POLYGON', 100, 0, 0);
+  `);
+  db.run("INSERT INTO stations VALUES (1, ?, '東京', 1000), (2, NULL, '未配置', NULL)", [
+    gpkgBlob(pointWkb(139.767, 35.681), 4326),
+  ]);
+  db.run("INSERT INTO blocks VALUES (1, ?, 'A')", [
+    gpkgBlob(
+      polygonWkb([
+        [0, 0],
+        [1000, 0],
+        [1000, 1000],
+        [0, 0],
+      ]),
+      100
+    ),
+  ]);
+  const data = db.export();
+  db.close();
+  return new File([data as BlobPart], "sample.gpkg");
+}
+
+describe("isGeoPackageFile", () => {
+  it("拡張子 .gpkg を対象とする", () => {
+    expect(isGeoPackageFile(new File([""], "a.GPKG"))).toBe(true);
+    expect(isGeoPackageFile(new File([""], "a.sqlite"))).toBe(false);
+  });
+});
+
+describe("parseWkb", () => {
+  it("ポイントを変換する", () => {
+    expect(parseWkb(pointWkb(1, 2))).toEqual({ type: "Point", coordinates: [1, 2] });
+  });
+
+  it("ISO WKB の Z 座標を捨てる", () => {
+    expect(parseWkb(pointWkb(1, 2, 1001))).toEqual({ type: "Point", coordinates: [1, 2] });
+  });
+
+  it("空のポイントは null にする", () => {
+    expect(parseWkb(pointWkb(Number.NaN, Number.NaN))).toBeNull();
+  });
+});
+
+describe("decodeGpkgGeometry", () => {
+  it("GP ヘッダーのエンベロープを読み飛ばす", () => {
+    // Arrange - XY エンベロープ (32 バイト) 付き
+    const wkb = pointWkb(1, 2);
+    const blob = new Uint8Array(8 + 32 + wkb.length);
+    blob.set([0x47, 0x50, 0, 0x03]);
+    blob.set(wkb, 40);
+
+    // Act & Assert
+    expect(decodeGpkgGeometry(blob)).toEqual({ type: "Point", coordinates: [1, 2] });
+  });
+
+  it("空ジオメトリのフラグでは null を返す", () => {
+    expect(decodeGpkgGeometry(new Uint8Array([0x47, 0x50, 0, 0x11, 0, 0, 0, 0]))).toBeNull();
+  });
+
+  it("GP ヘッダーがない場合はエラーを投げる", () => {
+    expect(() => decodeGpkgGeometry(pointWkb(1, 2))).toThrow(
+      "GeoPackage のジオメトリではありません"
+    );
+  });
+});
+
+describe("listGeoPackageTables", () => {
+  it("フィーチャーテーブルのみを一覧にする", async () => {
+    // Act
+    const tables = await listGeoPackageTables(createGeoPackage());
+
+    // Assert
+    expect(tables).toEqual([
+      {
+        name: "blocks",
+        identifier: null,
+        geometryColumn: "shape",
+        geometryType: "POLYGON",
+        srsId: 100,
+        featureCount: 1,
+      },
+      {
+        name: "stations",
+        identifier: "駅",
+        geometryColumn: "geom",
+        geometryType: "POINT",
+        srsId: 4326,
+        featureCount: 2,
+      },
+    ]);
+  });
+
+  it("GeoPackage でない SQLite はエラーにする", async () => {
+    // Arrange
+    const db = new SQL.Database();
+    db.run("CREATE TABLE t (id INTEGER)");
+    const file = new File([db.export() as BlobPart], "plain.gpkg");
+    db.close();
+
+    // Act & Assert
+    await expect(listGeoPackageTables(file)).rejects.toThrow("GeoPackage として読み込めません");
+  });
+});
+
+describe("readGeoPackageTables", () => {
+  it("ジオメトリ列以外を属性にする", async () => {
+    // Act
+    const [{ geojson }] = await readGeoPackageTables(createGeoPackage(), ["stations"]);
+
+    // Assert
+    expect(geojson.features[0]).toEqual({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [139.767, 35.681] },
+      properties: { fid: 1, name: "東京", passengers: 1000 },
+    });
+    expect(geojson.features[1].geometry).toBeNull();
+  });
+
+  it("テーブルの srs_id に従って経緯度に変換する", async () => {
+    // Act
+    const [{ geojson }] = await readGeoPackageTables(createGeoPackage(), ["blocks"]);
+
+    // Assert
+    const [lon, lat] = (geojson.features[0].geometry as Polygon).coordinates[0][0];
+    expect(lon).toBeCloseTo(139 + 5 / 6, 6);
+    expect(lat).toBeCloseTo(36, 6);
+  });
+
+  it("存在しないテーブルはエラーにする", async () => {
+    await expect(readGeoPackageTables(createGeoPackage(), ["notes"])).rejects.toThrow(
+      "フィーチャーテーブルがありません: notes"
+    );
+  });
+});
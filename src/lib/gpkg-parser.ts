@@ -0,0 +1,306 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import type { Database, SqlJsStatic, SqlValue } from "sql.js";
+import {
+  detectCrs,
+  getCrsByEpsg,
+  reprojectFeatureCollection,
+  type CrsInfo,
+} from "@/lib/projection";
+
+/**
+ * GeoPackage (.gpkg) の読み込み
+ * SQLite (WASM) でファイルを開き、フィーチャーテーブルを GeoJSON に変換する
+ */
+
+/**
+ * GeoPackage のフィーチャーテーブル
+ */
+export interface GeoPackageTable {
+  name: string;
+  /** gpkg_contents の identifier (表示名) */
+  identifier: string | null;
+  geometryColumn: string;
+  /** gpkg_geometry_columns の geometry_type_name (例: MULTIPOLYGON) */
+  geometryType: string;
+  srsId: number;
+  featureCount: number;
+}
+
+/**
+ * 読み込んだフィーチャーテーブル
+ */
+export interface GeoPackageLayer {
+  table: GeoPackageTable;
+  geojson: FeatureCollection;
+}
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * sql.js を初期化 (WASM は初回のみ読み込む)
+ */
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJsPromise ??= Promise.all([
+    import("sql.js"),
+    import("sql.js/dist/sql-wasm-browser.wasm?url"),
+  ]).then(([{ default: initSqlJs }, { default: wasmUrl }]) =>
+    initSqlJs({ locateFile: () => wasmUrl })
+  );
+  return sqlJsPromise;
+}
+
+/**
+ * GeoPackage ファイルか (拡張子で判定)
+ */
+export function isGeoPackageFile(file: File): boolean {
+  return /\.gpkg$/i.test(file.name);
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function queryRows(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const stmt = db.prepare(sql, params);
+  const rows: Record<string, SqlValue>[] = [];
+  try {
+    while (stmt.step()) rows.push(stmt.getAsObject());
+  } finally {
+    stmt.free();
+  }
+  return rows;
+}
+
+// ===== WKB =====
+
+const WKB_TYPES: Record<number, Geometry["type"]> = {
+  1: "Point",
+  2: "LineString",
+  3: "Polygon",
+  4: "MultiPoint",
+  5: "MultiLineString",
+  6: "MultiPolygon",
+  7: "GeometryCollection",
+};
+
+/**
+ * WKB (ISO / EWKB の Z・M 付きを含む) を GeoJSON に変換
+ * Z・M は捨てて 2 次元にする
+ */
+export function parseWkb(bytes: Uint8Array): Geometry | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const readGeometry = (): Geometry | null => {
+    const littleEndian = view.getUint8(offset) === 1;
+    const rawType = view.getUint32(offset + 1, littleEndian);
+    offset += 5;
+
+    // EWKB のフラグ
+    let hasZ = (rawType & 0x80000000) !== 0;
+    let hasM = (rawType & 0x40000000) !== 0;
+    if (rawType & 0x20000000) offset += 4; // SRID
+    // ISO WKB は 1000 (Z) / 2000 (M) / 3000 (ZM) を加算
+    const isoType = rawType & 0x0fffffff;
+    const dimension = Math.floor(isoType / 1000);
+    if (dimension === 1 || dimension === 3) hasZ = true;
+    if (dimension === 2 || dimension === 3) hasM = true;
+    const type = WKB_TYPES[isoType % 1000];
+    if (!type) {
+      throw new Error(`未対応のジオメトリ種別です (WKB type ${rawType})`);
+    }
+    const size = (2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0)) * 8;
+
+    const readUint32 = () => {
+      const value = view.getUint32(offset, littleEndian);
+      offset += 4;
+      return value;
+    };
+    const readPosition = (): Position => {
+      const position = [
+        view.getFloat64(offset, littleEndian),
+        view.getFloat64(offset + 8, littleEndian),
+      ];
+      offset += size;
+      return position;
+    };
+    const readLine = () => Array.from({ length: readUint32() }, readPosition);
+    const readRings = () => Array.from({ length: readUint32() }, readLine);
+    const readChildren = () =>
+      Array.from({ length: readUint32() }, readGeometry).filter((g): g is Geometry => g !== null);
+
+    switch (type) {
+      case "Point": {
+        const position = readPosition();
+        // 空のポイントは NaN で表される
+        return Number.isNaN(position[0]) ? null : { type, coordinates: position };
+      }
+      case "LineString":
+        return { type, coordinates: readLine() };
+      case "Polygon":
+        return { type, coordinates: readRings() };
+      case "MultiPoint":
+        return {
+          type,
+          coordinates: readChildren().map((g) => (g as GeoJSON.Point).coordinates),
+        };
+      case "MultiLineString":
+        return {
+          type,
+          coordinates: readChildren().map((g) => (g as GeoJSON.LineString).coordinates),
+        };
+      case "MultiPolygon":
+        return {
+          type,
+          coordinates: readChildren().map((g) => (g as GeoJSON.Polygon).coordinates),
+        };
+      case "GeometryCollection":
+        return { type, geometries: readChildren() };
+    }
+  };
+
+  return readGeometry();
+}
+
+// ===== GeoPackage ジオメトリ =====
+
+// エンベロープ種別 -> バイト数
+const ENVELOPE_SIZES = [0, 32, 48, 48, 64];
+
+/**
+ * GeoPackage のジオメトリ BLOB (GP ヘッダー + WKB) を GeoJSON に変換
+ */
+export function decodeGpkgGeometry(blob: Uint8Array): Geometry | null {
+  if (blob.length < 8 || blob[0] !== 0x47 || blob[1] !== 0x50) {
+    throw new Error("GeoPackage のジオメトリではありません");
+  }
+  const flags = blob[3];
+  if (flags & 0x20) {
+    throw new Error("拡張ジオメトリ形式には対応していません");
+  }
+  // 空のジオメトリ
+  if (flags & 0x10) return null;
+  const envelopeSize = ENVELOPE_SIZES[(flags >> 1) & 0x07];
+  if (envelopeSize === undefined) {
+    throw new Error("ジオメトリのエンベロープが不正です");
+  }
+  return parseWkb(blob.subarray(8 + envelopeSize));
+}
+
+// ===== テーブル =====
+
+function openDatabase(SQL: SqlJsStatic, buffer: ArrayBuffer): Database {
+  const db = new SQL.Database(new Uint8Array(buffer));
+  const [contents] = queryRows(
+    db,
+    "SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name IN ('gpkg_contents', 'gpkg_geometry_columns')"
+  ).map((row) => Number(row.count));
+  if (contents !== 2) {
+    db.close();
+    throw new Error("GeoPackage として読み込めません");
+  }
+  return db;
+}
+
+function listTables(db: Database): GeoPackageTable[] {
+  return queryRows(
+    db,
+    `SELECT c.table_name, c.identifier, g.column_name, g.geometry_type_name, g.srs_id
+     FROM gpkg_contents c JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+     WHERE c.data_type = 'features' ORDER BY c.table_name`
+  ).map((row) => {
+    const name = String(row.table_name);
+    const [{ count }] = queryRows(db, `SELECT COUNT(*) AS count FROM ${quoteIdentifier(name)}`);
+    return {
+      name,
+      identifier: row.identifier === null ? null : String(row.identifier),
+      geometryColumn: String(row.column_name),
+      geometryType: String(row.geometry_type_name),
+      srsId: Number(row.srs_id),
+      featureCount: Number(count),
+    };
+  });
+}
+
+/**
+ * テーブルの srs_id から座標系を取得
+ * EPSG の登録があればそのコード、なければ定義 (WKT) から判定する
+ * @returns 経緯度 (変換不要) の場合 null
+ */
+function resolveCrs(db: Database, srsId: number): CrsInfo | null {
+  // -1: 未定義の直交座標系, 0: 未定義の地理座標系 (いずれも変換しない)
+  if (srsId === 4326 || srsId <= 0) return null;
+  const [row] = queryRows(
+    db,
+    "SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?",
+    [srsId]
+  );
+  if (!row) {
+    throw new Error(`座標系の定義がありません (srs_id ${srsId})`);
+  }
+  if (String(row.organization).toUpperCase() === "EPSG") {
+    const crs = getCrsByEpsg(Number(row.organization_coordsys_id));
+    if (crs) return crs;
+  }
+  return detectCrs(String(row.definition));
+}
+
+function readTable(db: Database, table: GeoPackageTable): FeatureCollection {
+  const features: Feature[] = queryRows(db, `SELECT * FROM ${quoteIdentifier(table.name)}`).map(
+    (row) => {
+      const properties: Record<string, string | number | null> = {};
+      for (const [key, value] of Object.entries(row)) {
+        // ジオメトリ以外の BLOB 列は属性として扱えないため除く
+        if (key === table.geometryColumn || value instanceof Uint8Array) continue;
+        properties[key] = value;
+      }
+      const blob = row[table.geometryColumn];
+      return {
+        type: "Feature",
+        geometry: (blob instanceof Uint8Array ? decodeGpkgGeometry(blob) : null) as Geometry,
+        properties,
+      };
+    }
+  );
+
+  const collection: FeatureCollection = { type: "FeatureCollection", features };
+  const crs = resolveCrs(db, table.srsId);
+  return crs ? reprojectFeatureCollection(collection, crs) : collection;
+}
+
+/**
+ * GeoPackage のフィーチャーテーブル一覧を取得
+ */
+export async function listGeoPackageTables(file: File): Promise<GeoPackageTable[]> {
+  const SQL = await loadSqlJs();
+  const db = openDatabase(SQL, await file.arrayBuffer());
+  try {
+    return listTables(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 指定したフィーチャーテーブルを読み込む
+ * 各テーブルの srs_id に従って WGS84 経緯度に変換する
+ */
+export async function readGeoPackageTables(
+  file: File,
+  tableNames: string[]
+): Promise<GeoPackageLayer[]> {
+  const SQL = await loadSqlJs();
+  const db = openDatabase(SQL, await file.arrayBuffer());
+  try {
+    const tables = listTables(db);
+    return tableNames.map((name) => {
+      const table = tables.find((t) => t.name === name);
+      if (!table) {
+        throw new Error(`フィーチャーテーブルがありません: ${name}`);
+      }
+      return { table, geojson: readTable(db, table) };
+    });
+  } finally {
+    db.close();
+  }
+}
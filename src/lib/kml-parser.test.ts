@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { isKmlFile, parseKml, parseKmlCoordinates, parseKmlFile } from "./kml-parser";
+
+const SAMPLE_KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>営業エリア</name>
+    <Placemark>
+      <name>本社</name>
+      <Point><coordinates>139.7,35.6,0</coordinates></Point>
+    </Placemark>
+    <Folder>
+      <name>東日本</name>
+      <Placemark>
+        <name>テリトリーA</name>
+        <description>担当: 佐藤</description>
+        <ExtendedData>
+          <Data name="code"><value>A01</value></Data>
+          <SchemaData schemaUrl="#s"><SimpleData name="rank">1</SimpleData></SchemaData>
+        </ExtendedData>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>
+            139,35 140,35 140,36 139,35
+          </coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>
+            139.2,35.2 139.4,35.2 139.4,35.4 139.2,35.2
+          </coordinates></LinearRing></innerBoundaryIs>
+        </Polygon>
+      </Placemark>
+      <Folder>
+        <name>東北</name>
+        <Placemark>
+          <name>テリトリーB</name>
+          <MultiGeometry>
+            <LineString><coordinates>140,38 141,39</coordinates></LineString>
+            <LineString><coordinates>141,39 142,40</coordinates></LineString>
+          </MultiGeometry>
+        </Placemark>
+      </Folder>
+    </Folder>
+  </Document>
+</kml>`;
+
+describe("isKmlFile", () => {
+  it("KML と KMZ を対象とする", () => {
+    expect(isKmlFile(new File([""], "a.kml"))).toBe(true);
+    expect(isKmlFile(new File([""], "a.KMZ"))).toBe(true);
+    expect(isKmlFile(new File([""], "a.zip"))).toBe(false);
+  });
+});
+
+describe("parseKmlCoordinates", () => {
+  it("高さを除いた経緯度の配列にする", () => {
+    expect(parseKmlCoordinates(" 139.7,35.6,10\n140,36 ")).toEqual([
+      [139.7, 35.6],
+      [140, 36],
+    ]);
+  });
+
+  it("数値でない座標はエラーにする", () => {
+    expect(() => parseKmlCoordinates("a,b")).toThrow("座標を読み込めません: a,b");
+  });
+});
+
+describe("parseKml", () => {
+  it("フォルダごとにレイヤーを分ける", () => {
+    // Act
+    const layers = parseKml(SAMPLE_KML, "sample");
+
+    // Assert
+    expect(layers.map((l) => [l.name, l.geojson.features.length])).toEqual([
+      ["sample", 1],
+      ["東日本", 1],
+      ["東日本/東北", 1],
+    ]);
+  });
+
+  it("name・description・ExtendedData を属性にする", () => {
+    // Act
+    const [, east] = parseKml(SAMPLE_KML, "sample");
+
+    // Assert
+    expect(east.geojson.features[0].properties).toEqual({
+      name: "テリトリーA",
+      description: "担当: 佐藤",
+      code: "A01",
+      rank: "1",
+    });
+  });
+
+  it("ジオメトリを GeoJSON に変換する", () => {
+    // Act
+    const [office, east, tohoku] = parseKml(SAMPLE_KML, "sample");
+
+    // Assert
+    expect(office.geojson.features[0].geometry).toEqual({
+      type: "Point",
+      coordinates: [139.7, 35.6],
+    });
+    const polygon = east.geojson.features[0].geometry;
+    expect(polygon.type).toBe("Polygon");
+    expect(polygon.type === "Polygon" && polygon.coordinates).toHaveLength(2);
+    expect(tohoku.geojson.features[0].geometry).toEqual({
+      type: "MultiLineString",
+      coordinates: [
+        [
+          [140, 38],
+          [141, 39],
+        ],
+        [
+          [141, 39],
+          [142, 40],
+        ],
+      ],
+    });
+  });
+
+  it("KML でない XML はエラーにする", () => {
+    expect(() => parseKml("<gpx></gpx>", "a")).toThrow("KML として読み込めません");
+  });
+
+  it("Placemark がない場合はエラーにする", () => {
+    expect(() => parseKml('<kml xmlns="http://www.opengis.net/kml/2.2"></kml>', "a")).toThrow(
+      "Placemark が含まれていません"
+    );
+  });
+});
+
+describe("parseKmlFile", () => {
+  it("KMZ 内の doc.kml を読み込む", async () => {
+    // Arrange
+    const kmz = zipSync({ "doc.kml": strToU8(SAMPLE_KML), "files/icon.png": new Uint8Array(1) });
+    const file = new File([kmz as BlobPart], "territory.kmz");
+
+    // Act
+    const layers = await parseKmlFile(file);
+
+    // Assert
+    expect(layers[0].name).toBe("territory");
+    expect(layers).toHaveLength(3);
+  });
+});
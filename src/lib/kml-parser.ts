@@ -0,0 +1,231 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { unzipSync } from "fflate";
+import { decodeEntryName } from "@/lib/zip-extractor";
+
+/**
+ * KML / KMZ の読み込み
+ * Google Earth などで作成されたテリトリーをレイヤーとして取り込む
+ *
+ * - Folder ごとに 1 レイヤー (Folder 外の Placemark はファイル名のレイヤー)
+ * - Placemark の name / description / ExtendedData を属性にする
+ */
+
+/**
+ * KML のフォルダから作成したレイヤー
+ */
+export interface KmlLayer {
+  /** フォルダ名 (入れ子の場合は "親/子") */
+  name: string;
+  geojson: FeatureCollection;
+}
+
+/**
+ * KML / KMZ ファイルか (拡張子で判定)
+ */
+export function isKmlFile(file: File): boolean {
+  return /\.km[lz]$/i.test(file.name);
+}
+
+const GEOMETRY_ELEMENTS = ["Point", "LineString", "LinearRing", "Polygon", "MultiGeometry"];
+
+// 名前空間 (kml:, gx: など) に関係なく要素名で子要素を取得
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === localName);
+}
+
+function childText(parent: Element, localName: string): string | undefined {
+  return childElements(parent, localName)[0]?.textContent?.trim();
+}
+
+/**
+ * "lon,lat[,alt] lon,lat[,alt] ..." 形式の座標を解析 (高さは捨てる)
+ */
+export function parseKmlCoordinates(text: string): Position[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter((tuple) => tuple !== "")
+    .map((tuple) => {
+      const [lon, lat] = tuple.split(",").map(Number);
+      if (!Number.isFinite(lon) || !Number.isFinite(lat)) {
+        throw new Error(`座標を読み込めません: ${tuple}`);
+      }
+      return [lon, lat];
+    });
+}
+
+function coordinatesOf(el: Element): Position[] {
+  return parseKmlCoordinates(childText(el, "coordinates") ?? "");
+}
+
+function parsePolygon(el: Element): Position[][] {
+  const rings: Position[][] = [];
+  for (const boundary of ["outerBoundaryIs", "innerBoundaryIs"]) {
+    for (const b of childElements(el, boundary)) {
+      for (const ring of childElements(b, "LinearRing")) {
+        rings.push(coordinatesOf(ring));
+      }
+    }
+  }
+  return rings;
+}
+
+/**
+ * MultiGeometry の子が同じ種類なら Multi* に、混在していれば GeometryCollection にまとめる
+ */
+function combineGeometries(geometries: Geometry[]): Geometry | null {
+  if (geometries.length === 0) return null;
+  if (geometries.length === 1) return geometries[0];
+  const types = new Set(geometries.map((g) => g.type));
+  if (types.size === 1) {
+    const [type] = types;
+    if (type === "Point") {
+      return {
+        type: "MultiPoint",
+        coordinates: geometries.map((g) => (g as GeoJSON.Point).coordinates),
+      };
+    }
+    if (type === "LineString") {
+      return {
+        type: "MultiLineString",
+        coordinates: geometries.map((g) => (g as GeoJSON.LineString).coordinates),
+      };
+    }
+    if (type === "Polygon") {
+      return {
+        type: "MultiPolygon",
+        coordinates: geometries.map((g) => (g as GeoJSON.Polygon).coordinates),
+      };
+    }
+  }
+  return { type: "GeometryCollection", geometries };
+}
+
+function parseGeometry(el: Element): Geometry | null {
+  switch (el.localName) {
+    case "Point": {
+      const [position] = coordinatesOf(el);
+      return position ? { type: "Point", coordinates: position } : null;
+    }
+    case "LineString":
+      return { type: "LineString", coordinates: coordinatesOf(el) };
+    case "LinearRing":
+      return { type: "Polygon", coordinates: [coordinatesOf(el)] };
+    case "Polygon":
+      return { type: "Polygon", coordinates: parsePolygon(el) };
+    case "MultiGeometry":
+      return combineGeometries(
+        Array.from(el.children)
+          .map(parseGeometry)
+          .filter((g): g is Geometry => g !== null)
+      );
+    default:
+      // gx:Track や Model などは対象外
+      return null;
+  }
+}
+
+/**
+ * Placemark の name / description / ExtendedData を属性に変換
+ */
+function parseProperties(placemark: Element): Record<string, string> {
+  const properties: Record<string, string> = {};
+  const name = childText(placemark, "name");
+  if (name) properties.name = name;
+  const description = childText(placemark, "description");
+  if (description) properties.description = description;
+
+  for (const extended of childElements(placemark, "ExtendedData")) {
+    // <Data name="..."><value>...</value></Data>
+    for (const data of childElements(extended, "Data")) {
+      const key = data.getAttribute("name");
+      if (key) properties[key] = childText(data, "value") ?? "";
+    }
+    // <SchemaData><SimpleData name="...">...</SimpleData></SchemaData>
+    for (const schemaData of childElements(extended, "SchemaData")) {
+      for (const simple of childElements(schemaData, "SimpleData")) {
+        const key = simple.getAttribute("name");
+        if (key) properties[key] = simple.textContent?.trim() ?? "";
+      }
+    }
+  }
+  return properties;
+}
+
+function parsePlacemark(placemark: Element): Feature {
+  const geometryElement = Array.from(placemark.children).find((el) =>
+    GEOMETRY_ELEMENTS.includes(el.localName)
+  );
+  return {
+    type: "Feature",
+    // shapefile と同様、ジオメトリのない Placemark は geometry: null
+    geometry: (geometryElement ? parseGeometry(geometryElement) : null) as Geometry,
+    properties: parseProperties(placemark),
+  };
+}
+
+/**
+ * KML テキストを解析し、フォルダごとのレイヤーに分ける
+ * @param defaultName - フォルダ外の Placemark をまとめるレイヤー名
+ */
+export function parseKml(text: string, defaultName: string): KmlLayer[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const root = doc.documentElement;
+  if (!root || root.localName !== "kml" || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("KML として読み込めません");
+  }
+
+  const layers: KmlLayer[] = [];
+  const walk = (container: Element, path: string[]) => {
+    const features = childElements(container, "Placemark").map(parsePlacemark);
+    if (features.length > 0) {
+      layers.push({
+        name: path.length > 0 ? path.join("/") : defaultName,
+        geojson: { type: "FeatureCollection", features },
+      });
+    }
+    for (const child of Array.from(container.children)) {
+      if (child.localName === "Folder") {
+        walk(child, [...path, childText(child, "name") || "フォルダ"]);
+      } else if (child.localName === "Document") {
+        walk(child, path);
+      }
+    }
+  };
+  walk(root, []);
+
+  if (layers.length === 0) {
+    throw new Error("Placemark が含まれていません");
+  }
+  return layers;
+}
+
+/**
+ * KMZ (ZIP) から KML を取り出す
+ * doc.kml を優先し、なければ最初の .kml を使う
+ */
+async function extractKmlFromKmz(kmzFile: File): Promise<string> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await kmzFile.arrayBuffer()), {
+      filter: (entry) => /\.kml$/i.test(decodeEntryName(entry.name)),
+    });
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new Error(`KMZファイルを展開できません: ${kmzFile.name} (${reason})`);
+  }
+  const names = Object.keys(entries);
+  const name = names.find((n) => n.toLowerCase() === "doc.kml") ?? names[0];
+  if (!name) {
+    throw new Error("KMZ に KML が含まれていません");
+  }
+  return new TextDecoder().decode(entries[name]);
+}
+
+/**
+ * KML / KMZ ファイルを解析してレイヤーに変換
+ */
+export async function parseKmlFile(file: File): Promise<KmlLayer[]> {
+  const text = /\.kmz$/i.test(file.name) ? await extractKmlFromKmz(file) : await file.text();
+  return parseKml(text, file.name.replace(/\.km[lz]$/i, ""));
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import type { AreaProject } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { buildAreasKml, escapeXml, toKmlColor } from "./kml-writer";
+import { parseKml } from "./kml-parser";
+
+function createLayer(): Layer {
+  return {
+    id: "wards",
+    name: "wards",
+    visible: true,
+    color: "#000000",
+    geojson: {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: {
+            type: "Polygon",
+            coordinates: [
+              [
+                [139, 35],
+                [140, 35],
+                [140, 36],
+                [139, 35],
+              ],
+            ],
+          },
+          properties: { 市区町村名: "千代田区", code: 13101 },
+        },
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [139.7, 35.6] },
+          properties: { 市区町村名: "中央区" },
+        },
+      ],
+    },
+  };
+}
+
+const project: AreaProject = {
+  version: "1.0.0",
+  name: "営業 & 配送",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  areas: [
+    { id: "east", name: "東エリア", parentId: null, color: "#112233", featureIds: [] },
+    {
+      id: "chiyoda",
+      name: "千代田",
+      parentId: "east",
+      color: "#aabbcc",
+      featureIds: ["wards:0", "missing:0"],
+    },
+    { id: "chuo", name: "中央", parentId: null, color: "#ff0000", featureIds: ["wards:1"] },
+  ],
+};
+
+describe("escapeXml", () => {
+  it("XML の特殊文字をエスケープする", () => {
+    expect(escapeXml(`<a href="x">&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&amp;&apos;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("toKmlColor", () => {
+  it("#rrggbb を aabbggrr に変換する", () => {
+    expect(toKmlColor("#112233")).toBe("ff332211");
+    expect(toKmlColor("#112233", 0.5)).toBe("80332211");
+  });
+});
+
+describe("buildAreasKml", () => {
+  it("エリアの色をスタイルとして出力する", () => {
+    // Act
+    const kml = buildAreasKml(project, [createLayer()]);
+
+    // Assert
+    expect(kml).toContain('<Style id="area-chiyoda">');
+    expect(kml).toContain("<PolyStyle><color>80ccbbaa</color></PolyStyle>");
+    expect(kml).toContain("<name>営業 &amp; 配送</name>");
+  });
+
+  it("エリアの階層をフォルダの入れ子にし、読み戻せる", () => {
+    // Act
+    const layers = parseKml(buildAreasKml(project, [createLayer()]), "export");
+
+    // Assert
+    expect(layers.map((l) => l.name)).toEqual(["東エリア/千代田", "中央"]);
+    expect(layers[0].geojson.features[0].properties).toEqual({
+      name: "千代田区",
+      featureId: "wards:0",
+      市区町村名: "千代田区",
+      code: "13101",
+    });
+    expect(layers[1].geojson.features[0].geometry).toEqual({
+      type: "Point",
+      coordinates: [139.7, 35.6],
+    });
+  });
+
+  it("読み込まれていないレイヤーのフィーチャーは出力しない", () => {
+    // Act
+    const kml = buildAreasKml(project, [createLayer()]);
+
+    // Assert
+    expect(kml).not.toContain("missing:0");
+    expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+  });
+});
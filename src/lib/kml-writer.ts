@@ -0,0 +1,152 @@
+import type { Geometry, Position } from "geojson";
+import type { AreaProject, AreaWithChildren } from "@/types/area";
+import { buildAreaTree } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { generateFeatureName, resolveFeatureId } from "@/types/layer";
+import { formatPropertyValue } from "@/lib/field-schema";
+
+/**
+ * エリアの KML 出力
+ * エリアの階層をフォルダの入れ子、エリアの色をスタイルとして出力する
+ */
+
+// 塗りの不透明度 (地図表示の fillOpacity に合わせる)
+const FILL_OPACITY = 0.5;
+
+/**
+ * XML の特殊文字をエスケープ
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * "#rrggbb" を KML の色 (aabbggrr) に変換
+ */
+export function toKmlColor(hex: string, opacity = 1): string {
+  const rgb = hex.replace(/^#/, "").toLowerCase();
+  const alpha = Math.round(opacity * 255)
+    .toString(16)
+    .padStart(2, "0");
+  return `${alpha}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`;
+}
+
+function formatCoordinates(positions: Position[]): string {
+  return positions.map(([lon, lat]) => `${lon},${lat}`).join(" ");
+}
+
+function formatPolygon(rings: Position[][]): string {
+  const [outer, ...inners] = rings;
+  const boundaries = [
+    `<outerBoundaryIs><LinearRing><coordinates>${formatCoordinates(outer ?? [])}</coordinates></LinearRing></outerBoundaryIs>`,
+    ...inners.map(
+      (ring) =>
+        `<innerBoundaryIs><LinearRing><coordinates>${formatCoordinates(ring)}</coordinates></LinearRing></innerBoundaryIs>`
+    ),
+  ];
+  return `<Polygon>${boundaries.join("")}</Polygon>`;
+}
+
+/**
+ * GeoJSON ジオメトリを KML のジオメトリ要素に変換
+ */
+export function geometryToKml(geometry: Geometry): string {
+  switch (geometry.type) {
+    case "Point":
+      return `<Point><coordinates>${formatCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    case "LineString":
+      return `<LineString><coordinates>${formatCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case "Polygon":
+      return formatPolygon(geometry.coordinates);
+    case "MultiPoint":
+      return `<MultiGeometry>${geometry.coordinates
+        .map((p) => geometryToKml({ type: "Point", coordinates: p }))
+        .join("")}</MultiGeometry>`;
+    case "MultiLineString":
+      return `<MultiGeometry>${geometry.coordinates
+        .map((c) => geometryToKml({ type: "LineString", coordinates: c }))
+        .join("")}</MultiGeometry>`;
+    case "MultiPolygon":
+      return `<MultiGeometry>${geometry.coordinates.map(formatPolygon).join("")}</MultiGeometry>`;
+    case "GeometryCollection":
+      return `<MultiGeometry>${geometry.geometries.map(geometryToKml).join("")}</MultiGeometry>`;
+  }
+}
+
+function styleId(areaId: string): string {
+  return `area-${areaId.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+}
+
+function buildStyle(area: AreaWithChildren): string {
+  return [
+    `<Style id="${escapeXml(styleId(area.id))}">`,
+    `<LineStyle><color>${toKmlColor(area.color)}</color><width>1</width></LineStyle>`,
+    `<PolyStyle><color>${toKmlColor(area.color, FILL_OPACITY)}</color></PolyStyle>`,
+    `<IconStyle><color>${toKmlColor(area.color)}</color></IconStyle>`,
+    "</Style>",
+  ].join("");
+}
+
+function buildExtendedData(properties: Record<string, unknown>): string {
+  const data = Object.entries(properties)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(
+      ([key, value]) =>
+        `<Data name="${escapeXml(key)}"><value>${escapeXml(formatPropertyValue(value))}</value></Data>`
+    );
+  return data.length > 0 ? `<ExtendedData>${data.join("")}</ExtendedData>` : "";
+}
+
+function buildPlacemark(featureId: string, area: AreaWithChildren, layers: Layer[]): string {
+  const feature = resolveFeatureId(featureId, layers)?.feature;
+  // 読み込まれていないレイヤーのフィーチャーは出力できない
+  if (!feature?.geometry) return "";
+
+  const properties = (feature.properties ?? {}) as Record<string, unknown>;
+  const name = generateFeatureName(properties) || area.featureNames?.[featureId] || featureId;
+  return [
+    "<Placemark>",
+    `<name>${escapeXml(name)}</name>`,
+    `<styleUrl>#${escapeXml(styleId(area.id))}</styleUrl>`,
+    buildExtendedData({ featureId, ...properties }),
+    geometryToKml(feature.geometry),
+    "</Placemark>",
+  ].join("");
+}
+
+function buildFolder(area: AreaWithChildren, layers: Layer[]): string {
+  return [
+    "<Folder>",
+    `<name>${escapeXml(area.name)}</name>`,
+    ...area.featureIds.map((id) => buildPlacemark(id, area, layers)),
+    ...area.children.map((child) => buildFolder(child, layers)),
+    "</Folder>",
+  ].join("");
+}
+
+function flattenTree(tree: AreaWithChildren[]): AreaWithChildren[] {
+  return tree.flatMap((area) => [area, ...flattenTree(area.children)]);
+}
+
+/**
+ * エリアプロジェクトを KML に変換
+ * エリアのツリーをフォルダの入れ子に、各エリアのフィーチャーを Placemark にする
+ */
+export function buildAreasKml(project: AreaProject, layers: Layer[]): string {
+  const tree = buildAreaTree(project.areas);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${escapeXml(project.name)}</name>`,
+    ...flattenTree(tree).map(buildStyle),
+    ...tree.map((area) => buildFolder(area, layers)),
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { estimateLabelWidth, placeLabels } from "./label-placement";
+
+describe("estimateLabelWidth", () => {
+  it("全角文字は文字サイズ分、半角文字は 0.6 文字分の幅にする", () => {
+    // Act & Assert
+    expect(estimateLabelWidth("東京", 10)).toBe(20);
+    expect(estimateLabelWidth("ab", 10)).toBe(12);
+    expect(estimateLabelWidth("ﾄｳｷｮｳ", 10)).toBe(30);
+  });
+});
+
+describe("placeLabels", () => {
+  it("重なるラベルは先に指定したラベルを優先する", () => {
+    // Arrange
+    const candidates = [
+      { id: "a", x: 100, y: 100, width: 60, height: 14 },
+      { id: "b", x: 120, y: 105, width: 60, height: 14 },
+      { id: "c", x: 300, y: 100, width: 60, height: 14 },
+    ];
+
+    // Act
+    const placed = placeLabels(candidates);
+
+    // Assert
+    expect([...placed]).toEqual(["a", "c"]);
+  });
+
+  it("間隔が空いているラベルはすべて表示する", () => {
+    // Arrange
+    const candidates = [
+      { id: "a", x: 100, y: 100, width: 60, height: 14 },
+      { id: "b", x: 100, y: 130, width: 60, height: 14 },
+    ];
+
+    // Act & Assert
+    expect(placeLabels(candidates).size).toBe(2);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * 地図上のラベルの配置 (重なるラベルは優先度の低い方を表示しない)
+ */
+
+/**
+ * 配置するラベル (画面上の中心座標と大きさ、px)
+ */
+export interface LabelCandidate {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ラベルどうしの間隔 (px)
+const LABEL_MARGIN = 4;
+
+/**
+ * ラベルの幅の目安 (px、全角文字は 1 文字分、半角文字は 0.6 文字分)
+ */
+export function estimateLabelWidth(text: string, fontSize: number): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    const isHalfWidth = code < 0x100 || (code >= 0xff61 && code <= 0xff9f);
+    width += isHalfWidth ? 0.6 : 1;
+  }
+  return Math.ceil(width * fontSize);
+}
+
+/**
+ * 重ならないように表示するラベルを選ぶ
+ * @param candidates - 優先度の高い順
+ * @returns 表示するラベルの ID
+ */
+export function placeLabels(candidates: LabelCandidate[]): Set<string> {
+  const placed: LabelCandidate[] = [];
+  for (const candidate of candidates) {
+    const overlaps = placed.some(
+      (other) =>
+        Math.abs(candidate.x - other.x) * 2 < candidate.width + other.width + LABEL_MARGIN * 2 &&
+        Math.abs(candidate.y - other.y) * 2 < candidate.height + other.height + LABEL_MARGIN * 2
+    );
+    if (!overlaps) placed.push(candidate);
+  }
+  return new Set(placed.map((label) => label.id));
+}
@@ -0,0 +1,137 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { FeatureCollection } from "geojson";
+import type { Layer } from "@/types/layer";
+import {
+  clearLayerCache,
+  estimateGeoJsonSize,
+  loadLayerCache,
+  saveLayerCache,
+} from "./layer-cache";
+
+function createLayer(id: string, overrides: Partial<Layer> = {}): Layer {
+  const geojson: FeatureCollection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [139.7, 35.6] },
+        properties: { name: id },
+      },
+    ],
+  };
+  return { id, name: id, geojson, visible: true, color: "#3b82f6", ...overrides };
+}
+
+function mockStorageQuota(quota: number | undefined) {
+  Object.defineProperty(navigator, "storage", {
+    value: quota === undefined ? undefined : { estimate: async () => ({ quota, usage: 0 }) },
+    configurable: true,
+  });
+}
+
+describe("layer-cache", () => {
+  beforeEach(async () => {
+    mockStorageQuota(undefined);
+    await clearLayerCache();
+  });
+
+  afterEach(() => {
+    mockStorageQuota(undefined);
+  });
+
+  it("保存したレイヤーを一覧の順に復元する", async () => {
+    // Arrange
+    const layers = [
+      createLayer("blocks", {
+        visible: false,
+        color: "#ef4444",
+        filter: { key: "name", values: ["blocks"], enabled: true },
+        encoding: { encoding: "shift_jis", source: "cpg" },
+      }),
+      createLayer("stations"),
+    ];
+
+    // Act
+    const summary = await saveLayerCache(layers);
+    const restored = await loadLayerCache();
+
+    // Assert
+    expect(summary.layerCount).toBe(2);
+    expect(summary.skippedLayerNames).toEqual([]);
+    expect(restored.map((l) => l.id)).toEqual(["blocks", "stations"]);
+    expect(restored[0]).toMatchObject({
+      name: "blocks",
+      visible: false,
+      color: "#ef4444",
+      filter: { key: "name", values: ["blocks"], enabled: true },
+      encoding: { encoding: "shift_jis", source: "cpg" },
+      geojson: layers[0].geojson,
+      size: estimateGeoJsonSize(layers[0].geojson),
+    });
+  });
+
+  it("並び替え・削除を反映する", async () => {
+    // Arrange
+    const [a, b, c] = ["a", "b", "c"].map((id) => createLayer(id));
+    await saveLayerCache([a, b, c]);
+
+    // Act
+    await saveLayerCache([c, a]);
+
+    // Assert
+    expect((await loadLayerCache()).map((l) => l.id)).toEqual(["c", "a"]);
+  });
+
+  it("上限を超えるレイヤーは保存しない", async () => {
+    // Arrange
+    const layers = [createLayer("a"), createLayer("b")];
+    const size = estimateGeoJsonSize(layers[0].geojson);
+    // 割り当て量の半分が上限のため、1 件分だけ入る
+    mockStorageQuota(size * 2 + 1);
+
+    // Act
+    const summary = await saveLayerCache(layers);
+
+    // Assert
+    expect(summary).toEqual({ layerCount: 1, totalBytes: size, skippedLayerNames: ["b"] });
+    expect((await loadLayerCache()).map((l) => l.id)).toEqual(["a"]);
+  });
+
+  it("削除するとキャッシュが空になる", async () => {
+    // Arrange
+    await saveLayerCache([createLayer("a")]);
+
+    // Act
+    await clearLayerCache();
+
+    // Assert
+    expect(await loadLayerCache()).toEqual([]);
+  });
+});
+
+describe("estimateGeoJsonSize", () => {
+  it("座標の点数と属性から JSON の長さに近い値を見積もる", () => {
+    // Arrange
+    const ring = Array.from({ length: 200 }, (_, i) => {
+      const angle = (i / 199) * Math.PI * 2;
+      return [139.7 + Math.cos(angle) * 0.01234567, 35.6 + Math.sin(angle) * 0.01234567];
+    });
+    const geojson: FeatureCollection = {
+      type: "FeatureCollection",
+      features: Array.from({ length: 10 }, (_, i) => ({
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [ring] },
+        properties: { KEY_CODE: `1310100${i}`, S_NAME: "丸の内一丁目", JINKO: 1234 + i },
+      })),
+    };
+
+    // Act
+    const size = estimateGeoJsonSize(geojson);
+
+    // Assert
+    const actual = JSON.stringify(geojson).length;
+    expect(size).toBeGreaterThan(actual * 0.5);
+    expect(size).toBeLessThan(actual * 2);
+  });
+});
@@ -0,0 +1,241 @@
+import type { FeatureCollection } from "geojson";
+import type { Layer } from "@/types/layer";
+import { iterateCoordinates } from "@/lib/geometry-bounds";
+
+/**
+ * 読み込んだレイヤーの IndexedDB キャッシュ
+ * 再読み込み後もファイルを選び直さずにレイヤー (とエリアのフィーチャーID) を使えるようにする
+ *
+ * - 表示設定 (layers) とジオメトリ (geometries) を別のストアに保存し、
+ *   表示・色・フィルターの変更では大きな GeoJSON を書き直さない
+ * - 合計サイズが上限を超える分のレイヤーは保存しない
+ */
+
+const DB_NAME = "shapefile-viewer";
+const DB_VERSION = 1;
+const LAYER_STORE = "layers";
+const GEOMETRY_STORE = "geometries";
+
+// キャッシュの上限 (ブラウザの割り当て量が分かる場合はその半分まで)
+const MAX_CACHE_BYTES = 300 * 1024 * 1024;
+
+// 概算サイズの目安 (JSON での座標 1 点・フィーチャー 1 件の構造・数値の属性値あたりのバイト数)
+const BYTES_PER_POSITION = 40;
+const BYTES_PER_FEATURE = 64;
+const BYTES_PER_VALUE = 12;
+
+/**
+ * キャッシュしたレイヤー (ジオメトリ以外)
+ */
+interface CachedLayerRecord extends Pick<
+  Layer,
+  | "id"
+  | "name"
+  | "visible"
+  | "color"
+  | "filter"
+  | "encoding"
+  | "keyField"
+  | "fileNames"
+  | "schema"
+  | "validation"
+> {
+  /** レイヤー一覧での位置 */
+  order: number;
+  /** GeoJSON の概算サイズ (バイト) */
+  size: number;
+}
+
+interface CachedGeometryRecord {
+  id: string;
+  geojson: FeatureCollection;
+}
+
+/**
+ * キャッシュから復元したレイヤー
+ */
+export type CachedLayer = Omit<Layer, "source"> & { size: number };
+
+/**
+ * 保存結果
+ */
+export interface LayerCacheSummary {
+  layerCount: number;
+  totalBytes: number;
+  /** 上限を超えたため保存しなかったレイヤー名 */
+  skippedLayerNames: string[];
+}
+
+// 保存済みの GeoJSON (同じオブジェクトは書き直さない)
+const storedGeometries = new WeakSet<FeatureCollection>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * IndexedDB が使えるか (プライベートモードや一部の環境では使えない)
+ */
+export function isLayerCacheAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(LAYER_STORE, { keyPath: "id" });
+      db.createObjectStore(GEOMETRY_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("キャッシュの保存を中断しました"));
+  });
+}
+
+/**
+ * GeoJSON の概算サイズ (JSON 文字列にした場合の長さの目安)
+ * 大きなレイヤーを文字列にすると時間とメモリがかかるため、座標の点数と属性から見積もる
+ */
+export function estimateGeoJsonSize(geojson: FeatureCollection): number {
+  let size = 0;
+  for (const { geometry, properties } of geojson.features) {
+    size += BYTES_PER_FEATURE;
+    if (geometry) {
+      for (const _ of iterateCoordinates(geometry)) size += BYTES_PER_POSITION;
+    }
+    for (const [key, value] of Object.entries(properties ?? {})) {
+      size += key.length + (typeof value === "string" ? value.length : BYTES_PER_VALUE);
+    }
+  }
+  return size;
+}
+
+/**
+ * キャッシュに使える容量
+ */
+async function getCacheBudget(): Promise<number> {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.quota) {
+      return Math.min(MAX_CACHE_BYTES, estimate.quota / 2);
+    }
+  } catch {
+    // 取得できない場合は既定の上限
+  }
+  return MAX_CACHE_BYTES;
+}
+
+/**
+ * キャッシュしたレイヤーを一覧の順に読み込む
+ */
+export async function loadLayerCache(): Promise<CachedLayer[]> {
+  if (!isLayerCacheAvailable()) return [];
+  const db = await openDatabase();
+  const tx = db.transaction([LAYER_STORE, GEOMETRY_STORE], "readonly");
+  const [records, geometries] = await Promise.all([
+    requestToPromise<CachedLayerRecord[]>(tx.objectStore(LAYER_STORE).getAll()),
+    requestToPromise<CachedGeometryRecord[]>(tx.objectStore(GEOMETRY_STORE).getAll()),
+  ]);
+  const geometryById = new Map(geometries.map((g) => [g.id, g.geojson]));
+
+  return records
+    .sort((a, b) => a.order - b.order)
+    .flatMap(({ order: _order, ...record }) => {
+      const geojson = geometryById.get(record.id);
+      // ジオメトリのないレコードは保存途中で中断されたもの
+      if (!geojson) return [];
+      storedGeometries.add(geojson);
+      return [{ ...record, geojson }];
+    });
+}
+
+/**
+ * 現在のレイヤーでキャッシュを置き換える
+ * 一覧の上から順に上限まで保存し、削除されたレイヤーはキャッシュからも消す
+ */
+export async function saveLayerCache(layers: Layer[]): Promise<LayerCacheSummary> {
+  const summary: LayerCacheSummary = { layerCount: 0, totalBytes: 0, skippedLayerNames: [] };
+  if (!isLayerCacheAvailable()) return summary;
+
+  const [db, budget] = await Promise.all([openDatabase(), getCacheBudget()]);
+  const existing = await requestToPromise<CachedLayerRecord[]>(
+    db.transaction(LAYER_STORE, "readonly").objectStore(LAYER_STORE).getAll()
+  );
+  const existingById = new Map(existing.map((record) => [record.id, record]));
+
+  const records: CachedLayerRecord[] = [];
+  const geometries: CachedGeometryRecord[] = [];
+  for (const [order, layer] of layers.entries()) {
+    const previous = existingById.get(layer.id);
+    const isStored = previous !== undefined && storedGeometries.has(layer.geojson);
+    const size = isStored ? previous.size : estimateGeoJsonSize(layer.geojson);
+    if (summary.totalBytes + size > budget) {
+      summary.skippedLayerNames.push(layer.name);
+      continue;
+    }
+    summary.totalBytes += size;
+    summary.layerCount++;
+    records.push({
+      id: layer.id,
+      name: layer.name,
+      visible: layer.visible,
+      color: layer.color,
+      filter: layer.filter,
+      encoding: layer.encoding,
+      keyField: layer.keyField,
+      fileNames: layer.fileNames,
+      schema: layer.schema,
+      validation: layer.validation,
+      order,
+      size,
+    });
+    if (!isStored) geometries.push({ id: layer.id, geojson: layer.geojson });
+  }
+
+  const tx = db.transaction([LAYER_STORE, GEOMETRY_STORE], "readwrite");
+  const layerStore = tx.objectStore(LAYER_STORE);
+  const geometryStore = tx.objectStore(GEOMETRY_STORE);
+  const keptIds = new Set(records.map((record) => record.id));
+  for (const { id } of existing) {
+    if (!keptIds.has(id)) {
+      layerStore.delete(id);
+      geometryStore.delete(id);
+    }
+  }
+  for (const geometry of geometries) geometryStore.put(geometry);
+  for (const record of records) layerStore.put(record);
+  await transactionToPromise(tx);
+
+  for (const { geojson } of geometries) storedGeometries.add(geojson);
+  return summary;
+}
+
+/**
+ * キャッシュをすべて削除
+ */
+export async function clearLayerCache(): Promise<void> {
+  if (!isLayerCacheAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction([LAYER_STORE, GEOMETRY_STORE], "readwrite");
+  tx.objectStore(LAYER_STORE).clear();
+  tx.objectStore(GEOMETRY_STORE).clear();
+  await transactionToPromise(tx);
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection } from "geojson";
+import type { Layer } from "@/types/layer";
+import { diffLayers, diffProperties, getChangedFeature } from "./layer-diff";
+
+function createLayer(id: string, items: { lon: number; code: string; name?: string }[]): Layer {
+  const geojson: FeatureCollection = {
+    type: "FeatureCollection",
+    features: items.map(({ lon, code, name }) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [lon, 35] },
+      properties: { KEY_CODE: code, NAME: name ?? code },
+    })),
+  };
+  return { id, name: id, geojson, visible: true, color: "#ef4444" };
+}
+
+describe("diffProperties", () => {
+  it("値が変わった属性・増えた属性・なくなった属性を返す", () => {
+    // Act
+    const changes = diffProperties({ A: 1, B: "x", C: "y" }, { A: "1", B: "z", D: 0 });
+
+    // Assert
+    expect(changes).toEqual([
+      { field: "B", oldValue: "x", newValue: "z" },
+      { field: "C", oldValue: "y", newValue: null },
+      { field: "D", oldValue: null, newValue: "0" },
+    ]);
+  });
+
+  it("null と undefined は同じ値として扱う", () => {
+    // Act
+    const changes = diffProperties({ A: null }, {});
+
+    // Assert
+    expect(changes).toEqual([]);
+  });
+});
+
+describe("diffLayers", () => {
+  it("キー列で対応付けて追加・削除・ジオメトリの変更・属性の変更に分類する", () => {
+    // Arrange
+    const oldLayer = createLayer("v1", [
+      { lon: 139, code: "A" },
+      { lon: 140, code: "B" },
+      { lon: 141, code: "C" },
+      { lon: 142, code: "D" },
+    ]);
+    const newLayer = createLayer("v2", [
+      { lon: 139, code: "A" },
+      { lon: 150, code: "B" },
+      { lon: 141, code: "C", name: "シー" },
+      { lon: 143, code: "E" },
+    ]);
+
+    // Act
+    const diff = diffLayers(oldLayer, newLayer, "KEY_CODE");
+
+    // Assert
+    expect(diff.method).toBe("key");
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changes).toEqual([
+      { type: "added", oldIndex: null, newIndex: 3, fieldChanges: [] },
+      { type: "removed", oldIndex: 3, newIndex: null, fieldChanges: [] },
+      { type: "geometry", oldIndex: 1, newIndex: 1, fieldChanges: [] },
+      {
+        type: "attributes",
+        oldIndex: 2,
+        newIndex: 2,
+        fieldChanges: [{ field: "NAME", oldValue: "C", newValue: "シー" }],
+      },
+    ]);
+  });
+
+  it("ジオメトリと属性の両方が変わったフィーチャーは属性の違いも含めてジオメトリの変更にする", () => {
+    // Arrange
+    const oldLayer = createLayer("v1", [{ lon: 139, code: "A" }]);
+    const newLayer = createLayer("v2", [{ lon: 140, code: "A", name: "エー" }]);
+
+    // Act
+    const diff = diffLayers(oldLayer, newLayer, "KEY_CODE");
+
+    // Assert
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0].type).toBe("geometry");
+    expect(diff.changes[0].fieldChanges).toEqual([
+      { field: "NAME", oldValue: "A", newValue: "エー" },
+    ]);
+  });
+
+  it("キー列を指定しない場合はジオメトリで対応付けて属性の変更を検出する", () => {
+    // Arrange
+    const oldLayer = createLayer("v1", [{ lon: 139, code: "A" }]);
+    const newLayer = createLayer("v2", [{ lon: 139, code: "Z" }]);
+
+    // Act
+    const diff = diffLayers(oldLayer, newLayer);
+
+    // Assert
+    expect(diff.method).toBe("geometry");
+    expect(diff.changes.map((c) => c.type)).toEqual(["attributes"]);
+  });
+
+  it("キーが重複するフィーチャーは対応付けできない件数に数える", () => {
+    // Arrange
+    const oldLayer = createLayer("v1", [
+      { lon: 139, code: "A" },
+      { lon: 140, code: "A" },
+    ]);
+    const newLayer = createLayer("v2", [{ lon: 139, code: "A" }]);
+
+    // Act
+    const diff = diffLayers(oldLayer, newLayer, "KEY_CODE");
+
+    // Assert
+    expect(diff.unmatchedCount).toBe(2);
+  });
+});
+
+describe("getChangedFeature", () => {
+  it("削除は古いレイヤーの、それ以外は新しいレイヤーのフィーチャーを返す", () => {
+    // Arrange
+    const oldLayer = createLayer("v1", [{ lon: 139, code: "A" }]);
+    const newLayer = createLayer("v2", [{ lon: 140, code: "B" }]);
+
+    // Act
+    const removed = getChangedFeature(
+      { type: "removed", oldIndex: 0, newIndex: null, fieldChanges: [] },
+      oldLayer,
+      newLayer
+    );
+    const added = getChangedFeature(
+      { type: "added", oldIndex: null, newIndex: 0, fieldChanges: [] },
+      oldLayer,
+      newLayer
+    );
+
+    // Assert
+    expect(removed).toBe(oldLayer.geojson.features[0]);
+    expect(added).toBe(newLayer.geojson.features[0]);
+  });
+});
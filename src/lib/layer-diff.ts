@@ -0,0 +1,144 @@
+import type { Feature } from "geojson";
+import type { Layer } from "@/types/layer";
+import { getGeometryKey, matchFeatures, type FeatureMatchMethod } from "@/lib/feature-matching";
+import { formatPropertyValue } from "@/lib/field-schema";
+
+/**
+ * 同じデータセットの 2 つのバージョン (レイヤー) の比較
+ * フィーチャーを対応付け、追加・削除・ジオメトリの変更・属性の変更に分類する
+ */
+
+/**
+ * 変更の種類
+ * ジオメトリと属性の両方が変わったフィーチャーは "geometry" に分類する
+ */
+export type FeatureChangeType = "added" | "removed" | "geometry" | "attributes";
+
+/**
+ * 属性ごとの変更
+ */
+export interface FieldChange {
+  field: string;
+  /** 古い値 (属性がない場合は null) */
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+/**
+ * フィーチャーごとの変更
+ */
+export interface FeatureChange {
+  type: FeatureChangeType;
+  /** 古いレイヤーでの位置 (追加の場合は null) */
+  oldIndex: number | null;
+  /** 新しいレイヤーでの位置 (削除の場合は null) */
+  newIndex: number | null;
+  /** 値が変わった属性 (追加・削除の場合は空) */
+  fieldChanges: FieldChange[];
+}
+
+/**
+ * 比較結果
+ */
+export interface LayerDiff {
+  method: FeatureMatchMethod;
+  changes: FeatureChange[];
+  /** 変更のないフィーチャー数 */
+  unchangedCount: number;
+  /** キーが空・重複しているなどで対応付けられなかった古いフィーチャー数 */
+  unmatchedCount: number;
+}
+
+// 変更の種類の並び順 (一覧の表示順)
+const CHANGE_ORDER: Record<FeatureChangeType, number> = {
+  added: 0,
+  removed: 1,
+  geometry: 2,
+  attributes: 3,
+};
+
+function normalizeValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : formatPropertyValue(value);
+}
+
+/**
+ * 属性の違い (属性名の順は古いフィーチャー、新しく増えた属性の順)
+ */
+export function diffProperties(
+  oldProperties: Feature["properties"],
+  newProperties: Feature["properties"]
+): FieldChange[] {
+  const fields = new Set([
+    ...Object.keys(oldProperties ?? {}),
+    ...Object.keys(newProperties ?? {}),
+  ]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const oldValue = normalizeValue(oldProperties?.[field]);
+    const newValue = normalizeValue(newProperties?.[field]);
+    if (oldValue !== newValue) changes.push({ field, oldValue, newValue });
+  }
+  return changes;
+}
+
+/**
+ * 2 つのレイヤーを比較する
+ * @param keyField - フィーチャーの対応付けに使うキー列 (省略時はジオメトリで対応付ける)
+ */
+export function diffLayers(
+  oldLayer: Pick<Layer, "geojson">,
+  newLayer: Pick<Layer, "geojson">,
+  keyField?: string
+): LayerDiff {
+  const oldFeatures = oldLayer.geojson.features;
+  const newFeatures = newLayer.geojson.features;
+  const match = matchFeatures(oldLayer.geojson, newLayer.geojson, keyField);
+
+  const changes: FeatureChange[] = [];
+  let unchangedCount = 0;
+  for (const [oldIndex, newIndex] of match.matches) {
+    const oldFeature = oldFeatures[oldIndex];
+    const newFeature = newFeatures[newIndex];
+    const fieldChanges = diffProperties(oldFeature.properties, newFeature.properties);
+    const geometryChanged =
+      getGeometryKey(oldFeature.geometry) !== getGeometryKey(newFeature.geometry);
+    if (geometryChanged) {
+      changes.push({ type: "geometry", oldIndex, newIndex, fieldChanges });
+    } else if (fieldChanges.length > 0) {
+      changes.push({ type: "attributes", oldIndex, newIndex, fieldChanges });
+    } else {
+      unchangedCount++;
+    }
+  }
+  for (const newIndex of match.addedIndices) {
+    changes.push({ type: "added", oldIndex: null, newIndex, fieldChanges: [] });
+  }
+  for (const oldIndex of match.removedIndices) {
+    changes.push({ type: "removed", oldIndex, newIndex: null, fieldChanges: [] });
+  }
+
+  changes.sort(
+    (a, b) =>
+      CHANGE_ORDER[a.type] - CHANGE_ORDER[b.type] ||
+      (a.newIndex ?? a.oldIndex ?? 0) - (b.newIndex ?? b.oldIndex ?? 0)
+  );
+  return {
+    method: match.method,
+    changes,
+    unchangedCount,
+    unmatchedCount: match.unmatchedIndices.length,
+  };
+}
+
+/**
+ * 変更のあったフィーチャー (削除は古いジオメトリ、それ以外は新しいジオメトリ)
+ */
+export function getChangedFeature(
+  change: FeatureChange,
+  oldLayer: Layer,
+  newLayer: Layer
+): Feature {
+  return change.newIndex !== null
+    ? newLayer.geojson.features[change.newIndex]
+    : oldLayer.geojson.features[change.oldIndex ?? 0];
+}
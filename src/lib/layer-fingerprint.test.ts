@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection } from "geojson";
+import { computeLayerFingerprint, setLayerFingerprint } from "./layer-fingerprint";
+
+function createCollection(coordinates: number[][], name = "A"): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: coordinates.map((position) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: position },
+      properties: { name },
+    })),
+  };
+}
+
+describe("computeLayerFingerprint", () => {
+  it("同じジオメトリなら同じ値になる (属性は含めない)", () => {
+    const a = createCollection(
+      [
+        [139.7, 35.6],
+        [135.5, 34.7],
+      ],
+      "東京"
+    );
+    const b = createCollection(
+      [
+        [139.7, 35.6],
+        [135.5, 34.7],
+      ],
+      "譚ｱ莠ｬ"
+    );
+    expect(computeLayerFingerprint(a)).toBe(computeLayerFingerprint(b));
+  });
+
+  it("ジオメトリが異なれば値が変わる", () => {
+    const a = createCollection([[139.7, 35.6]]);
+    const b = createCollection([[139.7, 35.7]]);
+    expect(computeLayerFingerprint(a)).not.toBe(computeLayerFingerprint(b));
+  });
+
+  it("どのフィーチャーのジオメトリが変わっても値が変わる", () => {
+    // Arrange
+    const positions = Array.from({ length: 1000 }, (_, i) => [139 + i / 1000, 35]);
+    const moved = positions.map((position, i) => (i === 777 ? [position[0], 35.0001] : position));
+
+    // Act
+    const before = computeLayerFingerprint(createCollection(positions));
+    const after = computeLayerFingerprint(createCollection(moved));
+
+    // Assert
+    expect(after).not.toBe(before);
+  });
+
+  it("座標が同じでもリングの区切りが違えば値が変わる", () => {
+    // Arrange
+    const ring = [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ];
+    const polygon = (coordinates: number[][][]): FeatureCollection => ({
+      type: "FeatureCollection",
+      features: [{ type: "Feature", geometry: { type: "Polygon", coordinates }, properties: {} }],
+    });
+
+    // Act
+    const single = computeLayerFingerprint(polygon([[...ring, ...ring]]));
+    const split = computeLayerFingerprint(polygon([ring, ring]));
+
+    // Assert
+    expect(split).not.toBe(single);
+  });
+
+  it("登録済みのフィンガープリントは計算し直さない", () => {
+    // Arrange
+    const collection = createCollection([[139.7, 35.6]]);
+
+    // Act
+    setLayerFingerprint(collection, "1-0000abcd");
+
+    // Assert
+    expect(computeLayerFingerprint(collection)).toBe("1-0000abcd");
+  });
+
+  it("フィーチャー数を先頭に含める", () => {
+    expect(
+      computeLayerFingerprint(
+        createCollection([
+          [0, 0],
+          [1, 1],
+          [2, 2],
+        ])
+      )
+    ).toMatch(/^3-[0-9a-f]{8}$/);
+  });
+});
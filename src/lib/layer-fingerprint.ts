@@ -0,0 +1,84 @@
+import type { FeatureCollection, Geometry } from "geojson";
+
+/**
+ * レイヤーの形状のフィンガープリント
+ * 同じデータを読み込み直したか (ファイル名が変わっていても) を判定するために使う
+ *
+ * フィーチャー数と全フィーチャーのジオメトリ (種類・構造・座標) から求める。
+ * Shapefile は解析する Worker で計算し、メインスレッドでは GeoJSON ごとに一度だけ計算する。
+ * 属性は含めないため、文字コードを切り替えても変わらない
+ */
+
+const cache = new WeakMap<FeatureCollection, string>();
+
+// 座標をビット列のまま扱うためのバッファ
+const float = new Float64Array(1);
+const words = new Uint32Array(float.buffer);
+
+type NestedCoordinates = number | NestedCoordinates[];
+
+/**
+ * FNV-1a (32 bit)
+ */
+function fnv1a(text: string, hash = 0x811c9dc5): number {
+  let h = hash;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * 32 bit の値を FNV-1a と同じ手順でハッシュに加える
+ */
+function hashWord(word: number, hash: number): number {
+  return Math.imul(hash ^ word, 0x01000193) >>> 0;
+}
+
+function hashCoordinates(coordinates: NestedCoordinates, hash: number): number {
+  if (typeof coordinates === "number") {
+    float[0] = coordinates;
+    return hashWord(words[1], hashWord(words[0], hash));
+  }
+  // 要素数も含め、リングやパートの区切りが違えば値が変わるようにする
+  let h = hashWord(coordinates.length, hash);
+  for (const child of coordinates) h = hashCoordinates(child, h);
+  return h;
+}
+
+function hashGeometry(geometry: Geometry | null, hash: number): number {
+  if (!geometry) return hashWord(0, hash);
+  const h = fnv1a(geometry.type, hash);
+  if (geometry.type === "GeometryCollection") {
+    return geometry.geometries.reduce(
+      (acc, child) => hashGeometry(child, acc),
+      hashWord(geometry.geometries.length, h)
+    );
+  }
+  return hashCoordinates(geometry.coordinates, h);
+}
+
+/**
+ * フィンガープリントを計算 ("フィーチャー数-ハッシュ" 形式)
+ */
+export function computeLayerFingerprint(geojson: FeatureCollection): string {
+  const cached = cache.get(geojson);
+  if (cached) return cached;
+
+  const { features } = geojson;
+  let hash = fnv1a(String(features.length));
+  for (const feature of features) {
+    hash = hashGeometry(feature.geometry, hash);
+  }
+  const fingerprint = `${features.length}-${hash.toString(16).padStart(8, "0")}`;
+  cache.set(geojson, fingerprint);
+  return fingerprint;
+}
+
+/**
+ * Worker で計算済みのフィンガープリントを登録する (メインスレッドで計算し直さない)
+ */
+export function setLayerFingerprint(geojson: FeatureCollection, fingerprint: string): void {
+  cache.set(geojson, fingerprint);
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import type { AreaProject, LayerSourceInfo } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { computeLayerFingerprint } from "./layer-fingerprint";
+import { describeLayerSource, findLayerBySource, recordLayerSources } from "./layer-provenance";
+
+function createLayer(id: string, lon = 139, overrides: Partial<Layer> = {}): Layer {
+  return {
+    id,
+    name: id,
+    geojson: {
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [lon, 35] },
+          properties: { KEY_CODE: "13101" },
+        },
+      ],
+    },
+    visible: true,
+    color: "#3b82f6",
+    ...overrides,
+  };
+}
+
+function createProject(
+  featureIds: string[],
+  layerSources?: Record<string, LayerSourceInfo>
+): AreaProject {
+  return {
+    version: "1.0.0",
+    name: "test",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    areas: [{ id: "a", name: "A", parentId: null, color: "#ef4444", featureIds }],
+    layerSources,
+  };
+}
+
+describe("describeLayerSource", () => {
+  it("ファイル名・件数・キー列・フィンガープリントを記録する", () => {
+    // Arrange
+    const layer = createLayer("town", 139, {
+      fileNames: ["town.shp", "town.dbf"],
+      keyField: "KEY_CODE",
+    });
+
+    // Act
+    const source = describeLayerSource(layer);
+
+    // Assert
+    expect(source).toEqual({
+      name: "town",
+      fileNames: ["town.shp", "town.dbf"],
+      featureCount: 1,
+      keyField: "KEY_CODE",
+      fingerprint: computeLayerFingerprint(layer.geojson),
+    });
+  });
+});
+
+describe("recordLayerSources", () => {
+  it("参照するレイヤーのみを記録し、読み込まれていないレイヤーは前回の記録を残す", () => {
+    // Arrange
+    const previous = describeLayerSource(createLayer("old", 140));
+    const stale = describeLayerSource(createLayer("unused", 141));
+    const project = createProject(["town:0", "old:0"], { old: previous, unused: stale });
+    const layers = [createLayer("town"), createLayer("other")];
+
+    // Act
+    const recorded = recordLayerSources(project, layers);
+
+    // Assert
+    expect(Object.keys(recorded.layerSources ?? {})).toEqual(["town", "old"]);
+    expect(recorded.layerSources?.old).toBe(previous);
+    expect(recorded.layerSources?.town.fingerprint).toBe(
+      computeLayerFingerprint(layers[0].geojson)
+    );
+  });
+
+  it("参照がなければ記録しない", () => {
+    expect(
+      recordLayerSources(createProject([]), [createLayer("town")]).layerSources
+    ).toBeUndefined();
+  });
+});
+
+describe("findLayerBySource", () => {
+  it("内容が一致するレイヤーを探す", () => {
+    // Arrange
+    const source = describeLayerSource(createLayer("old", 140));
+    const renamed = createLayer("renamed", 140);
+
+    // Act & Assert
+    expect(findLayerBySource(source, [createLayer("town"), renamed])).toBe(renamed);
+    expect(findLayerBySource(source, [createLayer("town")])).toBeNull();
+  });
+});
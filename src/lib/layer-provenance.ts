@@ -0,0 +1,58 @@
+import type { AreaProject, LayerSourceInfo } from "@/types/area";
+import { splitFeatureId, type Layer } from "@/types/layer";
+import { computeLayerFingerprint } from "@/lib/layer-fingerprint";
+
+/**
+ * プロジェクトに記録するレイヤーの出所
+ * プロジェクトを受け取った人が、どのファイルを読み込めばよいかを分かるようにする
+ *
+ * 形状の一致はフィンガープリント (GeoJSON ごとに一度だけ計算) で判定する
+ */
+
+/**
+ * 読み込み中のレイヤーの出所
+ */
+export function describeLayerSource(layer: Layer): LayerSourceInfo {
+  return {
+    name: layer.name,
+    fileNames: layer.fileNames ?? [],
+    featureCount: layer.geojson.features.length,
+    ...(layer.keyField ? { keyField: layer.keyField } : {}),
+    fingerprint: computeLayerFingerprint(layer.geojson),
+  };
+}
+
+/**
+ * プロジェクトが参照するレイヤーの出所を記録する
+ * 読み込まれていないレイヤーは前回記録した出所を残し、参照しなくなったレイヤーの出所は消す
+ */
+export function recordLayerSources(project: AreaProject, layers: Layer[]): AreaProject {
+  const referencedIds = new Set<string>();
+  for (const area of project.areas) {
+    for (const featureId of area.featureIds) {
+      const layerId = splitFeatureId(featureId)?.layerId;
+      if (layerId) referencedIds.add(layerId);
+    }
+  }
+
+  const layerSources: Record<string, LayerSourceInfo> = {};
+  for (const layerId of referencedIds) {
+    const layer = layers.find((l) => l.id === layerId);
+    const source = layer ? describeLayerSource(layer) : project.layerSources?.[layerId];
+    if (source) layerSources[layerId] = source;
+  }
+
+  return {
+    ...project,
+    layerSources: Object.keys(layerSources).length > 0 ? layerSources : undefined,
+  };
+}
+
+/**
+ * 記録した出所と形状が一致するレイヤーを探す (ファイル名が変わった場合の付け替え先の候補)
+ */
+export function findLayerBySource(source: LayerSourceInfo, layers: Layer[]): Layer | null {
+  return (
+    layers.find((layer) => computeLayerFingerprint(layer.geojson) === source.fingerprint) ?? null
+  );
+}
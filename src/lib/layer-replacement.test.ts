@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection } from "geojson";
+import type { AreaProject } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import {
+  applyLayerReplacement,
+  buildLayerReplacement,
+  getReplacementIdMapping,
+} from "./layer-replacement";
+
+function createGeoJson(items: { lon: number; code: string }[]): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: items.map(({ lon, code }) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [lon, 35] },
+      properties: { KEY_CODE: code },
+    })),
+  };
+}
+
+function createLayer(overrides: Partial<Layer> = {}): Layer {
+  return {
+    id: "town",
+    name: "town",
+    geojson: createGeoJson([
+      { lon: 139, code: "A" },
+      { lon: 140, code: "B" },
+      { lon: 141, code: "C" },
+    ]),
+    visible: false,
+    color: "#ef4444",
+    filter: { key: "KEY_CODE", values: ["A"], enabled: true },
+    ...overrides,
+  };
+}
+
+function createProject(
+  featureIds: string[],
+  featureKeyFields?: Record<string, string>
+): AreaProject {
+  return {
+    version: "1.0.0",
+    name: "test",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    areas: [{ id: "a", name: "A", parentId: null, color: "#ef4444", featureIds }],
+    featureKeyFields,
+  };
+}
+
+describe("buildLayerReplacement", () => {
+  it("色・表示・フィルター・キー列を引き継いでデータだけを置き換える", () => {
+    // Arrange
+    const oldLayer = createLayer({ keyField: "KEY_CODE" });
+    const geojson = createGeoJson([
+      { lon: 150, code: "B" },
+      { lon: 151, code: "A" },
+    ]);
+
+    // Act
+    const { newLayer, match } = buildLayerReplacement(oldLayer, {
+      geojson,
+      fileNames: ["town_2020.geojson"],
+    });
+
+    // Assert
+    expect(newLayer).toMatchObject({
+      id: "town",
+      name: "town",
+      visible: false,
+      color: "#ef4444",
+      filter: oldLayer.filter,
+      keyField: "KEY_CODE",
+      fileNames: ["town_2020.geojson"],
+    });
+    expect(newLayer.geojson).toBe(geojson);
+    expect(match.method).toBe("key");
+    expect(match.removedIndices).toEqual([2]);
+  });
+
+  it("新しいデータで値が重複するキー列は引き継がない", () => {
+    // Arrange
+    const oldLayer = createLayer({ keyField: "KEY_CODE" });
+    const geojson = createGeoJson([
+      { lon: 139, code: "A" },
+      { lon: 140, code: "A" },
+    ]);
+
+    // Act
+    const { newLayer } = buildLayerReplacement(oldLayer, { geojson });
+
+    // Assert
+    expect(newLayer.keyField).toBeUndefined();
+  });
+});
+
+describe("getReplacementIdMapping", () => {
+  it("インデックス形式のIDを新しい位置に対応付ける", () => {
+    // Arrange
+    const replacement = buildLayerReplacement(createLayer(), {
+      geojson: createGeoJson([
+        { lon: 141, code: "C" },
+        { lon: 139, code: "A" },
+      ]),
+    });
+
+    // Act
+    const { mapping, removedIds } = getReplacementIdMapping(replacement);
+
+    // Assert
+    expect(Array.from(mapping)).toEqual([
+      ["town:0", "town:1"],
+      ["town:2", "town:0"],
+    ]);
+    expect(removedIds).toEqual(["town:1"]);
+  });
+});
+
+describe("applyLayerReplacement", () => {
+  it("割り当てを新しいIDに移し、対応先のない割り当ては解除する", () => {
+    // Arrange
+    const replacement = buildLayerReplacement(createLayer(), {
+      geojson: createGeoJson([
+        { lon: 141, code: "C" },
+        { lon: 139, code: "A" },
+      ]),
+    });
+    const project = createProject(["town:0", "town:1", "town:2", "other:0"]);
+
+    // Act
+    const result = applyLayerReplacement(project, replacement);
+
+    // Assert
+    expect(result.project.areas[0].featureIds).toEqual(["town:1", "town:0", "other:0"]);
+    expect(result.keptCount).toBe(2);
+    expect(result.releasedIds).toEqual(["town:1"]);
+  });
+
+  it("キー列を引き継げない場合はインデックス形式に書き換えて記録を消す", () => {
+    // Arrange
+    const replacement = buildLayerReplacement(createLayer({ keyField: "KEY_CODE" }), {
+      geojson: createGeoJson([
+        { lon: 141, code: "C" },
+        { lon: 139, code: "" },
+      ]),
+    });
+    const project = createProject(["town:C"], { town: "KEY_CODE" });
+
+    // Act
+    const result = applyLayerReplacement(project, replacement);
+
+    // Assert
+    expect(result.project.areas[0].featureIds).toEqual(["town:0"]);
+    expect(result.project.featureKeyFields).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import type { AreaProject } from "@/types/area";
+import { getLayerFeatureId, type Layer } from "@/types/layer";
+import { matchFeatures, type FeatureMatchResult } from "@/lib/feature-matching";
+import { remapAreaFeatureIds } from "@/lib/feature-id-migration";
+import { pruneFeatureIds } from "@/lib/project-reconciliation";
+import { restoreFilter, restoreKeyField } from "@/lib/saved-layer-state";
+
+/**
+ * レイヤーのデータの置き換え (新しい年次のデータへの差し替えなど)
+ * 色・表示・フィルター・並び順は引き継ぎ、エリアの割り当ては対応付けたフィーチャーに移す
+ */
+
+/**
+ * 置き換えの内容
+ */
+export interface LayerReplacement {
+  oldLayer: Layer;
+  newLayer: Layer;
+  match: FeatureMatchResult;
+}
+
+/**
+ * 置き換えによるエリアの割り当ての変化
+ */
+export interface LayerReplacementAssignments {
+  /** 新しいデータのフィーチャーに引き継いだ数 */
+  keptCount: number;
+  /** 対応するフィーチャーがなく割り当てを解除したID */
+  releasedIds: string[];
+}
+
+/**
+ * 新しいデータでレイヤーを置き換え、古いデータとフィーチャーを対応付ける
+ * キー列は新しいデータでも値が空・重複していない場合のみ引き継ぐ
+ */
+export function buildLayerReplacement(
+  oldLayer: Layer,
+  data: Pick<Layer, "geojson" | "source" | "encoding" | "fileNames" | "schema" | "validation">
+): LayerReplacement {
+  const newLayer: Layer = {
+    ...oldLayer,
+    ...data,
+    // 新しいデータが Shapefile でない場合に古いスキーマ・検証結果を残さない
+    schema: data.schema,
+    validation: data.validation,
+    filter: restoreFilter(oldLayer.filter, data.geojson),
+    keyField: restoreKeyField(oldLayer.keyField, data.geojson),
+  };
+  return {
+    oldLayer,
+    newLayer,
+    match: matchFeatures(oldLayer.geojson, data.geojson, oldLayer.keyField),
+  };
+}
+
+/**
+ * 古いフィーチャーIDから新しいフィーチャーIDへの対応表と、対応先のないID
+ */
+export function getReplacementIdMapping({ oldLayer, newLayer, match }: LayerReplacement): {
+  mapping: Map<string, string>;
+  removedIds: string[];
+} {
+  const mapping = new Map<string, string>();
+  for (const [oldIndex, newIndex] of match.matches) {
+    mapping.set(getLayerFeatureId(oldLayer, oldIndex), getLayerFeatureId(newLayer, newIndex));
+  }
+  const removedIds = [...match.removedIndices, ...match.unmatchedIndices].map((index) =>
+    getLayerFeatureId(oldLayer, index)
+  );
+  return { mapping, removedIds };
+}
+
+/**
+ * 置き換えに合わせてプロジェクトのフィーチャーIDを書き換える
+ * 対応先のないフィーチャーの割り当ては解除する (インデックス形式の ID が別のフィーチャーを指さないように)
+ */
+export function applyLayerReplacement(
+  project: AreaProject,
+  replacement: LayerReplacement
+): { project: AreaProject } & LayerReplacementAssignments {
+  const { mapping, removedIds } = getReplacementIdMapping(replacement);
+  const removed = new Set(removedIds);
+  const referenced = project.areas.flatMap((area) => area.featureIds);
+  const releasedIds = referenced.filter((id) => removed.has(id));
+  const keptCount = referenced.filter((id) => mapping.has(id)).length;
+
+  const pruned = pruneFeatureIds(project, releasedIds);
+  const { id: layerId, keyField } = replacement.newLayer;
+  const featureKeyFields = { ...project.featureKeyFields };
+  if (keyField) {
+    featureKeyFields[layerId] = keyField;
+  } else {
+    delete featureKeyFields[layerId];
+  }
+
+  return {
+    project: {
+      ...pruned,
+      areas: remapAreaFeatureIds(pruned.areas, mapping),
+      featureKeyFields: Object.keys(featureKeyFields).length > 0 ? featureKeyFields : undefined,
+    },
+    keptCount,
+    releasedIds,
+  };
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import type { Feature, FeatureCollection, Position } from "geojson";
+import {
+  countValidationIssues,
+  formatValidationReportCsv,
+  hasSelfIntersection,
+  isRingClockwise,
+  validateFieldNames,
+  validateGeometries,
+  validateRecordCounts,
+  validateShapefile,
+} from "./layer-validation";
+
+// 時計回りの正方形 (Shapefile の外周の向き)
+function clockwiseSquare(x: number, y: number, size = 1): Position[] {
+  return [
+    [x, y],
+    [x, y + size],
+    [x + size, y + size],
+    [x + size, y],
+    [x, y],
+  ];
+}
+
+function createGeoJson(geometries: Feature["geometry"][]): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: geometries.map((geometry) => ({ type: "Feature", geometry, properties: {} })),
+  };
+}
+
+describe("isRingClockwise", () => {
+  it("リングの向きを判定する", () => {
+    expect(isRingClockwise(clockwiseSquare(0, 0))).toBe(true);
+    expect(isRingClockwise(clockwiseSquare(0, 0).reverse())).toBe(false);
+  });
+});
+
+describe("hasSelfIntersection", () => {
+  it("単純なリングは自己交差しない", () => {
+    expect(hasSelfIntersection(clockwiseSquare(139, 35))).toBe(false);
+  });
+
+  it("8 の字のリングは自己交差する", () => {
+    const bowtie = [
+      [0, 0],
+      [1, 1],
+      [1, 0],
+      [0, 1],
+      [0, 0],
+    ];
+    expect(hasSelfIntersection(bowtie)).toBe(true);
+  });
+
+  it("連続する重複点は自己交差とみなさない", () => {
+    const ring = clockwiseSquare(0, 0);
+    ring.splice(2, 0, ring[1]);
+    expect(hasSelfIntersection(ring)).toBe(false);
+  });
+
+  it("離れた辺が頂点で接するリングは自己交差とみなす", () => {
+    const ring = [
+      [0, 0],
+      [0, 2],
+      [1, 1],
+      [2, 2],
+      [2, 0],
+      [1, 1],
+      [0, 0],
+    ];
+    expect(hasSelfIntersection(ring)).toBe(true);
+  });
+});
+
+describe("validateGeometries", () => {
+  it("ジオメトリなし・閉じていないリング・逆向きの外周・範囲外の座標を検出する", () => {
+    // Arrange
+    const unclosed = clockwiseSquare(139, 35).slice(0, 4);
+    unclosed.push([139.5, 35.5]);
+    const geojson = createGeoJson([
+      { type: "Polygon", coordinates: [clockwiseSquare(139, 35)] },
+      null as unknown as Feature["geometry"],
+      { type: "Polygon", coordinates: [unclosed] },
+      { type: "Polygon", coordinates: [clockwiseSquare(139, 35).reverse()] },
+      { type: "Point", coordinates: [500000, 4000000] },
+    ]);
+
+    // Act
+    const issues = validateGeometries(geojson);
+
+    // Assert
+    expect(issues.map(({ type, featureIndex }) => [type, featureIndex])).toEqual([
+      ["null-geometry", 1],
+      ["unclosed-ring", 2],
+      ["ring-winding", 3],
+      ["out-of-extent", 4],
+    ]);
+  });
+
+  it("穴は反時計回りであれば問題としない", () => {
+    // Arrange
+    const hole = clockwiseSquare(139.25, 35.25, 0.5).reverse();
+    const geojson = createGeoJson([
+      { type: "Polygon", coordinates: [clockwiseSquare(139, 35), hole] },
+    ]);
+
+    // Act & Assert
+    expect(validateGeometries(geojson)).toEqual([]);
+  });
+});
+
+describe("validateRecordCounts", () => {
+  it("レコード数が一致しない場合に問題とする", () => {
+    expect(validateRecordCounts(3, 3)).toEqual([]);
+    expect(validateRecordCounts(3, null)).toEqual([]);
+    expect(validateRecordCounts(3, 2)[0]).toMatchObject({
+      type: "record-count-mismatch",
+      featureIndex: null,
+      message:
+        ".shp のレコード数 (3) と .dbf のレコード数 (2) が一致しません (属性のないフィーチャーがあります)",
+    });
+  });
+});
+
+describe("validateFieldNames", () => {
+  it("空の列名と重複した列名を検出する (重複は列名ごとに 1 件)", () => {
+    // Arrange
+    const fields = ["NAME", "", "NAME", "CODE", "NAME"].map((name) => ({
+      name,
+      type: "C",
+      length: 10,
+      decimals: 0,
+    }));
+
+    // Act
+    const issues = validateFieldNames(fields);
+
+    // Assert
+    expect(issues.map(({ type, message }) => [type, message])).toEqual([
+      ["empty-field-name", "2 列目の列名が空です"],
+      ["duplicate-field-name", "列名 NAME が重複しています (後の列の値だけが読み込まれます)"],
+    ]);
+  });
+});
+
+describe("validateShapefile", () => {
+  it("ファイル全体の問題とフィーチャーの問題をまとめ、種類ごとに数える", () => {
+    // Arrange
+    const geojson = createGeoJson([null as unknown as Feature["geometry"]]);
+
+    // Act
+    const report = validateShapefile(geojson, 1, {
+      recordCount: 2,
+      fields: [{ name: "", type: "C", length: 1, decimals: 0 }],
+    });
+
+    // Assert
+    expect(report.featureCount).toBe(1);
+    expect(countValidationIssues(report)).toEqual([
+      { type: "null-geometry", count: 1 },
+      { type: "record-count-mismatch", count: 1 },
+      { type: "empty-field-name", count: 1 },
+    ]);
+  });
+});
+
+describe("formatValidationReportCsv", () => {
+  it("種類・フィーチャー番号 (1 始まり)・内容の CSV にする", () => {
+    // Arrange
+    const report = {
+      featureCount: 2,
+      issues: [
+        { type: "null-geometry" as const, featureIndex: 1, message: "ジオメトリがありません" },
+        { type: "duplicate-field-name" as const, featureIndex: null, message: 'a,"b"' },
+      ],
+    };
+
+    // Act
+    const csv = formatValidationReportCsv(report);
+
+    // Assert
+    expect(csv).toBe(
+      '種類,フィーチャー番号,内容\r\nジオメトリなし,2,ジオメトリがありません\r\n重複した列名,,"a,""b"""\r\n'
+    );
+  });
+});
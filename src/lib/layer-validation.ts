@@ -0,0 +1,320 @@
+import type { FeatureCollection, Geometry, Position } from "geojson";
+import type { DbfField } from "@/lib/dbf-header";
+import { iterateCoordinates } from "@/lib/geometry-bounds";
+import { formatCsv } from "@/lib/csv-writer";
+
+/**
+ * Shapefile の読み込み時の検証
+ * 読み込み自体は続けつつ、データの欠損や座標系の指定誤りの手がかりを一覧にする
+ */
+
+/**
+ * 問題の種類
+ */
+export type ValidationIssueType =
+  | "null-geometry"
+  | "record-count-mismatch"
+  | "unclosed-ring"
+  | "self-intersection"
+  | "ring-winding"
+  | "empty-field-name"
+  | "duplicate-field-name"
+  | "out-of-extent";
+
+/**
+ * 検出した問題
+ */
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  /** 対象のフィーチャーの位置 (ファイル全体の問題は null) */
+  featureIndex: number | null;
+  message: string;
+}
+
+/**
+ * 検証結果
+ */
+export interface ValidationReport {
+  /** 検証したフィーチャー数 */
+  featureCount: number;
+  issues: ValidationIssue[];
+}
+
+export const VALIDATION_ISSUE_LABELS: Record<ValidationIssueType, string> = {
+  "null-geometry": "ジオメトリなし",
+  "record-count-mismatch": "レコード数の不一致",
+  "unclosed-ring": "閉じていないリング",
+  "self-intersection": "自己交差",
+  "ring-winding": "リングの向き",
+  "empty-field-name": "空の列名",
+  "duplicate-field-name": "重複した列名",
+  "out-of-extent": "日本の範囲外の座標",
+};
+
+// 日本の座標としてありうる範囲 [西, 南, 東, 北] (離島を含む)
+const JAPAN_EXTENT = [122, 20, 154, 46] as const;
+
+type Point = Position;
+
+function samePoint(a: Point, b: Point): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * リングが時計回りか (Shapefile では外周が時計回り、穴が反時計回り)
+ */
+export function isRingClockwise(ring: Position[]): boolean {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][1] * ring[i][0] - ring[j][0] * ring[i][1];
+  }
+  return area >= 0;
+}
+
+function orientation(p: Point, q: Point, r: Point): number {
+  return Math.sign((q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]));
+}
+
+function onSegment(p: Point, q: Point, r: Point): boolean {
+  return (
+    Math.min(p[0], r[0]) <= q[0] &&
+    q[0] <= Math.max(p[0], r[0]) &&
+    Math.min(p[1], r[1]) <= q[1] &&
+    q[1] <= Math.max(p[1], r[1])
+  );
+}
+
+/**
+ * 2 つの線分が交わるか (端点での接触を含む)
+ */
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && onSegment(a, c, b)) ||
+    (o2 === 0 && onSegment(a, d, b)) ||
+    (o3 === 0 && onSegment(c, a, d)) ||
+    (o4 === 0 && onSegment(c, b, d))
+  );
+}
+
+/**
+ * 閉じたリングが自己交差しているか
+ * 線分を西端の順に並べ、東西の範囲が重なる線分どうしだけを比べる
+ */
+export function hasSelfIntersection(ring: Position[]): boolean {
+  // 連続する重複点は長さ 0 の線分になり、隣接判定を誤らせるため除く
+  const points = ring.filter((p, i) => i === 0 || !samePoint(p, ring[i - 1]));
+  const segmentCount = points.length - 1;
+  if (segmentCount < 3) return false;
+
+  const order = Array.from({ length: segmentCount }, (_, i) => i);
+  const minX = order.map((i) => Math.min(points[i][0], points[i + 1][0]));
+  const maxX = order.map((i) => Math.max(points[i][0], points[i + 1][0]));
+  order.sort((a, b) => minX[a] - minX[b]);
+
+  for (let m = 0; m < segmentCount; m++) {
+    const i = order[m];
+    for (let n = m + 1; n < segmentCount && minX[order[n]] <= maxX[i]; n++) {
+      const j = order[n];
+      const [first, second] = i < j ? [i, j] : [j, i];
+      // 隣り合う線分 (リングの始点と終点を含む) は端点を共有する
+      if (second === first + 1 || (first === 0 && second === segmentCount - 1)) continue;
+      if (segmentsIntersect(points[i], points[i + 1], points[j], points[j + 1])) return true;
+    }
+  }
+  return false;
+}
+
+function getPolygons(geometry: Geometry): Position[][][] {
+  switch (geometry.type) {
+    case "Polygon":
+      return [geometry.coordinates];
+    case "MultiPolygon":
+      return geometry.coordinates;
+    case "GeometryCollection":
+      return geometry.geometries.flatMap(getPolygons);
+    default:
+      return [];
+  }
+}
+
+/**
+ * ポリゴンのリングの検証 (閉じているか・自己交差・向き)
+ */
+function validateRings(geometry: Geometry, featureIndex: number): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  let ringNumber = 0;
+  for (const polygon of getPolygons(geometry)) {
+    for (const [ringIndex, ring] of polygon.entries()) {
+      ringNumber++;
+      if (ring.length < 4 || !samePoint(ring[0], ring[ring.length - 1])) {
+        issues.push({
+          type: "unclosed-ring",
+          featureIndex,
+          message:
+            ring.length < 4
+              ? `リング ${ringNumber} の頂点が ${ring.length} 点しかありません`
+              : `リング ${ringNumber} の始点と終点が一致しません`,
+        });
+        continue;
+      }
+      if (hasSelfIntersection(ring)) {
+        issues.push({
+          type: "self-intersection",
+          featureIndex,
+          message: `リング ${ringNumber} が自己交差しています`,
+        });
+      }
+      const isOuter = ringIndex === 0;
+      if (isRingClockwise(ring) !== isOuter) {
+        issues.push({
+          type: "ring-winding",
+          featureIndex,
+          message: isOuter
+            ? `リング ${ringNumber} (外周) が反時計回りです (穴として扱われるべきリングの可能性があります)`
+            : `リング ${ringNumber} (穴) が時計回りです`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function findOutOfExtent(geometry: Geometry): Position | null {
+  const [west, south, east, north] = JAPAN_EXTENT;
+  for (const [x, y] of iterateCoordinates(geometry)) {
+    if (!(x >= west && x <= east && y >= south && y <= north)) return [x, y];
+  }
+  return null;
+}
+
+/**
+ * フィーチャーのジオメトリの検証 (ジオメトリなし・リング・日本の範囲外の座標)
+ */
+export function validateGeometries(geojson: FeatureCollection): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const [featureIndex, feature] of geojson.features.entries()) {
+    const { geometry } = feature;
+    if (!geometry) {
+      issues.push({
+        type: "null-geometry",
+        featureIndex,
+        message: "ジオメトリがありません (Null Shape)",
+      });
+      continue;
+    }
+    issues.push(...validateRings(geometry, featureIndex));
+    const outside = findOutOfExtent(geometry);
+    if (outside) {
+      issues.push({
+        type: "out-of-extent",
+        featureIndex,
+        message: `座標 (${outside[0]}, ${outside[1]}) が日本の範囲外です (座標系の指定が誤っている可能性があります)`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * .shp と .dbf のレコード数の検証
+ */
+export function validateRecordCounts(
+  shpRecordCount: number,
+  dbfRecordCount: number | null
+): ValidationIssue[] {
+  if (dbfRecordCount === null || shpRecordCount === dbfRecordCount) return [];
+  const consequence =
+    shpRecordCount > dbfRecordCount
+      ? "属性のないフィーチャーがあります"
+      : "ジオメトリのない属性は読み込んでいません";
+  return [
+    {
+      type: "record-count-mismatch",
+      featureIndex: null,
+      message: `.shp のレコード数 (${shpRecordCount}) と .dbf のレコード数 (${dbfRecordCount}) が一致しません (${consequence})`,
+    },
+  ];
+}
+
+/**
+ * DBF の列名の検証 (空の列名・重複した列名)
+ */
+export function validateFieldNames(fields: DbfField[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+  for (const [index, { name }] of fields.entries()) {
+    const trimmed = name.trim();
+    if (trimmed === "") {
+      issues.push({
+        type: "empty-field-name",
+        featureIndex: null,
+        message: `${index + 1} 列目の列名が空です`,
+      });
+      continue;
+    }
+    if (seen.has(trimmed) && !reported.has(trimmed)) {
+      reported.add(trimmed);
+      issues.push({
+        type: "duplicate-field-name",
+        featureIndex: null,
+        message: `列名 ${trimmed} が重複しています (後の列の値だけが読み込まれます)`,
+      });
+    }
+    seen.add(trimmed);
+  }
+  return issues;
+}
+
+/**
+ * Shapefile の読み込み結果を検証する
+ * @param shpRecordCount - .shp から読んだレコード数
+ * @param dbfHeader - .dbf のヘッダー (.dbf がない場合は null)
+ */
+export function validateShapefile(
+  geojson: FeatureCollection,
+  shpRecordCount: number,
+  dbfHeader: { recordCount: number; fields: DbfField[] } | null
+): ValidationReport {
+  return {
+    featureCount: geojson.features.length,
+    issues: [
+      ...validateRecordCounts(shpRecordCount, dbfHeader?.recordCount ?? null),
+      ...validateFieldNames(dbfHeader?.fields ?? []),
+      ...validateGeometries(geojson),
+    ],
+  };
+}
+
+/**
+ * 種類ごとの問題の件数 (VALIDATION_ISSUE_LABELS の順、0 件の種類は含まない)
+ */
+export function countValidationIssues(
+  report: ValidationReport
+): { type: ValidationIssueType; count: number }[] {
+  const counts = new Map<ValidationIssueType, number>();
+  for (const { type } of report.issues) counts.set(type, (counts.get(type) ?? 0) + 1);
+  return (Object.keys(VALIDATION_ISSUE_LABELS) as ValidationIssueType[])
+    .filter((type) => counts.has(type))
+    .map((type) => ({ type, count: counts.get(type) ?? 0 }));
+}
+
+/**
+ * 検証結果を CSV にする (フィーチャー番号は 1 始まり)
+ */
+export function formatValidationReportCsv(report: ValidationReport): string {
+  const rows = [
+    ["種類", "フィーチャー番号", "内容"],
+    ...report.issues.map(({ type, featureIndex, message }) => [
+      VALIDATION_ISSUE_LABELS[type],
+      featureIndex === null ? "" : String(featureIndex + 1),
+      message,
+    ]),
+  ];
+  return formatCsv(rows);
+}
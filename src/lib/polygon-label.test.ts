@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import type { Position } from "geojson";
+import { getPolygonLabelPoint } from "./polygon-label";
+
+function rectangle(minX: number, minY: number, maxX: number, maxY: number): Position[] {
+  return [
+    [minX, minY],
+    [maxX, minY],
+    [maxX, maxY],
+    [minX, maxY],
+    [minX, minY],
+  ];
+}
+
+describe("getPolygonLabelPoint", () => {
+  it("長方形の中心付近を返す", () => {
+    // Act
+    const point = getPolygonLabelPoint({ type: "Polygon", coordinates: [rectangle(0, 0, 4, 2)] });
+
+    // Assert
+    expect(point?.[1]).toBeCloseTo(1, 1);
+    expect(point?.[0]).toBeGreaterThan(1);
+    expect(point?.[0]).toBeLessThan(3);
+  });
+
+  it("L 字形のポリゴンでは重心ではなく内部の点を返す", () => {
+    // Arrange (重心 [1.1, 1.1] 付近はポリゴンの外側)
+    const ring: Position[] = [
+      [0, 0],
+      [4, 0],
+      [4, 0.5],
+      [0.5, 0.5],
+      [0.5, 4],
+      [0, 4],
+      [0, 0],
+    ];
+
+    // Act
+    const point = getPolygonLabelPoint({ type: "Polygon", coordinates: [ring] });
+
+    // Assert
+    const [x, y] = point ?? [NaN, NaN];
+    expect(x < 0.5 || y < 0.5).toBe(true);
+  });
+
+  it("穴を避けた点を返す", () => {
+    // Arrange
+    const point = getPolygonLabelPoint({
+      type: "Polygon",
+      coordinates: [rectangle(0, 0, 3, 3), rectangle(0.5, 0.5, 2.5, 2.5)],
+    });
+
+    // Assert
+    const [x, y] = point ?? [NaN, NaN];
+    expect(x > 0.5 && x < 2.5 && y > 0.5 && y < 2.5).toBe(false);
+  });
+
+  it("マルチポリゴンは最も大きい部分に置く", () => {
+    // Act
+    const point = getPolygonLabelPoint({
+      type: "MultiPolygon",
+      coordinates: [[rectangle(0, 0, 1, 1)], [rectangle(10, 10, 14, 14)]],
+    });
+
+    // Assert
+    expect(point?.[0]).toBeCloseTo(12, 0);
+    expect(point?.[1]).toBeCloseTo(12, 0);
+  });
+
+  it("座標がない場合は null を返す", () => {
+    // Act & Assert
+    expect(getPolygonLabelPoint({ type: "MultiPolygon", coordinates: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,204 @@
+import type { MultiPolygon, Polygon, Position } from "geojson";
+
+/**
+ * ポリゴンのラベル位置 (内部で境界から最も離れた点)
+ * 外接矩形を格子に分け、境界からの距離の上限が大きいセルから細かく調べる (polylabel と同じ方法)
+ * 経度方向の距離は緯度に応じて縮めて計算する
+ */
+
+// 外接矩形の大きさに対する探索の精度
+const PRECISION_RATIO = 0.01;
+
+interface Cell {
+  x: number;
+  y: number;
+  /** セルの半分の大きさ */
+  half: number;
+  /** セルの中心から境界までの距離 (外側は負) */
+  distance: number;
+  /** セル内で取り得る距離の上限 */
+  max: number;
+}
+
+function pointToSegmentDistanceSq(
+  px: number,
+  py: number,
+  [ax, ay]: Position,
+  [bx, by]: Position
+): number {
+  let x = ax;
+  let y = ay;
+  let dx = bx - x;
+  let dy = by - y;
+  if (dx !== 0 || dy !== 0) {
+    const t = ((px - x) * dx + (py - y) * dy) / (dx * dx + dy * dy);
+    if (t > 1) {
+      x = bx;
+      y = by;
+    } else if (t > 0) {
+      x += dx * t;
+      y += dy * t;
+    }
+  }
+  dx = px - x;
+  dy = py - y;
+  return dx * dx + dy * dy;
+}
+
+/**
+ * 点から境界までの距離 (ポリゴンの外側は負)
+ */
+function signedDistance(x: number, y: number, rings: Position[][]): number {
+  let inside = false;
+  let minDistanceSq = Infinity;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if (a[1] > y !== b[1] > y && x < ((b[0] - a[0]) * (y - a[1])) / (b[1] - a[1]) + a[0]) {
+        inside = !inside;
+      }
+      minDistanceSq = Math.min(minDistanceSq, pointToSegmentDistanceSq(x, y, a, b));
+    }
+  }
+  return (inside ? 1 : -1) * Math.sqrt(minDistanceSq);
+}
+
+function createCell(x: number, y: number, half: number, rings: Position[][]): Cell {
+  const distance = signedDistance(x, y, rings);
+  return { x, y, half, distance, max: distance + half * Math.SQRT2 };
+}
+
+/**
+ * 外周の重心 (初期の候補)
+ */
+function getCentroidCell(rings: Position[][]): Cell {
+  const ring = rings[0];
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    const f = a[0] * b[1] - b[0] * a[1];
+    x += (a[0] + b[0]) * f;
+    y += (a[1] + b[1]) * f;
+    area += f * 3;
+  }
+  return area === 0
+    ? createCell(ring[0][0], ring[0][1], 0, rings)
+    : createCell(x / area, y / area, 0, rings);
+}
+
+/**
+ * 距離の上限が大きい順に取り出すキュー (二分ヒープ) に追加する
+ */
+function pushCell(queue: Cell[], cell: Cell): void {
+  queue.push(cell);
+  let i = queue.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (queue[parent].max >= cell.max) break;
+    queue[i] = queue[parent];
+    i = parent;
+  }
+  queue[i] = cell;
+}
+
+/**
+ * キューから距離の上限が最も大きいセルを取り出す
+ */
+function popCell(queue: Cell[]): Cell | undefined {
+  const top = queue[0];
+  const last = queue.pop();
+  if (queue.length === 0 || !last) return top;
+  let i = 0;
+  for (;;) {
+    const left = i * 2 + 1;
+    if (left >= queue.length) break;
+    const right = left + 1;
+    const child = right < queue.length && queue[right].max > queue[left].max ? right : left;
+    if (queue[child].max <= last.max) break;
+    queue[i] = queue[child];
+    i = child;
+  }
+  queue[i] = last;
+  return top;
+}
+
+/**
+ * ポリゴン (外周と穴) の内部で境界から最も離れた点
+ */
+function getPolylabel(rings: Position[][], precisionRatio: number): Position {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of rings[0]) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  const width = maxX - minX;
+  const height = maxY - minY;
+  const cellSize = Math.min(width, height);
+  if (cellSize === 0) return [minX, minY];
+  const precision = Math.max(width, height) * precisionRatio;
+
+  const queue: Cell[] = [];
+  const half = cellSize / 2;
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      pushCell(queue, createCell(x + half, y + half, half, rings));
+    }
+  }
+
+  let best = getCentroidCell(rings);
+  const center = createCell(minX + width / 2, minY + height / 2, 0, rings);
+  if (center.distance > best.distance) best = center;
+
+  for (let cell = popCell(queue); cell; cell = popCell(queue)) {
+    if (cell.distance > best.distance) best = cell;
+    // これ以上細かくしても改善できないセルは調べない
+    if (cell.max - best.distance <= precision) continue;
+    const h = cell.half / 2;
+    pushCell(queue, createCell(cell.x - h, cell.y - h, h, rings));
+    pushCell(queue, createCell(cell.x + h, cell.y - h, h, rings));
+    pushCell(queue, createCell(cell.x - h, cell.y + h, h, rings));
+    pushCell(queue, createCell(cell.x + h, cell.y + h, h, rings));
+  }
+  return [best.x, best.y];
+}
+
+function getPlanarRingArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return Math.abs(area / 2);
+}
+
+/**
+ * ラベルを置く点 [経度, 緯度] (マルチポリゴンは外周の最も大きい部分に置く)
+ */
+export function getPolygonLabelPoint(geometry: Polygon | MultiPolygon): Position | null {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  let largest: Position[][] | null = null;
+  let largestArea = -1;
+  for (const polygon of polygons) {
+    if (!polygon[0] || polygon[0].length === 0) continue;
+    const area = getPlanarRingArea(polygon[0]);
+    if (area > largestArea) {
+      largest = polygon;
+      largestArea = area;
+    }
+  }
+  if (!largest) return null;
+
+  // 経度方向を緯度に応じて縮めた平面で計算する
+  const scale = Math.cos((largest[0][0][1] * Math.PI) / 180) || 1;
+  const scaled = largest.map((ring) => ring.map(([x, y]) => [x * scale, y]));
+  const [x, y] = getPolylabel(scaled, PRECISION_RATIO);
+  return [x / scale, y];
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import type { Area, AreaProject } from "@/types/area";
+import type { Layer } from "@/types/layer";
+import { computeLayerFingerprint } from "./layer-fingerprint";
+import { pruneFeatureIds, reconcileProject, remapProjectLayer } from "./project-reconciliation";
+
+function createLayer(id: string, codes: string[], keyField?: string): Layer {
+  return {
+    id,
+    name: id,
+    geojson: {
+      type: "FeatureCollection",
+      features: codes.map((code) => ({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [139, 35] },
+        properties: { KEY_CODE: code },
+      })),
+    },
+    visible: true,
+    color: "#3b82f6",
+    keyField,
+  };
+}
+
+function createArea(id: string, featureIds: string[], overrides: Partial<Area> = {}): Area {
+  return { id, name: id, parentId: null, color: "#ef4444", featureIds, ...overrides };
+}
+
+function createProject(areas: Area[], featureKeyFields?: Record<string, string>): AreaProject {
+  return {
+    version: "1.0.0",
+    name: "test",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    areas,
+    featureKeyFields,
+  };
+}
+
+describe("reconcileProject", () => {
+  it("参照しているレイヤーごとに見つかった件数と見つからないIDを数える", () => {
+    // Arrange
+    const project = createProject([
+      createArea("a", ["town:0", "town:5"]),
+      createArea("b", ["old_town:1"]),
+    ]);
+    const layers = [createLayer("town", ["13101", "13102"])];
+
+    // Act
+    const result = reconcileProject(project, layers);
+
+    // Assert
+    expect(result.referencedCount).toBe(3);
+    expect(result.resolvedCount).toBe(1);
+    expect(result.layers).toEqual([
+      {
+        layerId: "town",
+        layer: layers[0],
+        source: null,
+        contentMatches: null,
+        referencedCount: 2,
+        resolvedCount: 1,
+        danglingIds: ["town:5"],
+      },
+      {
+        layerId: "old_town",
+        layer: null,
+        source: null,
+        contentMatches: null,
+        referencedCount: 1,
+        resolvedCount: 0,
+        danglingIds: ["old_town:1"],
+      },
+    ]);
+  });
+
+  it("記録したキー列でIDを解釈する", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["town:13102", "town:99999"])], {
+      town: "KEY_CODE",
+    });
+
+    // Act
+    const result = reconcileProject(project, [createLayer("town", ["13101", "13102"], "KEY_CODE")]);
+
+    // Assert
+    expect(result.layers[0].resolvedCount).toBe(1);
+    expect(result.layers[0].danglingIds).toEqual(["town:99999"]);
+  });
+
+  it("記録した出所と読み込んだレイヤーの内容を比べる", () => {
+    // Arrange
+    const recorded = createLayer("town", ["13101"]);
+    const source = {
+      name: "town",
+      fileNames: ["town.shp"],
+      featureCount: 1,
+      fingerprint: computeLayerFingerprint(recorded.geojson),
+    };
+    const project = {
+      ...createProject([createArea("a", ["town:0"])]),
+      layerSources: { town: source },
+    };
+    const changed = createLayer("town", ["13101"]);
+    changed.geojson.features[0].geometry = { type: "Point", coordinates: [140, 36] };
+
+    // Act
+    const same = reconcileProject(project, [recorded]);
+    const different = reconcileProject(project, [changed]);
+
+    // Assert
+    expect(same.layers[0]).toMatchObject({ source, contentMatches: true });
+    expect(different.layers[0].contentMatches).toBe(false);
+  });
+});
+
+describe("remapProjectLayer", () => {
+  it("参照を別のレイヤーに付け替える", () => {
+    // Arrange
+    const project = createProject([
+      createArea("a", ["old_town:1", "old_town:9"], { featureNames: { "old_town:1": "中央区" } }),
+    ]);
+    const toLayer = createLayer("town", ["13101", "13102"]);
+
+    // Act
+    const remapped = remapProjectLayer(project, "old_town", toLayer);
+
+    // Assert
+    expect(remapped.areas[0].featureIds).toEqual(["town:1", "town:9"]);
+    expect(remapped.areas[0].featureNames).toEqual({ "town:1": "中央区" });
+  });
+
+  it("キー列で記録した参照は付け替え先のキー列の形式に合わせる", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["old_town:13102"])], {
+      old_town: "KEY_CODE",
+    });
+    const toLayer = createLayer("town", ["13101", "13102"]);
+
+    // Act
+    const remapped = remapProjectLayer(project, "old_town", toLayer);
+
+    // Assert
+    expect(remapped.areas[0].featureIds).toEqual(["town:1"]);
+    expect(remapped.featureKeyFields).toBeUndefined();
+  });
+
+  it("付け替え先のキー列を記録する", () => {
+    // Arrange
+    const project = createProject([createArea("a", ["old_town:0"])]);
+    const toLayer = createLayer("town", ["13101"], "KEY_CODE");
+
+    // Act
+    const remapped = remapProjectLayer(project, "old_town", toLayer);
+
+    // Assert
+    expect(remapped.areas[0].featureIds).toEqual(["town:13101"]);
+    expect(remapped.featureKeyFields).toEqual({ town: "KEY_CODE" });
+  });
+});
+
+describe("pruneFeatureIds", () => {
+  it("指定したIDとそのフィーチャー名を削除する", () => {
+    // Arrange
+    const untouched = createArea("b", ["town:1"]);
+    const project = createProject([
+      createArea("a", ["town:0", "town:5"], {
+        featureNames: { "town:0": "千代田区", "town:5": "?" },
+      }),
+      untouched,
+    ]);
+
+    // Act
+    const pruned = pruneFeatureIds(project, ["town:5"]);
+
+    // Assert
+    expect(pruned.areas[0].featureIds).toEqual(["town:0"]);
+    expect(pruned.areas[0].featureNames).toEqual({ "town:0": "千代田区" });
+    expect(pruned.areas[1]).toBe(untouched);
+  });
+});
@@ -0,0 +1,153 @@
+import type { AreaProject, LayerSourceInfo } from "@/types/area";
+import {
+  generateFeatureId,
+  getLayerFeatureId,
+  resolveFeatureId,
+  splitFeatureId,
+  type Layer,
+} from "@/types/layer";
+import { remapAreaFeatureIds } from "@/lib/feature-id-migration";
+import { computeLayerFingerprint } from "@/lib/layer-fingerprint";
+
+/**
+ * プロジェクトと読み込み中のレイヤーの照合
+ * プロジェクトが参照するレイヤーごとに、フィーチャーIDが実在するフィーチャーを指しているかを調べる
+ */
+
+/**
+ * レイヤーごとの照合結果
+ */
+export interface LayerReconciliation {
+  layerId: string;
+  /** 読み込み中のレイヤー (読み込まれていなければ null) */
+  layer: Layer | null;
+  /** プロジェクトに記録された出所 (記録がなければ null) */
+  source: LayerSourceInfo | null;
+  /** 読み込み中のレイヤーの形状が記録と一致するか (比較できない場合は null) */
+  contentMatches: boolean | null;
+  /** プロジェクトが参照するフィーチャーIDの数 */
+  referencedCount: number;
+  /** 対応するフィーチャーが見つかった数 */
+  resolvedCount: number;
+  /** 対応するフィーチャーが見つからないID (レイヤーが読み込まれていない場合はすべて) */
+  danglingIds: string[];
+}
+
+/**
+ * プロジェクト全体の照合結果
+ */
+export interface ProjectReconciliation {
+  layers: LayerReconciliation[];
+  referencedCount: number;
+  resolvedCount: number;
+}
+
+/**
+ * プロジェクトが参照するフィーチャーIDをレイヤーごとに照合する
+ * ID はプロジェクトに記録したキー列 (featureKeyFields) で解釈する
+ */
+export function reconcileProject(project: AreaProject, layers: Layer[]): ProjectReconciliation {
+  const byLayerId = new Map<string, LayerReconciliation>();
+  for (const area of project.areas) {
+    for (const featureId of area.featureIds) {
+      const layerId = splitFeatureId(featureId)?.layerId ?? featureId;
+      let entry = byLayerId.get(layerId);
+      if (!entry) {
+        const layer = layers.find((l) => l.id === layerId) ?? null;
+        const source = project.layerSources?.[layerId] ?? null;
+        entry = {
+          layerId,
+          layer,
+          source,
+          contentMatches:
+            layer && source ? computeLayerFingerprint(layer.geojson) === source.fingerprint : null,
+          referencedCount: 0,
+          resolvedCount: 0,
+          danglingIds: [],
+        };
+        byLayerId.set(layerId, entry);
+      }
+
+      entry.referencedCount++;
+      const keyField = project.featureKeyFields?.[layerId] ?? null;
+      if (entry.layer && resolveFeatureId(featureId, [entry.layer], keyField)) {
+        entry.resolvedCount++;
+      } else {
+        entry.danglingIds.push(featureId);
+      }
+    }
+  }
+
+  const result = Array.from(byLayerId.values());
+  return {
+    layers: result,
+    referencedCount: result.reduce((sum, entry) => sum + entry.referencedCount, 0),
+    resolvedCount: result.reduce((sum, entry) => sum + entry.resolvedCount, 0),
+  };
+}
+
+/**
+ * あるレイヤーへの参照を別のレイヤーに付け替える (ファイル名が変わった場合など)
+ * 元の ID のキー (インデックスまたはキー列の値) で付け替え先のフィーチャーを探し、
+ * 見つからない ID もキーはそのままに付け替える
+ */
+export function remapProjectLayer(
+  project: AreaProject,
+  fromLayerId: string,
+  toLayer: Layer
+): AreaProject {
+  const keyField = project.featureKeyFields?.[fromLayerId] ?? null;
+  const mapping = new Map<string, string>();
+  for (const area of project.areas) {
+    for (const featureId of area.featureIds) {
+      const parts = splitFeatureId(featureId);
+      if (parts?.layerId !== fromLayerId) continue;
+      const resolved = resolveFeatureId(
+        generateFeatureId(toLayer.id, parts.key),
+        [toLayer],
+        keyField
+      );
+      mapping.set(
+        featureId,
+        resolved
+          ? getLayerFeatureId(toLayer, resolved.index)
+          : generateFeatureId(toLayer.id, parts.key)
+      );
+    }
+  }
+
+  const featureKeyFields = { ...project.featureKeyFields };
+  delete featureKeyFields[fromLayerId];
+  if (toLayer.keyField) {
+    featureKeyFields[toLayer.id] = toLayer.keyField;
+  } else {
+    delete featureKeyFields[toLayer.id];
+  }
+
+  return {
+    ...project,
+    areas: remapAreaFeatureIds(project.areas, mapping),
+    featureKeyFields: Object.keys(featureKeyFields).length > 0 ? featureKeyFields : undefined,
+  };
+}
+
+/**
+ * 対応するフィーチャーが見つからないIDをエリアから削除する
+ */
+export function pruneFeatureIds(project: AreaProject, featureIds: string[]): AreaProject {
+  const removed = new Set(featureIds);
+  return {
+    ...project,
+    areas: project.areas.map((area) => {
+      if (!area.featureIds.some((id) => removed.has(id))) return area;
+      const featureNames = area.featureNames
+        ? Object.fromEntries(Object.entries(area.featureNames).filter(([id]) => !removed.has(id)))
+        : undefined;
+      return {
+        ...area,
+        featureIds: area.featureIds.filter((id) => !removed.has(id)),
+        ...(featureNames ? { featureNames } : {}),
+      };
+    }),
+  };
+}
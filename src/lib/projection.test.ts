@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection, Point, Polygon } from "geojson";
+import {
+  detectCrs,
+  getCrsByEpsg,
+  isWgs84Compatible,
+  parseWkt,
+  reprojectFeatureCollection,
+} from "./projection";
+
+const ESRI_JGD2011_ZONE9 =
+  'PROJCS["JGD_2011_Japan_Zone_9",GEOGCS["GCS_JGD_2011",DATUM["D_JGD_2011",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",139.8333333333333],PARAMETER["Scale_Factor",0.9999],PARAMETER["Latitude_Of_Origin",36.0],UNIT["Meter",1.0]]';
+
+const ESRI_TOKYO_ZONE9 =
+  'PROJCS["Japan_Zone_9",GEOGCS["GCS_Tokyo",DATUM["D_Tokyo",SPHEROID["Bessel_1841",6377397.155,299.1528128]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",0.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",139.8333333333333],PARAMETER["Scale_Factor",0.9999],PARAMETER["Latitude_Of_Origin",36.0],UNIT["Meter",1.0]]';
+
+const OGC_JGD2000_ZONE2 =
+  'PROJCS["JGD2000 / Japan Plane Rectangular CS II",GEOGCS["JGD2000",DATUM["Japanese_Geodetic_Datum_2000",SPHEROID["GRS 1980",6378137,298.257222101]],PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["latitude_of_origin",33],PARAMETER["central_meridian",131],PARAMETER["scale_factor",0.9999],PARAMETER["false_easting",0],PARAMETER["false_northing",0],UNIT["metre",1],AUTHORITY["EPSG","2444"]]';
+
+const ESRI_UTM54 =
+  'PROJCS["WGS_1984_UTM_Zone_54N",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",141.0],PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+const ESRI_GCS_JGD2000 =
+  'GEOGCS["GCS_JGD_2000",DATUM["D_JGD_2000",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+describe("parseWkt", () => {
+  it("キーワード・文字列・数値・入れ子ノードをパースする", () => {
+    // Act
+    const node = parseWkt('UNIT["Meter",1.0,AUTHORITY["EPSG","9001"]]');
+
+    // Assert
+    expect(node).toEqual({
+      keyword: "UNIT",
+      values: ["Meter", 1, { keyword: "AUTHORITY", values: ["EPSG", "9001"] }],
+    });
+  });
+
+  it("括弧が閉じられていない場合はエラーを投げる", () => {
+    // Act & Assert
+    expect(() => parseWkt('GEOGCS["WGS 84"')).toThrow();
+  });
+});
+
+describe("getCrsByEpsg", () => {
+  it("JGD2011 平面直角座標系 1〜19 系を取得する", () => {
+    // Act
+    const zone1 = getCrsByEpsg(6669);
+    const zone19 = getCrsByEpsg(6687);
+
+    // Assert
+    expect(zone1?.name).toBe("JGD2011 / 平面直角座標系 I 系");
+    expect(zone19?.name).toBe("JGD2011 / 平面直角座標系 XIX 系");
+  });
+
+  it("Tokyo Datum の平面直角座標系を取得する", () => {
+    // Act
+    const crs = getCrsByEpsg(30169);
+
+    // Assert
+    expect(crs?.datum).toBe("tokyo");
+    expect(crs?.name).toContain("IX 系");
+  });
+
+  it("UTM を取得する", () => {
+    // Act
+    const crs = getCrsByEpsg(6691);
+
+    // Assert
+    expect(crs?.name).toBe("JGD2011 / UTM 54N");
+  });
+
+  it("未対応のコードではnullを返す", () => {
+    // Act & Assert
+    expect(getCrsByEpsg(3857)).toBeNull();
+  });
+});
+
+describe("detectCrs", () => {
+  it("ESRI 形式の JGD2011 9 系を検出する", () => {
+    // Act
+    const crs = detectCrs(ESRI_JGD2011_ZONE9);
+
+    // Assert
+    expect(crs.epsg).toBe(6677);
+    expect(crs.datum).toBe("jgd2011");
+  });
+
+  it("ESRI 形式の Tokyo Datum 9 系を検出する", () => {
+    // Act
+    const crs = detectCrs(ESRI_TOKYO_ZONE9);
+
+    // Assert
+    expect(crs.epsg).toBe(30169);
+  });
+
+  it("AUTHORITY の EPSG コードを優先する", () => {
+    // Act
+    const crs = detectCrs(OGC_JGD2000_ZONE2);
+
+    // Assert
+    expect(crs.epsg).toBe(2444);
+  });
+
+  it("名称がなくても投影パラメータから系番号を推定する", () => {
+    // Arrange
+    const wkt = ESRI_JGD2011_ZONE9.replace("JGD_2011_Japan_Zone_9", "Custom");
+
+    // Act
+    const crs = detectCrs(wkt);
+
+    // Assert
+    expect(crs.epsg).toBe(6677);
+  });
+
+  it("UTM を検出する", () => {
+    // Act
+    const crs = detectCrs(ESRI_UTM54);
+
+    // Assert
+    expect(crs.epsg).toBe(32654);
+  });
+
+  it("地理座標系を検出する", () => {
+    // Act
+    const crs = detectCrs(ESRI_GCS_JGD2000);
+
+    // Assert
+    expect(crs.epsg).toBe(4612);
+    expect(crs.isGeographic).toBe(true);
+  });
+
+  it("未対応の座標系ではエラーを投げる", () => {
+    // Arrange
+    const wkt =
+      'PROJCS["WGS_1984_Web_Mercator_Auxiliary_Sphere",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]]],PROJECTION["Mercator_Auxiliary_Sphere"]]';
+
+    // Act & Assert
+    expect(() => detectCrs(wkt)).toThrow(
+      "未対応の座標系です: WGS_1984_Web_Mercator_Auxiliary_Sphere"
+    );
+  });
+});
+
+describe("isWgs84Compatible", () => {
+  it("JGD2011 地理座標系は変換不要", () => {
+    expect(isWgs84Compatible(getCrsByEpsg(6668)!)).toBe(true);
+  });
+
+  it("Tokyo Datum 地理座標系は変換が必要", () => {
+    expect(isWgs84Compatible(getCrsByEpsg(4301)!)).toBe(false);
+  });
+});
+
+describe("reprojectFeatureCollection", () => {
+  const createCollection = (coordinates: [number, number]): FeatureCollection => ({
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates },
+        properties: { name: "origin" },
+      },
+      {
+        type: "Feature",
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              coordinates,
+              [coordinates[0] + 1000, coordinates[1]],
+              [coordinates[0], coordinates[1] + 1000],
+              coordinates,
+            ],
+          ],
+        },
+        properties: null,
+      },
+    ],
+  });
+
+  it("平面直角座標系の原点を経緯度に変換する", () => {
+    // Arrange
+    const crs = detectCrs(ESRI_JGD2011_ZONE9);
+
+    // Act
+    const result = reprojectFeatureCollection(createCollection([0, 0]), crs);
+
+    // Assert
+    const [lon, lat] = (result.features[0].geometry as Point).coordinates;
+    expect(lon).toBeCloseTo(139 + 5 / 6, 6);
+    expect(lat).toBeCloseTo(36, 6);
+    expect(result.features[0].properties).toEqual({ name: "origin" });
+  });
+
+  it("ポリゴンの全頂点を変換する", () => {
+    // Arrange
+    const crs = detectCrs(ESRI_JGD2011_ZONE9);
+
+    // Act
+    const result = reprojectFeatureCollection(createCollection([0, 0]), crs);
+
+    // Assert
+    const ring = (result.features[1].geometry as Polygon).coordinates[0];
+    expect(ring).toHaveLength(4);
+    for (const [lon, lat] of ring) {
+      expect(lon).toBeGreaterThan(139.8);
+      expect(lon).toBeLessThan(139.9);
+      expect(lat).toBeGreaterThan(35.99);
+      expect(lat).toBeLessThan(36.02);
+    }
+  });
+
+  it("Tokyo Datum は WGS84 へ測地系変換する", () => {
+    // Arrange
+    const crs = detectCrs(ESRI_TOKYO_ZONE9);
+
+    // Act
+    const result = reprojectFeatureCollection(createCollection([0, 0]), crs);
+
+    // Assert - 旧日本測地系は約 400m 北西にずれる
+    const [lon, lat] = (result.features[0].geometry as Point).coordinates;
+    expect(lon).toBeLessThan(139 + 5 / 6);
+    expect(lat).toBeGreaterThan(36);
+    expect(Math.abs(lon - (139 + 5 / 6))).toBeLessThan(0.01);
+  });
+
+  it("UTM を経緯度に変換する", () => {
+    // Arrange
+    const crs = detectCrs(ESRI_UTM54);
+
+    // Act
+    const result = reprojectFeatureCollection(createCollection([500000, 3950000]), crs);
+
+    // Assert
+    const [lon, lat] = (result.features[0].geometry as Point).coordinates;
+    expect(lon).toBeCloseTo(141, 6);
+    expect(lat).toBeCloseTo(35.69, 1);
+  });
+
+  it("変換不要な座標系ではそのまま返す", () => {
+    // Arrange
+    const collection = createCollection([139.7, 35.6]);
+
+    // Act
+    const result = reprojectFeatureCollection(collection, getCrsByEpsg(4326)!);
+
+    // Assert
+    expect(result).toBe(collection);
+  });
+});
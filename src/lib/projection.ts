@@ -0,0 +1,437 @@
+import proj4 from "proj4";
+import type { FeatureCollection, Geometry, Position } from "geojson";
+
+/**
+ * 座標系 (.prj) の解析と WGS84 経緯度への座標変換
+ *
+ * 対応する座標系:
+ * - 地理座標系: WGS84 / JGD2000 / JGD2011 / Tokyo Datum
+ * - 平面直角座標系 I〜XIX 系: JGD2000 / JGD2011 / Tokyo Datum
+ * - UTM 51〜56 帯: WGS84 / JGD2000 / JGD2011 / Tokyo Datum
+ */
+
+/** 測地系 */
+export type Datum = "wgs84" | "jgd2000" | "jgd2011" | "tokyo";
+
+/** 検出された座標系 */
+export interface CrsInfo {
+  epsg: number;
+  name: string;
+  datum: Datum;
+  /** proj4 定義文字列 */
+  proj4: string;
+  /** 地理座標系 (経緯度) の場合 true */
+  isGeographic: boolean;
+}
+
+/** WKT のノード (KEYWORD[value, ...]) */
+export interface WktNode {
+  keyword: string;
+  values: (string | number | WktNode)[];
+}
+
+// 測地系ごとの楕円体と WGS84 への変換パラメータ
+const DATUM_PARAMS: Record<Datum, string> = {
+  wgs84: "+ellps=WGS84 +towgs84=0,0,0,0,0,0,0",
+  jgd2000: "+ellps=GRS80 +towgs84=0,0,0,0,0,0,0",
+  jgd2011: "+ellps=GRS80 +towgs84=0,0,0,0,0,0,0",
+  tokyo: "+ellps=bessel +towgs84=-146.414,507.337,680.507,0,0,0,0",
+};
+
+const DATUM_LABELS: Record<Datum, string> = {
+  wgs84: "WGS 84",
+  jgd2000: "JGD2000",
+  jgd2011: "JGD2011",
+  tokyo: "Tokyo",
+};
+
+const GEOGRAPHIC_EPSG: Record<Datum, number> = {
+  wgs84: 4326,
+  jgd2000: 4612,
+  jgd2011: 6668,
+  tokyo: 4301,
+};
+
+// 平面直角座標系 I〜XIX 系の原点 (緯度, 経度)
+const PLANE_RECTANGULAR_ORIGINS: [number, number][] = [
+  [33, 129.5],
+  [33, 131],
+  [36, 132 + 1 / 6],
+  [33, 133.5],
+  [36, 134 + 1 / 3],
+  [36, 136],
+  [36, 137 + 1 / 6],
+  [36, 138.5],
+  [36, 139 + 5 / 6],
+  [40, 140 + 5 / 6],
+  [44, 140.25],
+  [44, 142.25],
+  [44, 144.25],
+  [26, 142],
+  [26, 127.5],
+  [26, 124],
+  [26, 131],
+  [20, 136],
+  [26, 154],
+];
+
+// 平面直角座標系 1 系の EPSG コード (以降 19 系まで連番)
+const PLANE_RECTANGULAR_BASE_EPSG: Partial<Record<Datum, number>> = {
+  jgd2000: 2443,
+  jgd2011: 6669,
+  tokyo: 30161,
+};
+
+// UTM 51 帯の EPSG コード (以降連番)
+const UTM_BASE_EPSG: Record<Datum, number> = {
+  wgs84: 32651,
+  jgd2000: 3097,
+  jgd2011: 6688,
+  tokyo: 3092,
+};
+
+const UTM_ZONES: Record<Datum, number[]> = {
+  wgs84: [51, 52, 53, 54, 55, 56],
+  jgd2000: [51, 52, 53, 54, 55],
+  jgd2011: [51, 52, 53, 54, 55],
+  tokyo: [51, 52, 53, 54, 55],
+};
+
+const ROMAN_NUMERALS = [
+  "I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X",
+  "XI", "XII", "XIII", "XIV", "XV", "XVI", "XVII", "XVIII", "XIX",
+];
+
+function geographicCrs(datum: Datum): CrsInfo {
+  return {
+    epsg: GEOGRAPHIC_EPSG[datum],
+    name: DATUM_LABELS[datum],
+    datum,
+    proj4: `+proj=longlat ${DATUM_PARAMS[datum]} +no_defs`,
+    isGeographic: true,
+  };
+}
+
+function planeRectangularCrs(datum: Datum, zone: number): CrsInfo | null {
+  const base = PLANE_RECTANGULAR_BASE_EPSG[datum];
+  const origin = PLANE_RECTANGULAR_ORIGINS[zone - 1];
+  if (base === undefined || !origin) return null;
+  const [lat0, lon0] = origin;
+  return {
+    epsg: base + zone - 1,
+    name: `${DATUM_LABELS[datum]} / 平面直角座標系 ${ROMAN_NUMERALS[zone - 1]} 系`,
+    datum,
+    proj4: `+proj=tmerc +lat_0=${lat0} +lon_0=${lon0} +k=0.9999 +x_0=0 +y_0=0 ${DATUM_PARAMS[datum]} +units=m +no_defs`,
+    isGeographic: false,
+  };
+}
+
+function utmCrs(datum: Datum, zone: number): CrsInfo | null {
+  if (!UTM_ZONES[datum].includes(zone)) return null;
+  return {
+    epsg: UTM_BASE_EPSG[datum] + zone - 51,
+    name: `${DATUM_LABELS[datum]} / UTM ${zone}N`,
+    datum,
+    proj4: `+proj=utm +zone=${zone} ${DATUM_PARAMS[datum]} +units=m +no_defs`,
+    isGeographic: false,
+  };
+}
+
+/**
+ * EPSG コードから座標系を取得
+ * @returns 未対応のコードの場合 null
+ */
+export function getCrsByEpsg(epsg: number): CrsInfo | null {
+  for (const datum of Object.keys(GEOGRAPHIC_EPSG) as Datum[]) {
+    if (GEOGRAPHIC_EPSG[datum] === epsg) return geographicCrs(datum);
+  }
+  for (const datum of Object.keys(PLANE_RECTANGULAR_BASE_EPSG) as Datum[]) {
+    const base = PLANE_RECTANGULAR_BASE_EPSG[datum];
+    if (base !== undefined && epsg >= base && epsg < base + 19) {
+      return planeRectangularCrs(datum, epsg - base + 1);
+    }
+  }
+  for (const datum of Object.keys(UTM_BASE_EPSG) as Datum[]) {
+    const zone = epsg - UTM_BASE_EPSG[datum] + 51;
+    const crs = utmCrs(datum, zone);
+    if (crs) return crs;
+  }
+  return null;
+}
+
+/**
+ * WKT 文字列をノードツリーに変換
+ * WKT1 (OGC / ESRI) と WKT2 の括弧構文に対応
+ */
+export function parseWkt(text: string): WktNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseNode = (): WktNode => {
+    skipWhitespace();
+    const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(pos));
+    if (!match) {
+      throw new Error(`WKT の構文が不正です (位置 ${pos})`);
+    }
+    const keyword = match[0].toUpperCase();
+    pos += match[0].length;
+    skipWhitespace();
+
+    const values: WktNode["values"] = [];
+    const open = text[pos];
+    if (open !== "[" && open !== "(") {
+      return { keyword, values };
+    }
+    const close = open === "[" ? "]" : ")";
+    pos++;
+
+    while (pos < text.length) {
+      skipWhitespace();
+      const ch = text[pos];
+      if (ch === close) {
+        pos++;
+        return { keyword, values };
+      }
+      if (ch === ",") {
+        pos++;
+        continue;
+      }
+      if (ch === '"') {
+        const end = text.indexOf('"', pos + 1);
+        if (end === -1) throw new Error("WKT の文字列が閉じられていません");
+        values.push(text.slice(pos + 1, end));
+        pos = end + 1;
+        continue;
+      }
+      const numberMatch = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text.slice(pos));
+      if (numberMatch) {
+        values.push(Number(numberMatch[0]));
+        pos += numberMatch[0].length;
+        continue;
+      }
+      values.push(parseNode());
+    }
+    throw new Error("WKT の括弧が閉じられていません");
+  };
+
+  return parseNode();
+}
+
+function childNodes(node: WktNode, keyword: string): WktNode[] {
+  return node.values.filter((v): v is WktNode => typeof v === "object" && v.keyword === keyword);
+}
+
+function findNode(node: WktNode, keywords: string[]): WktNode | null {
+  for (const value of node.values) {
+    if (typeof value !== "object") continue;
+    if (keywords.includes(value.keyword)) return value;
+    const found = findNode(value, keywords);
+    if (found) return found;
+  }
+  return null;
+}
+
+function nodeName(node: WktNode | null): string {
+  const first = node?.values[0];
+  return typeof first === "string" ? first : "";
+}
+
+/** トップレベルの AUTHORITY["EPSG", code] / ID["EPSG", code] を取得 */
+function authorityCode(node: WktNode): number | null {
+  const authority = [...childNodes(node, "AUTHORITY"), ...childNodes(node, "ID")][0];
+  if (!authority || String(authority.values[0]).toUpperCase() !== "EPSG") return null;
+  const code = Number(authority.values[1]);
+  return Number.isInteger(code) ? code : null;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[\s_\-/.]+/g, "");
+}
+
+function detectDatum(node: WktNode): Datum | null {
+  const datumNode = findNode(node, ["DATUM", "GEODETICDATUM", "TRF"]);
+  const geogNode = findNode(node, ["GEOGCS", "GEOGCRS", "BASEGEOGCRS", "BASEGEODCRS"]);
+  const candidates = [nodeName(datumNode), nodeName(geogNode), nodeName(node)].map(normalizeName);
+
+  for (const name of candidates) {
+    if (!name) continue;
+    if (name.includes("tokyo")) return "tokyo";
+    if (name.includes("jgd2011") || name.includes("japanesegeodeticdatum2011")) return "jgd2011";
+    if (name.includes("jgd2000") || name.includes("japanesegeodeticdatum2000")) return "jgd2000";
+    if (name.includes("wgs1984") || name.includes("wgs84")) return "wgs84";
+  }
+  return null;
+}
+
+/** PARAMETER["name", value] を正規化した名前で取得 */
+function projectionParameters(node: WktNode): Map<string, number> {
+  const params = new Map<string, number>();
+  const collect = (n: WktNode) => {
+    for (const value of n.values) {
+      if (typeof value !== "object") continue;
+      if (value.keyword === "PARAMETER" || value.keyword === "PARM") {
+        const name = nodeName(value);
+        const num = value.values[1];
+        if (name && typeof num === "number") params.set(normalizeName(name), num);
+      } else if (value.keyword === "CONVERSION") {
+        collect(value);
+      }
+    }
+  };
+  collect(node);
+  return params;
+}
+
+/** 名称から平面直角座標系の系番号を取得 (例: "Japan_Zone_9", "Plane Rectangular CS IX") */
+function zoneFromName(name: string): number | null {
+  const arabic = /japan[\s_]*zone[\s_]*(\d{1,2})\b/i.exec(name);
+  if (arabic) return Number(arabic[1]);
+  const roman = /(?:rectangular|plane)[\s_]*(?:cs|coordinate[\s_]*system)[\s_]*([IVX]+)\b/i.exec(
+    name
+  );
+  if (roman) {
+    const index = ROMAN_NUMERALS.indexOf(roman[1].toUpperCase());
+    return index >= 0 ? index + 1 : null;
+  }
+  return null;
+}
+
+function utmZoneFromName(name: string): number | null {
+  const match = /utm[\s_]*zone[\s_]*(\d{1,2})\s*N\b/i.exec(name);
+  return match ? Number(match[1]) : null;
+}
+
+const ANGLE_TOLERANCE = 1e-6;
+
+/** 投影パラメータ (原点・縮尺係数) から平面直角座標系の系番号を推定 */
+function zoneFromParameters(params: Map<string, number>): number | null {
+  const lat0 = params.get("latitudeoforigin") ?? params.get("latitudeofnaturalorigin");
+  const lon0 =
+    params.get("centralmeridian") ??
+    params.get("longitudeofnaturalorigin") ??
+    params.get("longitudeofcenter");
+  const scale = params.get("scalefactor") ?? params.get("scalefactoratnaturalorigin");
+  if (lat0 === undefined || lon0 === undefined) return null;
+  if (scale !== undefined && Math.abs(scale - 0.9999) > ANGLE_TOLERANCE) return null;
+
+  const index = PLANE_RECTANGULAR_ORIGINS.findIndex(
+    ([lat, lon]) => Math.abs(lat - lat0) < ANGLE_TOLERANCE && Math.abs(lon - lon0) < ANGLE_TOLERANCE
+  );
+  return index >= 0 ? index + 1 : null;
+}
+
+function utmZoneFromParameters(params: Map<string, number>): number | null {
+  const lon0 = params.get("centralmeridian") ?? params.get("longitudeofnaturalorigin");
+  const scale = params.get("scalefactor") ?? params.get("scalefactoratnaturalorigin");
+  const falseEasting = params.get("falseeasting");
+  if (lon0 === undefined || scale === undefined) return null;
+  if (Math.abs(scale - 0.9996) > ANGLE_TOLERANCE || falseEasting !== 500000) return null;
+  const zone = (lon0 + 183) / 6;
+  return Number.isInteger(zone) ? zone : null;
+}
+
+/**
+ * .prj の WKT から座標系を検出
+ * EPSG コード → 名称 → 投影パラメータ の順に判定する
+ * @throws 未対応の座標系の場合
+ */
+export function detectCrs(wkt: string): CrsInfo {
+  const root = parseWkt(wkt.trim());
+  const name = nodeName(root);
+
+  const epsg = authorityCode(root);
+  if (epsg !== null) {
+    const crs = getCrsByEpsg(epsg);
+    if (crs) return crs;
+  }
+
+  const isProjected = ["PROJCS", "PROJCRS", "PROJECTEDCRS"].includes(root.keyword);
+  const isGeographic = ["GEOGCS", "GEOGCRS", "GEODCRS", "GEOGRAPHICCRS"].includes(root.keyword);
+  const datum = detectDatum(root);
+
+  if (isGeographic && datum) {
+    return geographicCrs(datum);
+  }
+
+  if (isProjected && datum) {
+    const params = projectionParameters(root);
+    const zone = zoneFromName(name) ?? zoneFromParameters(params);
+    const planeCrs = zone !== null ? planeRectangularCrs(datum, zone) : null;
+    if (planeCrs) return planeCrs;
+
+    const utmZone = utmZoneFromName(name) ?? utmZoneFromParameters(params);
+    const utm = utmZone !== null ? utmCrs(datum, utmZone) : null;
+    if (utm) return utm;
+  }
+
+  throw new Error(
+    `未対応の座標系です: ${name || root.keyword}${epsg !== null ? ` (EPSG:${epsg})` : ""}`
+  );
+}
+
+/** WGS84 と同一視できる (変換不要な) 座標系か */
+export function isWgs84Compatible(crs: CrsInfo): boolean {
+  return crs.isGeographic && crs.datum !== "tokyo";
+}
+
+function transformGeometry(
+  geometry: Geometry | null,
+  transform: (position: Position) => Position
+): Geometry | null {
+  if (!geometry) return geometry;
+  switch (geometry.type) {
+    case "Point":
+      return { ...geometry, coordinates: transform(geometry.coordinates) };
+    case "MultiPoint":
+    case "LineString":
+      return { ...geometry, coordinates: geometry.coordinates.map(transform) };
+    case "MultiLineString":
+    case "Polygon":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((line) => line.map(transform)),
+      };
+    case "MultiPolygon":
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(transform))
+        ),
+      };
+    case "GeometryCollection":
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((g) => transformGeometry(g, transform) as Geometry),
+      };
+  }
+}
+
+/**
+ * FeatureCollection を WGS84 経緯度に変換
+ * 変換不要な座標系の場合はそのまま返す
+ */
+export function reprojectFeatureCollection(
+  collection: FeatureCollection,
+  crs: CrsInfo
+): FeatureCollection {
+  if (isWgs84Compatible(crs)) return collection;
+
+  const converter = proj4(crs.proj4, "EPSG:4326");
+  const transform = (position: Position): Position => {
+    const [x, y] = converter.forward([position[0], position[1]]);
+    return position.length > 2 ? [x, y, ...position.slice(2)] : [x, y];
+  };
+
+  return {
+    ...collection,
+    bbox: undefined,
+    features: collection.features.map((feature) => ({
+      ...feature,
+      bbox: undefined,
+      geometry: transformGeometry(feature.geometry, transform) as Geometry,
+    })),
+  };
+}
@@ -4,6 +4,9 @@ import {
   getAvailablePropertyKeys,
   getAvailablePropertyValues,
   filterFeaturesByProperty,
+  createPropertyFilterMatcher,
+  describePropertyFilterCondition,
+  getDisplayedFeatures,
 } from "./property-filter-utils";
 
 // Test data factory
@@ -175,6 +178,99 @@ describe("getAvailablePropertyValues", () => {
   });
 });
 
+describe("getAvailablePropertyValues (型)", () => {
+  it("数値を大小の順に並べる", () => {
+    // Arrange
+    const features = [
+      createFeature({ area: 100 }),
+      createFeature({ area: 9 }),
+      createFeature({ area: 10 }),
+    ];
+
+    // Act
+    const result = getAvailablePropertyValues(features, "area");
+
+    // Assert
+    expect(result).toEqual(["9", "10", "100"]);
+  });
+
+  it("日付を YYYY-MM-DD にして日付順に並べる", () => {
+    // Arrange
+    const features = [
+      createFeature({ date: new Date(2021, 0, 1) }),
+      createFeature({ date: new Date(2020, 11, 31) }),
+    ];
+
+    // Act
+    const result = getAvailablePropertyValues(features, "date");
+
+    // Assert
+    expect(result).toEqual(["2020-12-31", "2021-01-01"]);
+  });
+
+  it("列の型を指定した場合はその型で並べる", () => {
+    // Arrange
+    const features = [createFeature({ code: "10" }), createFeature({ code: "9" })];
+
+    // Act
+    const result = getAvailablePropertyValues(features, "code", "number");
+
+    // Assert
+    expect(result).toEqual(["9", "10"]);
+  });
+});
+
+describe("createPropertyFilterMatcher", () => {
+  it("値の一覧のいずれかに一致するか判定する", () => {
+    // Arrange
+    const matches = createPropertyFilterMatcher({ key: "code", values: ["13"] });
+
+    // Act & Assert
+    expect(matches({ code: 13 })).toBe(true);
+    expect(matches({ code: 14 })).toBe(false);
+    expect(matches({ code: null })).toBe(false);
+  });
+
+  it("範囲を指定した場合は数値の大小で判定する (両端を含む)", () => {
+    // Arrange
+    const matches = createPropertyFilterMatcher({
+      key: "area",
+      values: [],
+      range: { min: "9", max: "100" },
+    });
+
+    // Act & Assert
+    expect(matches({ area: 9 })).toBe(true);
+    expect(matches({ area: 50.5 })).toBe(true);
+    expect(matches({ area: 100 })).toBe(true);
+    expect(matches({ area: 101 })).toBe(false);
+    expect(matches({ area: 8 })).toBe(false);
+  });
+
+  it("日付の範囲で判定し、片側の制限だけでもよい", () => {
+    // Arrange
+    const matches = createPropertyFilterMatcher({
+      key: "date",
+      values: [],
+      range: { min: "2020-04-01", max: null },
+    });
+
+    // Act & Assert
+    expect(matches({ date: new Date(2020, 3, 1) })).toBe(true);
+    expect(matches({ date: new Date(2020, 2, 31) })).toBe(false);
+  });
+});
+
+describe("describePropertyFilterCondition", () => {
+  it("値・件数・範囲を表示する", () => {
+    expect(describePropertyFilterCondition({ values: ["A"] })).toBe('"A"');
+    expect(describePropertyFilterCondition({ values: ["A", "B"] })).toBe("(2件)");
+    expect(describePropertyFilterCondition({ values: [], range: { min: "1", max: null } })).toBe(
+      "1 〜 "
+    );
+  });
+});
+
 describe("filterFeaturesByProperty", () => {
   it("空のキーで空の配列を返す", () => {
     // Arrange
@@ -284,3 +380,27 @@ describe("filterFeaturesByProperty", () => {
     expect(result[0].customField).toBe("custom");
   });
 });
+
+describe("getDisplayedFeatures", () => {
+  it("レイヤーのフィルターとグローバルフィルターの両方に一致するフィーチャーを返す", () => {
+    // Arrange
+    const features = [
+      createFeature({ pref: "東京都", type: "A" }),
+      createFeature({ pref: "東京都", type: "B" }),
+      createFeature({ pref: "大阪府", type: "A" }),
+    ];
+    const layer = {
+      geojson: { type: "FeatureCollection" as const, features: features as Feature[] },
+      filter: { key: "pref", values: ["東京都"], enabled: true },
+    };
+
+    // Act & Assert
+    expect(getDisplayedFeatures(layer)).toEqual(features.slice(0, 2));
+    expect(getDisplayedFeatures(layer, { key: "type", values: ["A"], enabled: true })).toEqual([
+      features[0],
+    ]);
+    expect(getDisplayedFeatures(layer, { key: "type", values: ["A"], enabled: false })).toEqual(
+      features.slice(0, 2)
+    );
+  });
+});
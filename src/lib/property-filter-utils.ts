@@ -1,4 +1,11 @@
 import type { Feature, Geometry, GeoJsonProperties } from "geojson";
+import type { Layer, PropertyFilter } from "@/types/layer";
+import {
+  comparePropertyValues,
+  formatPropertyValue,
+  getValueType,
+  type FieldValueType,
+} from "@/lib/field-schema";
 
 /**
  * フィーチャーから利用可能なプロパティキーを取得
@@ -18,21 +25,66 @@ export function getAvailablePropertyKeys(
 }
 
 /**
- * 指定したキーの一意な値を取得
+ * 指定したキーの一意な値を取得 (数値・日付は値の大小順)
+ * @param type - 列の型 (省略時は値から判定する)
  */
 export function getAvailablePropertyValues(
   features: Feature<Geometry | null, GeoJsonProperties>[],
-  key: string
+  key: string,
+  type?: FieldValueType
 ): string[] {
   if (!key) return [];
-  const valuesSet = new Set<string>();
+  // 文字列表現 -> 元の値 (並べ替えに使う)
+  const values = new Map<string, unknown>();
   for (const feature of features) {
     const value = feature.properties?.[key];
     if (value !== null && value !== undefined) {
-      valuesSet.add(String(value));
+      const text = formatPropertyValue(value);
+      if (!values.has(text)) values.set(text, value);
     }
   }
-  return Array.from(valuesSet).sort();
+  return Array.from(values)
+    .sort(([, a], [, b]) => comparePropertyValues(a, b, type))
+    .map(([text]) => text);
+}
+
+/**
+ * フィルターの条件に一致するかを判定する関数を作成 (値の集合は一度だけ作る)
+ * 範囲は値の型 (数値・日付) に合わせて比較する
+ */
+export function createPropertyFilterMatcher(
+  filter: Pick<PropertyFilter, "key" | "values" | "range">
+): (properties: GeoJsonProperties) => boolean {
+  const { key, range } = filter;
+  if (range) {
+    return (properties) => {
+      const value = properties?.[key];
+      if (value === null || value === undefined) return false;
+      const type = getValueType(value);
+      return (
+        (range.min === null || comparePropertyValues(value, range.min, type) >= 0) &&
+        (range.max === null || comparePropertyValues(value, range.max, type) <= 0)
+      );
+    };
+  }
+  const valuesSet = new Set(filter.values);
+  return (properties) => {
+    const value = properties?.[key];
+    if (value === null || value === undefined) return false;
+    return valuesSet.has(formatPropertyValue(value));
+  };
+}
+
+/**
+ * フィルターの条件の表示 ("値"、(N件)、下限 〜 上限)
+ */
+export function describePropertyFilterCondition(
+  filter: Pick<PropertyFilter, "values" | "range">
+): string {
+  if (filter.range) {
+    return `${filter.range.min ?? ""} 〜 ${filter.range.max ?? ""}`;
+  }
+  return filter.values.length === 1 ? `"${filter.values[0]}"` : `(${filter.values.length}件)`;
 }
 
 /**
@@ -44,10 +96,21 @@ export function filterFeaturesByProperty<T extends Feature<Geometry | null, GeoJ
   values: string[]
 ): T[] {
   if (!key || values.length === 0) return [];
-  const valuesSet = new Set(values);
-  return features.filter((feature) => {
-    const value = feature.properties?.[key];
-    if (value === null || value === undefined) return false;
-    return valuesSet.has(String(value));
-  });
+  const matches = createPropertyFilterMatcher({ key, values });
+  return features.filter((feature) => matches(feature.properties));
+}
+
+/**
+ * レイヤーのフィルターとグローバルフィルター (有効なもののみ) の両方に一致するフィーチャー
+ * 地図に表示しているフィーチャーと同じ
+ */
+export function getDisplayedFeatures(
+  layer: Pick<Layer, "geojson" | "filter">,
+  globalFilter?: PropertyFilter
+): Feature[] {
+  const matchers = [layer.filter, globalFilter]
+    .filter((f): f is PropertyFilter => !!f?.enabled && !!f.key)
+    .map(createPropertyFilterMatcher);
+  if (matchers.length === 0) return layer.geojson.features;
+  return layer.geojson.features.filter((f) => matchers.every((matches) => matches(f.properties)));
 }
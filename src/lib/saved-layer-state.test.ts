@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import type { FeatureCollection } from "geojson";
+import type { Layer, SavedLayerState } from "@/types/layer";
+import { computeLayerFingerprint } from "./layer-fingerprint";
+import {
+  excludeLoadedLayerStates,
+  findSavedLayerState,
+  insertLayersByOrder,
+  mergeSavedLayerStates,
+  restoreFilter,
+  restoreKeyField,
+} from "./saved-layer-state";
+
+function createGeoJson(lon: number): FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [lon, 35] },
+        properties: { KEY_CODE: "13101" },
+      },
+    ],
+  };
+}
+
+function createLayer(id: string, lon = 139): Layer {
+  return { id, name: id, geojson: createGeoJson(lon), visible: true, color: "#3b82f6" };
+}
+
+function createState(name: string, overrides: Partial<SavedLayerState> = {}): SavedLayerState {
+  return { name, visible: false, color: "#ef4444", ...overrides };
+}
+
+describe("findSavedLayerState", () => {
+  it("内容が一致する設定を名前より優先する", () => {
+    // Arrange
+    const layer = { name: "h27ka13", geojson: createGeoJson(139) };
+    const byName = createState("h27ka13");
+    const byContent = createState("renamed", {
+      fingerprint: computeLayerFingerprint(createGeoJson(139)),
+    });
+
+    // Act
+    const found = findSavedLayerState([byName, byContent], layer);
+
+    // Assert
+    expect(found).toEqual({ state: byContent, match: "fingerprint" });
+  });
+
+  it("内容が一致しなければ名前で探す", () => {
+    const state = createState("h27ka13", { fingerprint: "1-00000000" });
+    expect(findSavedLayerState([state], { name: "h27ka13", geojson: createGeoJson(139) })).toEqual({
+      state,
+      match: "name",
+    });
+  });
+
+  it("割り当て済みの設定は使わない", () => {
+    const state = createState("h27ka13");
+    const layer = { name: "h27ka13", geojson: createGeoJson(139) };
+    expect(findSavedLayerState([state], layer, new Set([state]))).toBeNull();
+  });
+});
+
+describe("restoreFilter", () => {
+  it("フィルターの列がないデータでは引き継がない", () => {
+    const filter = { key: "KEY_CODE", values: ["13101"], enabled: true };
+    expect(restoreFilter(filter, createGeoJson(139))).toBe(filter);
+    expect(restoreFilter({ ...filter, key: "MISSING" }, createGeoJson(139))).toBeUndefined();
+  });
+});
+
+describe("restoreKeyField", () => {
+  it("値が空・重複していない場合のみキー列を引き継ぐ", () => {
+    const geojson = createGeoJson(139);
+    expect(restoreKeyField("KEY_CODE", geojson)).toBe("KEY_CODE");
+    expect(restoreKeyField("MISSING", geojson)).toBeUndefined();
+    const duplicated = { ...geojson, features: [...geojson.features, ...geojson.features] };
+    expect(restoreKeyField("KEY_CODE", duplicated)).toBeUndefined();
+  });
+});
+
+describe("mergeSavedLayerStates", () => {
+  it("現在のレイヤーの設定を先頭に、読み込まれていないレイヤーの設定を後ろに残す", () => {
+    // Arrange
+    const layers = [createLayer("a", 139), createLayer("b", 140)];
+    const saved = [createState("a"), createState("removed")];
+
+    // Act
+    const merged = mergeSavedLayerStates(saved, layers);
+
+    // Assert
+    expect(merged.map((s) => [s.name, s.order])).toEqual([
+      ["a", 0],
+      ["b", 1],
+      ["removed", undefined],
+    ]);
+    expect(merged[0]).toMatchObject({ visible: true, color: "#3b82f6" });
+    expect(merged[1].fingerprint).toBe(computeLayerFingerprint(layers[1].geojson));
+  });
+});
+
+describe("excludeLoadedLayerStates", () => {
+  it("読み込み中のレイヤーの設定を除く", () => {
+    const saved = [createState("a"), createState("b")];
+    expect(excludeLoadedLayerStates(saved, [createLayer("a")])).toEqual([saved[1]]);
+  });
+});
+
+describe("insertLayersByOrder", () => {
+  it("保存時の位置に挿入し、位置のないレイヤーは末尾に追加する", () => {
+    // Arrange
+    const [a, b, c, d] = ["a", "b", "c", "d"].map((id) => createLayer(id));
+
+    // Act
+    const result = insertLayersByOrder(
+      [b],
+      [{ layer: d }, { layer: c, order: 2 }, { layer: a, order: 0 }]
+    );
+
+    // Assert
+    expect(result.map((l) => l.id)).toEqual(["a", "b", "c", "d"]);
+  });
+});
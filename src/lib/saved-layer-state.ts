@@ -0,0 +1,113 @@
+import type { FeatureCollection } from "geojson";
+import type { Layer, PropertyFilter, SavedLayerState } from "@/types/layer";
+import { computeLayerFingerprint } from "@/lib/layer-fingerprint";
+import { describeKeyFieldIssues, findKeyFieldIssues } from "@/lib/feature-key";
+
+/**
+ * 保存したレイヤー設定 (色・表示・フィルター・並び順・キー列) の照合
+ * 同じファイルを読み込み直したときに前回の設定を引き継ぐ
+ */
+
+// 保存しておく設定の上限 (読み込まれていないレイヤーの分も残す)
+const MAX_SAVED_LAYER_STATES = 50;
+
+/**
+ * 設定が一致した理由
+ */
+export type SavedLayerMatch = "fingerprint" | "name";
+
+/**
+ * 読み込み中のレイヤーと同名の設定を除く (削除済み・未読み込みのレイヤーの設定のみを返す)
+ */
+export function excludeLoadedLayerStates(
+  savedStates: SavedLayerState[],
+  layers: Pick<Layer, "name">[]
+): SavedLayerState[] {
+  const names = new Set(layers.map((layer) => layer.name));
+  return savedStates.filter((state) => !names.has(state.name));
+}
+
+/**
+ * 新しく読み込んだレイヤーに対応する保存済みの設定を探す
+ * 形状 (フィンガープリント) が一致するものを優先し、なければ名前で探す
+ * @param usedStates - 同時に読み込んだ別のレイヤーに割り当て済みの設定
+ */
+export function findSavedLayerState(
+  savedStates: SavedLayerState[],
+  layer: Pick<Layer, "name" | "geojson">,
+  usedStates: Set<SavedLayerState> = new Set()
+): { state: SavedLayerState; match: SavedLayerMatch } | null {
+  const candidates = savedStates.filter((state) => !usedStates.has(state));
+  const fingerprint = computeLayerFingerprint(layer.geojson);
+  const byFingerprint = candidates.find((state) => state.fingerprint === fingerprint);
+  if (byFingerprint) return { state: byFingerprint, match: "fingerprint" };
+  const byName = candidates.find((state) => state.name === layer.name);
+  if (byName) return { state: byName, match: "name" };
+  return null;
+}
+
+/**
+ * フィルターの列がデータにある場合のみフィルターを引き継ぐ
+ */
+export function restoreFilter(
+  filter: PropertyFilter | undefined,
+  geojson: FeatureCollection
+): PropertyFilter | undefined {
+  if (!filter) return undefined;
+  const hasKey = geojson.features.some((f) => f.properties && filter.key in f.properties);
+  return hasKey ? filter : undefined;
+}
+
+/**
+ * キー列の値が空・重複していない場合のみキー列を引き継ぐ
+ */
+export function restoreKeyField(
+  keyField: string | undefined,
+  geojson: FeatureCollection
+): string | undefined {
+  if (!keyField) return undefined;
+  return describeKeyFieldIssues(keyField, findKeyFieldIssues(geojson, keyField)) === null
+    ? keyField
+    : undefined;
+}
+
+/**
+ * 現在のレイヤーの設定で保存済みの設定を更新する
+ * 読み込まれていないレイヤーの設定は、再読み込みに備えて後ろに残す
+ */
+export function mergeSavedLayerStates(
+  savedStates: SavedLayerState[],
+  layers: Layer[]
+): SavedLayerState[] {
+  const current: SavedLayerState[] = layers.map((layer, order) => ({
+    name: layer.name,
+    visible: layer.visible,
+    color: layer.color,
+    filter: layer.filter,
+    keyField: layer.keyField,
+    order,
+    fingerprint: computeLayerFingerprint(layer.geojson),
+  }));
+  return [...current, ...excludeLoadedLayerStates(savedStates, layers)].slice(
+    0,
+    MAX_SAVED_LAYER_STATES
+  );
+}
+
+/**
+ * 保存時の位置に合わせてレイヤーを挿入する
+ * 位置の指定がないレイヤーは末尾に追加する
+ */
+export function insertLayersByOrder(
+  layers: Layer[],
+  added: { layer: Layer; order?: number }[]
+): Layer[] {
+  const result = [...layers];
+  const sorted = [...added].sort(
+    (a, b) => (a.order ?? Number.POSITIVE_INFINITY) - (b.order ?? Number.POSITIVE_INFINITY)
+  );
+  for (const { layer, order } of sorted) {
+    result.splice(Math.min(order ?? result.length, result.length), 0, layer);
+  }
+  return result;
+}
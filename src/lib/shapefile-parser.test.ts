@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from "vitest";
+import { getBaseName, collectShapefileSets, parseShapefileBuffers } from "./shapefile-parser";
+
+function file(name: string): File {
+  return new File([""], name);
+}
+
+/**
+ * ポイントのみの .shp を作成
+ */
+function createPointShp(points: [number, number][]): ArrayBuffer {
+  const recordLength = 8 + 20;
+  const buffer = new ArrayBuffer(100 + recordLength * points.length);
+  const view = new DataView(buffer);
+
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, buffer.byteLength / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, 1, true);
+
+  points.forEach(([x, y], i) => {
+    const offset = 100 + recordLength * i;
+    view.setInt32(offset, i + 1, false);
+    view.setInt32(offset + 4, 10, false);
+    view.setInt32(offset + 8, 1, true);
+    view.setFloat64(offset + 12, x, true);
+    view.setFloat64(offset + 20, y, true);
+  });
+  return buffer;
+}
+
+/**
+ * 1 フィールド (C型 1 バイト) の DBF を作成
+ */
+function createDbf(recordCount: number): ArrayBuffer {
+  const headerLength = 32 + 32 + 1;
+  const recordLength = 1 + 1;
+  const buffer = new ArrayBuffer(headerLength + recordLength * recordCount + 1);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint8(0, 0x03);
+  view.setUint32(4, recordCount, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  bytes.set([...new TextEncoder().encode("NAME")], 32);
+  view.setUint8(32 + 11, "C".charCodeAt(0));
+  view.setUint8(32 + 16, 1);
+  view.setUint8(64, 0x0d);
+  bytes.fill(0x41, headerLength, buffer.byteLength - 1);
+  view.setUint8(buffer.byteLength - 1, 0x1a);
+  return buffer;
+}
+
+describe("getBaseName", () => {
+  it("フォルダと拡張子を除く", () => {
+    expect(getBaseName("dir/sub/h27ka13.shp")).toBe("h27ka13");
+    expect(getBaseName("a.b.shp")).toBe("a.b");
+  });
+});
+
+describe("collectShapefileSets", () => {
+  it("パス (拡張子を除く) ごとにセットへまとめる", () => {
+    // Arrange
+    const files = [
+      file("a.shp"),
+      file("a.DBF"),
+      file("a.prj"),
+      file("dir/a.shp"),
+      file("dir/a.cpg"),
+    ];
+
+    // Act
+    const { sets, unmatched } = collectShapefileSets(files);
+
+    // Assert
+    expect(unmatched).toEqual([]);
+    expect(sets).toHaveLength(2);
+    expect(sets[0]).toMatchObject({
+      name: "a",
+      shpFile: files[0],
+      dbfFile: files[1],
+      prjFile: files[2],
+    });
+    expect(sets[1]).toMatchObject({ name: "a", shpFile: files[3], cpgFile: files[4] });
+  });
+
+  it(".shp のないサイドカーファイルを報告する", () => {
+    // Arrange
+    const orphan = file("a.dbf");
+
+    // Act
+    const { sets, unmatched } = collectShapefileSets([orphan, file("b.shp"), file("b.shx")]);
+
+    // Assert
+    expect(sets.map((s) => s.name)).toEqual(["b"]);
+    expect(unmatched).toEqual([{ file: orphan, reason: "対応する .shp がありません (a.shp)" }]);
+  });
+
+  it("重複したファイルと未対応の形式を報告する", () => {
+    // Arrange
+    const duplicate = file("A.DBF");
+    const text = file("readme.txt");
+
+    // Act
+    const { sets, unmatched } = collectShapefileSets([file("a.shp"), file("a.dbf"), duplicate, text]);
+
+    // Assert
+    expect(sets).toHaveLength(1);
+    expect(unmatched).toEqual([
+      { file: duplicate, reason: "同じ名前のファイルが重複しています" },
+      { file: text, reason: "未対応のファイル形式です" },
+    ]);
+  });
+});
+
+describe("parseShapefileBuffers", () => {
+  it("ポイントを読み込み、最後に全バイトの進捗を通知する", async () => {
+    // Arrange
+    const shp = createPointShp([
+      [139.7, 35.6],
+      [135.5, 34.7],
+    ]);
+    const onProgress = vi.fn();
+
+    // Act
+    const result = await parseShapefileBuffers({ shp }, { onProgress });
+
+    // Assert
+    expect(result.geojson.features.map((f) => f.geometry)).toEqual([
+      { type: "Point", coordinates: [139.7, 35.6] },
+      { type: "Point", coordinates: [135.5, 34.7] },
+    ]);
+    expect(result.encoding).toBeNull();
+    expect(onProgress).toHaveBeenLastCalledWith({
+      recordsRead: 2,
+      totalRecords: null,
+      bytesProcessed: shp.byteLength,
+      totalBytes: shp.byteLength,
+    });
+  });
+
+  it("レコードヘッダーから読み込み済みのバイト数を数える", async () => {
+    // Arrange
+    const shp = createPointShp(Array.from({ length: 1500 }, (_, i) => [i, i]));
+    const onProgress = vi.fn();
+
+    // Act
+    await parseShapefileBuffers({ shp }, { onProgress });
+
+    // Assert - 1000 件目で途中経過を通知する
+    expect(onProgress.mock.calls[0][0]).toMatchObject({
+      recordsRead: 1000,
+      bytesProcessed: 100 + 28 * 1000,
+    });
+  });
+
+  it("読み込み結果を検証する", async () => {
+    // Arrange
+    const shp = createPointShp([
+      [139.7, 35.6],
+      [135.5, 34.7],
+    ]);
+
+    // Act
+    const result = await parseShapefileBuffers({ shp, dbf: createDbf(3) });
+
+    // Assert
+    expect(result.schema).toEqual([{ name: "NAME", type: "C", length: 1, decimals: 0 }]);
+    expect(result.validation.featureCount).toBe(2);
+    expect(result.validation.issues.map((issue) => issue.type)).toEqual([
+      "record-count-mismatch",
+    ]);
+  });
+
+  it("中断された場合は AbortError を投げる", async () => {
+    // Arrange
+    const controller = new AbortController();
+    controller.abort();
+
+    // Act & Assert
+    await expect(
+      parseShapefileBuffers({ shp: createPointShp([[0, 0]]) }, { signal: controller.signal })
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -1,59 +1,333 @@
 import * as shapefile from "shapefile";
 import type { FeatureCollection } from "geojson";
+import type { ShapefileSource } from "@/types/layer";
+import type { ShapefileWorkerRequest, ShapefileWorkerResponse } from "@/lib/shapefile-worker";
+import { unpackFeatureCollection } from "@/lib/geojson-transfer";
+import { setLayerFingerprint } from "@/lib/layer-fingerprint";
+import { detectCrs, reprojectFeatureCollection } from "@/lib/projection";
+import { readDbfHeader, type DbfField } from "@/lib/dbf-header";
+import { normalizeDbfValues } from "@/lib/field-schema";
+import { validateShapefile, type ValidationReport } from "@/lib/layer-validation";
+import {
+  DEFAULT_DBF_ENCODING,
+  detectDbfEncoding,
+  type DbfEncoding,
+  type DetectedEncoding,
+} from "@/lib/dbf-encoding";
 
 /**
- * ブラウザでShapefileを解析してGeoJSONに変換
- * .shp と .dbf ファイルが必要
+ * 読み込みの進捗
  */
-export async function parseShapefileFromFiles(
-  shpFile: File,
-  dbfFile?: File
-): Promise<FeatureCollection> {
-  const shpBuffer = await shpFile.arrayBuffer();
-  const dbfBuffer = dbfFile ? await dbfFile.arrayBuffer() : undefined;
+export interface ParseProgress {
+  recordsRead: number;
+  /** DBF ヘッダーのレコード数 (.dbf がない場合 null) */
+  totalRecords: number | null;
+  /** 読み込み済みの .shp のバイト数 */
+  bytesProcessed: number;
+  totalBytes: number;
+}
+
+/**
+ * parseShapefileBuffers のオプション
+ */
+export interface ShapefileBufferParseOptions {
+  /** 文字コードを明示的に指定する場合 (自動判定より優先) */
+  encoding?: DbfEncoding;
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * parseShapefileFromFiles のオプション
+ */
+export interface ShapefileParseOptions extends ShapefileBufferParseOptions {
+  /** 座標系定義 (.prj)。省略時は経緯度 (WGS84 相当) とみなす */
+  prjFile?: File;
+  /** 文字コード定義 (.cpg) */
+  cpgFile?: File;
+}
+
+/**
+ * 読み込み済みの構成ファイル (Worker に渡す形式)
+ */
+export interface ShapefileBuffers {
+  shp: ArrayBuffer;
+  dbf?: ArrayBuffer;
+  /** .prj の WKT */
+  prj?: string;
+  /** .cpg の内容 */
+  cpg?: string;
+}
+
+/**
+ * 同じベース名を持つ Shapefile の構成ファイル一式
+ */
+export interface ShapefileSet extends ShapefileSource {
+  /** レイヤー名 (拡張子・フォルダを除いたファイル名) */
+  name: string;
+}
+
+/**
+ * Shapefile の解析結果
+ */
+export interface ShapefileParseResult {
+  geojson: FeatureCollection;
+  /** DBF の文字コードと判定根拠 (.dbf がない場合 null) */
+  encoding: DetectedEncoding | null;
+  /** DBF のフィールド定義 (.dbf がない場合 null) */
+  schema: DbfField[] | null;
+  /** 読み込み時の検証結果 */
+  validation: ValidationReport;
+}
+
+// 進捗を通知するレコード間隔
+const PROGRESS_INTERVAL = 1000;
+
+// .shp のファイルヘッダー長
+const SHP_HEADER_LENGTH = 100;
+
+function createCancelError(): DOMException {
+  return new DOMException("読み込みをキャンセルしました", "AbortError");
+}
+
+/**
+ * 構成ファイルのバッファを解析して GeoJSON に変換
+ * Worker 内で実行される本体 (Worker が使えない環境ではメインスレッドで実行)
+ */
+export async function parseShapefileBuffers(
+  buffers: ShapefileBuffers,
+  options: ShapefileBufferParseOptions = {}
+): Promise<ShapefileParseResult> {
+  const { shp, dbf } = buffers;
+  const { onProgress, signal } = options;
+  // 未対応の座標系は読み込み前にエラーにする (誤った位置に表示しない)
+  const crs = buffers.prj !== undefined ? detectCrs(buffers.prj) : null;
+
+  let encoding: DetectedEncoding | null = null;
+  if (dbf) {
+    encoding = options.encoding
+      ? { encoding: options.encoding, source: "manual" }
+      : detectDbfEncoding(dbf, buffers.cpg);
+  }
+
+  const shpView = new DataView(shp);
+  const totalRecords = dbf && dbf.byteLength >= 8 ? new DataView(dbf).getUint32(4, true) : null;
+  let recordsRead = 0;
+  let bytesProcessed = Math.min(SHP_HEADER_LENGTH, shp.byteLength);
+  const report = () =>
+    onProgress?.({ recordsRead, totalRecords, bytesProcessed, totalBytes: shp.byteLength });
 
   const features: GeoJSON.Feature[] = [];
-  const source = await shapefile.open(shpBuffer, dbfBuffer, {
-    encoding: "shift-jis",
-  });
+  const dbfEncoding = encoding?.encoding ?? DEFAULT_DBF_ENCODING;
+  const dbfHeader = dbf ? readDbfHeader(dbf, dbfEncoding) : null;
+  const source = await shapefile.open(shp, dbf, { encoding: dbfEncoding });
 
   let result = await source.read();
   while (!result.done) {
+    if (signal?.aborted) {
+      throw createCancelError();
+    }
     if (result.value) {
       features.push(result.value);
     }
+    recordsRead++;
+    // レコードヘッダー (8 バイト) + コンテンツ長 (16 ビットワード単位, ビッグエンディアン)
+    if (bytesProcessed + 8 <= shp.byteLength) {
+      bytesProcessed += 8 + shpView.getInt32(bytesProcessed + 4, false) * 2;
+    }
+    if (recordsRead % PROGRESS_INTERVAL === 0) {
+      report();
+    }
     result = await source.read();
   }
+  bytesProcessed = shp.byteLength;
+  report();
+  if (dbfHeader) normalizeDbfValues(features, dbfHeader.fields);
 
-  return {
+  const collection: FeatureCollection = {
     type: "FeatureCollection",
     features,
   };
+
+  const geojson = crs ? reprojectFeatureCollection(collection, crs) : collection;
+  // 座標の範囲は変換後の経緯度で検証する
+  const validation = validateShapefile(geojson, recordsRead, dbfHeader);
+
+  return { geojson, encoding, schema: dbfHeader?.fields ?? null, validation };
+}
+
+function parseInWorker(
+  buffers: ShapefileBuffers,
+  { encoding, onProgress, signal }: ShapefileBufferParseOptions
+): Promise<ShapefileParseResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createCancelError());
+      return;
+    }
+
+    const worker = new Worker(new URL("./shapefile-worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(createCancelError());
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (e: MessageEvent<ShapefileWorkerResponse>) => {
+      const message = e.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+      cleanup();
+      if (message.type === "done") {
+        const geojson = unpackFeatureCollection(message.packed);
+        setLayerFingerprint(geojson, message.fingerprint);
+        resolve({
+          geojson,
+          encoding: message.encoding,
+          schema: message.schema,
+          validation: message.validation,
+        });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      cleanup();
+      reject(new Error(e.message || "Shapefile の解析中にエラーが発生しました"));
+    };
+
+    const request: ShapefileWorkerRequest = { ...buffers, encoding };
+    // バッファはコピーせず Worker に移譲する
+    const transfer = [buffers.shp, buffers.dbf].filter((b): b is ArrayBuffer => b !== undefined);
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * ブラウザでShapefileを解析してGeoJSONに変換
+ * .shp と .dbf ファイルが必要
+ * .prj がある場合は座標系を検出して WGS84 経緯度に変換する
+ * 解析は Web Worker で行い、UI をブロックしない
+ */
+export async function parseShapefileFromFiles(
+  shpFile: File,
+  dbfFile?: File,
+  options: ShapefileParseOptions = {}
+): Promise<ShapefileParseResult> {
+  const { prjFile, cpgFile, ...parseOptions } = options;
+  const buffers: ShapefileBuffers = {
+    shp: await shpFile.arrayBuffer(),
+    dbf: dbfFile ? await dbfFile.arrayBuffer() : undefined,
+    prj: prjFile ? await prjFile.text() : undefined,
+    cpg: cpgFile ? await cpgFile.text() : undefined,
+  };
+
+  if (typeof Worker === "undefined") {
+    return parseShapefileBuffers(buffers, parseOptions);
+  }
+  return parseInWorker(buffers, parseOptions);
+}
+
+/**
+ * Shapefile セットにまとめられなかったファイル
+ */
+export interface UnmatchedFile {
+  file: File;
+  reason: string;
 }
 
 /**
- * FileListからshpとdbfファイルを抽出
+ * collectShapefileSets の結果
  */
-export function extractShapefiles(
-  files: FileList
-): { shpFile: File; dbfFile?: File; name: string } | null {
-  let shpFile: File | undefined;
-  let dbfFile: File | undefined;
+export interface ShapefileCollection {
+  sets: ShapefileSet[];
+  unmatched: UnmatchedFile[];
+}
+
+type ShapefileExtension = "shp" | "dbf" | "prj" | "cpg";
+
+const SET_FILE_KEYS: Record<ShapefileExtension, keyof ShapefileSource> = {
+  shp: "shpFile",
+  dbf: "dbfFile",
+  prj: "prjFile",
+  cpg: "cpgFile",
+};
+
+// セットの一部として受け付けるが読み込みには使わない拡張子
+const IGNORED_SIDECAR_EXTENSIONS = ["shx"];
+
+function getExtension(fileName: string): string {
+  return fileName.toLowerCase().split(".").pop() ?? "";
+}
 
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    const ext = file.name.toLowerCase().split(".").pop();
-    if (ext === "shp") {
-      shpFile = file;
-    } else if (ext === "dbf") {
-      dbfFile = file;
+function stripExtension(path: string): string {
+  return path.replace(/\.[^./]+$/, "");
+}
+
+/**
+ * パスからフォルダと拡張子を除いたベース名を取得
+ */
+export function getBaseName(path: string): string {
+  const fileName = path.split("/").pop() ?? path;
+  return stripExtension(fileName);
+}
+
+/**
+ * ファイルをパス (拡張子を除く、大文字小文字を区別しない) ごとに Shapefile セットへまとめる
+ * .shp のないサイドカーファイルや重複ファイルは unmatched として返す
+ */
+export function collectShapefileSets(files: File[]): ShapefileCollection {
+  const groups = new Map<string, { source: Partial<ShapefileSource>; sidecars: File[] }>();
+  const unmatched: UnmatchedFile[] = [];
+
+  for (const file of files) {
+    const ext = getExtension(file.name);
+    const isSidecar = IGNORED_SIDECAR_EXTENSIONS.includes(ext);
+    if (!(ext in SET_FILE_KEYS) && !isSidecar) {
+      unmatched.push({ file, reason: "未対応のファイル形式です" });
+      continue;
+    }
+
+    const key = stripExtension(file.name).toLowerCase();
+    const group = groups.get(key) ?? { source: {}, sidecars: [] };
+    groups.set(key, group);
+
+    if (isSidecar) {
+      group.sidecars.push(file);
+      continue;
+    }
+    const slot = SET_FILE_KEYS[ext as ShapefileExtension];
+    if (group.source[slot]) {
+      unmatched.push({ file, reason: "同じ名前のファイルが重複しています" });
+      continue;
     }
+    group.source[slot] = file;
   }
 
-  if (!shpFile) {
-    return null;
+  const sets: ShapefileSet[] = [];
+  for (const { source, sidecars } of groups.values()) {
+    if (source.shpFile) {
+      sets.push({ ...source, shpFile: source.shpFile, name: getBaseName(source.shpFile.name) });
+      continue;
+    }
+    const orphans = [source.dbfFile, source.prjFile, source.cpgFile, ...sidecars].filter(
+      (f): f is File => f !== undefined
+    );
+    for (const file of orphans) {
+      unmatched.push({
+        file,
+        reason: `対応する .shp がありません (${getBaseName(file.name)}.shp)`,
+      });
+    }
   }
 
-  const name = shpFile.name.replace(/\.shp$/i, "");
-  return { shpFile, dbfFile, name };
+  return { sets, unmatched };
 }
@@ -0,0 +1,67 @@
+import type { DbfEncoding, DetectedEncoding } from "@/lib/dbf-encoding";
+import type { DbfField } from "@/lib/dbf-header";
+import type { ValidationReport } from "@/lib/layer-validation";
+import { computeLayerFingerprint } from "@/lib/layer-fingerprint";
+import {
+  getTransferables,
+  packFeatureCollection,
+  type PackedFeatureCollection,
+} from "@/lib/geojson-transfer";
+import {
+  parseShapefileBuffers,
+  type ParseProgress,
+  type ShapefileBuffers,
+} from "@/lib/shapefile-parser";
+
+/**
+ * Shapefile 解析用 Web Worker
+ * メインスレッドから構成ファイルのバッファを受け取り、進捗と結果を返す
+ */
+
+export interface ShapefileWorkerRequest extends ShapefileBuffers {
+  encoding?: DbfEncoding;
+}
+
+export type ShapefileWorkerResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | {
+      type: "done";
+      packed: PackedFeatureCollection;
+      encoding: DetectedEncoding | null;
+      schema: DbfField[] | null;
+      validation: ValidationReport;
+      /** 形状のフィンガープリント (全フィーチャーを走査するため Worker で計算する) */
+      fingerprint: string;
+    }
+  | { type: "error"; message: string };
+
+// DOM の型定義で Worker のグローバルスコープを扱う
+const scope = self as unknown as Worker;
+
+function post(message: ShapefileWorkerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer);
+}
+
+scope.onmessage = async (e: MessageEvent<ShapefileWorkerRequest>) => {
+  const { encoding, ...buffers } = e.data;
+  try {
+    const result = await parseShapefileBuffers(buffers, {
+      encoding,
+      onProgress: (progress) => post({ type: "progress", progress }),
+    });
+    const packed = packFeatureCollection(result.geojson);
+    post(
+      {
+        type: "done",
+        packed,
+        encoding: result.encoding,
+        schema: result.schema,
+        validation: result.validation,
+        fingerprint: computeLayerFingerprint(result.geojson),
+      },
+      getTransferables(packed)
+    );
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { unzipSync } from "fflate";
+import type { Feature, Geometry } from "geojson";
+import { buildShapefileZip, toExportFileName } from "./shapefile-writer";
+import { parseShapefileBuffers } from "./shapefile-parser";
+
+const square: Feature = {
+  type: "Feature",
+  // GeoJSON の向き (外周が反時計回り)
+  geometry: {
+    type: "Polygon",
+    coordinates: [
+      [
+        [139, 35],
+        [140, 35],
+        [140, 36],
+        [139, 36],
+        [139, 35],
+      ],
+    ],
+  },
+  properties: { NAME: "千代田区", AREA: 11.66, DATE: new Date(2020, 3, 1) },
+};
+
+const point: Feature = {
+  type: "Feature",
+  geometry: { type: "Point", coordinates: [139.7, 35.6] },
+  properties: { NAME: "東京駅", AREA: null, DATE: null },
+};
+
+const schema = [
+  { name: "NAME", type: "C", length: 20, decimals: 0 },
+  { name: "AREA", type: "N", length: 10, decimals: 2 },
+  { name: "DATE", type: "D", length: 8, decimals: 0 },
+];
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+async function readBack(files: Record<string, Uint8Array>, name: string) {
+  return parseShapefileBuffers({
+    shp: toArrayBuffer(files[`${name}.shp`]),
+    dbf: toArrayBuffer(files[`${name}.dbf`]),
+    prj: new TextDecoder().decode(files[`${name}.prj`]),
+    cpg: new TextDecoder().decode(files[`${name}.cpg`]),
+  });
+}
+
+describe("buildShapefileZip", () => {
+  it.each(["shift_jis", "utf-8"] as const)(
+    "%s の Shapefile を書き出し、読み込むと同じジオメトリ・属性・スキーマになる",
+    async (encoding) => {
+      // Act
+      const result = buildShapefileZip([{ name: "区域", features: [square], schema }], encoding);
+      const files = unzipSync(result.zip);
+      const parsed = await readBack(files, "区域");
+
+      // Assert
+      expect(Object.keys(files).sort()).toEqual(
+        ["区域.cpg", "区域.dbf", "区域.prj", "区域.shp", "区域.shx"].sort()
+      );
+      expect(parsed.encoding).toEqual({ encoding, source: "cpg" });
+      expect(parsed.schema).toEqual(schema);
+      expect(parsed.geojson.features[0].properties).toEqual(square.properties);
+      // 外周は Shapefile の向き (時計回り) で書き出される
+      expect(parsed.geojson.features[0].geometry).toEqual({
+        type: "Polygon",
+        coordinates: [
+          [
+            [139, 35],
+            [139, 36],
+            [140, 36],
+            [140, 35],
+            [139, 35],
+          ],
+        ],
+      });
+      expect(parsed.validation.issues).toEqual([]);
+    }
+  );
+
+  it("種類の異なるジオメトリはファイルを分ける", async () => {
+    // Act
+    const result = buildShapefileZip(
+      [{ name: "mixed", features: [square, point], schema }],
+      "utf-8"
+    );
+    const files = unzipSync(result.zip);
+
+    // Assert
+    expect(result.shpFileNames).toEqual(["mixed_polygon.shp", "mixed_point.shp"]);
+    const points = await readBack(files, "mixed_point");
+    expect(points.geojson.features.map((f) => f.geometry)).toEqual([point.geometry]);
+    expect(points.geojson.features[0].properties).toEqual(point.properties);
+  });
+
+  it("ジオメトリのないフィーチャーは属性だけのレコードにして件数を返す", async () => {
+    // Arrange
+    const empty: Feature<Geometry | null> = { type: "Feature", geometry: null, properties: { NAME: "なし" } };
+
+    // Act
+    const result = buildShapefileZip([{ name: "a", features: [square, empty] }], "utf-8");
+    const parsed = await readBack(unzipSync(result.zip), "a");
+
+    // Assert
+    expect(result.featureCount).toBe(2);
+    expect(result.nullGeometryCount).toBe(1);
+    expect(parsed.geojson.features.map((f) => f.properties?.NAME)).toEqual(["千代田区", "なし"]);
+  });
+
+  it("複数のセットを同じ名前にならないよう書き出す", () => {
+    // Act
+    const result = buildShapefileZip(
+      [
+        { name: "a", features: [point] },
+        { name: "A", features: [point] },
+      ],
+      "utf-8"
+    );
+
+    // Assert
+    expect(result.shpFileNames).toEqual(["a.shp", "A_2.shp"]);
+  });
+});
+
+describe("toExportFileName", () => {
+  it("ファイル名に使えない文字を置き換える", () => {
+    expect(toExportFileName('a/b:c*"d')).toBe("a_b_c__d");
+    expect(toExportFileName(" ")).toBe("layer");
+  });
+});
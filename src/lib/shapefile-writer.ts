@@ -0,0 +1,390 @@
+import { zipSync } from "fflate";
+import type { Feature, GeoJsonProperties, Geometry, Position } from "geojson";
+import type { DbfField } from "@/lib/dbf-header";
+import { buildDbfColumns, writeDbf } from "@/lib/dbf-writer";
+import { isRingClockwise } from "@/lib/layer-validation";
+import type { ExportEncoding } from "@/lib/text-encoder";
+
+/**
+ * Shapefile (.shp / .shx / .dbf / .prj / .cpg) の書き出し
+ * レイヤーの座標は読み込み時に WGS84 経緯度へ変換済みのため、.prj は常に WGS84 とする
+ *
+ * Shapefile は 1 ファイルに 1 種類のジオメトリしか持てないため、ポイント・ライン・ポリゴンが
+ * 混在するレイヤーは種類ごとのファイルに分ける
+ */
+
+type PropertyFeature = Feature<Geometry | null, GeoJsonProperties>;
+
+/**
+ * 出力するレイヤー (またはフィルター結果)
+ */
+export interface ShapefileExportSet {
+  /** ファイル名 (拡張子なし) */
+  name: string;
+  features: PropertyFeature[];
+  /** DBF のフィールド定義 (ない場合は値から推定する) */
+  schema?: DbfField[];
+}
+
+/**
+ * 書き出し結果
+ */
+export interface ShapefileExport {
+  zip: Uint8Array<ArrayBuffer>;
+  /** ZIP 内の .shp のファイル名 */
+  shpFileNames: string[];
+  featureCount: number;
+  /** ジオメトリなしで出力したフィーチャー数 (種類の混在したジオメトリコレクションを含む) */
+  nullGeometryCount: number;
+}
+
+type GeometryFamily = "point" | "line" | "polygon";
+
+// シェープタイプ
+const NULL_SHAPE = 0;
+const POINT_SHAPE = 1;
+const POLYLINE_SHAPE = 3;
+const POLYGON_SHAPE = 5;
+const MULTIPOINT_SHAPE = 8;
+
+const HEADER_LENGTH = 100;
+const RECORD_HEADER_LENGTH = 8;
+const FILE_CODE = 9994;
+const VERSION = 1000;
+
+// 種類が混在する場合にファイル名に付ける名前
+const FAMILY_SUFFIXES: Record<GeometryFamily, string> = {
+  point: "point",
+  line: "line",
+  polygon: "polygon",
+};
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const CPG_NAMES: Record<ExportEncoding, string> = {
+  shift_jis: "SHIFT_JIS",
+  "utf-8": "UTF-8",
+};
+
+type Bounds = [number, number, number, number];
+
+function getFamily(geometry: Geometry): GeometryFamily | null {
+  switch (geometry.type) {
+    case "Point":
+    case "MultiPoint":
+      return "point";
+    case "LineString":
+    case "MultiLineString":
+      return "line";
+    case "Polygon":
+    case "MultiPolygon":
+      return "polygon";
+    default:
+      return null;
+  }
+}
+
+function flattenCollection(geometry: Geometry): Geometry[] {
+  return geometry.type === "GeometryCollection"
+    ? geometry.geometries.flatMap(flattenCollection)
+    : [geometry];
+}
+
+/**
+ * ジオメトリコレクションを同じ種類のマルチジオメトリにまとめる (種類が混在する場合は null)
+ */
+function normalizeGeometry(geometry: Geometry | null): Geometry | null {
+  if (!geometry || geometry.type !== "GeometryCollection") return geometry;
+  const members = flattenCollection(geometry);
+  const family = members.length > 0 ? getFamily(members[0]) : null;
+  if (!family || members.some((m) => getFamily(m) !== family)) return null;
+
+  switch (family) {
+    case "point":
+      return {
+        type: "MultiPoint",
+        coordinates: members.flatMap((m) =>
+          m.type === "Point" ? [m.coordinates] : m.type === "MultiPoint" ? m.coordinates : []
+        ),
+      };
+    case "line":
+      return {
+        type: "MultiLineString",
+        coordinates: members.flatMap((m) =>
+          m.type === "LineString"
+            ? [m.coordinates]
+            : m.type === "MultiLineString"
+              ? m.coordinates
+              : []
+        ),
+      };
+    case "polygon":
+      return {
+        type: "MultiPolygon",
+        coordinates: members.flatMap((m) =>
+          m.type === "Polygon" ? [m.coordinates] : m.type === "MultiPolygon" ? m.coordinates : []
+        ),
+      };
+  }
+}
+
+function closeRing(ring: Position[]): Position[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first && (first[0] !== last[0] || first[1] !== last[1]) ? [...ring, first] : ring;
+}
+
+/**
+ * ポリゴンのリングを Shapefile の向き (外周は時計回り、穴は反時計回り) にそろえる
+ */
+function orientPolygon(rings: Position[][]): Position[][] {
+  return rings.map((ring, i) => {
+    const closed = closeRing(ring);
+    return isRingClockwise(closed) === (i === 0) ? closed : [...closed].reverse();
+  });
+}
+
+/**
+ * ジオメトリのパート (ライン・リング) またはポイントの一覧
+ */
+function getParts(geometry: Geometry): Position[][] {
+  switch (geometry.type) {
+    case "Point":
+      return [[geometry.coordinates]];
+    case "MultiPoint":
+      return [geometry.coordinates];
+    case "LineString":
+      return [geometry.coordinates];
+    case "MultiLineString":
+      return geometry.coordinates;
+    case "Polygon":
+      return orientPolygon(geometry.coordinates);
+    case "MultiPolygon":
+      return geometry.coordinates.flatMap(orientPolygon);
+    default:
+      return [];
+  }
+}
+
+function getBounds(points: Position[]): Bounds {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of points) {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  return minX <= maxX ? [minX, minY, maxX, maxY] : [0, 0, 0, 0];
+}
+
+function mergeBounds(a: Bounds | null, b: Bounds): Bounds {
+  if (!a) return b;
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+function writeBounds(view: DataView, offset: number, [minX, minY, maxX, maxY]: Bounds) {
+  view.setFloat64(offset, minX, true);
+  view.setFloat64(offset + 8, minY, true);
+  view.setFloat64(offset + 16, maxX, true);
+  view.setFloat64(offset + 24, maxY, true);
+}
+
+/**
+ * レコードの内容 (シェープタイプ以降)
+ */
+function writeRecordContent(geometry: Geometry | null, shapeType: number): Uint8Array {
+  if (!geometry) {
+    return new Uint8Array(4);
+  }
+  const parts = getParts(geometry);
+  const points = parts.flat();
+
+  if (shapeType === POINT_SHAPE) {
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, POINT_SHAPE, true);
+    view.setFloat64(4, points[0][0], true);
+    view.setFloat64(12, points[0][1], true);
+    return new Uint8Array(view.buffer);
+  }
+
+  const hasParts = shapeType !== MULTIPOINT_SHAPE;
+  const partsLength = hasParts ? 4 + 4 * parts.length : 0;
+  const view = new DataView(new ArrayBuffer(4 + 32 + 4 + partsLength + 16 * points.length));
+  view.setInt32(0, shapeType, true);
+  writeBounds(view, 4, getBounds(points));
+  let offset = 36;
+  if (hasParts) {
+    view.setInt32(offset, parts.length, true);
+    offset += 4;
+  }
+  view.setInt32(offset, points.length, true);
+  offset += 4;
+  if (hasParts) {
+    let start = 0;
+    for (const part of parts) {
+      view.setInt32(offset, start, true);
+      offset += 4;
+      start += part.length;
+    }
+  }
+  for (const [x, y] of points) {
+    view.setFloat64(offset, x, true);
+    view.setFloat64(offset + 8, y, true);
+    offset += 16;
+  }
+  return new Uint8Array(view.buffer);
+}
+
+function writeFileHeader(view: DataView, byteLength: number, shapeType: number, bounds: Bounds) {
+  view.setInt32(0, FILE_CODE, false);
+  view.setInt32(24, byteLength / 2, false);
+  view.setInt32(28, VERSION, true);
+  view.setInt32(32, shapeType, true);
+  writeBounds(view, 36, bounds);
+}
+
+/**
+ * .shp と .shx を書き出す
+ */
+function writeShpAndShx(
+  geometries: (Geometry | null)[],
+  shapeType: number
+): { shp: Uint8Array; shx: Uint8Array } {
+  const contents = geometries.map((g) => writeRecordContent(g, shapeType));
+  let bounds: Bounds | null = null;
+  for (const geometry of geometries) {
+    if (geometry) bounds = mergeBounds(bounds, getBounds(getParts(geometry).flat()));
+  }
+
+  const shpLength =
+    HEADER_LENGTH + contents.reduce((sum, c) => sum + RECORD_HEADER_LENGTH + c.length, 0);
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(HEADER_LENGTH + RECORD_HEADER_LENGTH * contents.length);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+  writeFileHeader(shpView, shp.length, shapeType, bounds ?? [0, 0, 0, 0]);
+  writeFileHeader(shxView, shx.length, shapeType, bounds ?? [0, 0, 0, 0]);
+
+  let offset = HEADER_LENGTH;
+  contents.forEach((content, i) => {
+    // レコード番号・長さ・位置はビッグエンディアン、長さと位置は 16 ビット単位
+    shpView.setInt32(offset, i + 1, false);
+    shpView.setInt32(offset + 4, content.length / 2, false);
+    shp.set(content, offset + RECORD_HEADER_LENGTH);
+    shxView.setInt32(HEADER_LENGTH + RECORD_HEADER_LENGTH * i, offset / 2, false);
+    shxView.setInt32(HEADER_LENGTH + RECORD_HEADER_LENGTH * i + 4, content.length / 2, false);
+    offset += RECORD_HEADER_LENGTH + content.length;
+  });
+  return { shp, shx };
+}
+
+interface FeatureGroup {
+  family: GeometryFamily | null;
+  features: PropertyFeature[];
+  geometries: (Geometry | null)[];
+}
+
+/**
+ * ジオメトリの種類ごとにフィーチャーを分ける
+ * ジオメトリのないフィーチャーは最初の種類のファイルにジオメトリなしのレコードとして入れる
+ */
+function groupFeatures(features: PropertyFeature[]): {
+  groups: FeatureGroup[];
+  nullGeometryCount: number;
+} {
+  const groups = new Map<GeometryFamily | null, FeatureGroup>();
+  const withoutGeometry: PropertyFeature[] = [];
+  for (const feature of features) {
+    const geometry = normalizeGeometry(feature.geometry);
+    const family = geometry ? getFamily(geometry) : null;
+    if (!geometry || !family) {
+      withoutGeometry.push(feature);
+      continue;
+    }
+    const group = groups.get(family) ?? { family, features: [], geometries: [] };
+    group.features.push(feature);
+    group.geometries.push(geometry);
+    groups.set(family, group);
+  }
+
+  const result = [...groups.values()];
+  if (withoutGeometry.length > 0) {
+    const first = result[0] ?? { family: null, features: [], geometries: [] };
+    first.features.push(...withoutGeometry);
+    first.geometries.push(...withoutGeometry.map(() => null));
+    if (result.length === 0) result.push(first);
+  }
+  return { groups: result, nullGeometryCount: withoutGeometry.length };
+}
+
+function getShapeType(group: FeatureGroup): number {
+  switch (group.family) {
+    case "point":
+      return group.geometries.some((g) => g?.type === "MultiPoint")
+        ? MULTIPOINT_SHAPE
+        : POINT_SHAPE;
+    case "line":
+      return POLYLINE_SHAPE;
+    case "polygon":
+      return POLYGON_SHAPE;
+    default:
+      return NULL_SHAPE;
+  }
+}
+
+/**
+ * ファイル名に使えない文字を置き換える
+ */
+export function toExportFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, "_").trim() || "layer";
+}
+
+/**
+ * Shapefile 一式を ZIP にまとめる
+ */
+export function buildShapefileZip(
+  sets: ShapefileExportSet[],
+  encoding: ExportEncoding
+): ShapefileExport {
+  const entries: Record<string, Uint8Array> = {};
+  const usedNames = new Set<string>();
+  const textEncoder = new TextEncoder();
+  const result: Omit<ShapefileExport, "zip"> = {
+    shpFileNames: [],
+    featureCount: 0,
+    nullGeometryCount: 0,
+  };
+
+  for (const set of sets) {
+    const { groups, nullGeometryCount } = groupFeatures(set.features);
+    result.featureCount += set.features.length;
+    result.nullGeometryCount += nullGeometryCount;
+
+    for (const group of groups) {
+      const base = toExportFileName(
+        groups.length > 1 && group.family
+          ? `${set.name}_${FAMILY_SUFFIXES[group.family]}`
+          : set.name
+      );
+      let name = base;
+      for (let i = 2; usedNames.has(name.toLowerCase()); i++) name = `${base}_${i}`;
+      usedNames.add(name.toLowerCase());
+
+      const { shp, shx } = writeShpAndShx(group.geometries, getShapeType(group));
+      const columns = buildDbfColumns(group.features, set.schema, encoding);
+      entries[`${name}.shp`] = shp;
+      entries[`${name}.shx`] = shx;
+      entries[`${name}.dbf`] = writeDbf(group.features, columns, encoding);
+      entries[`${name}.prj`] = textEncoder.encode(WGS84_PRJ);
+      entries[`${name}.cpg`] = textEncoder.encode(CPG_NAMES[encoding]);
+      result.shpFileNames.push(`${name}.shp`);
+    }
+  }
+
+  // fflate は ArrayBuffer に書き出す
+  return { ...result, zip: zipSync(entries) as Uint8Array<ArrayBuffer> };
+}
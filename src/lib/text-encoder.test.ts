@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { encodeText, truncateText } from "./text-encoder";
+
+describe("encodeText", () => {
+  it("Shift_JIS の 2 バイト文字・半角カナ・ASCII に変換する", () => {
+    // Act
+    const bytes = encodeText("名称ｱA", "shift_jis");
+
+    // Assert
+    expect([...bytes]).toEqual([0x96, 0xbc, 0x8f, 0xcc, 0xb1, 0x41]);
+    expect(new TextDecoder("shift_jis").decode(bytes)).toBe("名称ｱA");
+  });
+
+  it("IBM 拡張文字は NEC 選定 IBM 拡張文字ではなく IBM 拡張文字のコードにする", () => {
+    // 纊 は 0xED40 (NEC 選定) と 0xFA5C (IBM)、ⅰ は 0xEEEF と 0xFA40 の両方にある
+    expect([...encodeText("纊ⅰ", "shift_jis")]).toEqual([0xfa, 0x5c, 0xfa, 0x40]);
+  });
+
+  it("JIS の文字と重複する NEC 特殊文字・IBM 拡張文字は JIS のコードにする", () => {
+    // ∵ は 0x81E6 (JIS)・0x879A (NEC 特殊文字)・0xFA5B (IBM) にある
+    expect([...encodeText("∵", "shift_jis")]).toEqual([0x81, 0xe6]);
+  });
+
+  it("Shift_JIS にない文字は ? にする", () => {
+    expect([...encodeText("😀", "shift_jis")]).toEqual([0x3f]);
+  });
+
+  it("UTF-8 は TextEncoder と同じ結果になる", () => {
+    expect(encodeText("名称", "utf-8")).toEqual(new TextEncoder().encode("名称"));
+  });
+});
+
+describe("truncateText", () => {
+  it("文字の途中で切らずにバイト数以内にする", () => {
+    expect(truncateText("東京都", "shift_jis", 5)).toBe("東京");
+    expect(truncateText("東京都", "utf-8", 5)).toBe("東");
+    expect(truncateText("ABC", "utf-8", 5)).toBe("ABC");
+  });
+});
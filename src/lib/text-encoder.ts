@@ -0,0 +1,102 @@
+import type { DbfEncoding } from "@/lib/dbf-encoding";
+
+/**
+ * 出力用の文字列のエンコード
+ * TextEncoder は UTF-8 にしか対応しないため、Shift_JIS は TextDecoder から作った対応表で変換する
+ */
+
+/** 出力に対応する文字コード */
+export type ExportEncoding = Extract<DbfEncoding, "shift_jis" | "utf-8">;
+
+/** UI 表示用の出力文字コード一覧 */
+export const EXPORT_ENCODINGS: { value: ExportEncoding; label: string }[] = [
+  { value: "shift_jis", label: "Shift_JIS" },
+  { value: "utf-8", label: "UTF-8" },
+];
+
+// Shift_JIS に変換できない文字の代わりに出力する文字 ("?")
+const REPLACEMENT_BYTE = 0x3f;
+
+// 文字 -> Shift_JIS のバイト列 (初回の変換時に作成)
+let shiftJisTable: Map<string, number[]> | null = null;
+
+// NEC 選定 IBM 拡張文字 (0xED40〜0xEEFC) の WHATWG の index での位置 (変換には使わない)
+const NEC_SELECTED_IBM_POINTERS = { start: 8272, end: 8835 };
+
+function isShiftJisLeadByte(byte: number): boolean {
+  return (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xfc);
+}
+
+/**
+ * 2 バイトのコードの WHATWG の index (index-jis0208) での位置
+ */
+function getShiftJisPointer(lead: number, trail: number): number {
+  return (lead - (lead < 0xa0 ? 0x81 : 0xc1)) * 188 + trail - (trail < 0x7f ? 0x40 : 0x41);
+}
+
+/**
+ * 2 バイト文字と半角カナの対応表を作る
+ * 同じ文字に複数のコードがある場合は先に見つかったコードを使う。
+ * WHATWG・Windows と同じく、NEC 選定 IBM 拡張文字ではなく IBM 拡張文字 (0xFA40〜) のコードにする
+ */
+function getShiftJisTable(): Map<string, number[]> {
+  if (shiftJisTable) return shiftJisTable;
+  const decoder = new TextDecoder("shift_jis");
+  const table = new Map<string, number[]>();
+  for (let byte = 0xa1; byte <= 0xdf; byte++) {
+    table.set(decoder.decode(Uint8Array.of(byte)), [byte]);
+  }
+  for (let lead = 0x81; lead <= 0xfc; lead++) {
+    if (!isShiftJisLeadByte(lead)) continue;
+    for (let trail = 0x40; trail <= 0xfc; trail++) {
+      if (trail === 0x7f) continue;
+      const pointer = getShiftJisPointer(lead, trail);
+      if (pointer >= NEC_SELECTED_IBM_POINTERS.start && pointer <= NEC_SELECTED_IBM_POINTERS.end) {
+        continue;
+      }
+      const char = decoder.decode(Uint8Array.of(lead, trail));
+      if (char.length === 1 && char !== "\uFFFD" && !table.has(char)) {
+        table.set(char, [lead, trail]);
+      }
+    }
+  }
+  shiftJisTable = table;
+  return table;
+}
+
+function encodeShiftJis(text: string): Uint8Array {
+  const table = getShiftJisTable();
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else {
+      bytes.push(...(table.get(char) ?? [REPLACEMENT_BYTE]));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * 文字列をバイト列に変換する (Shift_JIS にない文字は "?")
+ */
+export function encodeText(text: string, encoding: ExportEncoding): Uint8Array {
+  return encoding === "utf-8" ? new TextEncoder().encode(text) : encodeShiftJis(text);
+}
+
+/**
+ * バイト数が上限を超えないよう文字単位で切り詰める
+ */
+export function truncateText(text: string, encoding: ExportEncoding, maxBytes: number): string {
+  if (encodeText(text, encoding).length <= maxBytes) return text;
+  let result = "";
+  let length = 0;
+  for (const char of text) {
+    const charLength = encodeText(char, encoding).length;
+    if (length + charLength > maxBytes) break;
+    result += char;
+    length += charLength;
+  }
+  return result;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { parseWktGeometry } from "./wkt-geometry";
+
+describe("parseWktGeometry", () => {
+  it("POINT を変換する", () => {
+    expect(parseWktGeometry("POINT (139.7 35.6)")).toEqual({
+      type: "Point",
+      coordinates: [139.7, 35.6],
+    });
+  });
+
+  it("SRID 指定と Z 値を読み飛ばす", () => {
+    expect(parseWktGeometry("SRID=4326;POINT Z (139.7 35.6 10)")).toEqual({
+      type: "Point",
+      coordinates: [139.7, 35.6],
+    });
+  });
+
+  it("穴あきポリゴンを変換する", () => {
+    // Act
+    const geometry = parseWktGeometry("POLYGON ((0 0, 10 0, 10 10, 0 0), (2 2, 4 2, 4 4, 2 2))");
+
+    // Assert
+    expect(geometry).toEqual({
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 0],
+        ],
+        [
+          [2, 2],
+          [4, 2],
+          [4, 4],
+          [2, 2],
+        ],
+      ],
+    });
+  });
+
+  it("MULTIPOINT は括弧の有無どちらの書き方も読める", () => {
+    const expected = {
+      type: "MultiPoint",
+      coordinates: [
+        [1, 2],
+        [3, 4],
+      ],
+    };
+    expect(parseWktGeometry("MULTIPOINT ((1 2), (3 4))")).toEqual(expected);
+    expect(parseWktGeometry("multipoint (1 2, 3 4)")).toEqual(expected);
+  });
+
+  it("MULTIPOLYGON と GEOMETRYCOLLECTION を変換する", () => {
+    expect(parseWktGeometry("MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)))")).toEqual({
+      type: "MultiPolygon",
+      coordinates: [
+        [
+          [
+            [0, 0],
+            [1, 0],
+            [1, 1],
+            [0, 0],
+          ],
+        ],
+      ],
+    });
+    expect(parseWktGeometry("GEOMETRYCOLLECTION (POINT (1 2), LINESTRING (0 0, 1 1))")).toEqual({
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Point", coordinates: [1, 2] },
+        {
+          type: "LineString",
+          coordinates: [
+            [0, 0],
+            [1, 1],
+          ],
+        },
+      ],
+    });
+  });
+
+  it("EMPTY は null を返す", () => {
+    expect(parseWktGeometry("POLYGON EMPTY")).toBeNull();
+  });
+
+  it("不正な WKT はエラーになる", () => {
+    expect(() => parseWktGeometry("POINT (139.7)")).toThrow("WKT を解析できません");
+    expect(() => parseWktGeometry("CIRCLE (0 0)")).toThrow("WKT を解析できません");
+    expect(() => parseWktGeometry("POINT (1 2) extra")).toThrow("WKT を解析できません");
+  });
+});
@@ -0,0 +1,136 @@
+import type { Geometry, Position } from "geojson";
+
+/**
+ * WKT (Well-Known Text) ジオメトリの解析
+ * 例: "POINT (139.7 35.6)", "SRID=4326;MULTIPOLYGON (((...)))"
+ * Z・M は捨てて 2 次元にする
+ */
+
+type WktType =
+  | "POINT"
+  | "LINESTRING"
+  | "POLYGON"
+  | "MULTIPOINT"
+  | "MULTILINESTRING"
+  | "MULTIPOLYGON"
+  | "GEOMETRYCOLLECTION";
+
+const WKT_TYPES: WktType[] = [
+  "POINT",
+  "LINESTRING",
+  "POLYGON",
+  "MULTIPOINT",
+  "MULTILINESTRING",
+  "MULTIPOLYGON",
+  "GEOMETRYCOLLECTION",
+];
+
+/**
+ * WKT をジオメトリに変換
+ * @returns EMPTY の場合 null
+ */
+export function parseWktGeometry(text: string): Geometry | null {
+  // EWKT の SRID 指定は読み飛ばす (座標は経緯度とみなす)
+  const source = text.trim().replace(/^SRID=\d+;/i, "");
+  let pos = 0;
+
+  const fail = (): never => {
+    throw new Error(`WKT を解析できません: ${text.length > 40 ? `${text.slice(0, 40)}...` : text}`);
+  };
+  const skipSpaces = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+  const peek = () => {
+    skipSpaces();
+    return source[pos];
+  };
+  const expect = (ch: string) => {
+    if (peek() !== ch) fail();
+    pos++;
+  };
+  const readWord = (): string => {
+    skipSpaces();
+    const match = /^[A-Za-z]+/.exec(source.slice(pos));
+    if (!match) return fail();
+    pos += match[0].length;
+    return match[0].toUpperCase();
+  };
+  // "EMPTY" または "(" を判定
+  const isEmpty = (): boolean => {
+    if (peek() === "(") return false;
+    if (readWord() !== "EMPTY") fail();
+    return true;
+  };
+
+  const readPosition = (): Position => {
+    skipSpaces();
+    const match = /^[-+0-9.eE\s]+/.exec(source.slice(pos));
+    if (!match) return fail();
+    pos += match[0].length;
+    const values = match[0].trim().split(/\s+/).map(Number);
+    if (values.length < 2 || values.some((v) => !Number.isFinite(v))) fail();
+    return [values[0], values[1]];
+  };
+  // "(" 要素 ("," 要素)* ")"
+  const readList = <T>(readItem: () => T): T[] => {
+    expect("(");
+    const items = [readItem()];
+    while (peek() === ",") {
+      pos++;
+      items.push(readItem());
+    }
+    expect(")");
+    return items;
+  };
+  const readLine = () => readList(readPosition);
+  const readRings = () => readList(readLine);
+  // MULTIPOINT は "((1 2), (3 4))" と "(1 2, 3 4)" の両方を許容する
+  const readMultiPointItem = (): Position => {
+    if (peek() !== "(") return readPosition();
+    pos++;
+    const position = readPosition();
+    expect(")");
+    return position;
+  };
+
+  const readGeometry = (): Geometry | null => {
+    const type = readWord() as WktType;
+    if (!WKT_TYPES.includes(type)) fail();
+    // 次元指定 (Z, M, ZM)
+    if (peek() !== "(") {
+      const saved = pos;
+      const word = readWord();
+      if (!["Z", "M", "ZM"].includes(word)) pos = saved;
+    }
+    if (isEmpty()) return null;
+
+    switch (type) {
+      case "POINT": {
+        expect("(");
+        const position = readPosition();
+        expect(")");
+        return { type: "Point", coordinates: position };
+      }
+      case "LINESTRING":
+        return { type: "LineString", coordinates: readLine() };
+      case "POLYGON":
+        return { type: "Polygon", coordinates: readRings() };
+      case "MULTIPOINT":
+        return { type: "MultiPoint", coordinates: readList(readMultiPointItem) };
+      case "MULTILINESTRING":
+        return { type: "MultiLineString", coordinates: readRings() };
+      case "MULTIPOLYGON":
+        return { type: "MultiPolygon", coordinates: readList(readRings) };
+      case "GEOMETRYCOLLECTION":
+        return {
+          type: "GeometryCollection",
+          geometries: readList(readGeometry).filter((g): g is Geometry => g !== null),
+        };
+    }
+  };
+
+  const geometry = readGeometry();
+  skipSpaces();
+  if (pos !== source.length) fail();
+  return geometry;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { decodeEntryName, extractZipFiles, isZipFile } from "./zip-extractor";
+
+function createZipFile(entries: Record<string, string>, name = "data.zip"): File {
+  const data = zipSync(
+    Object.fromEntries(Object.entries(entries).map(([path, text]) => [path, strToU8(text)]))
+  );
+  return new File([data as BlobPart], name);
+}
+
+describe("isZipFile", () => {
+  it("拡張子 .zip を判定する (大文字小文字を区別しない)", () => {
+    expect(isZipFile(new File([""], "a.ZIP"))).toBe(true);
+    expect(isZipFile(new File([""], "a.shp"))).toBe(false);
+  });
+});
+
+describe("decodeEntryName", () => {
+  it("ASCII の名前はそのまま返す", () => {
+    expect(decodeEntryName("dir/a.shp")).toBe("dir/a.shp");
+  });
+
+  it("Latin-1 として読まれた Shift_JIS の名前を復元する", () => {
+    // Arrange - 「東京.shp」の Shift_JIS バイト列を Latin-1 で解釈した文字列
+    const latin1 = String.fromCharCode(0x93, 0x8c, 0x8b, 0x9e) + ".shp";
+
+    // Act & Assert
+    expect(decodeEntryName(latin1)).toBe("東京.shp");
+  });
+
+  it("Latin-1 として読まれた UTF-8 の名前を復元する", () => {
+    // Arrange
+    const latin1 = String.fromCharCode(...new TextEncoder().encode("東京.shp"));
+
+    // Act & Assert
+    expect(decodeEntryName(latin1)).toBe("東京.shp");
+  });
+
+  it("既に Unicode の名前はそのまま返す", () => {
+    expect(decodeEntryName("東京.shp")).toBe("東京.shp");
+  });
+});
+
+describe("extractZipFiles", () => {
+  it("入れ子フォルダを含む Shapefile の構成ファイルをパス付きで取り出す", async () => {
+    // Arrange
+    const zip = createZipFile({
+      "a.shp": "shp",
+      "a.dbf": "dbf",
+      "nested/dir/b.shp": "shp",
+      "nested/dir/b.prj": "prj",
+      "readme.txt": "ignored",
+    });
+
+    // Act
+    const files = await extractZipFiles(zip);
+
+    // Assert
+    expect(files.map((f) => f.name).sort()).toEqual([
+      "a.dbf",
+      "a.shp",
+      "nested/dir/b.prj",
+      "nested/dir/b.shp",
+    ]);
+    const prj = files.find((f) => f.name === "nested/dir/b.prj");
+    expect(await prj?.text()).toBe("prj");
+  });
+
+  it("__MACOSX のリソースフォークを除外する", async () => {
+    // Arrange
+    const zip = createZipFile({
+      "a.shp": "shp",
+      "__MACOSX/._a.shp": "resource",
+      "dir/._b.shp": "resource",
+    });
+
+    // Act
+    const files = await extractZipFiles(zip);
+
+    // Assert
+    expect(files.map((f) => f.name)).toEqual(["a.shp"]);
+  });
+
+  it("ZIP として不正なファイルはエラーを投げる", async () => {
+    // Arrange
+    const broken = new File(["not a zip"], "broken.zip");
+
+    // Act & Assert
+    await expect(extractZipFiles(broken)).rejects.toThrow(
+      "ZIPファイルを展開できません: broken.zip"
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { unzipSync } from "fflate";
+
+/**
+ * ZIP アーカイブの展開
+ * 国土数値情報や e-Stat の境界データなど、ZIP で配布される Shapefile を扱う
+ */
+
+/** ZIP から取り出すファイルの拡張子 */
+const SHAPEFILE_EXTENSIONS = ["shp", "dbf", "shx", "prj", "cpg"];
+
+/**
+ * ファイルが ZIP アーカイブか (拡張子で判定)
+ */
+export function isZipFile(file: File): boolean {
+  return /\.zip$/i.test(file.name);
+}
+
+/**
+ * UTF-8 フラグのないエントリ名を復元
+ * fflate は UTF-8 フラグのない名前を Latin-1 として扱うため、
+ * 元のバイト列に戻して UTF-8 → Shift_JIS の順にデコードし直す
+ */
+export function decodeEntryName(name: string): string {
+  const codes = Array.from(name, (ch) => ch.charCodeAt(0));
+  // ASCII のみ、または既に Latin-1 範囲外の文字を含む (UTF-8 として復元済み) 場合はそのまま
+  if (!codes.some((code) => code >= 0x80) || codes.some((code) => code > 0xff)) {
+    return name;
+  }
+  const bytes = Uint8Array.from(codes);
+  for (const encoding of ["utf-8", "shift_jis"]) {
+    try {
+      return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    } catch {
+      // 次の文字コードを試す
+    }
+  }
+  return name;
+}
+
+function isShapefileEntry(name: string): boolean {
+  // macOS のリソースフォーク (__MACOSX/, ._xxx) は除外
+  if (name.startsWith("__MACOSX/") || /(^|\/)\._/.test(name)) return false;
+  const ext = name.toLowerCase().split(".").pop() ?? "";
+  return SHAPEFILE_EXTENSIONS.includes(ext);
+}
+
+/**
+ * ZIP アーカイブから Shapefile の構成ファイルを取り出す
+ * 入れ子フォルダも対象とし、File 名にはアーカイブ内のパスを保持する
+ * (同名ファイルが別フォルダにあってもセットを区別できるように)
+ */
+export async function extractZipFiles(zipFile: File): Promise<File[]> {
+  const buffer = new Uint8Array(await zipFile.arrayBuffer());
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(buffer, {
+      filter: (entry) => isShapefileEntry(decodeEntryName(entry.name)),
+    });
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new Error(`ZIPファイルを展開できません: ${zipFile.name} (${reason})`);
+  }
+
+  return Object.entries(entries).map(
+    ([name, data]) => new File([data as BlobPart], decodeEntryName(name))
+  );
+}
@@ -17,6 +17,20 @@ export interface AreaWithChildren extends Area {
   children: AreaWithChildren[];
 }
 
+/**
+ * プロジェクトが参照するレイヤーの出所 (どのファイルから作ったか)
+ */
+export interface LayerSourceInfo {
+  /** レイヤー名 */
+  name: string;
+  /** 読み込んだファイル名 (ZIP の場合はアーカイブ名) */
+  fileNames: string[];
+  featureCount: number;
+  keyField?: string;
+  /** 形状のフィンガープリント (lib/layer-fingerprint.ts) */
+  fingerprint: string;
+}
+
 /**
  * エリアプロジェクト (JSONファイル形式)
  */
@@ -26,6 +40,13 @@ export interface AreaProject {
   createdAt: string;
   updatedAt: string;
   areas: Area[];
+  /**
+   * レイヤーID -> フィーチャーIDに使っているキー列
+   * 記載のないレイヤーのフィーチャーIDは配列のインデックス (layerId:index)
+   */
+  featureKeyFields?: Record<string, string>;
+  /** レイヤーID -> 出所 (保存時に読み込まれていたレイヤーのみ) */
+  layerSources?: Record<string, LayerSourceInfo>;
 }
 
 // 後方互換性のため維持 (新規はcolor-palette.tsを使用)
@@ -101,6 +122,28 @@ function isValidArea(data: unknown): data is Area {
   );
 }
 
+function isValidLayerSourceInfo(data: unknown): data is LayerSourceInfo {
+  if (typeof data !== "object" || data === null) return false;
+  const obj = data as Record<string, unknown>;
+  return (
+    typeof obj.name === "string" &&
+    Array.isArray(obj.fileNames) &&
+    obj.fileNames.every((name) => typeof name === "string") &&
+    typeof obj.featureCount === "number" &&
+    (obj.keyField === undefined || typeof obj.keyField === "string") &&
+    typeof obj.fingerprint === "string"
+  );
+}
+
+function isStringRecord(data: unknown): data is Record<string, string> {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    !Array.isArray(data) &&
+    Object.values(data).every((value) => typeof value === "string")
+  );
+}
+
 /**
  * AreaProject のバリデーション (JSON.parse後のデータ検証用)
  * @param data - パース済みの不明なデータ
@@ -115,7 +158,12 @@ export function isValidAreaProject(data: unknown): data is AreaProject {
     typeof obj.createdAt === "string" &&
     typeof obj.updatedAt === "string" &&
     Array.isArray(obj.areas) &&
-    obj.areas.every(isValidArea)
+    obj.areas.every(isValidArea) &&
+    (obj.featureKeyFields === undefined || isStringRecord(obj.featureKeyFields)) &&
+    (obj.layerSources === undefined ||
+      (typeof obj.layerSources === "object" &&
+        obj.layerSources !== null &&
+        Object.values(obj.layerSources).every(isValidLayerSourceInfo)))
   );
 }
 
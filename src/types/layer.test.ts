@@ -2,6 +2,10 @@ import { describe, it, expect } from "vitest";
 import type { Layer } from "./layer";
 import {
   generateFeatureId,
+  getFeatureKey,
+  getLayerFeatureId,
+  splitFeatureId,
+  resolveFeatureId,
   parseFeatureId,
   generateFeatureName,
   getFeatureNameFromLayers,
@@ -33,6 +37,36 @@ describe("generateFeatureId", () => {
   });
 });
 
+describe("getFeatureKey", () => {
+  const feature = {
+    type: "Feature" as const,
+    geometry: { type: "Point" as const, coordinates: [0, 0] },
+    properties: { KEY_CODE: " 13101 ", EMPTY: "" },
+  };
+
+  it("キー列がなければインデックスを返す", () => {
+    expect(getFeatureKey(feature, 3)).toBe(3);
+  });
+
+  it("キー列の値を前後の空白を除いて返す", () => {
+    expect(getFeatureKey(feature, 3, "KEY_CODE")).toBe("13101");
+  });
+
+  it("キー列の値が空ならインデックスを返す", () => {
+    expect(getFeatureKey(feature, 3, "EMPTY")).toBe(3);
+  });
+});
+
+describe("splitFeatureId", () => {
+  it("最初の区切りでレイヤーIDとキーに分ける", () => {
+    expect(splitFeatureId("layer-1:A:01")).toEqual({ layerId: "layer-1", key: "A:01" });
+  });
+
+  it("区切りがなければ null を返す", () => {
+    expect(splitFeatureId("invalid")).toBeNull();
+  });
+});
+
 describe("parseFeatureId", () => {
   it("有効なフィーチャーIDをパースする", () => {
     // Act
@@ -275,3 +309,62 @@ describe("getFeatureNameFromLayers", () => {
     expect(result).toBe("");
   });
 });
+
+describe("resolveFeatureId", () => {
+  function createKeyedLayer(keyField?: string): Layer {
+    return {
+      id: "town",
+      name: "town",
+      geojson: {
+        type: "FeatureCollection",
+        features: ["13101", "13102"].map((code) => ({
+          type: "Feature" as const,
+          geometry: { type: "Point" as const, coordinates: [0, 0] },
+          properties: { KEY_CODE: code },
+        })),
+      },
+      visible: true,
+      color: "#ff0000",
+      keyField,
+    };
+  }
+
+  it("キー列を設定したレイヤーではキーの値で探す", () => {
+    // Arrange
+    const layer = createKeyedLayer("KEY_CODE");
+
+    // Act
+    const result = resolveFeatureId("town:13102", [layer]);
+
+    // Assert
+    expect(result?.index).toBe(1);
+    expect(result?.feature).toBe(layer.geojson.features[1]);
+  });
+
+  it("キー列がなければインデックスで探す", () => {
+    expect(resolveFeatureId("town:1", [createKeyedLayer()])?.index).toBe(1);
+  });
+
+  it("解釈に使うキー列を指定できる", () => {
+    // Arrange
+    const layer = createKeyedLayer("KEY_CODE");
+
+    // Act
+    const byIndex = resolveFeatureId("town:0", [layer], null);
+    const byKey = resolveFeatureId("town:13101", [createKeyedLayer()], "KEY_CODE");
+
+    // Assert
+    expect(byIndex?.index).toBe(0);
+    expect(byKey?.index).toBe(0);
+  });
+
+  it("見つからないキーでは null を返す", () => {
+    expect(resolveFeatureId("town:99999", [createKeyedLayer("KEY_CODE")])).toBeNull();
+    expect(resolveFeatureId("town:1.5", [createKeyedLayer()])).toBeNull();
+  });
+
+  it("getLayerFeatureId はキー列の値でIDを作る", () => {
+    expect(getLayerFeatureId(createKeyedLayer("KEY_CODE"), 1)).toBe("town:13102");
+    expect(getLayerFeatureId(createKeyedLayer(), 1)).toBe("town:1");
+  });
+});
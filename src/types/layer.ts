@@ -1,9 +1,37 @@
-import type { FeatureCollection } from "geojson";
+import type { Feature, FeatureCollection } from "geojson";
+import type { DetectedEncoding } from "@/lib/dbf-encoding";
+import type { ParseProgress } from "@/lib/shapefile-parser";
+import type { GeoPackageTable } from "@/lib/gpkg-parser";
+import type { CsvGeometryMapping, CsvTable } from "@/lib/csv-parser";
+import type { ValidationReport } from "@/lib/layer-validation";
+import type { DbfField } from "@/lib/dbf-header";
+import { formatPropertyValue } from "@/lib/field-schema";
+import { getFeatureKeyValue, getKeyIndex } from "@/lib/feature-key";
+
+/**
+ * 数値・日付の範囲 (値は formatPropertyValue と同じ文字列、null は制限なし)
+ */
+export interface PropertyRange {
+  min: string | null;
+  max: string | null;
+}
 
 export interface PropertyFilter {
   key: string;
   values: string[]; // OR条件: いずれかの値にマッチ
   enabled: boolean;
+  range?: PropertyRange; // 指定した場合は values ではなく範囲 (両端を含む) で絞り込む
+}
+
+/**
+ * Shapefile の構成ファイル
+ * 文字コードを変更して再デコードする際にファイルを再選択せずに済むよう保持する
+ */
+export interface ShapefileSource {
+  shpFile: File;
+  dbfFile?: File;
+  prjFile?: File;
+  cpgFile?: File;
 }
 
 export interface Layer {
@@ -13,17 +41,70 @@ export interface Layer {
   visible: boolean;
   color: string;
   filter?: PropertyFilter;
+  source?: ShapefileSource;
+  encoding?: DetectedEncoding; // DBF の文字コード (.dbf がない場合は未設定)
+  keyField?: string; // フィーチャーIDに使うキー列 (未設定の場合は配列のインデックス)
+  fileNames?: string[]; // 読み込んだファイル名 (ZIP の場合はアーカイブ名)
+  validation?: ValidationReport; // 読み込み時の検証結果 (Shapefile のみ)
+  schema?: DbfField[]; // DBF のフィールド定義 (型・長さ・小数部の桁数、Shapefile のみ)
+}
+
+/**
+ * ファイル読み込み結果 (ファイル・セットごと)
+ */
+export interface LoadResult {
+  /** 対象のファイル名 (ZIP 内のファイルは "archive.zip/path" 形式) */
+  fileName: string;
+  status: "success" | "warning" | "error";
+  message: string;
+  /** 読み込みに成功した場合のレイヤーID */
+  layerId?: string;
+}
+
+/**
+ * 読み込み中のセットと進捗
+ */
+export interface LoadProgress {
+  fileName: string;
+  /** 読み込み中のセットの位置 (0 始まり) */
+  setIndex: number;
+  setCount: number;
+  /** Worker から通知された進捗 (解析開始前は null) */
+  progress: ParseProgress | null;
+}
+
+/**
+ * 読み込むテーブルの選択待ちの GeoPackage
+ */
+export interface GeoPackageSelection {
+  file: File;
+  tables: GeoPackageTable[];
+}
+
+/**
+ * 座標列の指定待ちの CSV / TSV
+ */
+export interface CsvSelection {
+  file: File;
+  table: CsvTable;
+  /** 列名から推定した対応付け (推定できない場合 null) */
+  mapping: CsvGeometryMapping | null;
 }
 
 /**
  * localStorage に保存するレイヤー状態
- * (GeoJSON は大きいので保存しない - 再度ファイルを読み込む必要あり)
+ * (GeoJSON は大きいため IndexedDB のレイヤーキャッシュに保存する - lib/layer-cache.ts)
  */
 export interface SavedLayerState {
   name: string;
   visible: boolean;
   color: string;
   filter?: PropertyFilter;
+  /** 保存時のレイヤー一覧での位置 */
+  order?: number;
+  /** 形状のフィンガープリント (lib/layer-fingerprint.ts) */
+  fingerprint?: string;
+  keyField?: string;
 }
 
 // 後方互換性のため維持 (新規はcolor-palette.tsを使用)
@@ -31,10 +112,67 @@ export { POLYGON_PALETTE as LAYER_COLORS } from "@/lib/color-palette";
 
 /**
  * フィーチャーIDを生成
- * layerId:featureIndex 形式
+ * layerId:featureIndex 形式 (キー列を設定したレイヤーは layerId:キーの値)
+ */
+export function generateFeatureId(layerId: string, featureKey: number | string): string {
+  return `${layerId}:${featureKey}`;
+}
+
+/**
+ * フィーチャーIDに使う値 (キー列の値、キー列がなければインデックス)
+ */
+export function getFeatureKey(
+  feature: Feature,
+  index: number,
+  keyField?: string
+): number | string {
+  if (!keyField) return index;
+  return getFeatureKeyValue(feature, keyField) ?? index;
+}
+
+/**
+ * レイヤーの index 番目のフィーチャーのID
+ */
+export function getLayerFeatureId(
+  layer: Pick<Layer, "id" | "geojson" | "keyField">,
+  index: number
+): string {
+  const feature = layer.geojson.features[index];
+  return generateFeatureId(layer.id, getFeatureKey(feature, index, layer.keyField));
+}
+
+/**
+ * フィーチャーIDをレイヤーIDとキー (インデックスまたはキー列の値) に分ける
+ * キーの値に ":" が含まれてもよいよう、最初の ":" で分ける
  */
-export function generateFeatureId(layerId: string, featureIndex: number): string {
-  return `${layerId}:${featureIndex}`;
+export function splitFeatureId(featureId: string): { layerId: string; key: string } | null {
+  const separator = featureId.indexOf(":");
+  if (separator <= 0) return null;
+  return { layerId: featureId.slice(0, separator), key: featureId.slice(separator + 1) };
+}
+
+/**
+ * フィーチャーIDに対応するレイヤーとフィーチャーを探す
+ * @param keyField - キーの解釈に使うキー列 (省略時はレイヤーの設定)
+ */
+export function resolveFeatureId(
+  featureId: string,
+  layers: Layer[],
+  keyField?: string | null
+): { layer: Layer; index: number; feature: Feature } | null {
+  const parts = splitFeatureId(featureId);
+  if (!parts) return null;
+  const layer = layers.find((l) => l.id === parts.layerId);
+  if (!layer) return null;
+
+  const field = keyField === undefined ? layer.keyField : (keyField ?? undefined);
+  const index = field
+    ? getKeyIndex(layer.geojson, field).get(parts.key)
+    : /^\d+$/.test(parts.key)
+      ? Number(parts.key)
+      : undefined;
+  const feature = index !== undefined ? layer.geojson.features[index] : undefined;
+  return feature && index !== undefined ? { layer, index, feature } : null;
 }
 
 /**
@@ -61,7 +199,7 @@ export function generateFeatureName(properties: Record<string, unknown> | null):
   for (const key of keys) {
     const value = properties[key];
     if (value !== null && value !== undefined && value !== "") {
-      parts.push(String(value));
+      parts.push(formatPropertyValue(value));
     }
   }
 
@@ -75,13 +213,7 @@ export function getFeatureNameFromLayers(
   featureId: string,
   layers: Layer[]
 ): string {
-  const parsed = parseFeatureId(featureId);
-  if (!parsed) return "";
-
-  const layer = layers.find((l) => l.id === parsed.layerId);
-  if (!layer) return "";
-
-  const feature = layer.geojson.features[parsed.index];
+  const feature = resolveFeatureId(featureId, layers)?.feature;
   if (!feature) return "";
 
   return generateFeatureName(feature.properties as Record<string, unknown> | null);